@@ -0,0 +1,6 @@
+// binary-assets.d.ts - Binary files bundled as assets (see metro.config.js)
+declare module '*.bin' {
+  /** Asset module id, for Asset.fromModule() */
+  const asset: number;
+  export default asset;
+}
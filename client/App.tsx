@@ -5,18 +5,23 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
+import { ShareIntentProvider } from "expo-share-intent";
 
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "@/lib/query-client";
 
 import RootStackNavigator from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { BlocklistShareHandler } from "@/components/BlocklistShareHandler";
 import { BrowserProvider } from "@/lib/browser-context";
 import { initializeBlocklists } from "@/lib/Blocklist/blocklist";
+import { loadShortLinkCheckSettings } from "@/lib/short-link-check";
 
 export default function App() {
   useEffect(() => {
     const initializeApp = async () => {
+      // Short links are only held once the setting is known
+      loadShortLinkCheckSettings();
       try {
         console.log("[App] Initializing blocklists...");
         await initializeBlocklists();
@@ -31,20 +36,23 @@ export default function App() {
 
   return (
     <ErrorBoundary>
-      <QueryClientProvider client={queryClient}>
-        <BrowserProvider>
-          <SafeAreaProvider>
-            <GestureHandlerRootView style={styles.root}>
-              <KeyboardProvider>
-                <NavigationContainer>
-                  <RootStackNavigator />
-                </NavigationContainer>
-                <StatusBar style="auto" />
-              </KeyboardProvider>
-            </GestureHandlerRootView>
-          </SafeAreaProvider>
-        </BrowserProvider>
-      </QueryClientProvider>
+      <ShareIntentProvider>
+        <QueryClientProvider client={queryClient}>
+          <BrowserProvider>
+            <SafeAreaProvider>
+              <GestureHandlerRootView style={styles.root}>
+                <KeyboardProvider>
+                  <NavigationContainer>
+                    <RootStackNavigator />
+                    <BlocklistShareHandler />
+                  </NavigationContainer>
+                  <StatusBar style="auto" />
+                </KeyboardProvider>
+              </GestureHandlerRootView>
+            </SafeAreaProvider>
+          </BrowserProvider>
+        </QueryClientProvider>
+      </ShareIntentProvider>
     </ErrorBoundary>
   );
 }
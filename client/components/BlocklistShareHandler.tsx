@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { Alert } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useShareIntentContext } from "expo-share-intent";
+
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { readSharedBlocklist, setPendingBlocklistImport } from "@/lib/Blocklist";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+/**
+ * Opens the Blocklists screen with the import preview when a list file,
+ * a few domains or a list URL is shared to the app from another app.
+ */
+export function BlocklistShareHandler() {
+  const navigation = useNavigation<NavigationProp>();
+  const { hasShareIntent, shareIntent, resetShareIntent } = useShareIntentContext();
+
+  useEffect(() => {
+    if (!hasShareIntent) return;
+
+    readSharedBlocklist(shareIntent)
+      .then((shared) => {
+        if (!shared) {
+          Alert.alert("Nothing to Import", "The shared content does not contain any domains or filter rules.");
+          return;
+        }
+        setPendingBlocklistImport(shared);
+        navigation.navigate("Main", { screen: "Blocklists" });
+      })
+      .catch((error) => {
+        console.warn("[Blocklists] Could not read shared content:", error);
+        Alert.alert("Import Failed", "Could not read the shared file.");
+      })
+      .finally(() => resetShareIntent());
+  }, [hasShareIntent, shareIntent, resetShareIntent, navigation]);
+
+  return null;
+}
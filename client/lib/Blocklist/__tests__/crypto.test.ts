@@ -0,0 +1,147 @@
+/**
+ * Crypto tests
+ *
+ * The SHA-256, SHA-512 and Ed25519 implementations in crypto.ts against
+ * the NIST FIPS 180 examples and the RFC 8032 (section 7.1) test vectors,
+ * and signatures that must fail. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { base64Decode, ed25519Verify, sha256, sha512, toHex, utf8Encode } from '../crypto';
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(Buffer.from(hex, 'hex'));
+}
+
+// Message, SHA-256, SHA-512 (NIST FIPS 180 examples)
+const SHA_VECTORS: [string, string, string][] = [
+  [
+    '',
+    'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e',
+  ],
+  [
+    'abc',
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+  ],
+  [
+    'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+    '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    '204a8fc6dda82f0a0ced7beb8e08a41657c16ef468b228a8279be331a703c33596fd15c13b1b07f9aa1d3bea57789ca031ad85c7a71dd70354ec631238ca3445',
+  ],
+  [
+    'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+    'cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1',
+    '8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909',
+  ],
+];
+
+// Public key, message, signature (RFC 8032 section 7.1, tests 1 to 3)
+const ED25519_VECTORS: [string, string, string][] = [
+  [
+    'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+    '',
+    'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+  ],
+  [
+    '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+    '72',
+    '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+  ],
+  [
+    'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+    'af82',
+    '6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a',
+  ],
+];
+
+describe('sha256', () => {
+  it('matches the NIST examples', () => {
+    for (const [message, digest] of SHA_VECTORS) {
+      assert.equal(toHex(sha256(utf8Encode(message))), digest, message);
+    }
+  });
+
+  it('hashes a million repetitions of "a"', () => {
+    assert.equal(
+      toHex(sha256(utf8Encode('a'.repeat(1000000)))),
+      'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0'
+    );
+  });
+
+  it('pads messages on either side of a block boundary', () => {
+    // 55 bytes fit the length in the last block, 56 need another block
+    assert.equal(toHex(sha256(utf8Encode('a'.repeat(55)))), '9f4390f8d30c2dd92ec9f095b65e2b9ae9b0a925a5258e241c9f1e910f734318');
+    assert.equal(toHex(sha256(utf8Encode('a'.repeat(56)))), 'b35439a4ac6f0948b6d6f9e3c6af0f5f590ce20f1bde7090ef7970686ec6738a');
+  });
+});
+
+describe('sha512', () => {
+  it('matches the NIST examples', () => {
+    for (const [message, , digest] of SHA_VECTORS) {
+      assert.equal(toHex(sha512(utf8Encode(message))), digest, message);
+    }
+  });
+});
+
+describe('ed25519Verify', () => {
+  it('accepts the RFC 8032 signatures', () => {
+    for (const [publicKey, message, signature] of ED25519_VECTORS) {
+      assert.equal(ed25519Verify(fromHex(signature), fromHex(message), fromHex(publicKey)), true, signature);
+    }
+  });
+
+  it('rejects a tampered message', () => {
+    const [publicKey, , signature] = ED25519_VECTORS[2];
+    assert.equal(ed25519Verify(fromHex(signature), fromHex('af83'), fromHex(publicKey)), false);
+    assert.equal(ed25519Verify(fromHex(signature), fromHex('af8200'), fromHex(publicKey)), false);
+  });
+
+  it('rejects a tampered signature', () => {
+    const [publicKey, message, signature] = ED25519_VECTORS[1];
+    for (const index of [0, 31, 32, 63]) {
+      const tampered = fromHex(signature);
+      tampered[index] ^= 0x01;
+      assert.equal(ed25519Verify(tampered, fromHex(message), fromHex(publicKey)), false, `byte ${index}`);
+    }
+  });
+
+  it('rejects a signature with S not reduced mod L', () => {
+    const [publicKey, message, signature] = ED25519_VECTORS[0];
+    const tampered = fromHex(signature);
+    // S + L encodes the same scalar but must not verify (RFC 8032 section 5.1.7)
+    const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+    let s = BigInt('0x' + Buffer.from(tampered.subarray(32)).reverse().toString('hex')) + L;
+    for (let i = 32; i < 64; i++) {
+      tampered[i] = Number(s & 0xffn);
+      s >>= 8n;
+    }
+    assert.equal(ed25519Verify(tampered, fromHex(message), fromHex(publicKey)), false);
+  });
+
+  it('rejects the wrong key', () => {
+    const [, message, signature] = ED25519_VECTORS[1];
+    const [otherKey] = ED25519_VECTORS[2];
+    assert.equal(ed25519Verify(fromHex(signature), fromHex(message), fromHex(otherKey)), false);
+  });
+
+  it('rejects signatures and keys of the wrong length', () => {
+    const [publicKey, message, signature] = ED25519_VECTORS[0];
+    assert.equal(ed25519Verify(fromHex(signature).subarray(0, 63), fromHex(message), fromHex(publicKey)), false);
+    assert.equal(ed25519Verify(fromHex(signature), fromHex(message), fromHex(publicKey).subarray(1)), false);
+  });
+});
+
+describe('base64Decode', () => {
+  it('reads standard and URL-safe base64 with whitespace', () => {
+    assert.equal(toHex(base64Decode('+/8=')!), 'fbff');
+    assert.equal(toHex(base64Decode('-_8')!), 'fbff');
+    assert.equal(toHex(base64Decode(' AAEC\nAw== ')!), '00010203');
+  });
+
+  it('rejects text that is not base64', () => {
+    assert.equal(base64Decode('abc$'), null);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * DNS-over-HTTPS tests
+ *
+ * The DoH client of doh.ts against a local HTTP server answering in DNS
+ * wire format: alias chains over several responses, name compression,
+ * negative answers, TTL expiry and failures, and the check of a chain
+ * against the blocklists (findBlockedAlias() in dns-check.ts). Run with
+ * `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { findBlockedAlias } from '../dns-check';
+import {
+  decodeDnsMessage,
+  DNS_RCODE_NOERROR,
+  DNS_RCODE_NXDOMAIN,
+  DNS_TYPE_A,
+  DNS_TYPE_CNAME,
+  DNS_TYPE_SOA,
+  DohResolver,
+  encodeDnsQuery,
+} from '../doh';
+import { DomainMatcher } from '../matcher';
+
+interface TestRecord {
+  name: string;
+  type: number;
+  ttl: number;
+  /** CNAME target, IPv4 address, or the SOA minimum */
+  data: string;
+}
+
+interface TestAnswer {
+  rcode?: number;
+  answers?: TestRecord[];
+  authority?: TestRecord[];
+}
+
+const RCODE_SERVFAIL = 2;
+
+/**
+ * Encode a response in DNS wire format, compressing every name that
+ * repeats one written before (RFC 1035 section 4.1.4)
+ */
+function encodeResponse(question: string, { rcode = DNS_RCODE_NOERROR, answers = [], authority = [] }: TestAnswer): Uint8Array {
+  const bytes: number[] = [0, 0, 0x81, 0x80 | rcode, 0, 1, answers.length >> 8, answers.length & 0xff, authority.length >> 8, authority.length & 0xff, 0, 0];
+  const offsets = new Map<string, number>();
+  const pushUint16 = (value: number) => bytes.push((value >> 8) & 0xff, value & 0xff);
+  const pushUint32 = (value: number) => bytes.push((value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+
+  const writeName = (name: string) => {
+    const labels = name.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const suffix = labels.slice(i).join('.');
+      const offset = offsets.get(suffix);
+      if (offset !== undefined) {
+        pushUint16(0xc000 | offset);
+        return;
+      }
+      offsets.set(suffix, bytes.length);
+      bytes.push(labels[i].length, ...Array.from(labels[i], c => c.charCodeAt(0)));
+    }
+    bytes.push(0);
+  };
+
+  writeName(question);
+  pushUint16(DNS_TYPE_A);
+  pushUint16(1);
+
+  for (const record of [...answers, ...authority]) {
+    writeName(record.name);
+    pushUint16(record.type);
+    pushUint16(1);
+    pushUint32(record.ttl);
+    const lengthAt = bytes.length;
+    pushUint16(0);
+    if (record.type === DNS_TYPE_CNAME) {
+      writeName(record.data);
+    } else if (record.type === DNS_TYPE_A) {
+      bytes.push(...record.data.split('.').map(Number));
+    } else if (record.type === DNS_TYPE_SOA) {
+      writeName(`ns.${record.name}`);
+      writeName(`hostmaster.${record.name}`);
+      [1, 7200, 900, 1209600, Number(record.data)].forEach(pushUint32);
+    }
+    const length = bytes.length - lengthAt - 2;
+    bytes[lengthAt] = length >> 8;
+    bytes[lengthAt + 1] = length & 0xff;
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// The name asked about in a query
+function readQuestion(query: Uint8Array): string {
+  const labels: string[] = [];
+  for (let position = 12; query[position] !== 0; position += query[position] + 1) {
+    labels.push(String.fromCharCode(...query.subarray(position + 1, position + 1 + query[position])));
+  }
+  return labels.join('.');
+}
+
+const cname = (name: string, target: string, ttl: number = 300): TestRecord => ({ name, type: DNS_TYPE_CNAME, ttl, data: target });
+const address = (name: string, ttl: number = 300): TestRecord => ({ name, type: DNS_TYPE_A, ttl, data: '192.0.2.1' });
+
+describe('decodeDnsMessage', () => {
+  it('reads compressed names', () => {
+    const bytes = encodeResponse('www.site.example', {
+      answers: [cname('www.site.example', 'cdn.site.example'), address('cdn.site.example', 60)],
+    });
+    // Both owner names and the alias target point back into the question
+    assert.ok(bytes.filter(b => b === 0xc0).length >= 3);
+    assert.deepEqual(decodeDnsMessage(bytes), {
+      id: 0,
+      rcode: DNS_RCODE_NOERROR,
+      answers: [
+        { name: 'www.site.example', type: DNS_TYPE_CNAME, ttl: 300, data: 'cdn.site.example' },
+        { name: 'cdn.site.example', type: DNS_TYPE_A, ttl: 60, data: '192.0.2.1' },
+      ],
+      authority: [],
+    });
+  });
+
+  it('reads the negative TTL of an SOA record', () => {
+    const bytes = encodeResponse('gone.example', {
+      rcode: DNS_RCODE_NXDOMAIN,
+      authority: [{ name: 'example', type: DNS_TYPE_SOA, ttl: 3600, data: '120' }],
+    });
+    const message = decodeDnsMessage(bytes);
+    assert.equal(message.rcode, DNS_RCODE_NXDOMAIN);
+    assert.deepEqual(message.authority, [{ name: 'example', type: DNS_TYPE_SOA, ttl: 3600, data: '120' }]);
+  });
+
+  // One A record whose name is a chain of `pointers` compression pointers
+  // (the record's own included) ending at the name 'a'
+  function pointerChain(pointers: number): Uint8Array {
+    // Header with one answer, then the record: name (filled in below), type
+    // A, class IN, TTL 60 and a 4-byte address
+    const bytes = [0, 0, 0x81, 0x80, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, DNS_TYPE_A, 0, 1, 0, 0, 0, 60, 0, 4, 192, 0, 2, 1];
+    let target = bytes.length;
+    bytes.push(1, 'a'.charCodeAt(0), 0);
+    for (let i = 1; i < pointers; i++) {
+      const at = bytes.length;
+      bytes.push(0xc0 | (target >> 8), target & 0xff);
+      target = at;
+    }
+    bytes[12] = 0xc0 | (target >> 8);
+    bytes[13] = target & 0xff;
+    return new Uint8Array(bytes);
+  }
+
+  it('follows up to 32 compression pointers in a name', () => {
+    assert.equal(decodeDnsMessage(pointerChain(32)).answers[0].name, 'a');
+    assert.throws(() => decodeDnsMessage(pointerChain(33)), /compression loop/);
+  });
+
+  it('rejects a name pointing to itself', () => {
+    const bytes = new Uint8Array([0, 0, 0x81, 0x80, 0, 0, 0, 1, 0, 0, 0, 0, 0xc0, 12]);
+    assert.throws(() => decodeDnsMessage(bytes), /compression loop/);
+  });
+
+  it('rejects truncated messages', () => {
+    const bytes = encodeResponse('www.site.example', { answers: [address('www.site.example')] });
+    assert.throws(() => decodeDnsMessage(bytes.subarray(0, 8)), /Truncated/);
+    assert.throws(() => decodeDnsMessage(bytes.subarray(0, bytes.length - 2)), /Truncated/);
+  });
+});
+
+describe('encodeDnsQuery', () => {
+  it('encodes a recursive A query', () => {
+    const query = encodeDnsQuery('WWW.Site.Example.');
+    assert.equal(readQuestion(query), 'www.site.example');
+    assert.deepEqual(Array.from(query.subarray(0, 6)), [0, 0, 1, 0, 0, 1]);
+  });
+
+  it('rejects names that cannot be sent', () => {
+    assert.throws(() => encodeDnsQuery('a..example'), /Invalid DNS name/);
+    assert.throws(() => encodeDnsQuery(`${'a'.repeat(64)}.example`), /Invalid DNS name/);
+  });
+});
+
+describe('DohResolver', () => {
+  let server: Server;
+  let endpoint: string;
+  // Answer (or HTTP status) by name asked about, and the names asked
+  let answers: { [name: string]: TestAnswer | number };
+  let requested: string[];
+
+  const realNow = Date.now;
+  let clockOffset = 0;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      const dns = new URL(request.url!, 'http://localhost').searchParams.get('dns') || '';
+      assert.equal(request.headers.accept, 'application/dns-message');
+      const name = readQuestion(new Uint8Array(Buffer.from(dns, 'base64url')));
+      requested.push(name);
+
+      const answer = answers[name] ?? { rcode: DNS_RCODE_NXDOMAIN };
+      if (typeof answer === 'number') {
+        response.writeHead(answer).end();
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/dns-message' });
+      response.end(Buffer.from(encodeResponse(name, answer)));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/dns-query`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    answers = {};
+    requested = [];
+    clockOffset = 0;
+    Date.now = () => realNow() + clockOffset;
+  });
+
+  afterEach(() => {
+    Date.now = realNow;
+  });
+
+  it('follows an alias chain over several responses and caches it', async () => {
+    answers['www.site.example'] = { answers: [cname('www.site.example', 'cdn.site.example')] };
+    answers['cdn.site.example'] = {
+      answers: [cname('cdn.site.example', 'edge.tracker.example'), address('edge.tracker.example')],
+    };
+    const resolver = new DohResolver({ endpoint });
+
+    assert.deepEqual(await resolver.resolveCnameChain('www.site.example'), ['cdn.site.example', 'edge.tracker.example']);
+    assert.deepEqual(requested, ['www.site.example', 'cdn.site.example']);
+
+    assert.deepEqual(resolver.getCachedCnameChain('WWW.site.example.'), ['cdn.site.example', 'edge.tracker.example']);
+    assert.deepEqual(await resolver.resolveCnameChain('www.site.example'), ['cdn.site.example', 'edge.tracker.example']);
+    assert.equal(requested.length, 2);
+  });
+
+  it('learns a whole chain from one response', async () => {
+    answers['a.example'] = {
+      answers: [cname('a.example', 'b.example'), cname('b.example', 'c.example'), address('c.example')],
+    };
+    const resolver = new DohResolver({ endpoint });
+    assert.deepEqual(await resolver.resolveCnameChain('a.example'), ['b.example', 'c.example']);
+    assert.deepEqual(resolver.getCachedCnameChain('b.example'), ['c.example']);
+    assert.deepEqual(requested, ['a.example']);
+  });
+
+  it('stops at alias loops and at the longest chain allowed', async () => {
+    answers['loop.example'] = { answers: [cname('loop.example', 'back.example'), cname('back.example', 'loop.example')] };
+    assert.deepEqual(await new DohResolver({ endpoint }).resolveCnameChain('loop.example'), ['back.example']);
+
+    answers['n0.example'] = { answers: [cname('n0.example', 'n1.example')] };
+    answers['n1.example'] = { answers: [cname('n1.example', 'n2.example')] };
+    answers['n2.example'] = { answers: [cname('n2.example', 'n3.example')] };
+    assert.deepEqual(await new DohResolver({ endpoint, maxChainLength: 2 }).resolveCnameChain('n0.example'), ['n1.example', 'n2.example']);
+  });
+
+  it('caches a name that does not exist for the SOA negative TTL', async () => {
+    answers['gone.example'] = {
+      rcode: DNS_RCODE_NXDOMAIN,
+      authority: [{ name: 'example', type: DNS_TYPE_SOA, ttl: 3600, data: '120' }],
+    };
+    const resolver = new DohResolver({ endpoint });
+
+    assert.deepEqual(await resolver.resolveCnameChain('gone.example'), []);
+    clockOffset = 119 * 1000;
+    assert.deepEqual(resolver.getCachedCnameChain('gone.example'), []);
+    clockOffset = 121 * 1000;
+    assert.equal(resolver.getCachedCnameChain('gone.example'), null);
+  });
+
+  it('forgets answers when their TTL runs out', async () => {
+    answers['www.site.example'] = { answers: [cname('www.site.example', 'cdn.site.example', 30), address('cdn.site.example', 600)] };
+    const resolver = new DohResolver({ endpoint });
+
+    await resolver.resolveCnameChain('www.site.example');
+    clockOffset = 29 * 1000;
+    assert.deepEqual(resolver.getCachedCnameChain('www.site.example'), ['cdn.site.example']);
+    clockOffset = 31 * 1000;
+    assert.equal(resolver.getCachedCnameChain('www.site.example'), null);
+    // The target's own answer lives longer
+    assert.deepEqual(resolver.getCachedCnameChain('cdn.site.example'), []);
+
+    assert.deepEqual(await resolver.resolveCnameChain('www.site.example'), ['cdn.site.example']);
+    assert.deepEqual(requested, ['www.site.example', 'www.site.example']);
+  });
+
+  it('shares one request between concurrent lookups', async () => {
+    answers['www.site.example'] = { answers: [address('www.site.example')] };
+    const resolver = new DohResolver({ endpoint });
+    const chains = await Promise.all([resolver.resolveCnameChain('www.site.example'), resolver.resolveCnameChain('www.site.example')]);
+    assert.deepEqual(chains, [[], []]);
+    assert.deepEqual(requested, ['www.site.example']);
+  });
+
+  it('fails on HTTP errors and failed queries, without caching', async () => {
+    const resolver = new DohResolver({ endpoint });
+
+    answers['www.site.example'] = 503;
+    await assert.rejects(resolver.resolveCnameChain('www.site.example'), /HTTP 503/);
+    answers['www.site.example'] = { rcode: RCODE_SERVFAIL };
+    await assert.rejects(resolver.resolveCnameChain('www.site.example'), /rcode 2/);
+    assert.equal(resolver.getCachedCnameChain('www.site.example'), null);
+
+    answers['www.site.example'] = { answers: [address('www.site.example')] };
+    assert.deepEqual(await resolver.resolveCnameChain('www.site.example'), []);
+  });
+
+  it('flags a blocked name in the alias chain', async () => {
+    answers['metrics.shop.example'] = { answers: [cname('metrics.shop.example', 'shop.edge.tracker.example')] };
+    answers['shop.edge.tracker.example'] = { answers: [cname('shop.edge.tracker.example', 'lb.cdn.example'), address('lb.cdn.example')] };
+    const resolver = new DohResolver({ endpoint });
+    const matcher = DomainMatcher.build([{ id: 'trackers', domains: ['tracker.example'] }], { allowlist: ['trusted.example'] });
+
+    const aliases = await resolver.resolveCnameChain('metrics.shop.example');
+    assert.deepEqual(findBlockedAlias(matcher, 'metrics.shop.example', aliases), {
+      alias: 'shop.edge.tracker.example',
+      match: { domain: 'tracker.example', source: 'trackers' },
+    });
+    assert.equal(findBlockedAlias(matcher, 'metrics.shop.example', ['lb.cdn.example']), null);
+    // An allowlisted host is not blocked through its aliases
+    assert.equal(findBlockedAlias(matcher, 'www.trusted.example', aliases), null);
+  });
+});
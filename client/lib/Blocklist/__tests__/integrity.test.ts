@@ -0,0 +1,133 @@
+/**
+ * Integrity tests
+ *
+ * The checks a downloaded list must pass in integrity.ts: the pinned
+ * SHA-256, the detached Ed25519 signature (fetched from a stubbed fetch)
+ * and the shrink limit. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  checkBlocklistShrink,
+  DEFAULT_MAX_SHRINK_PERCENT,
+  getSignatureUrl,
+  isValidPublicKey,
+  isValidSha256,
+  verifyBlocklistContent,
+} from '../integrity';
+
+function toBase64(hex: string): string {
+  return Buffer.from(hex, 'hex').toString('base64');
+}
+
+const LIST_URL = 'https://lists.example/hosts.txt';
+// SHA-256 of 'abc'
+const ABC_SHA256 = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+// RFC 8032 section 7.1, test 2: the message is the single byte 0x72, 'r' in UTF-8
+const PUBLIC_KEY = toBase64('3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c');
+const SIGNATURE = toBase64(
+  '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00'
+);
+// RFC 8032 test 3's key, which did not sign 'r'
+const OTHER_PUBLIC_KEY = toBase64('fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025');
+
+describe('verifyBlocklistContent', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  // Serve a signature file, recording the URLs requested
+  function stubSignature(body: string, status: number = 200): string[] {
+    const requested: string[] = [];
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      requested.push(String(input));
+      return new Response(body, { status });
+    }) as typeof fetch;
+    return requested;
+  }
+
+  it('passes lists that are neither pinned nor signed', async () => {
+    assert.equal(await verifyBlocklistContent('anything', LIST_URL, {}), null);
+  });
+
+  it('passes a list matching its pinned SHA-256, in either case', async () => {
+    assert.equal(await verifyBlocklistContent('abc', LIST_URL, { sha256: ABC_SHA256 }), null);
+    assert.equal(await verifyBlocklistContent('abc', LIST_URL, { sha256: ABC_SHA256.toUpperCase() }), null);
+  });
+
+  it('rejects a list that does not match its pinned SHA-256', async () => {
+    const rejection = await verifyBlocklistContent('abd', LIST_URL, { sha256: ABC_SHA256 });
+    assert.equal(rejection?.reason, 'checksum');
+    assert.match(rejection!.message, new RegExp(`expected ${ABC_SHA256}`));
+  });
+
+  it('checks the checksum before fetching the signature', async () => {
+    const requested = stubSignature(SIGNATURE);
+    const rejection = await verifyBlocklistContent('abd', LIST_URL, { sha256: ABC_SHA256, publicKey: PUBLIC_KEY });
+    assert.equal(rejection?.reason, 'checksum');
+    assert.deepEqual(requested, []);
+  });
+
+  it('passes a list with a valid signature from the .sig file', async () => {
+    const requested = stubSignature(`${SIGNATURE}\n`);
+    assert.equal(await verifyBlocklistContent('r', LIST_URL, { publicKey: PUBLIC_KEY }), null);
+    assert.deepEqual(requested, [`${LIST_URL}.sig`]);
+  });
+
+  it('rejects a tampered list', async () => {
+    stubSignature(SIGNATURE);
+    assert.equal((await verifyBlocklistContent('s', LIST_URL, { publicKey: PUBLIC_KEY }))?.reason, 'signature');
+  });
+
+  it('rejects a signature from another key', async () => {
+    stubSignature(SIGNATURE);
+    assert.equal((await verifyBlocklistContent('r', LIST_URL, { publicKey: OTHER_PUBLIC_KEY }))?.reason, 'signature');
+  });
+
+  it('rejects a missing or malformed signature', async () => {
+    stubSignature('Not found', 404);
+    assert.match((await verifyBlocklistContent('r', LIST_URL, { publicKey: PUBLIC_KEY }))!.message, /HTTP 404/);
+    stubSignature('not a signature');
+    assert.equal((await verifyBlocklistContent('r', LIST_URL, { publicKey: PUBLIC_KEY }))?.reason, 'signature');
+  });
+
+  it('rejects a public key that is not 32 bytes', async () => {
+    const rejection = await verifyBlocklistContent('r', LIST_URL, { publicKey: 'AAAA' });
+    assert.equal(rejection?.reason, 'signature');
+  });
+});
+
+describe('checkBlocklistShrink', () => {
+  it(`allows a list to lose up to ${DEFAULT_MAX_SHRINK_PERCENT}% of its rules`, () => {
+    assert.equal(checkBlocklistShrink(1000, 500), null);
+    assert.equal(checkBlocklistShrink(1000, 1200), null);
+    assert.match(checkBlocklistShrink(1000, 499)!, /shrank by 50%.*more than the 50% allowed/);
+    assert.match(checkBlocklistShrink(1000, 0)!, /shrank by 100%/);
+  });
+
+  it('takes another limit', () => {
+    assert.equal(checkBlocklistShrink(1000, 850, 20), null);
+    assert.notEqual(checkBlocklistShrink(1000, 750, 20), null);
+  });
+
+  it('has nothing to compare against without a previous copy', () => {
+    assert.equal(checkBlocklistShrink(0, 0), null);
+  });
+});
+
+describe('integrity settings', () => {
+  it('validates pins and keys', () => {
+    assert.equal(isValidSha256(ABC_SHA256), true);
+    assert.equal(isValidSha256(ABC_SHA256.slice(1)), false);
+    assert.equal(isValidPublicKey(PUBLIC_KEY), true);
+    assert.equal(isValidPublicKey('AAAA'), false);
+  });
+
+  it('finds the signature next to the list unless configured', () => {
+    assert.equal(getSignatureUrl(LIST_URL, {}), `${LIST_URL}.sig`);
+    assert.equal(getSignatureUrl(LIST_URL, { signatureUrl: 'https://keys.example/sig' }), 'https://keys.example/sig');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Matcher tests
+ *
+ * Golden lookups against the embedded blocklist (fixtures/golden-embedded.tsv)
+ * and the matching rules of DomainMatcher on small lists. Run with `npm test`.
+ *
+ * isDomainBlocked() needs the React Native modules of manager.ts, so the
+ * golden test builds the embedded matcher from the asset with the sources
+ * getEmbeddedSources() uses and looks hosts up the way findBlockingEntry()
+ * does.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { decodeEmbeddedBlocklist, toEmbeddedSources } from '../embedded-sources';
+import { DomainMatcher } from '../matcher';
+
+const EMBEDDED_BLOCKLIST_PATH = join(__dirname, '..', '..', '..', '..', 'assets', 'blocklists', 'embedded.bin');
+
+function buildEmbeddedMatcher(): DomainMatcher {
+  return DomainMatcher.build(toEmbeddedSources(decodeEmbeddedBlocklist(readFileSync(EMBEDDED_BLOCKLIST_PATH))));
+}
+
+/**
+ * Read the golden file: host, blocking entry and source ('-' when not blocked)
+ */
+function readGoldenLookups(): { host: string; domain: string; source: string }[] {
+  return readFileSync(join(__dirname, 'fixtures', 'golden-embedded.tsv'), 'utf8')
+    .split('\n')
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => {
+      const [host, domain, source] = line.split('\t');
+      return { host, domain, source };
+    });
+}
+
+describe('isDomainBlocked on the embedded blocklist', () => {
+  const matcher = buildEmbeddedMatcher();
+
+  for (const { host, domain, source } of readGoldenLookups()) {
+    it(`${host} -> ${domain === '-' ? 'not blocked' : `${domain} (${source})`}`, () => {
+      const match = matcher.match(host.toLowerCase().replace(/^www\./, ''));
+      assert.deepEqual(match, domain === '-' ? null : { domain, source });
+    });
+  }
+});
+
+describe('DomainMatcher', () => {
+  it('blocks a domain and its subdomains, not its parents or look-alikes', () => {
+    const matcher = DomainMatcher.build([{ id: 'test', domains: ['example.com'] }]);
+    assert.equal(matcher.isBlocked('example.com'), true);
+    assert.equal(matcher.isBlocked('a.b.example.com'), true);
+    assert.equal(matcher.isBlocked('Example.COM.'), true);
+    assert.equal(matcher.isBlocked('com'), false);
+    assert.equal(matcher.isBlocked('notexample.com'), false);
+    assert.equal(matcher.isBlocked('example.com.evil.net'), false);
+  });
+
+  it('reports the most specific entry', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'parent', domains: ['example.com'] },
+      { id: 'child', domains: ['ads.example.com'] },
+    ]);
+    assert.deepEqual(matcher.match('x.ads.example.com'), { domain: 'ads.example.com', source: 'child' });
+    assert.deepEqual(matcher.match('www.example.com'), { domain: 'example.com', source: 'parent' });
+  });
+
+  it('gives a domain listed twice to the first source', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'first', domains: ['example.com'] },
+      { id: 'second', domains: ['example.com'] },
+    ]);
+    assert.deepEqual(matcher.match('example.com'), { domain: 'example.com', source: 'first' });
+    assert.equal(matcher.size, 1);
+  });
+
+  it('matches Unicode hosts against punycode entries', () => {
+    const matcher = DomainMatcher.build([{ id: 'test', domains: ['xn--bcher-kva.example'] }]);
+    assert.equal(matcher.isBlocked('bücher.example'), true);
+    assert.equal(matcher.isBlocked('www.BÜCHER.example'), true);
+  });
+
+  it('scopes exceptions to their own source', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'ads', domains: ['example.com'], exceptions: ['cdn.example.com'] },
+      { id: 'trackers', domains: ['metrics.cdn.example.com'] },
+    ]);
+    assert.equal(matcher.match('cdn.example.com'), null);
+    assert.equal(matcher.match('img.cdn.example.com'), null);
+    assert.deepEqual(matcher.match('metrics.cdn.example.com'), { domain: 'metrics.cdn.example.com', source: 'trackers' });
+    assert.deepEqual(matcher.match('www.example.com'), { domain: 'example.com', source: 'ads' });
+  });
+
+  it('falls back to another source when the first one excepts a domain', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'first', domains: ['example.com'], exceptions: ['example.com'] },
+      { id: 'second', domains: ['example.com'] },
+    ]);
+    assert.deepEqual(matcher.match('example.com'), { domain: 'example.com', source: 'second' });
+  });
+
+  it('lets the allowlist override every source', () => {
+    const matcher = DomainMatcher.build(
+      [
+        { id: 'domains', domains: ['example.com'] },
+        { id: 'patterns', domains: [], patterns: ['ads*.example.com'] },
+        { id: 'ips', domains: [], ipRanges: ['10.0.0.0/8'] },
+      ],
+      { allowlist: ['good.example.com', '10.1.2.3'] }
+    );
+    assert.equal(matcher.isBlocked('good.example.com'), false);
+    assert.equal(matcher.isBlocked('www.good.example.com'), false);
+    assert.equal(matcher.isBlocked('ads1.example.com'), true);
+    assert.equal(matcher.isBlocked('10.1.2.3'), false);
+    assert.equal(matcher.isBlocked('10.1.2.4'), true);
+    assert.equal(matcher.isAllowlisted('sub.good.example.com'), true);
+  });
+
+  it('checks host patterns after exact entries', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'exact', domains: ['ads1.example.com'] },
+      { id: 'patterns', domains: [], patterns: ['ads*.example.com', '/^track\\d+\\.example\\.net$/'] },
+    ]);
+    assert.deepEqual(matcher.match('ads1.example.com'), { domain: 'ads1.example.com', source: 'exact' });
+    assert.deepEqual(matcher.match('ads22.example.com'), { domain: 'ads*.example.com', source: 'patterns' });
+    assert.deepEqual(matcher.match('track7.example.net'), { domain: '/^track\\d+\\.example\\.net$/', source: 'patterns' });
+    assert.equal(matcher.match('track.example.net'), null);
+  });
+
+  it('matches IP hosts against addresses and CIDR ranges only', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'ips', domains: [], ipRanges: ['1.2.3.4', '192.168.0.0/16', '2001:db8::/32'] },
+    ]);
+    assert.deepEqual(matcher.match('1.2.3.4'), { domain: '1.2.3.4', source: 'ips' });
+    assert.deepEqual(matcher.match('192.168.10.20'), { domain: '192.168.0.0/16', source: 'ips' });
+    assert.deepEqual(matcher.match('[2001:DB8::1]'), { domain: '2001:db8::/32', source: 'ips' });
+    assert.deepEqual(matcher.match('::ffff:192.168.1.1'), { domain: '192.168.0.0/16', source: 'ips' });
+    assert.equal(matcher.match('192.169.0.1'), null);
+    assert.equal(matcher.match('4.1.2.3.4'), null);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Native request rules tests
+ *
+ * The rules file written for the Android request interceptor
+ * (native-rules-format.ts), built from a DomainMatcher the way
+ * syncNativeRequestRules() does. The interceptor has no list exceptions,
+ * so the hosts written must already be the ones still blocked by some
+ * list. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DomainMatcher } from '../matcher';
+import { serializeNativeRequestRules } from '../native-rules-format';
+
+function serialize(matcher: DomainMatcher, allowlist: string[] = []): string[] {
+  return serializeNativeRequestRules({
+    blockedHosts: matcher.blockingToArray(),
+    hostPatterns: matcher.patternsToRegExpSources(),
+    ipRanges: matcher.ipRangesToArray(),
+    allowlist,
+    filters: [],
+  }).trimEnd().split('\n');
+}
+
+describe('serializeNativeRequestRules', () => {
+  it('writes one record per line after the version', () => {
+    const lines = serializeNativeRequestRules({
+      blockedHosts: ['ads.example'],
+      hostPatterns: ['^ads\\d+\\.example$', 'bad\nregex'],
+      ipRanges: ['192.0.2.0/24'],
+      allowlist: ['ok.example'],
+      filters: [
+        { kind: 'block', token: 'banner', regex: '/banner/', typeMask: 4, thirdParty: true },
+        { kind: 'exception', token: '', regex: 'line\nbreak', typeMask: 0 },
+      ],
+    }).split('\n');
+
+    assert.deepEqual(lines, [
+      'v\t1',
+      'b\tads.example',
+      'p\t^ads\\d+\\.example$',
+      'i\t192.0.2.0/24',
+      'a\tok.example',
+      'f\tb\tbanner\t4\t1\t/banner/',
+      '',
+    ]);
+  });
+
+  it('keeps hosts an exception from another list does not cover', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'ads', domains: ['tracker.example'] },
+      { id: 'other', domains: ['other.example'], exceptions: ['tracker.example'] },
+    ]);
+    const lines = serialize(matcher);
+
+    assert.ok(lines.includes('b\ttracker.example'));
+    assert.ok(lines.includes('b\tother.example'));
+    assert.ok(!lines.some(line => line.startsWith('x\t')));
+  });
+
+  it('leaves out hosts excepted by every list that blocks them', () => {
+    const matcher = DomainMatcher.build([
+      { id: 'first', domains: ['shared.example', 'cdn.site.example'], exceptions: ['shared.example', 'site.example'] },
+      { id: 'second', domains: ['shared.example', 'own.example'], exceptions: ['own.example'] },
+    ]);
+    const blocked = serialize(matcher).filter(line => line.startsWith('b\t'));
+
+    // second still blocks shared.example; first excepts cdn.site.example through its parent
+    assert.deepEqual(blocked, ['b\tshared.example']);
+    assert.equal(matcher.isBlocked('shared.example'), true);
+    assert.equal(matcher.isBlocked('cdn.site.example'), false);
+    assert.equal(matcher.isBlocked('own.example'), false);
+  });
+
+  it('writes the allowlist apart from the blocked hosts', () => {
+    const matcher = DomainMatcher.build([{ id: 'ads', domains: ['ads.example'] }], { allowlist: ['ads.example'] });
+    assert.deepEqual(serialize(matcher, ['ads.example']), ['v\t1', 'b\tads.example', 'a\tads.example']);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Parser tests
+ *
+ * One fixture per list format in fixtures/, covering the rules each parser
+ * applies, approximates or reports as unsupported. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  detectBlocklistFormat,
+  parseAdGuardFormat,
+  parseDomainsFormat,
+  parseDomainsRules,
+  parseEasyListFormat,
+  parseEasyListRules,
+  parseHostsFormat,
+  parseHostsRules,
+  RuleReport,
+} from '../parser';
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+function sorted(values: string[] | undefined): string[] {
+  return [...(values || [])].sort();
+}
+
+/**
+ * Reason -> count, leaving out the samples
+ */
+function reasonCounts(entries: RuleReport['unsupported'] | RuleReport['approximated']): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const [reason, entry] of Object.entries(entries)) {
+    counts[reason] = entry!.count;
+  }
+  return counts;
+}
+
+describe('EasyList format', () => {
+  const content = readFixture('easylist.txt');
+  const parsed = parseEasyListRules(content);
+
+  it('is detected', () => {
+    assert.equal(detectBlocklistFormat(content), 'easylist');
+  });
+
+  it('blocks host rules, whatever their anchor or case', () => {
+    assert.deepEqual(sorted(parsed.domains), [
+      'ads.example.com',
+      'ads.uppercase.example',
+      'bare-domain.example',
+      'cdn-ads.example.org',
+      'popup.example.com',
+      'script.example.com',
+      'third.example.com',
+      'tracker.example.net',
+      'wild.example.com',
+      'xn--mnchen-ads-9db.de',
+    ]);
+    assert.deepEqual(parsed.ipRanges, ['1.2.3.4']);
+  });
+
+  it('keeps exceptions and $important rules apart', () => {
+    assert.deepEqual(sorted(parsed.exceptions), ['important.example.com', 'ok.ads.example.com']);
+    assert.deepEqual(parsed.important, ['important.example.com']);
+  });
+
+  it('reports every rule it does not apply as written', () => {
+    const report = parsed.report!;
+    assert.equal(report.totalRules, 28);
+    assert.equal(report.appliedRules, 21);
+    assert.equal(report.unsupportedRules, 7);
+    assert.deepEqual(reasonCounts(report.unsupported), {
+      'conditional-exception': 1,
+      'ip-address': 1,
+      'badfilter': 1,
+      'domain-modifier': 1,
+      'modifier': 1,
+      'path': 1,
+      'cosmetic': 1,
+    });
+    assert.deepEqual(report.unsupported.badfilter!.samples, ['||disabled.example.com^']);
+    assert.deepEqual(reasonCounts(report.approximated), {
+      'subdomain-wildcard': 1,
+      'third-party': 1,
+      'resource-type': 1,
+    });
+  });
+
+  it('collects element hiding rules', () => {
+    assert.deepEqual(parsed.cosmetic, {
+      generic: ['.sponsored'],
+      specific: { 'example.com': ['.ad-banner'] },
+      exceptions: { 'example.com': ['.sponsored'] },
+    });
+  });
+
+  it('keeps URL patterns for sub-resources', () => {
+    assert.deepEqual(parsed.network, {
+      blocks: [
+        { rule: '||example.com/ads/banner.js', pattern: '||example.com/ads/banner.js' },
+        { rule: '/banner\\d+\\.gif/', pattern: '/banner\\d+\\.gif/' },
+        { rule: '||cdn.example.com/track^$third-party', pattern: '||cdn.example.com/track^', thirdParty: true },
+      ],
+      exceptions: [],
+    });
+  });
+
+  it('flattens to the blocked domains, $important ones included', () => {
+    assert.deepEqual(sorted(parseEasyListFormat(content)), sorted([...parsed.domains, 'important.example.com']));
+  });
+});
+
+describe('AdGuard format', () => {
+  const content = readFixture('adguard.txt');
+  const parsed = parseEasyListRules(content);
+
+  it('is parsed as EasyList', () => {
+    assert.equal(detectBlocklistFormat(content), 'easylist');
+  });
+
+  it('applies AdGuard modifier aliases', () => {
+    assert.deepEqual(sorted(parsed.domains), [
+      'cdn.adguard.test',
+      'first.adguard.test',
+      'metrics.adguard.test',
+      'tracker.adguard.test',
+    ]);
+    assert.deepEqual(sorted(parsed.exceptions), ['ads.adguard.test', 'good.adguard.test']);
+    assert.deepEqual(parsed.important, ['ads.adguard.test']);
+  });
+
+  it('reports AdGuard-only syntax', () => {
+    const report = parsed.report!;
+    assert.equal(report.totalRules, 15);
+    assert.equal(report.appliedRules, 10);
+    assert.equal(report.unsupportedRules, 5);
+    assert.deepEqual(reasonCounts(report.unsupported), { modifier: 1, badfilter: 1, cosmetic: 3 });
+    assert.deepEqual(reasonCounts(report.approximated), { 'third-party': 2 });
+  });
+
+  it('keeps plain element hiding and regex URL rules', () => {
+    assert.deepEqual(parsed.cosmetic?.specific, { 'example.org': ['.adguard-banner'] });
+    assert.equal(parsed.network?.blocks.length, 1);
+    assert.deepEqual(parsed.network?.blocks[0].types, ['script']);
+  });
+
+  it('flattens to the blocked domains', () => {
+    assert.deepEqual(sorted(parseAdGuardFormat(content)), [
+      'ads.adguard.test',
+      'cdn.adguard.test',
+      'first.adguard.test',
+      'metrics.adguard.test',
+      'tracker.adguard.test',
+    ]);
+  });
+});
+
+describe('Domain list format', () => {
+  const content = readFixture('domains.txt');
+  const parsed = parseDomainsRules(content);
+
+  it('is detected', () => {
+    assert.equal(detectBlocklistFormat(content), 'domains');
+  });
+
+  it('normalizes hosts and accepts hosts and filter lines', () => {
+    assert.deepEqual(sorted(parsed.domains), [
+      'ads.domains.test',
+      'filter-line.domains.test',
+      'hosts-line.domains.test',
+      'inline.domains.test',
+      'tracker.domains.test',
+      'trailing-dot.domains.test',
+      'wild.domains.test',
+      'www.prefixed.domains.test',
+      'xn--bcher-kva.domains.test',
+    ]);
+    assert.deepEqual(parsed.exceptions, ['ok.ads.domains.test']);
+  });
+
+  it('keeps host patterns and IP rules', () => {
+    assert.deepEqual(parsed.patterns, ['zphim*.domains.pro', '/^ads\\d+\\.domains\\.test$/']);
+    assert.deepEqual(parsed.ipRanges, ['10.0.0.1', '192.168.0.0/16', '5.61.55.0/24', '2001:db8::/32']);
+  });
+
+  it('reports invalid hosts', () => {
+    const report = parsed.report!;
+    assert.equal(report.totalRules, 19);
+    assert.equal(report.appliedRules, 16);
+    assert.deepEqual(report.unsupported, {
+      'invalid-host': { count: 3, samples: ['localhost', 'not a domain', 'exa mple..test'] },
+    });
+    assert.deepEqual(reasonCounts(report.approximated), { 'subdomain-wildcard': 1 });
+  });
+
+  it('flattens to the blocked domains', () => {
+    assert.deepEqual(sorted(parseDomainsFormat(content)), sorted(parsed.domains));
+  });
+});
+
+describe('Hosts file format', () => {
+  const content = readFixture('hosts.txt');
+  const parsed = parseHostsRules(content);
+
+  it('is detected', () => {
+    assert.equal(detectBlocklistFormat(content), 'hosts');
+  });
+
+  it('blocks names mapped to blocking addresses, skipping local names', () => {
+    assert.deepEqual(sorted(parsed.domains), [
+      'ads.hosts.test',
+      'bare.hosts.test',
+      'ipv6-blocked.hosts.test',
+      'one.hosts.test',
+      'tracker.hosts.test',
+      'two.hosts.test',
+      'upper.hosts.test',
+      'wild.hosts.test',
+    ]);
+    assert.deepEqual(parsed.ipRanges, ['9.9.9.9']);
+  });
+
+  it('reports redirects and invalid names', () => {
+    const report = parsed.report!;
+    assert.equal(report.totalRules, 12);
+    assert.equal(report.appliedRules, 9);
+    assert.deepEqual(reasonCounts(report.unsupported), { 'hosts-redirect': 1, 'invalid-host': 1, 'wildcard': 1 });
+    assert.deepEqual(report.unsupported['hosts-redirect']!.samples, ['93.184.216.34 redirected.hosts.test']);
+    assert.deepEqual(reasonCounts(report.approximated), { 'subdomain-wildcard': 1 });
+  });
+
+  it('flattens to the blocked domains', () => {
+    assert.deepEqual(sorted(parseHostsFormat(content)), sorted(parsed.domains));
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Background Blocklist Refresh
+ *
+ * Registers an OS background task that refreshes external blocklists that
+ * are due while the app is not in use. The OS decides when (and whether)
+ * the task actually runs; the foreground scheduler covers the rest.
+ *
+ * The task is defined when this module is first imported, which must happen
+ * at app startup so the task exists when the OS launches the app for it.
+ */
+
+import { Platform } from 'react-native';
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundTask from 'expo-background-task';
+import { getEnabledEndpoints, DEFAULT_UPDATE_INTERVAL_HOURS } from './endpoints';
+import { refreshDueBlocklists } from './manager';
+
+export const BLOCKLIST_REFRESH_TASK = 'ghirbal-blocklist-refresh';
+
+/**
+ * The OS does not run background tasks more often than every 15 minutes
+ */
+const MIN_BACKGROUND_INTERVAL_MINUTES = 15;
+
+TaskManager.defineTask(BLOCKLIST_REFRESH_TASK, async () => {
+  try {
+    console.log('[Blocklist] Background refresh started');
+    await refreshDueBlocklists();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    console.warn('[Blocklist] Background refresh failed:', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Register the background refresh task, if the OS allows background tasks
+ * The interval follows the most frequently updated enabled endpoint.
+ */
+export async function registerBlocklistBackgroundRefresh(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+      console.log('[Blocklist] Background refresh is not available on this device');
+      return false;
+    }
+
+    const intervals = getEnabledEndpoints().map(e => e.updateIntervalHours || DEFAULT_UPDATE_INTERVAL_HOURS);
+    const shortestHours = intervals.length > 0 ? Math.min(...intervals) : DEFAULT_UPDATE_INTERVAL_HOURS;
+    const minimumInterval = Math.max(MIN_BACKGROUND_INTERVAL_MINUTES, Math.round(shortestHours * 60));
+
+    await BackgroundTask.registerTaskAsync(BLOCKLIST_REFRESH_TASK, { minimumInterval });
+    console.log(`[Blocklist] Background refresh registered (every ${minimumInterval} min at most)`);
+    return true;
+  } catch (error) {
+    console.warn('[Blocklist] Failed to register background refresh:', error);
+    return false;
+  }
+}
+
+/**
+ * Stop refreshing blocklists in the background
+ */
+export async function unregisterBlocklistBackgroundRefresh(): Promise<void> {
+  try {
+    if (await TaskManager.isTaskRegisteredAsync(BLOCKLIST_REFRESH_TASK)) {
+      await BackgroundTask.unregisterTaskAsync(BLOCKLIST_REFRESH_TASK);
+    }
+  } catch (error) {
+    console.warn('[Blocklist] Failed to unregister background refresh:', error);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Blocklist Backup
+ *
+ * Saves everything the user set up for blocking in one file, so it can be
+ * restored on another device (e.g. to set up a family's phones the same way):
+ * - The endpoint registry (online lists with their settings)
+ * - The lists the user added (local files, downloaded, pasted or imported)
+ * - The allowlist
+ * - The blocked categories
+ *
+ * The archive is a single JSON document: a versioned manifest describing
+ * each part, plus the list files by path. Every file is listed in the
+ * manifest with its SHA-256, which is checked before anything is restored.
+ * Downloaded copies of online lists are not included; they are downloaded
+ * again from the restored endpoints.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { BLOCKLIST_CATEGORIES, BlocklistCategory, normalizeCategories } from './categories';
+import { sha256, toHex, utf8Encode } from './crypto';
+import { BlocklistEndpoint, getAllEndpoints } from './endpoints';
+import {
+  deleteLocalBlocklist,
+  getAllowlist,
+  getLocalBlocklistByName,
+  importBlocklistEndpoints,
+  isBlocklistCategoryEnabled,
+  listLocalBlocklists,
+  readLocalBlocklistFile,
+  saveBlocklistLocally,
+  setAllowlist,
+  setBlocklistCategoryEnabled,
+  toBlocklistFilename,
+} from './manager';
+
+/**
+ * Identifies a Ghirbal blocklist backup
+ */
+export const BLOCKLIST_BACKUP_FORMAT = 'ghirbal-blocklist-backup';
+
+/**
+ * Current version of the backup format
+ */
+export const BLOCKLIST_BACKUP_VERSION = 1;
+
+/**
+ * A list file in the archive
+ */
+export interface BlocklistBackupFile {
+  /** File name in the local blocklist directory */
+  name: string;
+  /** Key of the content in BlocklistBackup.files */
+  path: string;
+  /** SHA-256 of the content as UTF-8, hex */
+  sha256: string;
+  /** Domains the list blocked when the backup was made */
+  domainCount: number;
+}
+
+export interface BlocklistBackupManifest {
+  format: typeof BLOCKLIST_BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  endpoints: BlocklistEndpoint[];
+  allowlist: string[];
+  disabledCategories: BlocklistCategory[];
+  files: BlocklistBackupFile[];
+}
+
+export interface BlocklistBackup {
+  manifest: BlocklistBackupManifest;
+  /** Path -> list file content */
+  files: { [path: string]: string };
+}
+
+export interface BlocklistBackupRestoreResult {
+  success: boolean;
+  /** Online lists added or updated */
+  endpoints: number;
+  /** List files written */
+  files: number;
+  /** Allowlist entries after the restore */
+  allowlist: number;
+  error?: string;
+}
+
+/**
+ * How a restore treats what is already on the device:
+ * 'merge' adds the backup to it (same-named lists are overwritten),
+ * 'replace' makes the device match the backup
+ */
+export type BlocklistBackupRestoreMode = 'merge' | 'replace';
+
+const FILES_PATH_PREFIX = 'lists/';
+
+function hashContent(content: string): string {
+  return toHex(sha256(utf8Encode(content)));
+}
+
+/**
+ * Collect the user's blocklist setup into an archive
+ */
+export async function createBlocklistBackup(): Promise<BlocklistBackup> {
+  const files: { [path: string]: string } = {};
+  const entries: BlocklistBackupFile[] = [];
+
+  for (const name of await listLocalBlocklists()) {
+    const content = await readLocalBlocklistFile(name);
+    if (content === null) continue;
+
+    const path = `${FILES_PATH_PREFIX}${name}`;
+    files[path] = content;
+    entries.push({ name, path, sha256: hashContent(content), domainCount: getLocalBlocklistByName(name).length });
+  }
+
+  return {
+    manifest: {
+      format: BLOCKLIST_BACKUP_FORMAT,
+      version: BLOCKLIST_BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      endpoints: getAllEndpoints(),
+      allowlist: getAllowlist(),
+      disabledCategories: BLOCKLIST_CATEGORIES.filter(c => !isBlocklistCategoryEnabled(c.id)).map(c => c.id),
+      files: entries,
+    },
+    files,
+  };
+}
+
+/**
+ * Read and check an archive written by createBlocklistBackup
+ * Fails if the archive is from a newer version of the app, or if a list
+ * file is missing or does not match its checksum.
+ */
+export function parseBlocklistBackup(json: string): { backup?: BlocklistBackup; error?: string } {
+  let manifest;
+  let files: { [path: string]: string };
+  try {
+    const data = JSON.parse(json);
+    manifest = data?.manifest;
+    files = data?.files && typeof data.files === 'object' ? data.files : {};
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+
+  if (manifest?.format !== BLOCKLIST_BACKUP_FORMAT || typeof manifest.version !== 'number') {
+    return { error: 'The file is not a Ghirbal blocklist backup' };
+  }
+  if (manifest.version > BLOCKLIST_BACKUP_VERSION) {
+    return { error: 'The backup was made by a newer version of the app. Update the app to restore it.' };
+  }
+
+  const entries: BlocklistBackupFile[] = Array.isArray(manifest.files) ? manifest.files : [];
+  for (const entry of entries) {
+    // Only plain list names, so a crafted archive cannot write elsewhere
+    if (typeof entry?.name !== 'string' || toBlocklistFilename(entry.name) !== entry.name) {
+      return { error: `The backup contains an invalid list name: ${String(entry?.name)}` };
+    }
+    const content = files[entry.path];
+    if (typeof content !== 'string') {
+      return { error: `The backup is missing the list ${entry.name}` };
+    }
+    if (hashContent(content) !== String(entry.sha256).toLowerCase()) {
+      return { error: `The list ${entry.name} is damaged (checksum mismatch)` };
+    }
+  }
+
+  return {
+    backup: {
+      manifest: {
+        format: BLOCKLIST_BACKUP_FORMAT,
+        version: manifest.version,
+        createdAt: typeof manifest.createdAt === 'string' ? manifest.createdAt : '',
+        endpoints: Array.isArray(manifest.endpoints) ? manifest.endpoints : [],
+        allowlist: Array.isArray(manifest.allowlist) ? manifest.allowlist.filter((d: unknown): d is string => typeof d === 'string') : [],
+        disabledCategories: normalizeCategories(manifest.disabledCategories),
+        files: entries,
+      },
+      files,
+    },
+  };
+}
+
+/**
+ * Apply a checked archive to this device
+ */
+export async function restoreBlocklistBackup(
+  backup: BlocklistBackup,
+  mode: BlocklistBackupRestoreMode = 'merge'
+): Promise<BlocklistBackupRestoreResult> {
+  const { manifest } = backup;
+  const result: BlocklistBackupRestoreResult = { success: true, endpoints: 0, files: 0, allowlist: 0 };
+
+  // A backup without online lists leaves the registry on the device as it is
+  if (manifest.endpoints.length > 0) {
+    const imported = await importBlocklistEndpoints(JSON.stringify({ endpoints: manifest.endpoints }), mode);
+    if (!imported.success) {
+      return { ...result, success: false, error: imported.error };
+    }
+    result.endpoints = imported.imported;
+  }
+
+  const restoredNames = new Set(manifest.files.map(entry => entry.name));
+  for (const entry of manifest.files) {
+    if (await saveBlocklistLocally(entry.name, backup.files[entry.path])) {
+      result.files++;
+    } else {
+      result.success = false;
+      result.error = `Could not save ${entry.name}`;
+    }
+  }
+  if (mode === 'replace') {
+    for (const name of await listLocalBlocklists()) {
+      if (!restoredNames.has(name)) await deleteLocalBlocklist(name);
+    }
+  }
+
+  const allowlist = mode === 'replace' ? manifest.allowlist : [...getAllowlist(), ...manifest.allowlist];
+  if (!(await setAllowlist(allowlist))) {
+    result.success = false;
+    result.error = 'Could not save the allowlist';
+  }
+  result.allowlist = getAllowlist().length;
+
+  for (const category of BLOCKLIST_CATEGORIES) {
+    const disabled = manifest.disabledCategories.includes(category.id);
+    // Merging only adds restrictions; it never turns a blocked category back on
+    if (disabled || mode === 'replace') {
+      await setBlocklistCategoryEnabled(category.id, !disabled);
+    }
+  }
+
+  console.log(`[Blocklist] Restored backup from ${manifest.createdAt} (${mode}): ${result.endpoints} endpoints, ${result.files} files`);
+  return result;
+}
+
+/**
+ * Write a backup to a file and open the share sheet for it
+ * Returns false if sharing is not available on this device.
+ */
+export async function shareBlocklistBackup(): Promise<boolean> {
+  if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+    return false;
+  }
+
+  const backup = await createBlocklistBackup();
+  const path = `${FileSystem.cacheDirectory}ghirbal-blocklists-${backup.manifest.createdAt.substring(0, 10)}.json`;
+  await FileSystem.writeAsStringAsync(path, JSON.stringify(backup));
+  await Sharing.shareAsync(path, { mimeType: 'application/json', dialogTitle: 'Blocklist backup', UTI: 'public.json' });
+  return true;
+}
+
+/**
+ * Let the user choose a backup file in the system document picker
+ * Returns null if the user cancelled.
+ */
+export async function pickBlocklistBackup(): Promise<{ backup?: BlocklistBackup; error?: string } | null> {
+  const picked = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/*', 'application/octet-stream'],
+    copyToCacheDirectory: true,
+    multiple: false,
+  });
+  if (picked.canceled || picked.assets.length === 0) return null;
+
+  const asset = picked.assets[0];
+  try {
+    return parseBlocklistBackup(await FileSystem.readAsStringAsync(asset.uri));
+  } finally {
+    FileSystem.deleteAsync(asset.uri, { idempotent: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Blocklist Categories
+ *
+ * Every embedded, bundled and endpoint source is tagged with the kinds of
+ * sites it blocks, so each kind can be switched on or off in Settings and a
+ * blocked page can say why it was blocked.
+ *
+ * A source with several categories stays active while any of them is
+ * enabled. Sources without a category (e.g. local files the user added)
+ * are always active.
+ *
+ * This module has no React Native imports so the embedded blocklist
+ * compiler can use it under Node.
+ */
+
+export type BlocklistCategory = 'adult' | 'dating' | 'social' | 'search-engines' | 'app-stores' | 'ads';
+
+export interface BlocklistCategoryInfo {
+  id: BlocklistCategory;
+  /** Short name for settings and source labels */
+  name: string;
+  /** What the category covers, shown under its toggle */
+  description: string;
+  /** Reason shown when a navigation is blocked by a source of this category */
+  blockReason: string;
+}
+
+/**
+ * All categories, in display order
+ */
+export const BLOCKLIST_CATEGORIES: BlocklistCategoryInfo[] = [
+  {
+    id: 'adult',
+    name: 'Adult content',
+    description: 'Pornography, cam and escort sites',
+    blockReason: 'This website is blocked because it contains adult content',
+  },
+  {
+    id: 'dating',
+    name: 'Dating',
+    description: 'Dating and hookup apps and sites',
+    blockReason: 'Dating sites are blocked',
+  },
+  {
+    id: 'social',
+    name: 'Social media',
+    description: 'Social networks and chat apps such as TikTok, Snapchat and X',
+    blockReason: 'Social media is blocked',
+  },
+  {
+    id: 'search-engines',
+    name: 'Search engines',
+    description: 'Search engines that do not enforce safe search',
+    blockReason: 'This search engine is not allowed. Please use Google.',
+  },
+  {
+    id: 'app-stores',
+    name: 'App stores',
+    description: 'Third-party app stores and APK download sites',
+    blockReason: 'App stores and APK download sites are blocked',
+  },
+  {
+    id: 'ads',
+    name: 'Ads, trackers and malware',
+    description: 'Ad networks, trackers, scams and malware hosts',
+    blockReason: 'This website is blocked because it serves ads, trackers or malware',
+  },
+];
+
+/**
+ * Whether a value is a known category id
+ */
+export function isBlocklistCategory(value: unknown): value is BlocklistCategory {
+  return BLOCKLIST_CATEGORIES.some(category => category.id === value);
+}
+
+/**
+ * Get the definition of a category
+ */
+export function getBlocklistCategory(id: BlocklistCategory): BlocklistCategoryInfo {
+  return BLOCKLIST_CATEGORIES.find(category => category.id === id)!;
+}
+
+/**
+ * Keep the known, distinct category ids of a stored or imported value
+ * Unknown ids are dropped, e.g. ones written by a newer version of the app
+ */
+export function normalizeCategories(value: unknown): BlocklistCategory[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter(isBlocklistCategory)));
+}
@@ -0,0 +1,222 @@
+/**
+ * Blocklist Changelog
+ *
+ * Records, per source, which domains each refresh added and removed, so the
+ * Blocklists screen can show what changed recently and a blocked domain can
+ * be traced back to the update that started blocking it.
+ *
+ * Entries are kept on device for CHANGELOG_MAX_AGE_DAYS. The first copy of a
+ * source is recorded as a single 'added' entry without its domains (they are
+ * all new); updates that change more than MAX_DOMAINS_PER_ENTRY domains keep
+ * only their counts.
+ *
+ * Like the scheduler, this module knows nothing about the manager: the
+ * manager reports old and new domain lists through recordBlocklistChange.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+export type BlocklistChangeKind = 'added' | 'updated' | 'deleted';
+
+export interface BlocklistChange {
+  /** Source the change applies to, e.g. `external:oisd` */
+  sourceId: string;
+  kind: BlocklistChangeKind;
+  at: number;
+  addedCount: number;
+  removedCount: number;
+  /** Domains added by an update (empty for 'added' entries and truncated updates) */
+  added: string[];
+  /** Domains removed by an update (empty for 'deleted' entries and truncated updates) */
+  removed: string[];
+  /** The update was too large to list its domains */
+  truncated?: boolean;
+}
+
+export interface BlocklistChangeCounts {
+  added: number;
+  removed: number;
+}
+
+/**
+ * When a source started blocking a domain, as far as the changelog knows
+ */
+export interface DomainChangeHistory {
+  /**
+   * When the update that added the rule was applied, or null if unknown:
+   * it predates the changelog or came with an update too large to list
+   */
+  since: Date | null;
+  /** Oldest changelog entry of the source, i.e. how far back the changelog reaches */
+  trackedSince: Date | null;
+}
+
+const CHANGELOG_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}blocklist-changelog.json`
+  : null;
+
+const CHANGELOG_MAX_AGE_DAYS = 90;
+const MAX_CHANGELOG_ENTRIES = 1000;
+const MAX_DOMAINS_PER_ENTRY = 5000;
+
+let changelog: BlocklistChange[] = [];
+let changelogLoaded: boolean = false;
+let pendingSave: Promise<void> = Promise.resolve();
+
+/**
+ * Load the changelog from disk
+ */
+export async function loadBlocklistChangelog(): Promise<void> {
+  if (changelogLoaded || !CHANGELOG_PATH) return;
+
+  try {
+    const fileInfo = await FileSystem.getInfoAsync(CHANGELOG_PATH);
+    if (fileInfo.exists) {
+      const stored = JSON.parse(await FileSystem.readAsStringAsync(CHANGELOG_PATH));
+      changelog = Array.isArray(stored) ? stored : [];
+    }
+  } catch (error) {
+    console.warn('[Blocklist] Failed to load changelog:', error);
+    changelog = [];
+  }
+  changelogLoaded = true;
+}
+
+/**
+ * Write the changelog, one write at a time
+ */
+function saveBlocklistChangelog(): Promise<void> {
+  const path = CHANGELOG_PATH;
+  if (!path) return Promise.resolve();
+
+  pendingSave = pendingSave.then(async () => {
+    try {
+      await FileSystem.writeAsStringAsync(path, JSON.stringify(changelog));
+    } catch (error) {
+      console.warn('[Blocklist] Failed to save changelog:', error);
+    }
+  });
+  return pendingSave;
+}
+
+/**
+ * Drop entries past the maximum age and count
+ */
+function pruneChangelog(now: number): void {
+  const cutoff = now - CHANGELOG_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  changelog = changelog.filter(entry => entry.at >= cutoff).slice(-MAX_CHANGELOG_ENTRIES);
+}
+
+/**
+ * Record a change of a source's blocked domains
+ * Pass null as previous for a source seen for the first time, and null as
+ * next for a source that was deleted. Nothing is recorded if the domains
+ * did not change.
+ */
+export async function recordBlocklistChange(
+  sourceId: string,
+  previous: string[] | null,
+  next: string[] | null
+): Promise<BlocklistChange | null> {
+  await loadBlocklistChangelog();
+
+  const now = Date.now();
+  let entry: BlocklistChange;
+
+  if (!previous && !next) {
+    return null;
+  } else if (!previous) {
+    entry = { sourceId, kind: 'added', at: now, addedCount: new Set(next).size, removedCount: 0, added: [], removed: [] };
+  } else if (!next) {
+    entry = { sourceId, kind: 'deleted', at: now, addedCount: 0, removedCount: new Set(previous).size, added: [], removed: [] };
+  } else {
+    const previousSet = new Set(previous);
+    const nextSet = new Set(next);
+    const added = Array.from(nextSet).filter(domain => !previousSet.has(domain));
+    const removed = Array.from(previousSet).filter(domain => !nextSet.has(domain));
+    if (added.length === 0 && removed.length === 0) return null;
+
+    const truncated = added.length + removed.length > MAX_DOMAINS_PER_ENTRY;
+    entry = {
+      sourceId,
+      kind: 'updated',
+      at: now,
+      addedCount: added.length,
+      removedCount: removed.length,
+      added: truncated ? [] : added,
+      removed: truncated ? [] : removed,
+    };
+    if (truncated) {
+      entry.truncated = true;
+    }
+  }
+
+  changelog.push(entry);
+  pruneChangelog(now);
+  await saveBlocklistChangelog();
+
+  console.log(`[Blocklist] ${sourceId} ${entry.kind}: +${entry.addedCount} / -${entry.removedCount}`);
+  return entry;
+}
+
+/**
+ * Forget the changelog of a source (e.g. after its endpoint was removed)
+ */
+export async function clearBlocklistChangelog(sourceId?: string): Promise<void> {
+  await loadBlocklistChangelog();
+  changelog = sourceId ? changelog.filter(entry => entry.sourceId !== sourceId) : [];
+  await saveBlocklistChangelog();
+}
+
+/**
+ * Get the changelog entries since a time, newest first
+ */
+export function getBlocklistChangelog(since: number = 0, sourceId?: string): BlocklistChange[] {
+  return changelog
+    .filter(entry => entry.at >= since && (!sourceId || entry.sourceId === sourceId))
+    .reverse();
+}
+
+/**
+ * Sum the domains added and removed since a time, in total and per source
+ */
+export function getBlocklistChangeCounts(since: number): {
+  total: BlocklistChangeCounts;
+  bySource: { [sourceId: string]: BlocklistChangeCounts };
+} {
+  const total: BlocklistChangeCounts = { added: 0, removed: 0 };
+  const bySource: { [sourceId: string]: BlocklistChangeCounts } = {};
+
+  for (const entry of changelog) {
+    if (entry.at < since) continue;
+    const counts = bySource[entry.sourceId] || (bySource[entry.sourceId] = { added: 0, removed: 0 });
+    counts.added += entry.addedCount;
+    counts.removed += entry.removedCount;
+    total.added += entry.addedCount;
+    total.removed += entry.removedCount;
+  }
+
+  return { total, bySource };
+}
+
+/**
+ * Find when a source started blocking a rule it currently contains
+ */
+export function getDomainChangeHistory(sourceId: string, rule: string): DomainChangeHistory {
+  const entries = changelog.filter(entry => entry.sourceId === sourceId);
+  const trackedSince = entries.length > 0 ? new Date(entries[0].at) : null;
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    // The newest copy that brought the rule in: either the first copy of
+    // the source or an update listing it
+    if (entry.kind === 'added' || (entry.kind === 'updated' && entry.added.includes(rule))) {
+      return { since: new Date(entry.at), trackedSince };
+    }
+    if (entry.truncated) {
+      break;
+    }
+  }
+
+  return { since: null, trackedSince };
+}
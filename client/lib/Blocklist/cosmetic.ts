@@ -0,0 +1,116 @@
+/**
+ * Cosmetic (Element Hiding) Filter Index
+ *
+ * Merges the element hiding rules of every enabled list into a per-hostname
+ * selector table:
+ * - `##selector` hides the element on every site
+ * - `example.com##selector` hides it on example.com and its subdomains
+ * - `example.com#@#selector` and `~example.com##selector` keep it visible there
+ *
+ * Exceptions apply across lists, as they do in Adblock Plus. The index is
+ * built once per blocklist generation and never mutated.
+ */
+
+import { normalizeDomain } from './matcher';
+
+/**
+ * Element hiding rules of one list, as stored with the parsed list
+ */
+export interface CosmeticRules {
+  /** Selectors hidden on every site */
+  generic: string[];
+  /** Hostname -> selectors hidden on that host and its subdomains */
+  specific: { [hostname: string]: string[] };
+  /** Hostname -> selectors kept visible on that host and its subdomains */
+  exceptions: { [hostname: string]: string[] };
+}
+
+export interface CosmeticSource {
+  id: string;
+  cosmetic: CosmeticRules;
+}
+
+/**
+ * Count the selectors in a list's element hiding rules
+ */
+export function countCosmeticSelectors(rules: CosmeticRules): number {
+  let count = rules.generic.length;
+  for (const selectors of Object.values(rules.specific)) {
+    count += selectors.length;
+  }
+  return count;
+}
+
+export class CosmeticFilterIndex {
+  /** Number of distinct generic selectors */
+  readonly genericCount: number;
+
+  private readonly generic: string[];
+  private readonly genericSet: Set<string>;
+  private readonly specific: Map<string, string[]>;
+  private readonly exceptions: Map<string, string[]>;
+
+  private constructor(generic: string[], specific: Map<string, string[]>, exceptions: Map<string, string[]>) {
+    this.generic = generic;
+    this.genericSet = new Set(generic);
+    this.specific = specific;
+    this.exceptions = exceptions;
+    this.genericCount = generic.length;
+  }
+
+  /**
+   * Merge the element hiding rules of several lists
+   */
+  static build(sources: CosmeticSource[]): CosmeticFilterIndex {
+    const generic = new Set<string>();
+    const specific = new Map<string, Set<string>>();
+    const exceptions = new Map<string, Set<string>>();
+
+    const addAll = (table: Map<string, Set<string>>, entries: { [hostname: string]: string[] }) => {
+      for (const [hostname, selectors] of Object.entries(entries)) {
+        let set = table.get(hostname);
+        if (!set) {
+          set = new Set();
+          table.set(hostname, set);
+        }
+        selectors.forEach(selector => set!.add(selector));
+      }
+    };
+
+    for (const { cosmetic } of sources) {
+      cosmetic.generic.forEach(selector => generic.add(selector));
+      addAll(specific, cosmetic.specific);
+      addAll(exceptions, cosmetic.exceptions);
+    }
+
+    const toArrays = (table: Map<string, Set<string>>) =>
+      new Map(Array.from(table, ([hostname, set]) => [hostname, Array.from(set)]));
+
+    return new CosmeticFilterIndex(Array.from(generic), toArrays(specific), toArrays(exceptions));
+  }
+
+  /**
+   * Get the selectors to hide on a host, checking the host itself and
+   * each parent domain for site-specific rules and exceptions
+   */
+  getSelectors(hostname: string): string[] {
+    const labels = normalizeDomain(hostname).split('.');
+    const excluded = new Set<string>();
+    const selected = new Set<string>();
+
+    for (let i = 0; i < labels.length; i++) {
+      const domain = labels.slice(i).join('.');
+      this.exceptions.get(domain)?.forEach(selector => excluded.add(selector));
+      this.specific.get(domain)?.forEach(selector => selected.add(selector));
+    }
+
+    const result: string[] = [];
+    for (const selector of this.generic) {
+      if (!excluded.has(selector)) result.push(selector);
+    }
+    selected.forEach(selector => {
+      if (!excluded.has(selector) && !this.genericSet.has(selector)) result.push(selector);
+    });
+    return result;
+  }
+}
@@ -0,0 +1,419 @@
+/**
+ * Blocklist Crypto
+ *
+ * The hashing and signature primitives used to verify downloaded lists
+ * (see integrity.ts): SHA-256 for pinned digests and Ed25519 (RFC 8032)
+ * for detached signatures. React Native has no WebCrypto, so they are
+ * implemented here in plain TypeScript. Only verification is provided;
+ * lists are signed offline by their publisher.
+ */
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * UTF-8 bytes of a string
+ */
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    // Combine surrogate pairs; a lone surrogate becomes U+FFFD
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code >= 0xd800 && code <= 0xdfff) code = 0xfffd;
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode standard or URL-safe base64, ignoring whitespace
+ * Returns null if the text is not valid base64
+ */
+export function base64Decode(text: string): Uint8Array | null {
+  const clean = text.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (clean.length % 4 === 1 || /[^A-Za-z0-9+/]/.test(clean)) return null;
+
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Lowercase hex of a byte array
+ */
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+// ============================================================================
+// SHA-256
+// ============================================================================
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Append the Merkle–Damgård padding: 0x80, zeros, and the bit length
+ * in a big-endian field of lengthBytes bytes
+ */
+function pad(message: Uint8Array, blockSize: number, lengthBytes: number): Uint8Array {
+  const length = message.length + 1 + lengthBytes;
+  const padded = new Uint8Array(Math.ceil(length / blockSize) * blockSize);
+  padded.set(message);
+  padded[message.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  const bitLength = message.length * 8;
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+  return padded;
+}
+
+/**
+ * SHA-256 digest of a byte array
+ */
+export function sha256(message: Uint8Array): Uint8Array {
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const padded = pad(message, 64, 8);
+  const view = new DataView(padded.buffer);
+
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(block + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = ((w[i - 15] >>> 7) | (w[i - 15] << 25)) ^ ((w[i - 15] >>> 18) | (w[i - 15] << 14)) ^ (w[i - 15] >>> 3);
+      const s1 = ((w[i - 2] >>> 17) | (w[i - 2] << 15)) ^ ((w[i - 2] >>> 19) | (w[i - 2] << 13)) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], hh = h[7];
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + s1 + ch + SHA256_K[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const digest = new Uint8Array(32);
+  const out = new DataView(digest.buffer);
+  for (let i = 0; i < 8; i++) {
+    out.setUint32(i * 4, h[i]);
+  }
+  return digest;
+}
+
+// ============================================================================
+// SHA-512 (64-bit words as high/low 32-bit halves)
+// ============================================================================
+
+const SHA512_K = new Uint32Array([
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc,
+  0x3956c25b, 0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118,
+  0xd807aa98, 0xa3030242, 0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2,
+  0x72be5d74, 0xf27b896f, 0x80deb1fe, 0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694,
+  0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3, 0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65,
+  0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc, 0xbd41fbd4, 0x76f988da, 0x831153b5,
+  0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f, 0xbf597fc7, 0xbeef0ee4,
+  0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967, 0x0a0e6e70,
+  0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b,
+  0xa2bfe8a1, 0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30,
+  0xd192e819, 0xd6ef5218, 0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8,
+  0x19a4c116, 0xb8d2d0c8, 0x1e376c08, 0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8,
+  0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb, 0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3,
+  0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814, 0xa1f0ab72, 0x8cc70208, 0x1a6439ec,
+  0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915, 0xc67178f2, 0xe372532b,
+  0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f, 0xee6ed178,
+  0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c,
+  0x4cc5d4be, 0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817,
+]);
+
+/**
+ * SHA-512 digest of a byte array
+ */
+export function sha512(message: Uint8Array): Uint8Array {
+  const h = new Uint32Array([
+    0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b, 0xa54ff53a, 0x5f1d36f1,
+    0x510e527f, 0xade682d1, 0x9b05688c, 0x2b3e6c1f, 0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179,
+  ]);
+  const w = new Uint32Array(160);
+  const padded = pad(message, 128, 16);
+  const view = new DataView(padded.buffer);
+
+  // Rotate/shift the 64-bit word (hi, lo) right, returning the high or low half
+  const rotrHi = (hi: number, lo: number, n: number) => (n < 32 ? (hi >>> n) | (lo << (32 - n)) : (lo >>> (n - 32)) | (hi << (64 - n)));
+  const rotrLo = (hi: number, lo: number, n: number) => (n < 32 ? (lo >>> n) | (hi << (32 - n)) : (hi >>> (n - 32)) | (lo << (64 - n)));
+  const shrHi = (hi: number, _lo: number, n: number) => hi >>> n;
+  const shrLo = (hi: number, lo: number, n: number) => (lo >>> n) | (hi << (32 - n));
+
+  for (let block = 0; block < padded.length; block += 128) {
+    for (let i = 0; i < 32; i++) {
+      w[i] = view.getUint32(block + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      const h15 = w[(i - 15) * 2], l15 = w[(i - 15) * 2 + 1];
+      const h2 = w[(i - 2) * 2], l2 = w[(i - 2) * 2 + 1];
+      const s0h = rotrHi(h15, l15, 1) ^ rotrHi(h15, l15, 8) ^ shrHi(h15, l15, 7);
+      const s0l = rotrLo(h15, l15, 1) ^ rotrLo(h15, l15, 8) ^ shrLo(h15, l15, 7);
+      const s1h = rotrHi(h2, l2, 19) ^ rotrHi(h2, l2, 61) ^ shrHi(h2, l2, 6);
+      const s1l = rotrLo(h2, l2, 19) ^ rotrLo(h2, l2, 61) ^ shrLo(h2, l2, 6);
+
+      const lo = (w[(i - 16) * 2 + 1] >>> 0) + (s0l >>> 0) + (w[(i - 7) * 2 + 1] >>> 0) + (s1l >>> 0);
+      const hi = w[(i - 16) * 2] + s0h + w[(i - 7) * 2] + s1h + Math.floor(lo / 0x100000000);
+      w[i * 2] = hi;
+      w[i * 2 + 1] = lo;
+    }
+
+    let ah = h[0], al = h[1], bh = h[2], bl = h[3], ch = h[4], cl = h[5], dh = h[6], dl = h[7];
+    let eh = h[8], el = h[9], fh = h[10], fl = h[11], gh = h[12], gl = h[13], hh = h[14], hl = h[15];
+
+    for (let i = 0; i < 80; i++) {
+      const s1h = rotrHi(eh, el, 14) ^ rotrHi(eh, el, 18) ^ rotrHi(eh, el, 41);
+      const s1l = rotrLo(eh, el, 14) ^ rotrLo(eh, el, 18) ^ rotrLo(eh, el, 41);
+      const chh = (eh & fh) ^ (~eh & gh);
+      const chl = (el & fl) ^ (~el & gl);
+      const t1l = (hl >>> 0) + (s1l >>> 0) + (chl >>> 0) + SHA512_K[i * 2 + 1] + w[i * 2 + 1];
+      const t1h = hh + s1h + chh + SHA512_K[i * 2] + w[i * 2] + Math.floor(t1l / 0x100000000);
+
+      const s0h = rotrHi(ah, al, 28) ^ rotrHi(ah, al, 34) ^ rotrHi(ah, al, 39);
+      const s0l = rotrLo(ah, al, 28) ^ rotrLo(ah, al, 34) ^ rotrLo(ah, al, 39);
+      const majh = (ah & bh) ^ (ah & ch) ^ (bh & ch);
+      const majl = (al & bl) ^ (al & cl) ^ (bl & cl);
+      const t2l = (s0l >>> 0) + (majl >>> 0);
+      const t2h = s0h + majh + Math.floor(t2l / 0x100000000);
+
+      hh = gh; hl = gl;
+      gh = fh; gl = fl;
+      fh = eh; fl = el;
+      const newEl = (dl >>> 0) + (t1l >>> 0);
+      eh = (dh + t1h + Math.floor(newEl / 0x100000000)) | 0;
+      el = newEl | 0;
+      dh = ch; dl = cl;
+      ch = bh; cl = bl;
+      bh = ah; bl = al;
+      const newAl = (t1l >>> 0) + (t2l >>> 0);
+      ah = (t1h + t2h + Math.floor(newAl / 0x100000000)) | 0;
+      al = newAl | 0;
+    }
+
+    const state = [ah, al, bh, bl, ch, cl, dh, dl, eh, el, fh, fl, gh, gl, hh, hl];
+    for (let i = 0; i < 16; i += 2) {
+      const lo = (h[i + 1] >>> 0) + (state[i + 1] >>> 0);
+      h[i] = h[i] + state[i] + Math.floor(lo / 0x100000000);
+      h[i + 1] = lo;
+    }
+  }
+
+  const digest = new Uint8Array(64);
+  const out = new DataView(digest.buffer);
+  for (let i = 0; i < 16; i++) {
+    out.setUint32(i * 4, h[i]);
+  }
+  return digest;
+}
+
+// ============================================================================
+// ED25519 SIGNATURE VERIFICATION
+// ============================================================================
+
+const P = 2n ** 255n - 19n;
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const result = a % m;
+  return result >= 0n ? result : result + m;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  base = mod(base);
+  while (exponent > 0n) {
+    if (exponent & 1n) result = mod(result * base);
+    base = mod(base * base);
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function invert(a: bigint): bigint {
+  return modPow(a, P - 2n);
+}
+
+const D = mod(-121665n * invert(121666n));
+const D2 = mod(2n * D);
+const SQRT_M1 = modPow(2n, (P - 1n) / 4n);
+
+/** Point in extended coordinates: x = X/Z, y = Y/Z, xy = T/Z */
+interface Point {
+  X: bigint;
+  Y: bigint;
+  Z: bigint;
+  T: bigint;
+}
+
+const IDENTITY: Point = { X: 0n, Y: 1n, Z: 1n, T: 0n };
+
+/**
+ * Point addition on the twisted Edwards curve (complete, so it also doubles)
+ */
+function add(p: Point, q: Point): Point {
+  const a = mod((p.Y - p.X) * (q.Y - q.X));
+  const b = mod((p.Y + p.X) * (q.Y + q.X));
+  const c = mod(p.T * D2 * q.T);
+  const d = mod(p.Z * 2n * q.Z);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return { X: mod(e * f), Y: mod(g * h), Z: mod(f * g), T: mod(e * h) };
+}
+
+function multiply(point: Point, scalar: bigint): Point {
+  let result = IDENTITY;
+  let addend = point;
+  while (scalar > 0n) {
+    if (scalar & 1n) result = add(result, addend);
+    addend = add(addend, addend);
+    scalar >>= 1n;
+  }
+  return result;
+}
+
+function equals(p: Point, q: Point): boolean {
+  return mod(p.X * q.Z) === mod(q.X * p.Z) && mod(p.Y * q.Z) === mod(q.Y * p.Z);
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+/**
+ * Decode a 32-byte compressed point, or null if it is not on the curve
+ */
+function decodePoint(bytes: Uint8Array): Point | null {
+  if (bytes.length !== 32) return null;
+  const copy = bytes.slice();
+  const sign = (copy[31] & 0x80) !== 0;
+  copy[31] &= 0x7f;
+  const y = bytesToNumberLE(copy);
+  if (y >= P) return null;
+
+  // x^2 = (y^2 - 1) / (d y^2 + 1)
+  const y2 = mod(y * y);
+  const u = mod(y2 - 1n);
+  const v = mod(D * y2 + 1n);
+  const v3 = mod(v * v * v);
+  let x = mod(u * v3 * modPow(u * v3 * v3 * v, (P - 5n) / 8n));
+
+  const vx2 = mod(v * x * x);
+  if (vx2 !== u) {
+    if (vx2 !== mod(-u)) return null;
+    x = mod(x * SQRT_M1);
+  }
+  if (x === 0n && sign) return null;
+  if ((x & 1n) === 1n !== sign) x = mod(-x);
+
+  return { X: x, Y: y, Z: 1n, T: mod(x * y) };
+}
+
+let basePoint: Point | null = null;
+
+function getBasePoint(): Point {
+  if (!basePoint) {
+    // y = 4/5, with the even x
+    const y = mod(4n * invert(5n));
+    const encoded = new Uint8Array(32);
+    let value = y;
+    for (let i = 0; i < 32; i++) {
+      encoded[i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+    basePoint = decodePoint(encoded)!;
+  }
+  return basePoint;
+}
+
+/**
+ * Verify an Ed25519 signature (64 bytes) of a message with a public key (32 bytes)
+ */
+export function ed25519Verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): boolean {
+  if (signature.length !== 64 || publicKey.length !== 32) return false;
+
+  const A = decodePoint(publicKey);
+  const R = decodePoint(signature.subarray(0, 32));
+  const S = bytesToNumberLE(signature.subarray(32));
+  if (!A || !R || S >= L) return false;
+
+  const hashInput = new Uint8Array(64 + message.length);
+  hashInput.set(signature.subarray(0, 32));
+  hashInput.set(publicKey, 32);
+  hashInput.set(message, 64);
+  const k = mod(bytesToNumberLE(sha512(hashInput)), L);
+
+  // [S]B = R + [k]A
+  return equals(multiply(getBasePoint(), S), add(R, multiply(A, k)));
+}
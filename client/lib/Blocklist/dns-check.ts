@@ -0,0 +1,149 @@
+/**
+ * DNS Check (CNAME cloaking)
+ *
+ * A host missing from every list can still be an alias (CNAME) of a
+ * blocked tracker or adult CDN, e.g. `metrics.example.com` pointing to
+ * `example.tracker.net`. When turned on in Settings, the host of each
+ * top-level navigation is resolved over DNS-over-HTTPS (see doh.ts) and
+ * every name in its CNAME chain is checked against the blocklists.
+ *
+ * Navigation callbacks cannot wait for the network, so a host is checked
+ * while its page loads. Answers are cached by their TTL, and a host whose
+ * chain is cached is checked before the page starts loading.
+ *
+ * The check is off by default: it sends the host of every site visited to
+ * the DoH endpoint. A failed query never blocks a site.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DohResolver } from './doh';
+import { DomainMatch, DomainMatcher } from './matcher';
+
+export interface DnsCheckSettings {
+  enabled: boolean;
+  /** URL of the DoH endpoint (RFC 8484) */
+  endpoint: string;
+}
+
+export const DEFAULT_DOH_ENDPOINT = 'https://cloudflare-dns.com/dns-query';
+
+const DNS_CHECK_STORAGE_KEY = '@safebrowse_dns_check';
+
+let settings: DnsCheckSettings = { enabled: false, endpoint: DEFAULT_DOH_ENDPOINT };
+let settingsLoad: Promise<void> | null = null;
+let resolver: DohResolver | null = null;
+
+/**
+ * Whether a DoH endpoint URL can be used
+ */
+export function isValidDohEndpoint(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' && !!url.hostname;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load the DNS check settings from storage (once)
+ */
+export function loadDnsCheckSettings(): Promise<void> {
+  if (!settingsLoad) {
+    settingsLoad = AsyncStorage.getItem(DNS_CHECK_STORAGE_KEY)
+      .then(stored => {
+        const parsed = stored ? JSON.parse(stored) : {};
+        settings = {
+          enabled: parsed.enabled === true,
+          endpoint: typeof parsed.endpoint === 'string' && isValidDohEndpoint(parsed.endpoint) ? parsed.endpoint : DEFAULT_DOH_ENDPOINT,
+        };
+      })
+      .catch(error => {
+        console.warn('[Blocklist] Failed to load DNS check settings:', error);
+      });
+  }
+  return settingsLoad;
+}
+
+/**
+ * Get the DNS check settings (the defaults until they are loaded)
+ */
+export function getDnsCheckSettings(): DnsCheckSettings {
+  return { ...settings };
+}
+
+/**
+ * Turn the DNS check on or off, or change its endpoint
+ */
+export async function setDnsCheckSettings(changes: Partial<DnsCheckSettings>): Promise<{ success: boolean; error?: string }> {
+  await loadDnsCheckSettings();
+
+  const next = { ...settings, ...changes };
+  next.endpoint = next.endpoint.trim();
+  if (!isValidDohEndpoint(next.endpoint)) {
+    return { success: false, error: 'The resolver must be an https:// URL' };
+  }
+
+  try {
+    await AsyncStorage.setItem(DNS_CHECK_STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('[Blocklist] Failed to save DNS check settings:', error);
+    return { success: false, error: 'Could not save the setting' };
+  }
+
+  // A different resolver may give different answers
+  if (next.endpoint !== settings.endpoint) {
+    resolver = null;
+  }
+  settings = next;
+  console.log(`[Blocklist] DNS check ${next.enabled ? `enabled (${next.endpoint})` : 'disabled'}`);
+  return { success: true };
+}
+
+function getResolver(): DohResolver {
+  if (!resolver) {
+    resolver = new DohResolver({ endpoint: settings.endpoint });
+  }
+  return resolver;
+}
+
+/**
+ * Resolve the CNAME chain of a host, or null if the check is off or the
+ * query failed
+ */
+export async function resolveHostAliases(host: string): Promise<string[] | null> {
+  await loadDnsCheckSettings();
+  if (!settings.enabled) return null;
+
+  try {
+    return await getResolver().resolveCnameChain(host);
+  } catch (error) {
+    console.warn(`[Blocklist] DNS check of ${host} failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the CNAME chain of a host if it is cached, without waiting
+ */
+export function getCachedHostAliases(host: string): string[] | null {
+  if (!settings.enabled) return null;
+  return getResolver().getCachedCnameChain(host);
+}
+
+/**
+ * Find the first alias in a host's CNAME chain that a matcher blocks
+ * Aliases of an allowlisted host are not checked.
+ */
+export function findBlockedAlias(
+  matcher: DomainMatcher,
+  host: string,
+  aliases: string[]
+): { alias: string; match: DomainMatch } | null {
+  if (matcher.isAllowlisted(host)) return null;
+  for (const alias of aliases) {
+    const match = matcher.match(alias);
+    if (match) return { alias, match };
+  }
+  return null;
+}
@@ -0,0 +1,388 @@
+/**
+ * DNS-over-HTTPS
+ *
+ * A small RFC 8484 client, only as much as the CNAME check needs (see
+ * dns-check.ts): it sends `A` queries in DNS wire format and reads the
+ * CNAME records of the answers, so it works with any standard DoH endpoint
+ * (`https://cloudflare-dns.com/dns-query`, `https://dns.google/dns-query`,
+ * `https://dns.quad9.net/dns-query`...).
+ *
+ * Every alias learned is cached for its TTL, and so is a name that turned
+ * out to have no alias (for the TTL of its addresses, or of the SOA record
+ * when it does not exist). A chain that is fully cached can be read
+ * synchronously.
+ *
+ * This module has no React Native imports so it also runs under Node.
+ */
+
+import { formatIpAddress } from './ip-ranges';
+
+export const DNS_TYPE_A = 1;
+export const DNS_TYPE_CNAME = 5;
+export const DNS_TYPE_SOA = 6;
+export const DNS_TYPE_AAAA = 28;
+
+export const DNS_RCODE_NOERROR = 0;
+export const DNS_RCODE_NXDOMAIN = 3;
+
+/**
+ * A resource record of a DNS response
+ */
+export interface DnsRecord {
+  /** Owner name, lowercase, without the trailing dot */
+  name: string;
+  type: number;
+  /** Time to live in seconds */
+  ttl: number;
+  /**
+   * CNAME: the target name; A/AAAA: the address in canonical form;
+   * SOA: the negative caching TTL (minimum field); other types: ''
+   */
+  data: string;
+}
+
+export interface DnsMessage {
+  id: number;
+  /** Response code (0 = no error, 3 = name does not exist) */
+  rcode: number;
+  answers: DnsRecord[];
+  authority: DnsRecord[];
+}
+
+export interface DohResolverOptions {
+  /** URL of the DoH endpoint (RFC 8484) */
+  endpoint: string;
+  /** Give up on a query after this many milliseconds */
+  timeoutMs?: number;
+  /** Longest alias chain followed, against CNAME loops */
+  maxChainLength?: number;
+  /** Names kept in the answer cache */
+  maxCacheEntries?: number;
+}
+
+interface CachedName {
+  /** Alias target, or null if the name has no alias */
+  target: string | null;
+  expiresAt: number;
+}
+
+const DNS_HEADER_SIZE = 12;
+const DNS_CLASS_IN = 1;
+const FLAG_RECURSION_DESIRED = 0x0100;
+const MAX_LABEL_LENGTH = 63;
+const MAX_NAME_POINTERS = 32;
+
+const DEFAULT_TIMEOUT_MS = 3000;
+const DEFAULT_MAX_CHAIN_LENGTH = 8;
+const DEFAULT_MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * TTL used when a response does not say how long to cache it
+ */
+const DEFAULT_NEGATIVE_TTL_SECONDS = 60;
+
+/**
+ * Upper bound for cached answers, so a changed alias is picked up within a day
+ */
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+
+const BASE64URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Base64url without padding, as the `dns` query parameter expects
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+    for (let j = 0; j < chars; j++) {
+      out += BASE64URL_ALPHABET[(n >> (18 - j * 6)) & 63];
+    }
+  }
+  return out;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Encode a query for a name (ASCII, e.g. punycode) in DNS wire format
+ * The id is 0, as RFC 8484 recommends for cacheable GET requests.
+ */
+export function encodeDnsQuery(name: string, type: number = DNS_TYPE_A, id: number = 0): Uint8Array {
+  const labels = normalizeName(name).split('.');
+  const bytes: number[] = [
+    (id >> 8) & 0xff, id & 0xff,
+    FLAG_RECURSION_DESIRED >> 8, FLAG_RECURSION_DESIRED & 0xff,
+    0, 1, // one question
+    0, 0, 0, 0, 0, 0,
+  ];
+
+  for (const label of labels) {
+    if (!label || label.length > MAX_LABEL_LENGTH || !/^[\x21-\x7e]+$/.test(label)) {
+      throw new Error(`Invalid DNS name: ${name}`);
+    }
+    bytes.push(label.length);
+    for (let i = 0; i < label.length; i++) bytes.push(label.charCodeAt(i));
+  }
+  bytes.push(0, type >> 8, type & 0xff, 0, DNS_CLASS_IN);
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Read a possibly compressed name starting at `offset`
+ * Returns the name and the offset just past it in the record.
+ */
+function readName(bytes: Uint8Array, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let position = offset;
+  let next = -1;
+  let pointers = 0;
+
+  for (;;) {
+    if (position >= bytes.length) throw new Error('Truncated DNS name');
+    const length = bytes[position];
+
+    if ((length & 0xc0) === 0xc0) {
+      if (++pointers > MAX_NAME_POINTERS) throw new Error('DNS name compression loop');
+      if (next === -1) next = position + 2;
+      position = ((length & 0x3f) << 8) | bytes[position + 1];
+      continue;
+    }
+    if (length === 0) {
+      if (next === -1) next = position + 1;
+      break;
+    }
+    if (position + 1 + length > bytes.length) throw new Error('Truncated DNS name');
+    labels.push(String.fromCharCode(...bytes.subarray(position + 1, position + 1 + length)));
+    position += 1 + length;
+  }
+
+  return { name: labels.join('.').toLowerCase(), next };
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+/**
+ * Decode a DNS response in wire format
+ * Throws if the message is truncated or malformed.
+ */
+export function decodeDnsMessage(bytes: Uint8Array): DnsMessage {
+  if (bytes.length < DNS_HEADER_SIZE) throw new Error('Truncated DNS message');
+
+  const questionCount = readUint16(bytes, 4);
+  const answerCount = readUint16(bytes, 6);
+  const authorityCount = readUint16(bytes, 8);
+  let offset = DNS_HEADER_SIZE;
+
+  for (let i = 0; i < questionCount; i++) {
+    offset = readName(bytes, offset).next + 4;
+  }
+
+  const readRecords = (count: number): DnsRecord[] => {
+    const records: DnsRecord[] = [];
+    for (let i = 0; i < count; i++) {
+      const { name, next } = readName(bytes, offset);
+      if (next + 10 > bytes.length) throw new Error('Truncated DNS record');
+      const type = readUint16(bytes, next);
+      const ttl = readUint32(bytes, next + 4);
+      const length = readUint16(bytes, next + 8);
+      const start = next + 10;
+      if (start + length > bytes.length) throw new Error('Truncated DNS record');
+
+      let data = '';
+      if (type === DNS_TYPE_CNAME) {
+        data = readName(bytes, start).name;
+      } else if (type === DNS_TYPE_A && length === 4) {
+        data = formatIpAddress({ version: 4, bytes: bytes.slice(start, start + 4) });
+      } else if (type === DNS_TYPE_AAAA && length === 16) {
+        data = formatIpAddress({ version: 6, bytes: bytes.slice(start, start + 16) });
+      } else if (type === DNS_TYPE_SOA) {
+        // The minimum field is the last one of the record
+        data = String(readUint32(bytes, start + length - 4));
+      }
+
+      records.push({ name, type, ttl, data });
+      offset = start + length;
+    }
+    return records;
+  };
+
+  const answers = readRecords(answerCount);
+  const authority = readRecords(authorityCount);
+
+  return { id: readUint16(bytes, 0), rcode: bytes[3] & 0x0f, answers, authority };
+}
+
+/**
+ * Resolves alias (CNAME) chains over DNS-over-HTTPS, with a TTL cache
+ */
+export class DohResolver {
+  readonly endpoint: string;
+
+  private readonly timeoutMs: number;
+  private readonly maxChainLength: number;
+  private readonly maxCacheEntries: number;
+  /** Name -> alias target, in insertion order for eviction */
+  private readonly cache = new Map<string, CachedName>();
+  /** Queries in flight by name, so concurrent checks share one request */
+  private readonly pending = new Map<string, Promise<Map<string, string | null>>>();
+
+  constructor(options: DohResolverOptions) {
+    this.endpoint = options.endpoint;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxChainLength = options.maxChainLength ?? DEFAULT_MAX_CHAIN_LENGTH;
+    this.maxCacheEntries = options.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+  }
+
+  /**
+   * Get the aliases of a host, in chain order (the host itself not included)
+   * An empty array means the host is not an alias. Throws if a query fails.
+   */
+  async resolveCnameChain(host: string): Promise<string[]> {
+    const learned = new Map<string, string | null>();
+    const chain: string[] = [];
+    const start = normalizeName(host);
+    let name = start;
+
+    while (chain.length < this.maxChainLength) {
+      let target = learned.has(name) ? learned.get(name) : this.getCached(name);
+      if (target === undefined) {
+        (await this.lookup(name)).forEach((value, key) => learned.set(key, value));
+        target = learned.get(name);
+      }
+      if (!target || target === start || chain.includes(target)) break;
+
+      chain.push(target);
+      name = target;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Get the aliases of a host from the cache only
+   * Returns null if a link of the chain is not cached (or has expired).
+   */
+  getCachedCnameChain(host: string): string[] | null {
+    const chain: string[] = [];
+    const start = normalizeName(host);
+    let name = start;
+
+    while (chain.length < this.maxChainLength) {
+      const target = this.getCached(name);
+      if (target === undefined) return null;
+      if (!target || target === start || chain.includes(target)) break;
+
+      chain.push(target);
+      name = target;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Forget every cached answer
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Cached alias target of a name: a name, null for no alias, or
+   * undefined if not cached
+   */
+  private getCached(name: string): string | null | undefined {
+    const entry = this.cache.get(name);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.cache.delete(name);
+      return undefined;
+    }
+    return entry.target;
+  }
+
+  private setCached(name: string, target: string | null, ttl: number): void {
+    const seconds = Math.min(ttl, MAX_TTL_SECONDS);
+    if (seconds <= 0) return;
+
+    this.cache.delete(name);
+    this.cache.set(name, { target, expiresAt: Date.now() + seconds * 1000 });
+    // Drop the oldest entries first
+    while (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  /**
+   * Query a name and cache what the answer says about it and the names it
+   * leads to. Returns the aliases learned (target null = no alias).
+   */
+  private lookup(name: string): Promise<Map<string, string | null>> {
+    let request = this.pending.get(name);
+    if (!request) {
+      request = this.query(name).finally(() => this.pending.delete(name));
+      this.pending.set(name, request);
+    }
+    return request;
+  }
+
+  private async query(name: string): Promise<Map<string, string | null>> {
+    const url = `${this.endpoint}${this.endpoint.includes('?') ? '&' : '?'}dns=${base64UrlEncode(encodeDnsQuery(name))}`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let message: DnsMessage;
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'application/dns-message' },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`DNS-over-HTTPS request failed: HTTP ${response.status}`);
+      }
+      message = decodeDnsMessage(new Uint8Array(await response.arrayBuffer()));
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (message.rcode !== DNS_RCODE_NOERROR && message.rcode !== DNS_RCODE_NXDOMAIN) {
+      throw new Error(`DNS query for ${name} failed (rcode ${message.rcode})`);
+    }
+
+    const learned = new Map<string, string | null>();
+    let current = name;
+    for (let i = 0; i < this.maxChainLength; i++) {
+      const alias = message.answers.find(record => record.type === DNS_TYPE_CNAME && record.name === current);
+      if (!alias || learned.has(current)) break;
+      learned.set(current, alias.data);
+      this.setCached(current, alias.data, alias.ttl);
+      current = alias.data;
+    }
+
+    // The end of the chain is known when the resolver followed it to the
+    // addresses, or said there are none. Otherwise it is queried next.
+    const addresses = message.answers.filter(
+      record => record.name === current && (record.type === DNS_TYPE_A || record.type === DNS_TYPE_AAAA)
+    );
+    if (!learned.has(current) && (addresses.length > 0 || current === name)) {
+      const soa = message.authority.find(record => record.type === DNS_TYPE_SOA);
+      const ttl = addresses.length > 0
+        ? Math.min(...addresses.map(record => record.ttl))
+        : soa ? Math.min(soa.ttl, Number(soa.data)) : DEFAULT_NEGATIVE_TTL_SECONDS;
+      learned.set(current, null);
+      this.setCached(current, null, ttl);
+    }
+
+    return learned;
+  }
+}
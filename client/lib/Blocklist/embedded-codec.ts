@@ -0,0 +1,247 @@
+/**
+ * Embedded Blocklist Codec
+ *
+ * Binary format of the compiled embedded blocklist asset, shared by the
+ * build script (scripts/compile-embedded-blocklist.ts) and the app.
+ *
+ * The list is split into named sections: one per category (see
+ * categories.ts) for its domains, one named `<category>/patterns` for
+ * its wildcard and regex host rules (see host-patterns.ts), and one named
+ * `<category>/ips` for its IP address and CIDR rules (see ip-ranges.ts).
+ * Within a section, domains are stored with their labels
+ * reversed (`ads.example.com` becomes `com.example.ads`), sorted, and
+ * front-coded: each entry only stores the characters that differ from the
+ * previous entry, so the many subdomains of one site and the domains of one
+ * TLD share their common prefix.
+ *
+ * Layout (integers little-endian):
+ * - bytes 0-3    magic `SBBL`
+ * - byte 4       format version
+ * - bytes 5-7    reserved (0)
+ * - bytes 8-11   domain count, all sections together
+ * - bytes 12-15  payload length in bytes
+ * - bytes 16-19  CRC-32 of the payload
+ * - payload      varint section count, then per section: varint name
+ *                length, name (ASCII), varint domain count, and per domain
+ *                varint shared prefix length, varint suffix length, suffix
+ *                (ASCII). The shared prefix starts over in every section.
+ *
+ * This module has no React Native imports so it also runs under Node.
+ */
+
+export const EMBEDDED_BLOCKLIST_MAGIC = 'SBBL';
+export const EMBEDDED_BLOCKLIST_FORMAT_VERSION = 2;
+
+const HEADER_SIZE = 20;
+
+/**
+ * Suffix of the section names holding host patterns
+ */
+export const PATTERN_SECTION_SUFFIX = '/patterns';
+
+/**
+ * Suffix of the section names holding IP address and CIDR rules
+ */
+export const IP_SECTION_SUFFIX = '/ips';
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE) of a byte array
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Format a checksum the way the manifest stores it
+ */
+export function formatChecksum(checksum: number): string {
+  return checksum.toString(16).padStart(8, '0');
+}
+
+function reverseLabels(domain: string): string {
+  return domain.split('.').reverse().join('.');
+}
+
+/**
+ * Domains of an encoded list, by section name
+ */
+export interface DomainSections {
+  [name: string]: string[];
+}
+
+/**
+ * Encode lists of ASCII domains as named sections
+ * Each section is sorted and de-duplicated; callers validate the domains.
+ */
+export function encodeDomainSections(sections: DomainSections): Uint8Array {
+  const payload: number[] = [];
+  const writeVarint = (value: number) => {
+    while (value >= 0x80) {
+      payload.push((value & 0x7f) | 0x80);
+      value >>>= 7;
+    }
+    payload.push(value);
+  };
+  const writeAscii = (text: string, start: number, describe: () => string) => {
+    for (let i = start; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code > 0x7f) {
+        throw new Error(`${describe()} is not ASCII`);
+      }
+      payload.push(code);
+    }
+  };
+
+  const names = Object.keys(sections);
+  let total = 0;
+  writeVarint(names.length);
+
+  for (const name of names) {
+    const keys = Array.from(new Set(sections[name].map(reverseLabels))).sort();
+    writeVarint(name.length);
+    writeAscii(name, 0, () => `Section name ${name}`);
+    writeVarint(keys.length);
+    total += keys.length;
+
+    let previous = '';
+    for (const key of keys) {
+      let shared = 0;
+      const max = Math.min(previous.length, key.length);
+      while (shared < max && previous.charCodeAt(shared) === key.charCodeAt(shared)) {
+        shared++;
+      }
+
+      writeVarint(shared);
+      writeVarint(key.length - shared);
+      writeAscii(key, shared, () => `Domain ${reverseLabels(key)}`);
+      previous = key;
+    }
+  }
+
+  const bytes = new Uint8Array(HEADER_SIZE + payload.length);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < EMBEDDED_BLOCKLIST_MAGIC.length; i++) {
+    bytes[i] = EMBEDDED_BLOCKLIST_MAGIC.charCodeAt(i);
+  }
+  bytes[4] = EMBEDDED_BLOCKLIST_FORMAT_VERSION;
+  view.setUint32(8, total, true);
+  view.setUint32(12, payload.length, true);
+  bytes.set(payload, HEADER_SIZE);
+  view.setUint32(16, crc32(bytes.subarray(HEADER_SIZE)), true);
+
+  return bytes;
+}
+
+/**
+ * Read the header of an encoded list
+ * Throws if the bytes are not a blocklist asset this version can read
+ */
+export function readDomainListHeader(bytes: Uint8Array): { count: number; checksum: number; payloadLength: number } {
+  if (bytes.length < HEADER_SIZE) {
+    throw new Error('Embedded blocklist is truncated');
+  }
+  const magic = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+  if (magic !== EMBEDDED_BLOCKLIST_MAGIC) {
+    throw new Error('Not an embedded blocklist asset');
+  }
+  if (bytes[4] !== EMBEDDED_BLOCKLIST_FORMAT_VERSION) {
+    throw new Error(`Unsupported embedded blocklist format version ${bytes[4]}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return {
+    count: view.getUint32(8, true),
+    payloadLength: view.getUint32(12, true),
+    checksum: view.getUint32(16, true),
+  };
+}
+
+/**
+ * Decode an encoded list back into its sections, verifying its checksum
+ * Domains come back sorted by their reversed labels.
+ */
+export function decodeDomainSections(bytes: Uint8Array): DomainSections {
+  const { count, checksum, payloadLength } = readDomainListHeader(bytes);
+  if (bytes.length !== HEADER_SIZE + payloadLength) {
+    throw new Error('Embedded blocklist is truncated');
+  }
+  const payload = bytes.subarray(HEADER_SIZE);
+  if (crc32(payload) !== checksum) {
+    throw new Error('Embedded blocklist checksum mismatch');
+  }
+
+  let offset = 0;
+  const readVarint = (): number => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (offset >= payload.length) {
+        throw new Error('Embedded blocklist is truncated');
+      }
+      byte = payload[offset++];
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+  const readAscii = (length: number): string => {
+    if (offset + length > payload.length) {
+      throw new Error('Embedded blocklist is corrupt');
+    }
+    let text = '';
+    for (const end = offset + length; offset < end; offset++) {
+      text += String.fromCharCode(payload[offset]);
+    }
+    return text;
+  };
+
+  const sections: DomainSections = {};
+  const sectionCount = readVarint();
+  let total = 0;
+
+  for (let s = 0; s < sectionCount; s++) {
+    const name = readAscii(readVarint());
+    const sectionSize = readVarint();
+    total += sectionSize;
+    if (total > count) {
+      throw new Error('Embedded blocklist is corrupt');
+    }
+
+    const domains: string[] = new Array(sectionSize);
+    let previous = '';
+    for (let i = 0; i < sectionSize; i++) {
+      const shared = readVarint();
+      const length = readVarint();
+      if (shared > previous.length) {
+        throw new Error('Embedded blocklist is corrupt');
+      }
+      const key = previous.slice(0, shared) + readAscii(length);
+      domains[i] = reverseLabels(key);
+      previous = key;
+    }
+    sections[name] = domains;
+  }
+
+  if (total !== count || offset !== payload.length) {
+    throw new Error('Embedded blocklist is corrupt');
+  }
+  return sections;
+}
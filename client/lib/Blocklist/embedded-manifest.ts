@@ -0,0 +1,17 @@
+// Generated by scripts/compile-embedded-blocklist.ts from assets/blocklists/embedded.txt
+// Do not edit: run `npm run blocklist:build` after changing the list
+
+export const EMBEDDED_BLOCKLIST_MANIFEST = {
+  formatVersion: 2,
+  count: 210605,
+  checksum: '5f32bfad',
+  byteLength: 2321728,
+  categories: {
+    'adult': { domains: 88914, patterns: 2, ips: 0 },
+    'search-engines': { domains: 3, patterns: 0, ips: 0 },
+    'social': { domains: 31, patterns: 0, ips: 0 },
+    'dating': { domains: 16, patterns: 0, ips: 0 },
+    'ads': { domains: 121560, patterns: 0, ips: 69 },
+    'app-stores': { domains: 10, patterns: 0, ips: 0 },
+  },
+} as const;
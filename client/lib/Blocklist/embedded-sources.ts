@@ -0,0 +1,65 @@
+/**
+ * Embedded Blocklist Sources
+ *
+ * The decoded sections of the embedded blocklist (see embedded-codec.ts)
+ * grouped by category, and turned into one matcher source per category
+ * ('embedded:<category>'), so a category turned off in Settings drops out
+ * of the matcher.
+ *
+ * This module has no React Native imports so it also runs under Node.
+ */
+
+import { decodeDomainSections, IP_SECTION_SUFFIX, PATTERN_SECTION_SUFFIX } from './embedded-codec';
+import { BLOCKLIST_CATEGORIES, BlocklistCategory, isBlocklistCategory } from './categories';
+import { BlocklistSource } from './matcher';
+
+/**
+ * Embedded domains, host patterns and IP rules by category
+ */
+export type EmbeddedBlocklist = {
+  [category in BlocklistCategory]?: { domains: string[]; patterns: string[]; ipRanges: string[] };
+};
+
+/**
+ * Decode the embedded blocklist asset and group its sections by category
+ * Sections of unknown categories are skipped with a warning.
+ */
+export function decodeEmbeddedBlocklist(bytes: Uint8Array): EmbeddedBlocklist {
+  const sections = decodeDomainSections(bytes);
+  const blocklist: EmbeddedBlocklist = {};
+  for (const name of Object.keys(sections)) {
+    const suffix = [PATTERN_SECTION_SUFFIX, IP_SECTION_SUFFIX].find(s => name.endsWith(s)) || '';
+    const category = name.slice(0, name.length - suffix.length);
+    if (!isBlocklistCategory(category)) {
+      console.warn(`[Blocklist] Ignoring embedded section with unknown category: ${name}`);
+      continue;
+    }
+    const entry = blocklist[category] || (blocklist[category] = { domains: [], patterns: [], ipRanges: [] });
+    if (suffix === PATTERN_SECTION_SUFFIX) {
+      entry.patterns = sections[name];
+    } else if (suffix === IP_SECTION_SUFFIX) {
+      entry.ipRanges = sections[name];
+    } else {
+      entry.domains = sections[name];
+    }
+  }
+  return blocklist;
+}
+
+/**
+ * Matcher sources of the embedded categories that are turned on, in
+ * category order (all of them unless isEnabled is given)
+ */
+export function toEmbeddedSources(
+  blocklist: EmbeddedBlocklist,
+  isEnabled: (category: BlocklistCategory) => boolean = () => true
+): BlocklistSource[] {
+  const sources: BlocklistSource[] = [];
+  for (const category of BLOCKLIST_CATEGORIES) {
+    const list = blocklist[category.id];
+    if (list && isEnabled(category.id)) {
+      sources.push({ id: `embedded:${category.id}`, domains: list.domains, patterns: list.patterns, ipRanges: list.ipRanges });
+    }
+  }
+  return sources;
+}
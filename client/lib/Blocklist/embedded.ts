@@ -0,0 +1,45 @@
+/**
+ * Embedded Blocklist Asset
+ *
+ * The blocklist that ships with the app is curated as plain text in
+ * assets/blocklists/embedded.txt and compiled by
+ * scripts/compile-embedded-blocklist.ts into a compact binary asset
+ * (format in embedded-codec.ts). It is read and decoded on first use
+ * instead of being parsed out of the JavaScript bundle at startup.
+ *
+ * The asset holds the domains, the wildcard and regex host rules, and the
+ * IP address and CIDR rules of each category.
+ */
+
+import { Asset } from 'expo-asset';
+import { File } from 'expo-file-system';
+import { formatChecksum, readDomainListHeader } from './embedded-codec';
+import { EMBEDDED_BLOCKLIST_MANIFEST } from './embedded-manifest';
+import { decodeEmbeddedBlocklist, EmbeddedBlocklist } from './embedded-sources';
+import EMBEDDED_BLOCKLIST_ASSET from '../../../assets/blocklists/embedded.bin';
+
+export type { EmbeddedBlocklist } from './embedded-sources';
+
+/**
+ * Read and decode the embedded blocklist asset
+ * Throws if the asset is missing, corrupt, or was not rebuilt after the
+ * manifest changed
+ */
+export async function loadEmbeddedBlocklist(): Promise<EmbeddedBlocklist> {
+  const start = Date.now();
+
+  const asset = Asset.fromModule(EMBEDDED_BLOCKLIST_ASSET);
+  await asset.downloadAsync();
+  const bytes = await new File(asset.localUri ?? asset.uri).bytes();
+
+  // A stale asset would silently ship a different list than the one reviewed
+  const { checksum } = readDomainListHeader(bytes);
+  if (formatChecksum(checksum) !== EMBEDDED_BLOCKLIST_MANIFEST.checksum) {
+    throw new Error('Embedded blocklist asset does not match its manifest, run `npm run blocklist:build`');
+  }
+
+  const blocklist = decodeEmbeddedBlocklist(bytes);
+
+  console.log(`[Blocklist] Loaded embedded blocklist: ${EMBEDDED_BLOCKLIST_MANIFEST.count} domains in ${Date.now() - start}ms`);
+  return blocklist;
+}
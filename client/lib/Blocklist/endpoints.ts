@@ -4,10 +4,17 @@
  * This file defines the external blocklist sources that will be fetched and parsed.
  * Supports EasyList, AdGuard, uBlock Origin, and simple domain list formats.
  * 
- * Add or remove endpoints as needed. The blocklist system will automatically
- * fetch and parse these on app initialization and periodic updates.
+ * The endpoints below only seed the endpoint registry stored on the device.
+ * After the first launch the registry is the source of truth: users can
+ * enable, disable, edit, add and remove endpoints at runtime, and import or
+ * export the whole registry as JSON. Endpoints added to the defaults in a
+ * later release are merged in on the next launch, unless the user removed them.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isValidPublicKey, isValidSha256 } from './integrity';
+import { BlocklistCategory, normalizeCategories } from './categories';
+
 export interface BlocklistEndpoint {
   /** Unique identifier for this endpoint */
   id: string;
@@ -21,6 +28,20 @@ export interface BlocklistEndpoint {
   format: 'easylist' | 'adguard' | 'domains' | 'hosts';
   /** Optional description */
   description?: string;
+  /** How often to re-download this list, in hours (default: 24) */
+  updateIntervalHours?: number;
+  /** Free-form notes kept by the user */
+  notes?: string;
+  /** Kinds of sites the list blocks; it is skipped while all of them are turned off */
+  categories?: BlocklistCategory[];
+  /** Expected SHA-256 of the list (hex); only suits URLs whose content never changes */
+  sha256?: string;
+  /** Ed25519 public key (base64) the list must be signed with */
+  publicKey?: string;
+  /** URL of the detached signature (default: the list URL + `.sig`) */
+  signatureUrl?: string;
+  /** Reject an update that drops more than this share of the rules, in percent (default: 50) */
+  maxShrinkPercent?: number;
 }
 
 /**
@@ -51,6 +72,7 @@ export const DEFAULT_BLOCKLIST_ENDPOINTS: BlocklistEndpoint[] = [
     enabled: true,
     format: 'easylist',
     description: 'Primary adblock filter list',
+    categories: ['adult'],
   },
   {
     id: 'adult-nsfw-list-2',
@@ -59,6 +81,7 @@ export const DEFAULT_BLOCKLIST_ENDPOINTS: BlocklistEndpoint[] = [
     enabled: true,
     format: 'easylist',
     description: 'Primary adblock filter list',
+    categories: ['adult'],
   },
   // {
   //   id: '1Hosts-Extra',
@@ -107,6 +130,7 @@ export const DEFAULT_BLOCKLIST_ENDPOINTS: BlocklistEndpoint[] = [
     enabled: true,
     format: 'easylist',
     description: 'Primary adblock filter list',
+    categories: ['adult'],
   },
   {
     id: 'nsfw.oisd',
@@ -115,6 +139,7 @@ export const DEFAULT_BLOCKLIST_ENDPOINTS: BlocklistEndpoint[] = [
     enabled: true,
     format: 'easylist',
     description: 'Primary adblock filter list',
+    categories: ['adult'],
   },
   // {
   //   id: 'easylist',
@@ -196,21 +221,374 @@ export const CUSTOM_BLOCKLIST_ENDPOINTS: BlocklistEndpoint[] = [
   //   enabled: true,
   //   format: 'domains',
   //   description: 'My personal blocklist',
+  //   categories: ['social'],
   // },
 ];
 
+const ENDPOINT_REGISTRY_STORAGE_KEY = '@safebrowse_blocklist_endpoints';
+
+/**
+ * Storage key of the enabled/disabled overrides kept before the registry
+ * existed; migrated into the registry on first load
+ */
+const LEGACY_ENDPOINT_STATE_STORAGE_KEY = '@safebrowse_blocklist_endpoint_state';
+
+/**
+ * Current version of the registry export format
+ */
+const ENDPOINT_REGISTRY_EXPORT_VERSION = 1;
+
+export const DEFAULT_UPDATE_INTERVAL_HOURS = 24;
+
+const ENDPOINT_FORMATS: BlocklistEndpoint['format'][] = ['easylist', 'adguard', 'domains', 'hosts'];
+
+/**
+ * Registry as stored on the device
+ */
+interface StoredEndpointRegistry {
+  endpoints: BlocklistEndpoint[];
+  /** Ids of seed endpoints the user removed, so they are not merged back in */
+  removedSeedIds: string[];
+}
+
+/**
+ * Registry as written by exportEndpointRegistry
+ */
+export interface EndpointRegistryExport {
+  version: number;
+  exportedAt: string;
+  endpoints: BlocklistEndpoint[];
+}
+
+export interface EndpointRegistryImportResult {
+  success: boolean;
+  /** Endpoints added or updated */
+  imported: number;
+  /** Entries that were not valid endpoints */
+  skipped: number;
+  error?: string;
+}
+
+let registry: StoredEndpointRegistry | null = null;
+
+/**
+ * Endpoints shipped with the app
+ */
+function getSeedEndpoints(): BlocklistEndpoint[] {
+  return [...DEFAULT_BLOCKLIST_ENDPOINTS, ...CUSTOM_BLOCKLIST_ENDPOINTS];
+}
+
+/**
+ * Validate an endpoint and fill in defaults
+ * Returns null when the value cannot be used as an endpoint
+ */
+export function normalizeEndpoint(value: unknown): BlocklistEndpoint | null {
+  if (!value || typeof value !== 'object') return null;
+  const entry = value as Partial<BlocklistEndpoint>;
+
+  const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+  const url = typeof entry.url === 'string' ? entry.url.trim() : '';
+  if (!id || !/^https?:\/\/\S+$/i.test(url)) return null;
+
+  const format = entry.format && ENDPOINT_FORMATS.includes(entry.format) ? entry.format : 'easylist';
+  const interval = Number(entry.updateIntervalHours);
+
+  const endpoint: BlocklistEndpoint = {
+    id,
+    name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : id,
+    url,
+    enabled: entry.enabled !== false,
+    format,
+    updateIntervalHours: Number.isFinite(interval) && interval > 0 ? interval : DEFAULT_UPDATE_INTERVAL_HOURS,
+  };
+  if (typeof entry.description === 'string' && entry.description) {
+    endpoint.description = entry.description;
+  }
+  if (typeof entry.notes === 'string' && entry.notes) {
+    endpoint.notes = entry.notes;
+  }
+  const categories = normalizeCategories(entry.categories);
+  if (categories.length > 0) {
+    endpoint.categories = categories;
+  }
+
+  // A malformed pin must not silently turn verification off, so it invalidates the endpoint
+  if (entry.sha256 !== undefined) {
+    if (typeof entry.sha256 !== 'string' || !isValidSha256(entry.sha256.trim())) return null;
+    endpoint.sha256 = entry.sha256.trim().toLowerCase();
+  }
+  if (entry.publicKey !== undefined) {
+    if (typeof entry.publicKey !== 'string' || !isValidPublicKey(entry.publicKey.trim())) return null;
+    endpoint.publicKey = entry.publicKey.trim();
+  }
+  if (entry.signatureUrl !== undefined) {
+    const signatureUrl = typeof entry.signatureUrl === 'string' ? entry.signatureUrl.trim() : '';
+    if (!/^https?:\/\/\S+$/i.test(signatureUrl)) return null;
+    endpoint.signatureUrl = signatureUrl;
+  }
+  if (entry.maxShrinkPercent !== undefined) {
+    const maxShrinkPercent = Number(entry.maxShrinkPercent);
+    if (!Number.isFinite(maxShrinkPercent) || maxShrinkPercent < 0 || maxShrinkPercent > 100) return null;
+    endpoint.maxShrinkPercent = maxShrinkPercent;
+  }
+  return endpoint;
+}
+
+/**
+ * Normalize a list of endpoints, dropping invalid entries
+ */
+function normalizeEndpoints(values: unknown[]): BlocklistEndpoint[] {
+  return values
+    .map(normalizeEndpoint)
+    .filter((endpoint): endpoint is BlocklistEndpoint => endpoint !== null);
+}
+
+/**
+ * Build the initial registry from the seed endpoints, applying any
+ * enabled/disabled choices saved before the registry existed
+ */
+async function seedEndpointRegistry(): Promise<StoredEndpointRegistry> {
+  let overrides: { [id: string]: boolean } = {};
+  try {
+    const stored = await AsyncStorage.getItem(LEGACY_ENDPOINT_STATE_STORAGE_KEY);
+    overrides = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('[Blocklist] Failed to read legacy endpoint settings:', error);
+  }
+
+  const endpoints = normalizeEndpoints(getSeedEndpoints()).map(endpoint =>
+    endpoint.id in overrides ? { ...endpoint, enabled: overrides[endpoint.id] } : endpoint
+  );
+
+  return { endpoints, removedSeedIds: [] };
+}
+
+/**
+ * Persist the registry; the in-memory copy is only replaced once saved
+ */
+async function saveEndpointRegistry(next: StoredEndpointRegistry): Promise<boolean> {
+  try {
+    await AsyncStorage.setItem(ENDPOINT_REGISTRY_STORAGE_KEY, JSON.stringify(next));
+    registry = next;
+    return true;
+  } catch (error) {
+    console.warn('[Blocklist] Failed to save endpoint registry:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the endpoint registry from storage, seeding it on first launch
+ * and merging in seed endpoints added since the last launch
+ */
+export async function loadEndpointRegistry(): Promise<void> {
+  let stored: StoredEndpointRegistry | null = null;
+
+  try {
+    const raw = await AsyncStorage.getItem(ENDPOINT_REGISTRY_STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as StoredEndpointRegistry;
+      stored = {
+        endpoints: normalizeEndpoints(parsed.endpoints || []),
+        removedSeedIds: parsed.removedSeedIds || [],
+      };
+    }
+  } catch (error) {
+    console.warn('[Blocklist] Failed to load endpoint registry:', error);
+  }
+
+  if (!stored) {
+    const seeded = await seedEndpointRegistry();
+    if (await saveEndpointRegistry(seeded)) {
+      await AsyncStorage.removeItem(LEGACY_ENDPOINT_STATE_STORAGE_KEY).catch(() => {});
+    } else {
+      registry = seeded;
+    }
+    console.log(`[Blocklist] Seeded endpoint registry with ${seeded.endpoints.length} endpoints`);
+    return;
+  }
+
+  const knownIds = new Set(stored.endpoints.map(endpoint => endpoint.id));
+  const removedSeedIds = stored.removedSeedIds;
+  const added = normalizeEndpoints(getSeedEndpoints().filter(endpoint =>
+    !knownIds.has(endpoint.id) && !removedSeedIds.includes(endpoint.id)
+  ));
+
+  // Seed endpoints saved before categories existed take the seed's categories
+  let categorized = 0;
+  const endpoints = stored.endpoints.map(endpoint => {
+    const seed = getSeedEndpoints().find(e => e.id === endpoint.id);
+    if (endpoint.categories || !seed?.categories) return endpoint;
+    categorized++;
+    return { ...endpoint, categories: seed.categories };
+  });
+
+  if (added.length > 0 || categorized > 0) {
+    const merged = { ...stored, endpoints: [...endpoints, ...added] };
+    if (!(await saveEndpointRegistry(merged))) {
+      registry = merged;
+    }
+    console.log(`[Blocklist] Added ${added.length} new default endpoints to the registry, categorized ${categorized}`);
+  } else {
+    registry = stored;
+  }
+}
+
+/**
+ * Get the current registry, falling back to the seeds until it is loaded
+ */
+function getRegistry(): StoredEndpointRegistry {
+  return registry || { endpoints: normalizeEndpoints(getSeedEndpoints()), removedSeedIds: [] };
+}
+
+/**
+ * Add a new endpoint to the registry
+ */
+export async function addEndpoint(value: BlocklistEndpoint): Promise<{ success: boolean; error?: string }> {
+  const endpoint = normalizeEndpoint(value);
+  if (!endpoint) {
+    return { success: false, error: 'An endpoint needs an id and a valid http(s) URL' };
+  }
+
+  const current = getRegistry();
+  if (current.endpoints.some(e => e.id === endpoint.id)) {
+    return { success: false, error: `An endpoint with id "${endpoint.id}" already exists` };
+  }
+
+  const saved = await saveEndpointRegistry({
+    endpoints: [...current.endpoints, endpoint],
+    removedSeedIds: current.removedSeedIds.filter(id => id !== endpoint.id),
+  });
+  return saved ? { success: true } : { success: false, error: 'Could not save the endpoint' };
+}
+
+/**
+ * Update fields of an existing endpoint
+ */
+export async function updateEndpoint(
+  id: string,
+  changes: Partial<Omit<BlocklistEndpoint, 'id'>>
+): Promise<boolean> {
+  const current = getRegistry();
+  const existing = current.endpoints.find(e => e.id === id);
+  if (!existing) return false;
+
+  const endpoint = normalizeEndpoint({ ...existing, ...changes, id });
+  if (!endpoint) return false;
+
+  return saveEndpointRegistry({
+    ...current,
+    endpoints: current.endpoints.map(e => (e.id === id ? endpoint : e)),
+  });
+}
+
+/**
+ * Enable or disable an endpoint
+ */
+export async function setEndpointEnabled(id: string, enabled: boolean): Promise<boolean> {
+  return updateEndpoint(id, { enabled });
+}
+
+/**
+ * Remove an endpoint from the registry
+ * Removed seed endpoints stay removed across app updates
+ */
+export async function removeEndpoint(id: string): Promise<boolean> {
+  const current = getRegistry();
+  if (!current.endpoints.some(e => e.id === id)) return false;
+
+  const isSeed = getSeedEndpoints().some(e => e.id === id);
+  return saveEndpointRegistry({
+    endpoints: current.endpoints.filter(e => e.id !== id),
+    removedSeedIds: isSeed && !current.removedSeedIds.includes(id)
+      ? [...current.removedSeedIds, id]
+      : current.removedSeedIds,
+  });
+}
+
+/**
+ * Export the registry as a JSON string
+ */
+export function exportEndpointRegistry(): string {
+  const data: EndpointRegistryExport = {
+    version: ENDPOINT_REGISTRY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    endpoints: getRegistry().endpoints,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Import endpoints from JSON, either an export produced by
+ * exportEndpointRegistry or a plain array of endpoints.
+ * 'merge' adds new endpoints and updates existing ones by id;
+ * 'replace' swaps the whole registry for the imported endpoints.
+ */
+export async function importEndpointRegistry(
+  json: string,
+  mode: 'merge' | 'replace' = 'merge'
+): Promise<EndpointRegistryImportResult> {
+  let entries: unknown[];
+  try {
+    const parsed = JSON.parse(json);
+    entries = Array.isArray(parsed) ? parsed : parsed?.endpoints;
+    if (!Array.isArray(entries)) {
+      return { success: false, imported: 0, skipped: 0, error: 'No endpoints found in the file' };
+    }
+  } catch {
+    return { success: false, imported: 0, skipped: 0, error: 'The file is not valid JSON' };
+  }
+
+  const imported = new Map<string, BlocklistEndpoint>();
+  let skipped = 0;
+  for (const entry of entries) {
+    const endpoint = normalizeEndpoint(entry);
+    if (endpoint) {
+      imported.set(endpoint.id, endpoint);
+    } else {
+      skipped++;
+    }
+  }
+
+  if (imported.size === 0) {
+    return { success: false, imported: 0, skipped, error: 'No valid endpoints found in the file' };
+  }
+
+  const current = getRegistry();
+  let endpoints: BlocklistEndpoint[];
+  let removedSeedIds: string[];
+
+  if (mode === 'replace') {
+    endpoints = Array.from(imported.values());
+    removedSeedIds = getSeedEndpoints().map(e => e.id).filter(id => !imported.has(id));
+  } else {
+    endpoints = current.endpoints.map(e => imported.get(e.id) || e);
+    const existingIds = new Set(current.endpoints.map(e => e.id));
+    imported.forEach((endpoint, id) => {
+      if (!existingIds.has(id)) endpoints.push(endpoint);
+    });
+    removedSeedIds = current.removedSeedIds.filter(id => !imported.has(id));
+  }
+
+  const saved = await saveEndpointRegistry({ endpoints, removedSeedIds });
+  if (!saved) {
+    return { success: false, imported: 0, skipped, error: 'Could not save the endpoint registry' };
+  }
+
+  console.log(`[Blocklist] Imported ${imported.size} endpoints (${mode}), skipped ${skipped}`);
+  return { success: true, imported: imported.size, skipped };
+}
+
 /**
  * Get all enabled blocklist endpoints
  */
 export function getEnabledEndpoints(): BlocklistEndpoint[] {
-  return [...DEFAULT_BLOCKLIST_ENDPOINTS, ...CUSTOM_BLOCKLIST_ENDPOINTS]
-    .filter(endpoint => endpoint.enabled);
+  return getAllEndpoints().filter(endpoint => endpoint.enabled);
 }
 
 /**
  * Get all blocklist endpoints (enabled and disabled)
  */
 export function getAllEndpoints(): BlocklistEndpoint[] {
-  return [...DEFAULT_BLOCKLIST_ENDPOINTS, ...CUSTOM_BLOCKLIST_ENDPOINTS];
+  return getRegistry().endpoints.map(endpoint => ({ ...endpoint }));
 }
-
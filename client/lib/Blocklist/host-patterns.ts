@@ -0,0 +1,228 @@
+/**
+ * Host Patterns
+ *
+ * Wildcard and regex host rules, for the entries an exact-match index
+ * cannot hold:
+ * - Globs: `*` matches any run of characters, dots included
+ *   (`zphimsex*.pro`, `*.xxx`, `ads*.example.*`). Like a domain entry, a
+ *   glob also blocks the subdomains of the hosts it matches.
+ * - Anchored regexes: `/^ads\d+\.example\.com$/`, tested against the whole
+ *   host (lowercase, punycode). They must start with `^` and end with `$`;
+ *   other `/regex/` rules are URL patterns (see network.ts).
+ *
+ * A plain `*.example.com` is not a pattern: it is the domain entry
+ * example.com, which the exact-match index already covers with its
+ * subdomains.
+ *
+ * Patterns are only consulted when the exact-match index has no entry for a
+ * host. Globs are grouped by their top-level domain, and each group is
+ * compiled into one regular expression, so a lookup runs a single regex
+ * test for the host's TLD plus one for globs with a wildcard TLD.
+ */
+
+import { toASCIIDomain } from './idn';
+
+/**
+ * A host pattern and the source it came from
+ */
+export interface HostPatternSource {
+  /** Index of the source, as used by the caller */
+  sourceIndex: number;
+  /** Patterns as written in the list (see toHostPattern) */
+  patterns: string[];
+}
+
+export interface HostPatternMatch {
+  /** The pattern as written in the list */
+  pattern: string;
+  sourceIndex: number;
+}
+
+interface CompiledPattern {
+  pattern: string;
+  sourceIndex: number;
+  regex: RegExp;
+}
+
+/**
+ * Patterns sharing one combined regular expression
+ */
+interface PatternGroup {
+  combined: RegExp;
+  patterns: CompiledPattern[];
+}
+
+const HOST_REGEX_PATTERN = /^\/\^.*\$\/$/;
+const GLOB_PATTERN = /^[a-z0-9*_.-]+$/;
+
+/**
+ * Whether a rule is an anchored regex host rule (`/^...$/`)
+ */
+export function isHostRegexRule(rule: string): boolean {
+  return HOST_REGEX_PATTERN.test(rule);
+}
+
+/**
+ * Whether a rule is a glob host rule, i.e. it has a `*` other than a
+ * leading `*.` in front of a plain domain
+ */
+export function isHostGlobRule(rule: string): boolean {
+  const rest = rule.startsWith('*.') ? rule.substring(2) : rule;
+  return rest.includes('*') || (rule.startsWith('*.') && !rest.includes('.'));
+}
+
+/**
+ * Validate a wildcard or regex host rule and bring it into the form it is
+ * stored in (globs lowercase, with Unicode labels as punycode)
+ * Returns null if the rule is not a usable host pattern.
+ */
+export function toHostPattern(raw: string): string | null {
+  const rule = raw.trim();
+
+  if (isHostRegexRule(rule)) {
+    try {
+      new RegExp(rule.substring(1, rule.length - 1), 'i');
+    } catch {
+      return null;
+    }
+    return rule;
+  }
+
+  const glob = rule.split('.').map(label => (label.includes('*') ? label : toASCIIDomain(label))).join('.').toLowerCase();
+  // Needs a literal part that is not just dots, so it cannot match every host
+  if (!GLOB_PATTERN.test(glob) || !/[a-z0-9_-]/.test(glob) || glob.startsWith('.') || glob.endsWith('.') || glob.includes('..')) {
+    return null;
+  }
+  return glob;
+}
+
+/**
+ * Regular expression source matching the hosts a glob covers, subdomains included
+ */
+function globToRegExpSource(glob: string): string {
+  const body = glob
+    .split('*')
+    .map(part => part.replace(/[.\-]/g, '\\$&'))
+    .join('.*');
+  return `^(?:.+\\.)?${body}$`;
+}
+
+/**
+ * Top-level domain of a glob, or '' if it is a wildcard
+ */
+function getGlobTld(glob: string): string {
+  const tld = glob.substring(glob.lastIndexOf('.') + 1);
+  return tld.includes('*') || tld === glob ? '' : tld;
+}
+
+function createGroup(patterns: CompiledPattern[]): PatternGroup {
+  return {
+    combined: new RegExp(patterns.map(p => `(?:${p.regex.source})`).join('|')),
+    patterns,
+  };
+}
+
+export class HostPatternMatcher {
+  /** Number of patterns in the index */
+  readonly size: number;
+
+  /** Globs by top-level domain */
+  private readonly globsByTld: Map<string, PatternGroup>;
+  /** Globs with a wildcard top-level domain */
+  private readonly anyTldGlobs: PatternGroup | null;
+  /** Regex rules, tested one by one (they may use backreferences) */
+  private readonly regexes: CompiledPattern[];
+
+  private constructor(
+    globsByTld: Map<string, PatternGroup>,
+    anyTldGlobs: PatternGroup | null,
+    regexes: CompiledPattern[],
+    size: number
+  ) {
+    this.globsByTld = globsByTld;
+    this.anyTldGlobs = anyTldGlobs;
+    this.regexes = regexes;
+    this.size = size;
+  }
+
+  /**
+   * Compile the patterns of several sources, in priority order
+   * Invalid patterns are skipped.
+   */
+  static build(sources: HostPatternSource[]): HostPatternMatcher {
+    const byTld = new Map<string, CompiledPattern[]>();
+    const anyTld: CompiledPattern[] = [];
+    const regexes: CompiledPattern[] = [];
+    const seen = new Set<string>();
+
+    for (const { sourceIndex, patterns } of sources) {
+      for (const raw of patterns) {
+        const pattern = toHostPattern(raw);
+        if (!pattern || seen.has(`${sourceIndex}\t${pattern}`)) continue;
+        seen.add(`${sourceIndex}\t${pattern}`);
+
+        if (isHostRegexRule(pattern)) {
+          regexes.push({ pattern, sourceIndex, regex: new RegExp(pattern.substring(1, pattern.length - 1), 'i') });
+          continue;
+        }
+
+        const compiled = { pattern, sourceIndex, regex: new RegExp(globToRegExpSource(pattern)) };
+        const tld = getGlobTld(pattern);
+        if (!tld) {
+          anyTld.push(compiled);
+        } else {
+          const group = byTld.get(tld);
+          if (group) {
+            group.push(compiled);
+          } else {
+            byTld.set(tld, [compiled]);
+          }
+        }
+      }
+    }
+
+    const globsByTld = new Map<string, PatternGroup>();
+    byTld.forEach((patterns, tld) => globsByTld.set(tld, createGroup(patterns)));
+
+    return new HostPatternMatcher(
+      globsByTld,
+      anyTld.length > 0 ? createGroup(anyTld) : null,
+      regexes,
+      seen.size
+    );
+  }
+
+  /**
+   * Find every pattern matching a normalized host, in source priority order
+   */
+  match(host: string): HostPatternMatch[] {
+    if (this.size === 0) return [];
+
+    const matches: CompiledPattern[] = [];
+    const collect = (group: PatternGroup | null | undefined) => {
+      if (group && group.combined.test(host)) {
+        group.patterns.forEach(p => p.regex.test(host) && matches.push(p));
+      }
+    };
+
+    collect(this.globsByTld.get(host.substring(host.lastIndexOf('.') + 1)));
+    collect(this.anyTldGlobs);
+    this.regexes.forEach(p => p.regex.test(host) && matches.push(p));
+
+    return matches
+      .sort((a, b) => a.sourceIndex - b.sourceIndex)
+      .map(({ pattern, sourceIndex }) => ({ pattern, sourceIndex }));
+  }
+
+  /**
+   * Regular expression sources matching the hosts each pattern covers
+   */
+  toRegExpSources(): string[] {
+    const sources: string[] = [];
+    const add = (group: PatternGroup | null | undefined) => group?.patterns.forEach(p => sources.push(p.regex.source));
+    this.globsByTld.forEach(add);
+    add(this.anyTldGlobs);
+    this.regexes.forEach(p => sources.push(p.regex.source));
+    return sources;
+  }
+}
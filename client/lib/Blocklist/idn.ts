@@ -0,0 +1,156 @@
+/**
+ * Internationalized Domain Names
+ *
+ * Browsers resolve hosts like "bücher.example" as their ASCII (punycode)
+ * form "xn--bcher-kva.example", and `new URL().hostname` reports that form.
+ * Blocklist entries written in Unicode are converted the same way so both
+ * spellings end up as the same index key.
+ *
+ * Only the Punycode encoding (RFC 3492) and lowercasing are applied; full
+ * UTS #46 mapping is not needed for the names that appear in blocklists.
+ * Decoding is provided to compare a host's Unicode form with look-alike
+ * names (see canonical-url.ts).
+ */
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+const ACE_PREFIX = 'xn--';
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  let k = 0;
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  for (; delta > ((BASE - T_MIN) * T_MAX) >> 1; k += BASE) {
+    delta = Math.floor(delta / (BASE - T_MIN));
+  }
+  return Math.floor(k + ((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+}
+
+function digitToChar(digit: number): string {
+  // 0..25 map to a..z, 26..35 map to 0..9
+  return String.fromCharCode(digit + 22 + 75 * (digit < 26 ? 1 : 0));
+}
+
+function charToDigit(code: number): number {
+  if (code >= 0x30 && code <= 0x39) return code - 22;
+  if (code >= 0x61 && code <= 0x7a) return code - 0x61;
+  if (code >= 0x41 && code <= 0x5a) return code - 0x41;
+  return BASE;
+}
+
+/**
+ * Encode a single Unicode label as Punycode (without the xn-- prefix)
+ */
+export function punycodeEncode(label: string): string {
+  const codePoints = Array.from(label).map(char => char.codePointAt(0)!);
+  const output: string[] = codePoints.filter(cp => cp < 0x80).map(cp => String.fromCharCode(cp));
+  const basicLength = output.length;
+  let handled = basicLength;
+  let n = INITIAL_N;
+  let delta = 0;
+  let bias = INITIAL_BIAS;
+
+  if (basicLength > 0) {
+    output.push('-');
+  }
+
+  while (handled < codePoints.length) {
+    const next = Math.min(...codePoints.filter(cp => cp >= n));
+    delta += (next - n) * (handled + 1);
+    n = next;
+
+    for (const cp of codePoints) {
+      if (cp < n) {
+        delta++;
+      } else if (cp === n) {
+        let q = delta;
+        for (let k = BASE; ; k += BASE) {
+          const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+          if (q < t) break;
+          output.push(digitToChar(t + ((q - t) % (BASE - t))));
+          q = Math.floor((q - t) / (BASE - t));
+        }
+        output.push(digitToChar(q));
+        bias = adaptBias(delta, handled + 1, handled === basicLength);
+        delta = 0;
+        handled++;
+      }
+    }
+
+    delta++;
+    n++;
+  }
+
+  return output.join('');
+}
+
+/**
+ * Convert a domain to its lowercase ASCII form, encoding Unicode labels
+ * as Punycode. ASCII domains are only lowercased.
+ */
+export function toASCIIDomain(domain: string): string {
+  const lower = domain.toLowerCase();
+  // Fast path: nothing to encode
+  if (!/[^\x00-\x7f]/.test(lower)) return lower;
+
+  return lower
+    // Ideographic and fullwidth full stops separate labels too
+    .split(/[.。．｡]/)
+    .map(label => (/[^\x00-\x7f]/.test(label) ? ACE_PREFIX + punycodeEncode(label.normalize('NFC')) : label))
+    .join('.');
+}
+
+/**
+ * Decode a single Punycode label (without the xn-- prefix), or null if it
+ * is not valid Punycode
+ */
+export function punycodeDecode(label: string): string | null {
+  const delimiter = label.lastIndexOf('-');
+  const output: number[] = [];
+  for (let i = 0; i < Math.max(delimiter, 0); i++) {
+    if (label.charCodeAt(i) >= 0x80) return null;
+    output.push(label.charCodeAt(i));
+  }
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+  for (let index = delimiter > 0 ? delimiter + 1 : 0; index < label.length; ) {
+    const oldI = i;
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (index >= label.length) return null;
+      const digit = charToDigit(label.charCodeAt(index++));
+      if (digit >= BASE) return null;
+      i += digit * w;
+      const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (digit < t) break;
+      w *= BASE - t;
+    }
+    bias = adaptBias(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > 0x10ffff) return null;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+/**
+ * Convert a domain to its Unicode form, decoding xn-- labels. Labels that
+ * are not valid Punycode are kept as they are.
+ */
+export function toUnicodeDomain(domain: string): string {
+  const lower = domain.toLowerCase();
+  if (!lower.includes(ACE_PREFIX)) return lower;
+
+  return lower
+    .split('.')
+    .map(label => (label.startsWith(ACE_PREFIX) ? punycodeDecode(label.slice(ACE_PREFIX.length)) ?? label : label))
+    .join('.');
+}
@@ -0,0 +1,187 @@
+/**
+ * Blocklist Import
+ *
+ * Brings list files from outside the app into the local blocklist directory:
+ * - Files chosen in the system document picker
+ * - Files and text shared to the app from other apps (share sheet)
+ *
+ * Nothing is saved right away. An import is first turned into a preview
+ * with the detected format and the number of domains it blocks, and the
+ * Blocklists screen saves it with addBlocklistFromText once the user
+ * confirms.
+ *
+ * Shares can arrive while any screen is open, so they are handed to the
+ * Blocklists screen through a single pending import.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { ShareIntent } from 'expo-share-intent';
+import type { BlocklistEndpoint } from './endpoints';
+import { countCosmeticSelectors } from './cosmetic';
+import { countBlockedDomains } from './manager';
+import { detectBlocklistFormat, parseBlocklist } from './parser';
+
+/**
+ * A list read from a file or share, waiting to be confirmed
+ */
+export interface BlocklistImportPreview {
+  /** Suggested list name (the file name, or a name for shared text) */
+  name: string;
+  content: string;
+  format: BlocklistEndpoint['format'];
+  /** Domains, wildcards and regex host rules the list blocks */
+  domainCount: number;
+  /** URL-pattern rules applied to page requests */
+  networkFilters: number;
+  /** Element hiding selectors */
+  cosmeticSelectors: number;
+  /** Rules the parser could not use */
+  unsupportedRules: number;
+}
+
+/**
+ * Something shared to the app that can become a blocklist
+ * A shared link is offered as a list URL rather than downloaded right away.
+ */
+export type SharedBlocklist =
+  | { kind: 'content'; preview: BlocklistImportPreview }
+  | { kind: 'url'; url: string };
+
+/**
+ * Largest file accepted, about twice the size of the biggest common lists
+ */
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * MIME types offered in the document picker. Hosts files usually have no
+ * extension and are reported as application/octet-stream.
+ */
+const IMPORT_MIME_TYPES = ['text/*', 'application/octet-stream'];
+
+let pendingImport: SharedBlocklist | null = null;
+const pendingImportListeners = new Set<() => void>();
+
+/**
+ * Detect the format of a list and count what it would block
+ */
+export function previewBlocklistImport(content: string, name: string): BlocklistImportPreview {
+  const format = detectBlocklistFormat(content);
+  const parsed = parseBlocklist(content, format);
+
+  return {
+    name,
+    content,
+    format,
+    domainCount: countBlockedDomains(parsed),
+    networkFilters: parsed.network?.blocks.length || 0,
+    cosmeticSelectors: parsed.cosmetic ? countCosmeticSelectors(parsed.cosmetic) : 0,
+    unsupportedRules: parsed.report?.unsupportedRules || 0,
+  };
+}
+
+/**
+ * Whether an import blocks anything and can be saved
+ */
+export function isUsableBlocklistImport(preview: BlocklistImportPreview): boolean {
+  return preview.domainCount > 0 || preview.networkFilters > 0 || preview.cosmeticSelectors > 0;
+}
+
+/**
+ * Read a text file the app was given access to (file:// or content://)
+ * The size is asked of the file system when the picker or share did not
+ * report it; a file whose size cannot be learned is refused.
+ */
+async function readImportFile(uri: string, size?: number | null): Promise<string> {
+  // Android shares report plain file paths
+  const fileUri = uri.startsWith('/') ? `file://${uri}` : uri;
+  let fileSize = size;
+  if (fileSize == null) {
+    const info = await FileSystem.getInfoAsync(fileUri);
+    fileSize = info.exists ? info.size : null;
+  }
+  if (fileSize == null) {
+    throw new Error('The size of the file could not be read');
+  }
+  if (fileSize > MAX_IMPORT_BYTES) {
+    throw new Error(`The file is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`);
+  }
+  return FileSystem.readAsStringAsync(fileUri);
+}
+
+/**
+ * Let the user choose a list file in the system document picker
+ * Returns null if the user cancelled.
+ */
+export async function pickBlocklistFile(): Promise<BlocklistImportPreview | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: IMPORT_MIME_TYPES,
+    copyToCacheDirectory: true,
+    multiple: false,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  try {
+    const content = await readImportFile(asset.uri, asset.size);
+    console.log(`[Blocklist] Picked ${asset.name} (${content.length} characters)`);
+    return previewBlocklistImport(content, asset.name);
+  } finally {
+    // The picker copied the file into the cache; the content is in memory now
+    FileSystem.deleteAsync(asset.uri, { idempotent: true }).catch(() => {});
+  }
+}
+
+/**
+ * Turn a share sheet intent into an import
+ * Returns null if nothing usable was shared (e.g. an image).
+ */
+export async function readSharedBlocklist(shareIntent: ShareIntent): Promise<SharedBlocklist | null> {
+  const file = shareIntent.files?.find(f => !f.mimeType || f.mimeType.startsWith('text/') || f.mimeType === 'application/octet-stream');
+  if (file) {
+    const content = await readImportFile(file.path, file.size);
+    return { kind: 'content', preview: previewBlocklistImport(content, file.fileName) };
+  }
+
+  const text = (shareIntent.text || '').trim();
+  const url = shareIntent.webUrl || (/^https?:\/\/\S+$/i.test(text) ? text : null);
+  if (url && (!text || text === url)) {
+    return { kind: 'url', url };
+  }
+
+  // A few domains or rules copied from a notes app or chat
+  if (text) {
+    const preview = previewBlocklistImport(text, shareIntent.meta?.title || `shared-${Date.now()}`);
+    return isUsableBlocklistImport(preview) ? { kind: 'content', preview } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Hand a shared list to the Blocklists screen
+ */
+export function setPendingBlocklistImport(shared: SharedBlocklist): void {
+  pendingImport = shared;
+  pendingImportListeners.forEach(listener => listener());
+}
+
+/**
+ * Take the shared list waiting for the Blocklists screen, if any
+ */
+export function takePendingBlocklistImport(): SharedBlocklist | null {
+  const shared = pendingImport;
+  pendingImport = null;
+  return shared;
+}
+
+/**
+ * Get notified when a shared list is waiting
+ * Returns a function removing the listener.
+ */
+export function onPendingBlocklistImport(listener: () => void): () => void {
+  pendingImportListeners.add(listener);
+  return () => {
+    pendingImportListeners.delete(listener);
+  };
+}
@@ -38,6 +38,17 @@ export {
   CUSTOM_BLOCKLIST_ENDPOINTS,
   getEnabledEndpoints,
   getAllEndpoints,
+  loadEndpointRegistry,
+  setEndpointEnabled,
+  addEndpoint,
+  updateEndpoint,
+  removeEndpoint,
+  normalizeEndpoint,
+  exportEndpointRegistry,
+  importEndpointRegistry,
+  EndpointRegistryExport,
+  EndpointRegistryImportResult,
+  DEFAULT_UPDATE_INTERVAL_HOURS,
 } from './endpoints';
 
 // Re-export parsers
@@ -47,8 +58,100 @@ export {
   parseDomainsFormat,
   parseHostsFormat,
   parseBlocklistContent,
+  parseEasyListRules,
+  parseBlocklist,
+  detectBlocklistFormat,
+  parseHostsRules,
+  parseDomainsRules,
+  toBlockableHost,
+  ParsedBlocklist,
+  RuleReport,
+  RuleReportEntry,
+  UnsupportedRuleReason,
+  ApproximatedRuleReason,
+  RULE_REPORT_REASON_LABELS,
 } from './parser';
 
+export { toASCIIDomain } from './idn';
+
+// Re-export the embedded blocklist asset format
+export { loadEmbeddedBlocklist, EmbeddedBlocklist } from './embedded';
+export { EMBEDDED_BLOCKLIST_MANIFEST } from './embedded-manifest';
+export {
+  DomainSections,
+  encodeDomainSections,
+  decodeDomainSections,
+  readDomainListHeader,
+  EMBEDDED_BLOCKLIST_FORMAT_VERSION,
+  IP_SECTION_SUFFIX,
+  PATTERN_SECTION_SUFFIX,
+} from './embedded-codec';
+
+// Re-export element hiding rules
+export {
+  CosmeticRules,
+  CosmeticSource,
+  CosmeticFilterIndex,
+  countCosmeticSelectors,
+} from './cosmetic';
+
+// Re-export network (URL pattern) filters
+export {
+  NetworkFilter,
+  NetworkRules,
+  NetworkSource,
+  NetworkRequest,
+  NetworkMatch,
+  NetworkFilterMatcher,
+  ExportedNetworkFilter,
+  ResourceType,
+  RESOURCE_TYPES,
+  toRegExpSource,
+} from './network';
+
+export {
+  NATIVE_REQUEST_RULES_FILENAME,
+  isNativeRequestBlockingSupported,
+  writeNativeRequestRules,
+} from './native-rules';
+
+export { NativeRequestRules, serializeNativeRequestRules } from './native-rules-format';
+
+// Re-export download integrity checks
+export {
+  BlocklistIntegrity,
+  BlocklistRejection,
+  BlocklistRejectionReason,
+  DEFAULT_MAX_SHRINK_PERCENT,
+  verifyBlocklistContent,
+  checkBlocklistShrink,
+  getBlocklistRejections,
+  clearBlocklistRejections,
+} from './integrity';
+
+export { sha256, ed25519Verify } from './crypto';
+
+// Re-export the changelog of blocklist refreshes
+export {
+  BlocklistChange,
+  BlocklistChangeKind,
+  BlocklistChangeCounts,
+  DomainChangeHistory,
+  getBlocklistChangelog,
+  getBlocklistChangeCounts,
+  getDomainChangeHistory,
+  clearBlocklistChangelog,
+} from './changelog';
+
+// Re-export blocklist categories
+export {
+  BlocklistCategory,
+  BlocklistCategoryInfo,
+  BLOCKLIST_CATEGORIES,
+  getBlocklistCategory,
+  isBlocklistCategory,
+} from './categories';
+
 // Re-export manager functions (internal - use blocklist.ts exports for public API)
 export {
   getExternalAndLocalDomains,
@@ -60,8 +163,80 @@ export {
   deleteLocalBlocklist,
   listLocalBlocklists,
   invalidateAllBlockedDomainsCache,
+  getBlocklistGeneration,
+  getExternalBlocklistFetchedAt,
+  getBlocklistSources,
+  getAllowlist,
+  addToAllowlist,
+  removeFromAllowlist,
+  setAllowlist,
+  readLocalBlocklistFile,
+  describeBlocklistSource,
+  addBlocklistFromText,
+  toBlocklistFilename,
+  setBlocklistEndpointEnabled,
+  addBlocklistEndpoint,
+  updateBlocklistEndpoint,
+  removeBlocklistEndpoint,
+  importBlocklistEndpoints,
+  refreshDueBlocklists,
+  getBlocklistRuleReport,
+  getCosmeticSources,
+  getNetworkSources,
+  getBlocklistSourceCategories,
+  isBlocklistSourceActive,
+  getBlockingCategory,
+  isBlocklistCategoryEnabled,
+  loadBlocklistCategorySettings,
+  setBlocklistCategoryEnabled,
+  BlocklistRefreshFailure,
 } from './manager';
 
+// Re-export importing lists from files and the share sheet
+export {
+  BlocklistImportPreview,
+  SharedBlocklist,
+  previewBlocklistImport,
+  isUsableBlocklistImport,
+  pickBlocklistFile,
+  readSharedBlocklist,
+  setPendingBlocklistImport,
+  takePendingBlocklistImport,
+  onPendingBlocklistImport,
+} from './import';
+
+// Re-export backup and restore of the user's blocklist setup
+export {
+  BLOCKLIST_BACKUP_FORMAT,
+  BLOCKLIST_BACKUP_VERSION,
+  BlocklistBackup,
+  BlocklistBackupFile,
+  BlocklistBackupManifest,
+  BlocklistBackupRestoreMode,
+  BlocklistBackupRestoreResult,
+  createBlocklistBackup,
+  parseBlocklistBackup,
+  restoreBlocklistBackup,
+  shareBlocklistBackup,
+  pickBlocklistBackup,
+} from './backup';
+
+// Re-export refresh scheduling
+export {
+  EndpointRefreshState,
+  getRefreshState,
+  getNextRefreshAt,
+  runDueRefreshes,
+  startRefreshScheduler,
+  stopRefreshScheduler,
+} from './scheduler';
+
+export {
+  BLOCKLIST_REFRESH_TASK,
+  registerBlocklistBackgroundRefresh,
+  unregisterBlocklistBackgroundRefresh,
+} from './background';
+
 // Re-export local bundled blocklist functions
 export {
   LocalBlocklist,
@@ -82,5 +257,67 @@ export {
   getBlocklistStats,
   getAllBlockedDomains,
   isDomainBlocked,
+  findBlockingEntry,
+  findBlockingAlias,
   debugUrlBlocking,
+  getBlockedSince,
+  getCosmeticSelectors,
+  findBlockingRequest,
+  getNetworkFilters,
+  syncNativeRequestRules,
+  EmbeddedLoadFailure,
 } from './blocklist';
+
+// Re-export the shared domain matcher
+export {
+  BlocklistSource,
+  DomainMatch,
+  DomainMatcher,
+  DomainMatcherOptions,
+} from './matcher';
+
+// Re-export wildcard and regex host rules
+export {
+  HostPatternMatch,
+  HostPatternMatcher,
+  HostPatternSource,
+  isHostGlobRule,
+  isHostRegexRule,
+  toHostPattern,
+} from './host-patterns';
+
+// Re-export IP address and CIDR rules
+export {
+  IpAddress,
+  IpRange,
+  IpRangeMatch,
+  IpRangeMatcher,
+  IpRangeSource,
+  formatIpAddress,
+  formatIpRange,
+  isIpRangeRule,
+  parseIpAddress,
+  parseIpHost,
+  toIpRange,
+} from './ip-ranges';
+
+// Re-export the DNS check (CNAME cloaking)
+export {
+  DnsCheckSettings,
+  DEFAULT_DOH_ENDPOINT,
+  isValidDohEndpoint,
+  loadDnsCheckSettings,
+  getDnsCheckSettings,
+  setDnsCheckSettings,
+  resolveHostAliases,
+  getCachedHostAliases,
+  findBlockedAlias,
+} from './dns-check';
+export {
+  DnsMessage,
+  DnsRecord,
+  DohResolver,
+  DohResolverOptions,
+  decodeDnsMessage,
+  encodeDnsQuery,
+} from './doh';
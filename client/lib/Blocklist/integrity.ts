@@ -0,0 +1,198 @@
+/**
+ * Blocklist Integrity
+ *
+ * Checks a downloaded list must pass before it replaces the copy in use:
+ * - SHA-256 pinning: the list must hash to the digest configured for it
+ * - Detached signatures: the list must carry a valid Ed25519 signature
+ *   from the publisher's public key
+ * - Shrink limit: a list may not lose more than a set share of its rules
+ *   compared with the last good copy, which catches truncated downloads and
+ *   lists emptied by whoever controls the server
+ *
+ * Digests and signatures cover the list as UTF-8 text, which for the usual
+ * UTF-8 or ASCII list files is the file as served.
+ *
+ * Every rejected download is kept in a log (newest first) for the
+ * Blocklists screen, and the copy in use stays active.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { base64Decode, ed25519Verify, sha256, toHex, utf8Encode } from './crypto';
+
+/**
+ * How a list is pinned or signed, as configured on its endpoint
+ */
+export interface BlocklistIntegrity {
+  /** Expected SHA-256 of the list, hex */
+  sha256?: string;
+  /** Ed25519 public key of the publisher, base64 (32 bytes) */
+  publicKey?: string;
+  /** Where the detached signature is published (default: list URL + `.sig`) */
+  signatureUrl?: string;
+}
+
+export type BlocklistRejectionReason = 'checksum' | 'signature' | 'shrink' | 'empty';
+
+export interface BlocklistRejection {
+  /** Source the download was meant for, e.g. `external:oisd` */
+  sourceId: string;
+  url: string;
+  reason: BlocklistRejectionReason;
+  message: string;
+  rejectedAt: number;
+}
+
+/**
+ * Default for how much of its rules a list may lose in one update, in percent
+ */
+export const DEFAULT_MAX_SHRINK_PERCENT = 50;
+
+const REJECTION_LOG_STORAGE_KEY = '@safebrowse_blocklist_rejections';
+const MAX_REJECTION_LOG_ENTRIES = 100;
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+
+let rejectionLog: BlocklistRejection[] = [];
+let rejectionLogLoaded: boolean = false;
+
+/**
+ * Whether a value is a usable SHA-256 pin
+ */
+export function isValidSha256(value: string): boolean {
+  return SHA256_PATTERN.test(value);
+}
+
+/**
+ * Whether a value is a usable Ed25519 public key
+ */
+export function isValidPublicKey(value: string): boolean {
+  return base64Decode(value)?.length === 32;
+}
+
+/**
+ * Location of a list's detached signature
+ */
+export function getSignatureUrl(url: string, integrity: BlocklistIntegrity): string {
+  return integrity.signatureUrl || `${url}.sig`;
+}
+
+/**
+ * Check a downloaded list against its pinned digest and signature
+ * Returns the reason and a message if the list must be rejected, or null
+ * if it passes (or is neither pinned nor signed).
+ */
+export async function verifyBlocklistContent(
+  content: string,
+  url: string,
+  integrity: BlocklistIntegrity
+): Promise<{ reason: BlocklistRejectionReason; message: string } | null> {
+  if (!integrity.sha256 && !integrity.publicKey) return null;
+
+  const bytes = utf8Encode(content);
+
+  if (integrity.sha256) {
+    const digest = toHex(sha256(bytes));
+    if (digest !== integrity.sha256.toLowerCase()) {
+      return { reason: 'checksum', message: `SHA-256 mismatch: expected ${integrity.sha256.toLowerCase()}, got ${digest}` };
+    }
+  }
+
+  if (integrity.publicKey) {
+    const publicKey = base64Decode(integrity.publicKey);
+    if (!publicKey || publicKey.length !== 32) {
+      return { reason: 'signature', message: 'The configured public key is not a valid Ed25519 key' };
+    }
+
+    const signatureUrl = getSignatureUrl(url, integrity);
+    let signature: Uint8Array | null;
+    try {
+      const response = await fetch(signatureUrl, { headers: { 'Cache-Control': 'no-cache' } });
+      if (!response.ok) {
+        return { reason: 'signature', message: `Could not download the signature (HTTP ${response.status})` };
+      }
+      signature = base64Decode(await response.text());
+    } catch (error) {
+      return { reason: 'signature', message: `Could not download the signature: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    if (!signature || signature.length !== 64) {
+      return { reason: 'signature', message: 'The signature file does not contain a base64 Ed25519 signature' };
+    }
+    if (!ed25519Verify(signature, bytes, publicKey)) {
+      return { reason: 'signature', message: 'The signature does not match the list' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a new copy against the shrink limit
+ * Returns a message if the list lost more than maxShrinkPercent of its rules
+ */
+export function checkBlocklistShrink(
+  previousRules: number,
+  nextRules: number,
+  maxShrinkPercent: number = DEFAULT_MAX_SHRINK_PERCENT
+): string | null {
+  if (previousRules <= 0 || nextRules >= previousRules) return null;
+
+  const shrinkPercent = ((previousRules - nextRules) / previousRules) * 100;
+  if (shrinkPercent <= maxShrinkPercent) return null;
+
+  return `The list shrank by ${Math.round(shrinkPercent)}% (${previousRules.toLocaleString()} to ${nextRules.toLocaleString()} rules), more than the ${maxShrinkPercent}% allowed`;
+}
+
+/**
+ * Load the rejection log from storage
+ */
+export async function loadRejectionLog(): Promise<void> {
+  if (rejectionLogLoaded) return;
+
+  try {
+    const stored = await AsyncStorage.getItem(REJECTION_LOG_STORAGE_KEY);
+    rejectionLog = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('[Blocklist] Failed to load rejection log:', error);
+  }
+  rejectionLogLoaded = true;
+}
+
+async function saveRejectionLog(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(REJECTION_LOG_STORAGE_KEY, JSON.stringify(rejectionLog));
+  } catch (error) {
+    console.warn('[Blocklist] Failed to save rejection log:', error);
+  }
+}
+
+/**
+ * Record a rejected download and return an error describing it
+ */
+export async function recordBlocklistRejection(
+  rejection: Omit<BlocklistRejection, 'rejectedAt'>
+): Promise<Error> {
+  await loadRejectionLog();
+
+  rejectionLog = [{ ...rejection, rejectedAt: Date.now() }, ...rejectionLog].slice(0, MAX_REJECTION_LOG_ENTRIES);
+  await saveRejectionLog();
+
+  console.warn(`[Blocklist] Rejected ${rejection.sourceId} from ${rejection.url}: ${rejection.message}`);
+  return new Error(`Rejected: ${rejection.message}`);
+}
+
+/**
+ * Get the rejected downloads, newest first
+ */
+export function getBlocklistRejections(): BlocklistRejection[] {
+  return rejectionLog;
+}
+
+/**
+ * Clear the rejection log
+ */
+export async function clearBlocklistRejections(): Promise<void> {
+  rejectionLog = [];
+  rejectionLogLoaded = true;
+  await saveRejectionLog();
+}
@@ -0,0 +1,369 @@
+/**
+ * IP Ranges
+ *
+ * IP address rules, for sites reached by address instead of by name:
+ * - IPv4 and IPv6 addresses: `5.61.55.143`, `2001:db8::1`, `[2001:db8::1]`
+ * - CIDR ranges: `5.61.55.0/24`, `2001:db8::/32`
+ * - IPv4 prefixes as found in older lists: `5.61.55.` (= 5.61.55.0/24)
+ *
+ * Rules are stored in canonical form (masked network address, IPv6
+ * compressed per RFC 5952, no prefix length for single addresses) so the
+ * same range written two ways is one rule.
+ *
+ * URL hosts are parsed the way browsers do: besides dotted decimal,
+ * IPv4 hosts may be written in hex, octal or as a single number
+ * (`0x7f.1`, `2130706433`), and IPv4-mapped IPv6 addresses
+ * (`::ffff:1.2.3.4`) are checked as IPv4.
+ *
+ * This module has no React Native imports so the embedded blocklist
+ * compiler can use it under Node.
+ */
+
+/**
+ * An IPv4 (4 bytes) or IPv6 (16 bytes) address
+ */
+export interface IpAddress {
+  version: 4 | 6;
+  bytes: Uint8Array;
+}
+
+/**
+ * A range of addresses: the first `prefix` bits of `bytes`
+ */
+export interface IpRange extends IpAddress {
+  prefix: number;
+}
+
+export interface IpRangeSource {
+  /** Index of the source, as used by the caller */
+  sourceIndex: number;
+  /** Rules as written in the list (see toIpRange) */
+  ranges: string[];
+}
+
+export interface IpRangeMatch {
+  /** The rule in canonical form */
+  range: string;
+  sourceIndex: number;
+}
+
+const IPV4_PATTERN = /^(?:\d{1,3}\.){3}\d{1,3}$/;
+const IPV4_PREFIX_PATTERN = /^(?:\d{1,3}\.){1,3}$/;
+const IPV6_GROUP_PATTERN = /^[0-9a-f]{1,4}$/i;
+
+/**
+ * Parse dotted-decimal IPv4, as written in lists
+ */
+function parseIPv4(text: string): Uint8Array | null {
+  if (!IPV4_PATTERN.test(text)) return null;
+
+  const bytes = new Uint8Array(4);
+  const parts = text.split('.');
+  for (let i = 0; i < 4; i++) {
+    const value = Number(parts[i]);
+    // Leading zeros are rejected: browsers would read them as octal
+    if (value > 255 || (parts[i].length > 1 && parts[i].startsWith('0'))) return null;
+    bytes[i] = value;
+  }
+  return bytes;
+}
+
+/**
+ * Parse IPv6, with `::` compression and an optional trailing IPv4 part
+ */
+function parseIPv6(text: string): Uint8Array | null {
+  if (!text.includes(':') || text.includes('%')) return null;
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (half: string): number[] | null => {
+    if (!half) return [];
+    const groups: number[] = [];
+    const parts = half.split(':');
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (i === parts.length - 1 && part.includes('.')) {
+        const ipv4 = parseIPv4(part);
+        if (!ipv4) return null;
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (IPV6_GROUP_PATTERN.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  const bytes = new Uint8Array(16);
+  groups.forEach((group, i) => {
+    bytes[i * 2] = group >> 8;
+    bytes[i * 2 + 1] = group & 0xff;
+  });
+  return bytes;
+}
+
+/**
+ * Strip the brackets of an IPv6 URL host
+ */
+function unbracket(text: string): string {
+  return text.startsWith('[') && text.endsWith(']') ? text.substring(1, text.length - 1) : text;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address as written in a list
+ * Returns null for anything else, including host names.
+ */
+export function parseIpAddress(text: string): IpAddress | null {
+  const value = unbracket(text.trim());
+  const ipv4 = parseIPv4(value);
+  if (ipv4) return { version: 4, bytes: ipv4 };
+  const ipv6 = parseIPv6(value);
+  return ipv6 ? { version: 6, bytes: ipv6 } : null;
+}
+
+/**
+ * Parse one part of an IPv4 URL host: decimal, 0x hex or 0 octal
+ */
+function parseIPv4HostPart(part: string): number | null {
+  if (/^0x[0-9a-f]*$/i.test(part)) return part.length === 2 ? 0 : parseInt(part.substring(2), 16);
+  if (/^0[0-7]+$/.test(part)) return parseInt(part.substring(1), 8);
+  if (/^(?:0|[1-9]\d*)$/.test(part)) return Number(part);
+  return null;
+}
+
+/**
+ * Parse the host of a URL if it is an IP address, accepting every IPv4
+ * form a browser accepts. IPv4-mapped IPv6 addresses are returned as IPv4.
+ */
+export function parseIpHost(host: string): IpAddress | null {
+  const value = host.trim().toLowerCase();
+
+  if (value.startsWith('[') || value.includes(':')) {
+    const ipv6 = parseIPv6(unbracket(value));
+    if (!ipv6) return null;
+    const isMapped = ipv6.subarray(0, 10).every(byte => byte === 0) && ipv6[10] === 0xff && ipv6[11] === 0xff;
+    return isMapped ? { version: 4, bytes: ipv6.slice(12) } : { version: 6, bytes: ipv6 };
+  }
+
+  const parts = value.replace(/\.$/, '').split('.');
+  if (parts.length > 4) return null;
+  const numbers: number[] = [];
+  for (const part of parts) {
+    const number = parseIPv4HostPart(part);
+    if (number === null || !Number.isFinite(number)) return null;
+    numbers.push(number);
+  }
+
+  // All parts but the last are single bytes; the last fills the remaining bytes
+  const last = numbers.pop()!;
+  if (numbers.some(n => n > 255) || last >= 256 ** (4 - numbers.length)) return null;
+  const bytes = new Uint8Array(4);
+  numbers.forEach((n, i) => {
+    bytes[i] = n;
+  });
+  for (let i = 3, rest = last; i >= numbers.length; i--, rest = Math.floor(rest / 256)) {
+    bytes[i] = rest % 256;
+  }
+  return { version: 4, bytes };
+}
+
+/**
+ * Format an address in canonical form (IPv6 compressed, lowercase)
+ */
+export function formatIpAddress(address: IpAddress): string {
+  const { bytes } = address;
+  if (address.version === 4) return Array.from(bytes).join('.');
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // Compress the longest run of two or more zero groups (the first one on a tie)
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < 8 && groups[end] === 0) end++;
+    if (end - i > bestLength) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = end;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+/**
+ * Keep the first `prefix` bits of an address and clear the rest
+ */
+function maskBytes(bytes: Uint8Array, prefix: number): Uint8Array {
+  const masked = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    const bits = Math.min(8, Math.max(0, prefix - i * 8));
+    masked[i] = bytes[i] & ((0xff << (8 - bits)) & 0xff);
+  }
+  return masked;
+}
+
+/**
+ * Parse an IP address, CIDR range or IPv4 prefix rule
+ * Returns null if the rule is not one (e.g. a host name).
+ */
+export function toIpRange(raw: string): IpRange | null {
+  const rule = raw.trim();
+
+  if (IPV4_PREFIX_PATTERN.test(rule)) {
+    const parts = rule.substring(0, rule.length - 1).split('.');
+    const address = parseIPv4([...parts, '0', '0', '0'].slice(0, 4).join('.'));
+    return address ? { version: 4, bytes: address, prefix: parts.length * 8 } : null;
+  }
+
+  const slash = rule.lastIndexOf('/');
+  const address = parseIpAddress(slash === -1 ? rule : rule.substring(0, slash));
+  if (!address) return null;
+
+  const maxPrefix = address.version === 4 ? 32 : 128;
+  let prefix = maxPrefix;
+  if (slash !== -1) {
+    const length = rule.substring(slash + 1);
+    prefix = Number(length);
+    // A /0 range would block every address
+    if (!/^\d{1,3}$/.test(length) || prefix < 1 || prefix > maxPrefix) return null;
+  }
+
+  return { version: address.version, bytes: maskBytes(address.bytes, prefix), prefix };
+}
+
+/**
+ * Format a range in canonical form; single addresses have no prefix length
+ */
+export function formatIpRange(range: IpRange): string {
+  const address = formatIpAddress(range);
+  return range.prefix === range.bytes.length * 8 ? address : `${address}/${range.prefix}`;
+}
+
+/**
+ * Whether a rule is an IP address, CIDR range or IPv4 prefix
+ */
+export function isIpRangeRule(rule: string): boolean {
+  return toIpRange(rule) !== null;
+}
+
+/**
+ * Lookup key of the first `prefix` bits of an address
+ */
+function rangeKey(bytes: Uint8Array, prefix: number): string {
+  const masked = maskBytes(bytes, prefix);
+  let key = '';
+  for (let i = 0; i < Math.ceil(prefix / 8); i++) {
+    key += String.fromCharCode(masked[i]);
+  }
+  return key;
+}
+
+/**
+ * Ranges of one IP version, by prefix length
+ */
+interface RangeTable {
+  /** Prefix lengths present, longest first */
+  prefixes: number[];
+  /** Prefix length -> range key -> matches in source order */
+  byPrefix: Map<number, Map<string, IpRangeMatch[]>>;
+}
+
+function createRangeTable(): RangeTable {
+  return { prefixes: [], byPrefix: new Map() };
+}
+
+export class IpRangeMatcher {
+  /** Number of ranges in the index */
+  readonly size: number;
+
+  private readonly tables: { 4: RangeTable; 6: RangeTable };
+
+  private constructor(tables: { 4: RangeTable; 6: RangeTable }, size: number) {
+    this.tables = tables;
+    this.size = size;
+  }
+
+  /**
+   * Index the ranges of several sources, in priority order
+   * Rules that are not IP ranges are skipped.
+   */
+  static build(sources: IpRangeSource[]): IpRangeMatcher {
+    const tables = { 4: createRangeTable(), 6: createRangeTable() };
+    let size = 0;
+
+    for (const { sourceIndex, ranges } of sources) {
+      for (const raw of ranges) {
+        const range = toIpRange(raw);
+        if (!range) continue;
+
+        const table = tables[range.version];
+        let keys = table.byPrefix.get(range.prefix);
+        if (!keys) {
+          keys = new Map();
+          table.byPrefix.set(range.prefix, keys);
+          table.prefixes.push(range.prefix);
+        }
+        const key = rangeKey(range.bytes, range.prefix);
+        const matches = keys.get(key);
+        if (!matches) {
+          keys.set(key, [{ range: formatIpRange(range), sourceIndex }]);
+          size++;
+        } else if (!matches.some(m => m.sourceIndex === sourceIndex)) {
+          matches.push({ range: formatIpRange(range), sourceIndex });
+        }
+      }
+    }
+
+    tables[4].prefixes.sort((a, b) => b - a);
+    tables[6].prefixes.sort((a, b) => b - a);
+    return new IpRangeMatcher(tables, size);
+  }
+
+  /**
+   * Find every range containing an address, most specific range first
+   * and in source order within a range
+   */
+  match(address: IpAddress): IpRangeMatch[] {
+    if (this.size === 0) return [];
+
+    const table = this.tables[address.version];
+    const matches: IpRangeMatch[] = [];
+    for (const prefix of table.prefixes) {
+      const found = table.byPrefix.get(prefix)!.get(rangeKey(address.bytes, prefix));
+      if (found) matches.push(...found);
+    }
+    return matches;
+  }
+
+  /**
+   * List every range in canonical form
+   */
+  toArray(): string[] {
+    const result: string[] = [];
+    for (const table of [this.tables[4], this.tables[6]]) {
+      table.byPrefix.forEach(keys => keys.forEach(matches => result.push(matches[0].range)));
+    }
+    return result;
+  }
+}
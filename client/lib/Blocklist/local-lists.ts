@@ -19,6 +19,7 @@
  */
 
 import type { BlocklistEndpoint } from './endpoints';
+import type { BlocklistCategory } from './categories';
 import { parseBlocklistContent } from './parser';
 
 export interface LocalBlocklist {
@@ -34,6 +35,8 @@ export interface LocalBlocklist {
   enabled: boolean;
   /** Optional description */
   description?: string;
+  /** Kinds of sites the list blocks (see categories.ts) */
+  categories?: BlocklistCategory[];
 }
 
 // ============================================================================
@@ -90,6 +93,7 @@ export const LOCAL_BLOCKLISTS: LocalBlocklist[] = [
   //   format: 'domains',
   //   enabled: true,
   //   description: 'My personal ad blocking list',
+  //   categories: ['ads'],
   // },
   // {
   //   id: 'custom-easylist',
@@ -98,6 +102,7 @@ export const LOCAL_BLOCKLISTS: LocalBlocklist[] = [
   //   format: 'easylist',
   //   enabled: true,
   //   description: 'Custom filter rules in EasyList format',
+  //   categories: ['ads'],
   // },
 ];
 
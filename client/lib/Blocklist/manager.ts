@@ -7,14 +7,56 @@
  * - Embedded blocklist data
  */
 
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   BlocklistEndpoint,
   getEnabledEndpoints,
   getAllEndpoints,
+  loadEndpointRegistry,
+  setEndpointEnabled,
+  addEndpoint,
+  updateEndpoint,
+  removeEndpoint,
+  importEndpointRegistry,
+  EndpointRegistryImportResult,
 } from './endpoints';
-import { parseBlocklistContent } from './parser';
-import { parseAllLocalBlocklists, getLocalBlocklistStats, LOCAL_BLOCKLISTS } from './local-lists';
+import { parseBlocklist, ParsedBlocklist, RuleReport } from './parser';
+import {
+  parseAllLocalBlocklists,
+  getLocalBlocklistStats,
+  getEnabledLocalBlocklists,
+  LOCAL_BLOCKLISTS,
+  LocalBlocklist,
+} from './local-lists';
+import type { BlocklistSource } from './matcher';
+import { CosmeticRules, CosmeticSource, countCosmeticSelectors } from './cosmetic';
+import type { NetworkRules, NetworkSource } from './network';
+import {
+  BlocklistIntegrity,
+  verifyBlocklistContent,
+  checkBlocklistShrink,
+  recordBlocklistRejection,
+  loadRejectionLog,
+} from './integrity';
+import { loadBlocklistChangelog, recordBlocklistChange } from './changelog';
+import {
+  BlocklistCategory,
+  BlocklistCategoryInfo,
+  getBlocklistCategory,
+  isBlocklistCategory,
+  normalizeCategories,
+} from './categories';
+import {
+  configureRefreshScheduler,
+  loadRefreshState,
+  getRefreshState,
+  clearRefreshState,
+  refreshEndpointNow,
+  runDueRefreshes,
+  startRefreshScheduler,
+  rescheduleRefreshes,
+} from './scheduler';
 
 // Re-export for convenience
 export { BlocklistEndpoint, getEnabledEndpoints, getAllEndpoints };
@@ -30,8 +72,9 @@ export { LOCAL_BLOCKLISTS, getEnabledLocalBlocklists, getLocalBlocklistById } fr
 /**
  * In-memory cache of parsed blocklists from external sources
  */
-let externalBlocklistCache: Map<string, string[]> = new Map();
-let localBlocklistCache: Map<string, string[]> = new Map();
+let externalBlocklistCache: Map<string, ParsedBlocklist> = new Map();
+let localBlocklistCache: Map<string, ParsedBlocklist> = new Map();
+let localBlocklistUpdatedAt: Map<string, number> = new Map();
 let lastUpdateTimestamp: number = 0;
 let isInitialized: boolean = false;
 
@@ -42,9 +85,26 @@ let isInitialized: boolean = false;
 let allBlockedDomainsCache: Set<string> | null = null;
 
 /**
- * Update interval in milliseconds (default: 24 hours)
+ * Incremented whenever blocklist contents change, so dependent caches
+ * (e.g. the embedded + external lookup set) know when to rebuild
+ */
+let blocklistGeneration: number = 0;
+
+/**
+ * User-managed allowlist, taking precedence over every blocklist
+ */
+let allowlist: string[] = [];
+let allowlistLoaded: boolean = false;
+
+const ALLOWLIST_STORAGE_KEY = '@safebrowse_blocklist_allowlist';
+
+/**
+ * Categories the user turned off; every other category is blocked
  */
-const UPDATE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+let disabledCategories: BlocklistCategory[] = [];
+let categorySettingsLoaded: boolean = false;
+
+const DISABLED_CATEGORIES_STORAGE_KEY = '@safebrowse_blocklist_disabled_categories';
 
 /**
  * Local blocklist directory path
@@ -53,49 +113,345 @@ const LOCAL_BLOCKLIST_DIR = FileSystem.documentDirectory
   ? `${FileSystem.documentDirectory}blocklists/`
   : null;
 
+/**
+ * Directory holding the last good copy of each external blocklist
+ */
+const EXTERNAL_CACHE_DIR = LOCAL_BLOCKLIST_DIR
+  ? `${LOCAL_BLOCKLIST_DIR}external/`
+  : null;
+
+/**
+ * Parsed external blocklist as persisted on disk, together with the
+ * HTTP validators needed for conditional refreshes
+ */
+interface PersistedBlocklist {
+  id: string;
+  url: string;
+  domains: string[];
+  exceptions: string[];
+  important?: string[];
+  patterns?: string[];
+  ipRanges?: string[];
+  cosmetic?: CosmeticRules;
+  network?: NetworkRules;
+  report?: RuleReport;
+  /** Digest of the content, kept when the endpoint pins one */
+  sha256?: string;
+  /** Key the content was verified with, when the endpoint requires a signature */
+  publicKey?: string;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number;
+}
+
+/**
+ * The parsed rules of a persisted blocklist
+ */
+function toParsedBlocklist(record: PersistedBlocklist): ParsedBlocklist {
+  return {
+    domains: record.domains,
+    exceptions: record.exceptions,
+    important: record.important,
+    patterns: record.patterns,
+    ipRanges: record.ipRanges,
+    cosmetic: record.cosmetic,
+    network: record.network,
+    report: record.report,
+  };
+}
+
+/**
+ * Number of domains (and wildcard, regex host and IP rules) a parsed blocklist blocks
+ */
+export function countBlockedDomains(list: ParsedBlocklist): number {
+  return list.domains.length + (list.important?.length || 0) + (list.patterns?.length || 0) + (list.ipRanges?.length || 0);
+}
+
+/**
+ * Domains, host patterns and IP rules a parsed blocklist blocks, for the changelog
+ */
+function getBlockedDomains(list: ParsedBlocklist): string[] {
+  return [...list.domains, ...(list.important || []), ...(list.patterns || []), ...(list.ipRanges || [])];
+}
+
+/**
+ * Number of rules of any kind a parsed blocklist applies, for the shrink limit
+ */
+function countRules(list: ParsedBlocklist): number {
+  return countBlockedDomains(list)
+    + (list.network?.blocks.length || 0)
+    + (list.cosmetic ? countCosmeticSelectors(list.cosmetic) : 0);
+}
+
+/**
+ * Persisted metadata for each external blocklist currently in memory
+ */
+let externalBlocklistMeta: Map<string, PersistedBlocklist> = new Map();
+let persistedBlocklistsLoaded: boolean = false;
+
+/**
+ * Path of the cache file for an endpoint
+ */
+function getExternalCachePath(id: string): string | null {
+  return EXTERNAL_CACHE_DIR ? `${EXTERNAL_CACHE_DIR}${encodeURIComponent(id)}.json` : null;
+}
+
+/**
+ * Write a fetched blocklist to disk so it survives restarts
+ */
+async function persistExternalBlocklist(record: PersistedBlocklist): Promise<void> {
+  const filePath = getExternalCachePath(record.id);
+  if (!EXTERNAL_CACHE_DIR || !filePath) return;
+
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(EXTERNAL_CACHE_DIR);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(EXTERNAL_CACHE_DIR, { intermediates: true });
+    }
+    await FileSystem.writeAsStringAsync(filePath, JSON.stringify(record));
+  } catch (error) {
+    console.warn(`[Blocklist] Failed to persist ${record.id}:`, error);
+  }
+}
+
+/**
+ * Delete the persisted copy of an endpoint
+ */
+async function deletePersistedBlocklist(id: string): Promise<void> {
+  const filePath = getExternalCachePath(id);
+  if (!filePath) return;
+
+  try {
+    await FileSystem.deleteAsync(filePath, { idempotent: true });
+  } catch (error) {
+    console.warn(`[Blocklist] Failed to delete cached copy of ${id}:`, error);
+  }
+}
+
+/**
+ * Read the last good copy of an endpoint from disk
+ */
+async function readPersistedBlocklist(endpoint: BlocklistEndpoint): Promise<PersistedBlocklist | null> {
+  const filePath = getExternalCachePath(endpoint.id);
+  if (!filePath) return null;
+
+  try {
+    const fileInfo = await FileSystem.getInfoAsync(filePath);
+    if (!fileInfo.exists) return null;
+
+    const record = JSON.parse(await FileSystem.readAsStringAsync(filePath)) as PersistedBlocklist;
+    // Ignore copies downloaded from a URL the endpoint no longer points to
+    if (record.url !== endpoint.url || !Array.isArray(record.domains)) return null;
+
+    // Copies written before exception rules were kept have no exceptions field
+    return { ...record, exceptions: record.exceptions || [] };
+  } catch (error) {
+    console.warn(`[Blocklist] Failed to read cached copy of ${endpoint.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load the persisted copies of all enabled endpoints into memory
+ * Runs before any network request so protection is available offline
+ */
+async function loadPersistedExternalBlocklists(): Promise<void> {
+  const records = await Promise.all(getEnabledEndpoints().map(readPersistedBlocklist));
+
+  for (const record of records) {
+    if (record && countBlockedDomains(record) > 0) {
+      externalBlocklistMeta.set(record.id, record);
+      externalBlocklistCache.set(record.id, toParsedBlocklist(record));
+      lastUpdateTimestamp = Math.max(lastUpdateTimestamp, record.fetchedAt);
+    }
+  }
+
+  persistedBlocklistsLoaded = true;
+  console.log(`[Blocklist] Loaded ${externalBlocklistMeta.size} external blocklists from disk`);
+}
+
 /**
  * Fetch blocklist from a remote URL
+ * Sends a conditional request when a previous copy exists, and returns
+ * that copy unchanged if the server answers 304 Not Modified.
+ * Throws if the download fails, or if the list fails its integrity checks
+ * (pinned digest, signature, shrink limit) or turns out empty, so the
+ * previous copy is never replaced by an unusable one. Failed checks are
+ * recorded in the rejection log.
  */
-async function fetchBlocklist(endpoint: BlocklistEndpoint): Promise<string[]> {
+async function fetchBlocklist(endpoint: BlocklistEndpoint): Promise<PersistedBlocklist> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+
   try {
     console.log(`[Blocklist] Fetching: ${endpoint.name} from ${endpoint.url}`);
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    const previous = externalBlocklistMeta.get(endpoint.id);
+    const cached = previous && previous.url === endpoint.url ? previous : undefined;
+    // A copy accepted before the pin or key changed has to be downloaded and checked again
+    const cachedVerified = !!cached
+      && (!endpoint.sha256 || cached.sha256 === endpoint.sha256)
+      && (!endpoint.publicKey || cached.publicKey === endpoint.publicKey);
+
+    const headers: Record<string, string> = {
+      'Accept': 'text/plain, */*',
+      'Cache-Control': 'no-cache',
+    };
+    if (cachedVerified && cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cachedVerified && cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
 
     const response = await fetch(endpoint.url, {
       method: 'GET',
       signal: controller.signal,
-      headers: {
-        'Accept': 'text/plain, */*',
-        'Cache-Control': 'no-cache',
-      },
+      headers,
     });
 
-    clearTimeout(timeoutId);
+    if (response.status === 304 && cached && cachedVerified) {
+      const record: PersistedBlocklist = { ...cached, fetchedAt: Date.now() };
+      await persistExternalBlocklist(record);
+      console.log(`[Blocklist] ${endpoint.name} not modified, keeping ${countBlockedDomains(cached)} domains`);
+      return record;
+    }
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
     const content = await response.text();
-    const domains = parseBlocklistContent(content, endpoint.format);
+    const sourceId = `external:${endpoint.id}`;
+
+    const failure = await verifyBlocklistContent(content, endpoint.url, endpoint);
+    if (failure) {
+      throw await recordBlocklistRejection({ sourceId, url: endpoint.url, ...failure });
+    }
+
+    const parsed = parseBlocklist(content, endpoint.format);
+    const { domains, exceptions, important, patterns, ipRanges, cosmetic, network, report } = parsed;
+
+    console.log(`[Blocklist] Parsed ${domains.length} domains and ${exceptions.length} exceptions from ${endpoint.name} (${report?.unsupportedRules || 0} unsupported rules)`);
+
+    const record: PersistedBlocklist = {
+      id: endpoint.id,
+      url: endpoint.url,
+      domains,
+      exceptions,
+      important,
+      patterns,
+      ipRanges,
+      cosmetic,
+      network,
+      report,
+      sha256: endpoint.sha256,
+      publicKey: endpoint.publicKey,
+      etag: response.headers.get('ETag'),
+      lastModified: response.headers.get('Last-Modified'),
+      fetchedAt: Date.now(),
+    };
+
+    if (countBlockedDomains(parsed) === 0 && !cosmetic && !network) {
+      throw await recordBlocklistRejection({
+        sourceId,
+        url: endpoint.url,
+        reason: 'empty',
+        message: 'The list contained no rules that can be applied',
+      });
+    }
 
-    console.log(`[Blocklist] Parsed ${domains.length} domains from ${endpoint.name}`);
-    return domains;
+    const shrink = cached ? checkBlocklistShrink(countRules(cached), countRules(parsed), endpoint.maxShrinkPercent) : null;
+    if (shrink) {
+      throw await recordBlocklistRejection({ sourceId, url: endpoint.url, reason: 'shrink', message: shrink });
+    }
+
+    await persistExternalBlocklist(record);
+    return record;
   } catch (error) {
     console.warn(`[Blocklist] Failed to fetch ${endpoint.name}:`, error);
-    return [];
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Download a fresh copy of an endpoint and make it active
+ * On failure the copy already in use is kept and the error is rethrown
+ */
+async function refreshExternalBlocklist(endpoint: BlocklistEndpoint): Promise<void> {
+  const record = await fetchBlocklist(endpoint);
+
+  // The endpoint may have been disabled or removed while downloading
+  if (!getEnabledEndpoints().some(e => e.id === endpoint.id && e.url === record.url)) return;
+
+  const previous = externalBlocklistMeta.get(endpoint.id);
+  externalBlocklistMeta.set(endpoint.id, record);
+  lastUpdateTimestamp = Math.max(lastUpdateTimestamp, record.fetchedAt);
+
+  // A 304 keeps the very same domain list, so the matcher need not be rebuilt
+  if (previous && previous.domains === record.domains && externalBlocklistCache.has(endpoint.id)) return;
+
+  externalBlocklistCache.set(endpoint.id, toParsedBlocklist(record));
+  invalidateAllBlockedDomainsCache();
+
+  await recordBlocklistChange(
+    `external:${endpoint.id}`,
+    previous ? getBlockedDomains(previous) : null,
+    getBlockedDomains(record)
+  );
+}
+
+/**
+ * Make the refresh scheduler download endpoints through this manager
+ */
+function configureScheduler(): void {
+  configureRefreshScheduler({
+    getEndpoints: getEnabledEndpoints,
+    getLastFetchedAt: id => externalBlocklistMeta.get(id)?.fetchedAt ?? null,
+    refreshEndpoint: refreshExternalBlocklist,
+  });
+}
+
+/**
+ * Load everything needed to refresh endpoints: the registry, the refresh
+ * state and the persisted copies (for their HTTP validators)
+ */
+async function prepareExternalBlocklists(): Promise<void> {
+  await loadEndpointRegistry();
+  await loadRefreshState();
+  await loadRejectionLog();
+  await loadBlocklistChangelog();
+  configureScheduler();
+
+  // Make the last good copies available before touching the network
+  if (!persistedBlocklistsLoaded) {
+    await loadPersistedExternalBlocklists();
+    invalidateAllBlockedDomainsCache();
+  }
+}
+
+/**
+ * Refresh the endpoints that are due, e.g. from a background task
+ * Works whether or not the app UI has initialized the blocklists
+ */
+export async function refreshDueBlocklists(): Promise<void> {
+  if (!isInitialized) {
+    await prepareExternalBlocklists();
   }
+  await runDueRefreshes({ stagger: false });
 }
 
 /**
  * Load a local blocklist file from the Blocklist directory
  */
-async function loadLocalBlocklistFile(filename: string): Promise<string[]> {
+async function loadLocalBlocklistFile(filename: string): Promise<ParsedBlocklist> {
+  const empty: ParsedBlocklist = { domains: [], exceptions: [] };
+
   if (!LOCAL_BLOCKLIST_DIR) {
     console.warn('[Blocklist] Local blocklist directory not available');
-    return [];
+    return empty;
   }
 
   try {
@@ -104,25 +460,28 @@ async function loadLocalBlocklistFile(filename: string): Promise<string[]> {
 
     if (!fileInfo.exists) {
       console.log(`[Blocklist] Local file not found: ${filename}`);
-      return [];
+      return empty;
     }
 
     const content = await FileSystem.readAsStringAsync(filePath);
-    const domains = parseBlocklistContent(content);
+    const parsed = parseBlocklist(content);
+    if (fileInfo.modificationTime) {
+      localBlocklistUpdatedAt.set(filename, fileInfo.modificationTime * 1000);
+    }
 
-    console.log(`[Blocklist] Loaded ${domains.length} domains from local file: ${filename}`);
-    return domains;
+    console.log(`[Blocklist] Loaded ${countBlockedDomains(parsed)} domains from local file: ${filename}`);
+    return parsed;
   } catch (error) {
     console.warn(`[Blocklist] Failed to load local file ${filename}:`, error);
-    return [];
+    return empty;
   }
 }
 
 /**
  * Load all local blocklist files from the Blocklist directory
  */
-async function loadAllLocalBlocklists(): Promise<Map<string, string[]>> {
-  const results = new Map<string, string[]>();
+async function loadAllLocalBlocklists(): Promise<Map<string, ParsedBlocklist>> {
+  const results = new Map<string, ParsedBlocklist>();
 
   if (!LOCAL_BLOCKLIST_DIR) {
     return results;
@@ -145,9 +504,9 @@ async function loadAllLocalBlocklists(): Promise<Map<string, string[]>> {
 
     // Load each file
     for (const file of blocklistFiles) {
-      const domains = await loadLocalBlocklistFile(file);
-      if (domains.length > 0) {
-        results.set(file, domains);
+      const parsed = await loadLocalBlocklistFile(file);
+      if (countBlockedDomains(parsed) > 0 || parsed.exceptions.length > 0) {
+        results.set(file, parsed);
       }
     }
 
@@ -182,10 +541,14 @@ export async function saveBlocklistLocally(
     await FileSystem.writeAsStringAsync(filePath, content);
 
     // Update local cache
-    const domains = parseBlocklistContent(content);
-    localBlocklistCache.set(filename, domains);
+    const parsed = parseBlocklist(content);
+    const previous = localBlocklistCache.get(filename);
+    localBlocklistCache.set(filename, parsed);
+    localBlocklistUpdatedAt.set(filename, Date.now());
+    invalidateAllBlockedDomainsCache();
+    await recordBlocklistChange(`local:${filename}`, previous ? getBlockedDomains(previous) : null, getBlockedDomains(parsed));
 
-    console.log(`[Blocklist] Saved ${filename} with ${domains.length} domains`);
+    console.log(`[Blocklist] Saved ${filename} with ${countBlockedDomains(parsed)} domains`);
     return true;
   } catch (error) {
     console.warn(`[Blocklist] Failed to save ${filename}:`, error);
@@ -195,11 +558,14 @@ export async function saveBlocklistLocally(
 
 /**
  * Add a custom blocklist from URL and save it locally
+ * With integrity options the download must match the pinned digest and/or
+ * carry a valid signature; a failed check is recorded in the rejection log
  */
 export async function addBlocklistFromUrl(
   url: string,
   filename: string,
-  format?: BlocklistEndpoint['format']
+  format?: BlocklistEndpoint['format'],
+  integrity: BlocklistIntegrity = {}
 ): Promise<{ success: boolean; domainCount: number; error?: string }> {
   try {
     const response = await fetch(url);
@@ -208,9 +574,19 @@ export async function addBlocklistFromUrl(
     }
 
     const content = await response.text();
-    const domains = parseBlocklistContent(content, format);
+    const sourceId = `local:${filename}`;
+
+    const failure = await verifyBlocklistContent(content, url, integrity);
+    if (failure) {
+      const error = await recordBlocklistRejection({ sourceId, url, ...failure });
+      return { success: false, domainCount: 0, error: error.message };
+    }
 
-    if (domains.length === 0) {
+    const parsed = parseBlocklist(content, format);
+    const domainCount = countBlockedDomains(parsed);
+
+    if (domainCount === 0 && !parsed.cosmetic && !parsed.network) {
+      await recordBlocklistRejection({ sourceId, url, reason: 'empty', message: 'No valid domains found' });
       return { success: false, domainCount: 0, error: 'No valid domains found' };
     }
 
@@ -219,12 +595,43 @@ export async function addBlocklistFromUrl(
       return { success: false, domainCount: 0, error: 'Failed to save locally' };
     }
 
-    return { success: true, domainCount: domains.length };
+    return { success: true, domainCount };
   } catch (error) {
     return { success: false, domainCount: 0, error: String(error) };
   }
 }
 
+/**
+ * Add a custom blocklist from pasted text and save it locally
+ */
+export async function addBlocklistFromText(
+  content: string,
+  filename: string,
+  format?: BlocklistEndpoint['format']
+): Promise<{ success: boolean; domainCount: number; error?: string }> {
+  const parsed = parseBlocklist(content, format);
+  const domainCount = countBlockedDomains(parsed);
+
+  if (domainCount === 0 && !parsed.cosmetic && !parsed.network) {
+    return { success: false, domainCount: 0, error: 'No valid domains found' };
+  }
+
+  const saved = await saveBlocklistLocally(filename, content);
+  if (!saved) {
+    return { success: false, domainCount: 0, error: 'Failed to save locally' };
+  }
+
+  return { success: true, domainCount };
+}
+
+/**
+ * Turn a user-entered list name into a filename the loader picks up
+ */
+export function toBlocklistFilename(name: string): string {
+  const base = name.trim().replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'blocklist';
+  return /\.(txt|list|blocklist)$/i.test(base) ? base : `${base}.txt`;
+}
+
 /**
  * Delete a local blocklist file
  */
@@ -236,7 +643,13 @@ export async function deleteLocalBlocklist(filename: string): Promise<boolean> {
   try {
     const filePath = `${LOCAL_BLOCKLIST_DIR}${filename}`;
     await FileSystem.deleteAsync(filePath, { idempotent: true });
+    const previous = localBlocklistCache.get(filename);
     localBlocklistCache.delete(filename);
+    localBlocklistUpdatedAt.delete(filename);
+    invalidateAllBlockedDomainsCache();
+    if (previous) {
+      await recordBlocklistChange(`local:${filename}`, getBlockedDomains(previous), null);
+    }
     console.log(`[Blocklist] Deleted local file: ${filename}`);
     return true;
   } catch (error) {
@@ -245,6 +658,23 @@ export async function deleteLocalBlocklist(filename: string): Promise<boolean> {
   }
 }
 
+/**
+ * Read a local blocklist file as written
+ * Returns null if the file does not exist or cannot be read.
+ */
+export async function readLocalBlocklistFile(filename: string): Promise<string | null> {
+  if (!LOCAL_BLOCKLIST_DIR) {
+    return null;
+  }
+
+  try {
+    return await FileSystem.readAsStringAsync(`${LOCAL_BLOCKLIST_DIR}${filename}`);
+  } catch (error) {
+    console.warn(`[Blocklist] Failed to read ${filename}:`, error);
+    return null;
+  }
+}
+
 /**
  * List all local blocklist files
  */
@@ -270,49 +700,43 @@ export async function listLocalBlocklists(): Promise<string[]> {
 
 /**
  * Initialize the blocklist system
- * Fetches enabled external blocklists and loads local files
+ * Loads local files and the last downloaded copy of each external list,
+ * then starts the scheduler that keeps external lists up to date
  */
 export async function initializeBlocklists(embeddedBlocklist: string[]): Promise<void> {
-  if (isInitialized && Date.now() - lastUpdateTimestamp < UPDATE_INTERVAL_MS) {
-    console.log('[Blocklist] Already initialized and up to date');
+  if (isInitialized) {
+    console.log('[Blocklist] Already initialized');
     return;
   }
 
   console.log('[Blocklist] Initializing blocklist system...');
 
   try {
-    // Load local blocklists
+    // Load local blocklists, the user allowlist and category settings
     localBlocklistCache = await loadAllLocalBlocklists();
-
-    // Fetch enabled external blocklists
-    const enabledEndpoints = getEnabledEndpoints();
-    const fetchPromises = enabledEndpoints.map(async (endpoint) => {
-      const domains = await fetchBlocklist(endpoint);
-      return { id: endpoint.id, domains };
-    });
-
-    const results = await Promise.allSettled(fetchPromises);
-
-    // Update cache with successful fetches
-    for (const result of results) {
-      if (result.status === 'fulfilled' && result.value.domains.length > 0) {
-        externalBlocklistCache.set(result.value.id, result.value.domains);
-      }
+    if (!allowlistLoaded) {
+      await loadAllowlist();
+    }
+    if (!categorySettingsLoaded) {
+      await loadCategorySettings();
     }
 
-    lastUpdateTimestamp = Date.now();
+    await prepareExternalBlocklists();
     isInitialized = true;
 
     const totalExternal = Array.from(externalBlocklistCache.values())
-      .reduce((sum, arr) => sum + arr.length, 0);
+      .reduce((sum, list) => sum + countBlockedDomains(list), 0);
     const totalLocal = Array.from(localBlocklistCache.values())
-      .reduce((sum, arr) => sum + arr.length, 0);
+      .reduce((sum, list) => sum + countBlockedDomains(list), 0);
     const totalBundled = parseAllLocalBlocklists().length;
 
     console.log(`[Blocklist] Initialized: ${embeddedBlocklist.length} embedded, ${totalExternal} external, ${totalLocal} local, ${totalBundled} bundled domains`);
 
     // Invalidate the cached all blocked domains set since blocklists have been updated
     invalidateAllBlockedDomainsCache();
+
+    // Download external lists that are due, staggered, in the background
+    startRefreshScheduler();
   } catch (error) {
     console.error('[Blocklist] Initialization error:', error);
   }
@@ -320,13 +744,29 @@ export async function initializeBlocklists(embeddedBlocklist: string[]): Promise
 
 /**
  * Force refresh all blocklists
+ * Every enabled external list is downloaded again; lists that fail keep
+ * their previous copy and are retried with backoff
  */
 export async function refreshBlocklists(embeddedBlocklist: string[]): Promise<void> {
-  lastUpdateTimestamp = 0;
-  isInitialized = false;
-  externalBlocklistCache.clear();
-  localBlocklistCache.clear();
-  await initializeBlocklists(embeddedBlocklist);
+  if (!isInitialized) {
+    await initializeBlocklists(embeddedBlocklist);
+  }
+
+  localBlocklistCache = await loadAllLocalBlocklists();
+  invalidateAllBlockedDomainsCache();
+
+  await runDueRefreshes({ force: true, stagger: false });
+}
+
+/**
+ * Last failed refresh of an external endpoint that has not succeeded since
+ * (the previously downloaded copy, if any, is still in use)
+ */
+export interface BlocklistRefreshFailure {
+  error: string;
+  failedAt: Date;
+  consecutiveFailures: number;
+  nextRetryAt: Date;
 }
 
 /**
@@ -339,17 +779,48 @@ export function getBlocklistStats(embeddedCount: number): {
   bundled: { [key: string]: number };
   total: number;
   lastUpdate: Date | null;
+  updatedAt: { [sourceId: string]: Date | null };
+  refreshFailures: { [endpointId: string]: BlocklistRefreshFailure };
+  unsupportedRules: { [sourceId: string]: number };
+  cosmeticSelectors: { [sourceId: string]: number };
+  networkFilters: { [sourceId: string]: number };
   isInitialized: boolean;
 } {
   const external: { [key: string]: number } = {};
   const local: { [key: string]: number } = {};
+  const updatedAt: { [sourceId: string]: Date | null } = {};
+  const refreshFailures: { [endpointId: string]: BlocklistRefreshFailure } = {};
+  const unsupportedRules: { [sourceId: string]: number } = {};
+  const cosmeticSelectors: { [sourceId: string]: number } = {};
+  const networkFilters: { [sourceId: string]: number } = {};
+
+  getEnabledEndpoints().forEach(endpoint => {
+    const state = getRefreshState(endpoint.id);
+    if (state && state.consecutiveFailures > 0 && state.lastError) {
+      refreshFailures[endpoint.id] = {
+        error: state.lastError,
+        failedAt: new Date(state.lastAttemptAt || Date.now()),
+        consecutiveFailures: state.consecutiveFailures,
+        nextRetryAt: new Date(state.retryAt),
+      };
+    }
+  });
 
-  externalBlocklistCache.forEach((domains, id) => {
-    external[id] = domains.length;
+  externalBlocklistCache.forEach((list, id) => {
+    external[id] = countBlockedDomains(list);
+    updatedAt[`external:${id}`] = getExternalBlocklistFetchedAt(id);
+    unsupportedRules[`external:${id}`] = list.report?.unsupportedRules || 0;
+    cosmeticSelectors[`external:${id}`] = list.cosmetic ? countCosmeticSelectors(list.cosmetic) : 0;
+    networkFilters[`external:${id}`] = list.network?.blocks.length || 0;
   });
 
-  localBlocklistCache.forEach((domains, filename) => {
-    local[filename] = domains.length;
+  localBlocklistCache.forEach((list, filename) => {
+    local[filename] = countBlockedDomains(list);
+    const modifiedAt = localBlocklistUpdatedAt.get(filename);
+    updatedAt[`local:${filename}`] = modifiedAt ? new Date(modifiedAt) : null;
+    unsupportedRules[`local:${filename}`] = list.report?.unsupportedRules || 0;
+    cosmeticSelectors[`local:${filename}`] = list.cosmetic ? countCosmeticSelectors(list.cosmetic) : 0;
+    networkFilters[`local:${filename}`] = list.network?.blocks.length || 0;
   });
 
   // Get bundled local blocklist stats
@@ -366,10 +837,38 @@ export function getBlocklistStats(embeddedCount: number): {
     bundled,
     total: embeddedCount + totalExternal + totalLocal + totalBundled,
     lastUpdate: lastUpdateTimestamp ? new Date(lastUpdateTimestamp) : null,
+    updatedAt,
+    refreshFailures,
+    unsupportedRules,
+    cosmeticSelectors,
+    networkFilters,
     isInitialized,
   };
 }
 
+/**
+ * Get the rule report of a blocklist source, i.e. how many of its rules
+ * were applied, approximated or rejected (see parser.ts)
+ */
+export function getBlocklistRuleReport(sourceId: string): RuleReport | null {
+  const separator = sourceId.indexOf(':');
+  const type = sourceId.substring(0, separator);
+  const id = sourceId.substring(separator + 1);
+
+  switch (type) {
+    case 'external':
+      return externalBlocklistCache.get(id)?.report || null;
+    case 'local':
+      return localBlocklistCache.get(id)?.report || null;
+    case 'bundled': {
+      const list = LOCAL_BLOCKLISTS.find(l => l.id === id);
+      return list ? parseBlocklist(list.content, list.format).report || null : null;
+    }
+    default:
+      return null;
+  }
+}
+
 /**
  * Get all blocked domains from external, local, and bundled sources (not including embedded)
  */
@@ -377,13 +876,15 @@ export function getExternalAndLocalDomains(): string[] {
   const allDomains: Set<string> = new Set();
 
   // Add external cached domains
-  externalBlocklistCache.forEach((domains) => {
-    domains.forEach(d => allDomains.add(d));
+  externalBlocklistCache.forEach((list) => {
+    list.domains.forEach(d => allDomains.add(d));
+    list.important?.forEach(d => allDomains.add(d));
   });
 
   // Add local cached domains (downloaded to device)
-  localBlocklistCache.forEach((domains) => {
-    domains.forEach(d => allDomains.add(d));
+  localBlocklistCache.forEach((list) => {
+    list.domains.forEach(d => allDomains.add(d));
+    list.important?.forEach(d => allDomains.add(d));
   });
 
   // Add bundled local blocklists (from local-lists.ts)
@@ -393,6 +894,97 @@ export function getExternalAndLocalDomains(): string[] {
   return Array.from(allDomains);
 }
 
+/**
+ * Enabled bundled lists whose categories are not all turned off
+ */
+function getActiveBundledBlocklists(): LocalBlocklist[] {
+  return getEnabledLocalBlocklists().filter(list => isBlocklistSourceActive(`bundled:${list.id}`));
+}
+
+/**
+ * Visit the downloaded external lists whose categories are not all turned off
+ */
+function forEachActiveExternalBlocklist(visit: (list: ParsedBlocklist, id: string) => void): void {
+  externalBlocklistCache.forEach((list, id) => {
+    if (isBlocklistSourceActive(`external:${id}`)) {
+      visit(list, id);
+    }
+  });
+}
+
+/**
+ * Add a parsed list to the matcher sources. Domains from $important rules
+ * go into a source of their own, without the list's exceptions, so those
+ * exceptions cannot override them (the user allowlist still does).
+ */
+function pushBlocklistSources(sources: BlocklistSource[], id: string, list: ParsedBlocklist): void {
+  if (list.important && list.important.length > 0) {
+    sources.push({ id, domains: list.important });
+  }
+  sources.push({ id, domains: list.domains, exceptions: list.exceptions, patterns: list.patterns, ipRanges: list.ipRanges });
+}
+
+/**
+ * Get the bundled, local and external blocklists as separate sources,
+ * in matching priority order (not including embedded)
+ */
+export function getBlocklistSources(): BlocklistSource[] {
+  const sources: BlocklistSource[] = [];
+
+  for (const list of getActiveBundledBlocklists()) {
+    pushBlocklistSources(sources, `bundled:${list.id}`, parseBlocklist(list.content, list.format));
+  }
+
+  localBlocklistCache.forEach((list, filename) => {
+    pushBlocklistSources(sources, `local:${filename}`, list);
+  });
+
+  forEachActiveExternalBlocklist((list, id) => {
+    pushBlocklistSources(sources, `external:${id}`, list);
+  });
+
+  return sources;
+}
+
+/**
+ * Get the element hiding rules of the bundled, local and external blocklists
+ */
+export function getCosmeticSources(): CosmeticSource[] {
+  const sources: CosmeticSource[] = [];
+  const addSource = (id: string, list: ParsedBlocklist) => {
+    if (list.cosmetic) {
+      sources.push({ id, cosmetic: list.cosmetic });
+    }
+  };
+
+  for (const list of getActiveBundledBlocklists()) {
+    addSource(`bundled:${list.id}`, parseBlocklist(list.content, list.format));
+  }
+  localBlocklistCache.forEach((list, filename) => addSource(`local:${filename}`, list));
+  forEachActiveExternalBlocklist((list, id) => addSource(`external:${id}`, list));
+
+  return sources;
+}
+
+/**
+ * Get the URL-pattern rules of the bundled, local and external blocklists
+ */
+export function getNetworkSources(): NetworkSource[] {
+  const sources: NetworkSource[] = [];
+  const addSource = (id: string, list: ParsedBlocklist) => {
+    if (list.network) {
+      sources.push({ id, network: list.network });
+    }
+  };
+
+  for (const list of getActiveBundledBlocklists()) {
+    addSource(`bundled:${list.id}`, parseBlocklist(list.content, list.format));
+  }
+  localBlocklistCache.forEach((list, filename) => addSource(`local:${filename}`, list));
+  forEachActiveExternalBlocklist((list, id) => addSource(`external:${id}`, list));
+
+  return sources;
+}
 
 /**
  * Get a cached set of all blocked domains for fast lookup
@@ -405,6 +997,162 @@ export function getAllBlockedDomainsSet(): Set<string> {
   return allBlockedDomainsCache;
 }
 
+/**
+ * Bring the in-memory copy of an endpoint in line with the registry
+ * Removed or disabled endpoints are dropped right away; enabled ones get
+ * their last downloaded copy (if any) restored and a fresh one fetched.
+ * Pass discardCached when the URL or format changed, so the old copy and
+ * its HTTP validators are not reused.
+ */
+async function syncExternalEndpoint(id: string, discardCached: boolean = false): Promise<void> {
+  const endpoint = getAllEndpoints().find(e => e.id === id);
+
+  if (discardCached || !endpoint) {
+    await deletePersistedBlocklist(id);
+    await clearRefreshState(id);
+  }
+
+  if (!endpoint || !endpoint.enabled || discardCached) {
+    const hadCopy = externalBlocklistCache.delete(id);
+    externalBlocklistMeta.delete(id);
+    if (hadCopy) {
+      invalidateAllBlockedDomainsCache();
+    }
+  }
+
+  if (!endpoint || !endpoint.enabled) {
+    rescheduleRefreshes();
+    return;
+  }
+
+  if (!externalBlocklistCache.has(id)) {
+    const persisted = await readPersistedBlocklist(endpoint);
+    if (persisted) {
+      externalBlocklistMeta.set(id, persisted);
+      externalBlocklistCache.set(id, toParsedBlocklist(persisted));
+      invalidateAllBlockedDomainsCache();
+    }
+  }
+
+  await refreshEndpointNow(endpoint);
+  rescheduleRefreshes();
+}
+
+/**
+ * Enable or disable an external endpoint
+ */
+export async function setBlocklistEndpointEnabled(id: string, enabled: boolean): Promise<boolean> {
+  const saved = await setEndpointEnabled(id, enabled);
+  if (!saved) return false;
+
+  await syncExternalEndpoint(id);
+  return true;
+}
+
+/**
+ * Add an external endpoint to the registry and fetch it if enabled
+ */
+export async function addBlocklistEndpoint(
+  endpoint: BlocklistEndpoint
+): Promise<{ success: boolean; error?: string }> {
+  const result = await addEndpoint(endpoint);
+  if (result.success) {
+    await syncExternalEndpoint(endpoint.id.trim(), true);
+  }
+  return result;
+}
+
+/**
+ * Update an external endpoint
+ * Changing the URL or format discards the downloaded copy and fetches again
+ */
+export async function updateBlocklistEndpoint(
+  id: string,
+  changes: Partial<Omit<BlocklistEndpoint, 'id'>>
+): Promise<boolean> {
+  const previous = getAllEndpoints().find(e => e.id === id);
+  const saved = await updateEndpoint(id, changes);
+  if (!saved || !previous) return false;
+
+  const updated = getAllEndpoints().find(e => e.id === id);
+  const sourceChanged = !updated || updated.url !== previous.url || updated.format !== previous.format;
+  if (sourceChanged || updated.enabled !== previous.enabled) {
+    await syncExternalEndpoint(id, sourceChanged);
+  } else if (updated.updateIntervalHours !== previous.updateIntervalHours) {
+    rescheduleRefreshes();
+  }
+  return true;
+}
+
+/**
+ * Remove an external endpoint along with its downloaded copy
+ */
+export async function removeBlocklistEndpoint(id: string): Promise<boolean> {
+  const removed = await removeEndpoint(id);
+  if (removed) {
+    await syncExternalEndpoint(id);
+  }
+  return removed;
+}
+
+/**
+ * Import endpoints from JSON (see importEndpointRegistry) and sync the
+ * downloaded copies with the new registry
+ */
+export async function importBlocklistEndpoints(
+  json: string,
+  mode: 'merge' | 'replace' = 'merge'
+): Promise<EndpointRegistryImportResult> {
+  const previous = new Map(getAllEndpoints().map(e => [e.id, e]));
+  const result = await importEndpointRegistry(json, mode);
+  if (!result.success) return result;
+
+  const current = getAllEndpoints();
+  const currentIds = new Set(current.map(e => e.id));
+  const changed: Promise<void>[] = [];
+
+  previous.forEach((_, id) => {
+    if (!currentIds.has(id)) changed.push(syncExternalEndpoint(id));
+  });
+  for (const endpoint of current) {
+    const before = previous.get(endpoint.id);
+    const sourceChanged = !before || before.url !== endpoint.url || before.format !== endpoint.format;
+    if (sourceChanged || before.enabled !== endpoint.enabled) {
+      changed.push(syncExternalEndpoint(endpoint.id, sourceChanged));
+    }
+  }
+
+  await Promise.allSettled(changed);
+  return result;
+}
+
+/**
+ * Get a human-readable name for a blocklist source id
+ * (as reported by the domain matcher, e.g. 'external:nsfw.oisd')
+ */
+export function describeBlocklistSource(sourceId: string): string {
+  const separator = sourceId.indexOf(':');
+  const type = separator === -1 ? sourceId : sourceId.substring(0, separator);
+  const id = separator === -1 ? '' : sourceId.substring(separator + 1);
+
+  switch (type) {
+    case 'embedded':
+      return isBlocklistCategory(id) ? `Built-in blocklist (${getBlocklistCategory(id).name})` : 'Built-in blocklist';
+    case 'bundled': {
+      const list = LOCAL_BLOCKLISTS.find(l => l.id === id);
+      return list ? list.name : `Bundled list ${id}`;
+    }
+    case 'local':
+      return `Local file ${id}`;
+    case 'external': {
+      const endpoint = getAllEndpoints().find(e => e.id === id);
+      return endpoint ? endpoint.name : id;
+    }
+    default:
+      return sourceId;
+  }
+}
+
 /**
  * Check if blocklist system is initialized
  */
@@ -418,19 +1166,206 @@ export function isBlocklistInitialized(): boolean {
  */
 export function invalidateAllBlockedDomainsCache(): void {
   allBlockedDomainsCache = null;
+  blocklistGeneration++;
+}
+
+/**
+ * Get the current blocklist generation
+ * Changes every time the blocklist contents are invalidated
+ */
+export function getBlocklistGeneration(): number {
+  return blocklistGeneration;
+}
+
+/**
+ * Get the time an external blocklist was last fetched or revalidated
+ */
+export function getExternalBlocklistFetchedAt(id: string): Date | null {
+  const record = externalBlocklistMeta.get(id);
+  return record ? new Date(record.fetchedAt) : null;
 }
 
 /**
  * Get cached external blocklist by ID
  */
 export function getExternalBlocklistById(id: string): string[] {
-  return externalBlocklistCache.get(id) || [];
+  return externalBlocklistCache.get(id)?.domains || [];
 }
 
 /**
  * Get cached local blocklist by filename
  */
 export function getLocalBlocklistByName(filename: string): string[] {
-  return localBlocklistCache.get(filename) || [];
+  return localBlocklistCache.get(filename)?.domains || [];
+}
+
+/**
+ * Get the categories of a blocklist source
+ * (embedded sections, bundled lists and endpoints; local files have none)
+ */
+export function getBlocklistSourceCategories(sourceId: string): BlocklistCategory[] {
+  const separator = sourceId.indexOf(':');
+  const type = separator === -1 ? sourceId : sourceId.substring(0, separator);
+  const id = separator === -1 ? '' : sourceId.substring(separator + 1);
+
+  switch (type) {
+    case 'embedded':
+      return isBlocklistCategory(id) ? [id] : [];
+    case 'bundled':
+      return normalizeCategories(LOCAL_BLOCKLISTS.find(l => l.id === id)?.categories);
+    case 'external':
+      return getAllEndpoints().find(e => e.id === id)?.categories || [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether a source blocks anything: it has no category or at least one of
+ * its categories is turned on
+ */
+export function isBlocklistSourceActive(sourceId: string): boolean {
+  const categories = getBlocklistSourceCategories(sourceId);
+  return categories.length === 0 || categories.some(isBlocklistCategoryEnabled);
+}
+
+/**
+ * Get the category a source blocks a site for: its first category that
+ * is turned on, or null for an uncategorized source
+ */
+export function getBlockingCategory(sourceId: string): BlocklistCategoryInfo | null {
+  const category = getBlocklistSourceCategories(sourceId).find(isBlocklistCategoryEnabled);
+  return category ? getBlocklistCategory(category) : null;
+}
+
+/**
+ * Whether the sites of a category are blocked
+ */
+export function isBlocklistCategoryEnabled(category: BlocklistCategory): boolean {
+  return !disabledCategories.includes(category);
+}
+
+/**
+ * Load the category settings from storage (once)
+ */
+export async function loadBlocklistCategorySettings(): Promise<void> {
+  if (!categorySettingsLoaded) {
+    await loadCategorySettings();
+  }
+}
+
+/**
+ * Turn the blocking of a category on or off and rebuild the matcher
+ */
+export async function setBlocklistCategoryEnabled(category: BlocklistCategory, enabled: boolean): Promise<boolean> {
+  if (!categorySettingsLoaded) {
+    await loadCategorySettings();
+  }
+  const next = disabledCategories.filter(c => c !== category);
+  if (!enabled) {
+    next.push(category);
+  }
+
+  try {
+    await AsyncStorage.setItem(DISABLED_CATEGORIES_STORAGE_KEY, JSON.stringify(next));
+    disabledCategories = next;
+    invalidateAllBlockedDomainsCache();
+    console.log(`[Blocklist] Category ${category} ${enabled ? 'enabled' : 'disabled'}`);
+    return true;
+  } catch (error) {
+    console.warn('[Blocklist] Failed to save category settings:', error);
+    return false;
+  }
 }
 
+/**
+ * Load the category settings from storage
+ */
+async function loadCategorySettings(): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(DISABLED_CATEGORIES_STORAGE_KEY);
+    disabledCategories = stored ? normalizeCategories(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.warn('[Blocklist] Failed to load category settings:', error);
+    disabledCategories = [];
+  }
+  categorySettingsLoaded = true;
+}
+
+/**
+ * Load the user allowlist from storage
+ */
+async function loadAllowlist(): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(ALLOWLIST_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    allowlist = Array.isArray(parsed) ? parsed.filter((d): d is string => typeof d === 'string') : [];
+  } catch (error) {
+    console.warn('[Blocklist] Failed to load allowlist:', error);
+    allowlist = [];
+  }
+  allowlistLoaded = true;
+}
+
+/**
+ * Persist the user allowlist and rebuild the matcher
+ */
+async function saveAllowlist(domains: string[]): Promise<boolean> {
+  try {
+    await AsyncStorage.setItem(ALLOWLIST_STORAGE_KEY, JSON.stringify(domains));
+    allowlist = domains;
+    invalidateAllBlockedDomainsCache();
+    return true;
+  } catch (error) {
+    console.warn('[Blocklist] Failed to save allowlist:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the user allowlist
+ * Allowlisted domains (and their subdomains) are never blocked by any blocklist
+ */
+export function getAllowlist(): string[] {
+  return allowlist;
+}
+
+/**
+ * Allowlist entry for a domain as typed: lowercase, without a leading www.
+ * or trailing dots
+ */
+function normalizeAllowlistDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^www\./, '').replace(/\.+$/, '');
+}
+
+/**
+ * Add a domain to the user allowlist
+ */
+export async function addToAllowlist(domain: string): Promise<boolean> {
+  const normalized = normalizeAllowlistDomain(domain);
+  if (!normalized) return false;
+  if (!allowlistLoaded) {
+    await loadAllowlist();
+  }
+  if (allowlist.includes(normalized)) return true;
+  return saveAllowlist([...allowlist, normalized]);
+}
+
+/**
+ * Replace the whole user allowlist (e.g. when restoring a backup)
+ */
+export async function setAllowlist(domains: string[]): Promise<boolean> {
+  const normalized = domains.map(normalizeAllowlistDomain).filter(Boolean);
+  return saveAllowlist(Array.from(new Set(normalized)));
+}
+
+/**
+ * Remove a domain from the user allowlist
+ */
+export async function removeFromAllowlist(domain: string): Promise<boolean> {
+  const normalized = normalizeAllowlistDomain(domain);
+  if (!allowlistLoaded) {
+    await loadAllowlist();
+  }
+  return saveAllowlist(allowlist.filter(d => d !== normalized));
+}
@@ -0,0 +1,527 @@
+/**
+ * Domain Matcher
+ *
+ * Compact, immutable index of blocked domains shared by every blocklist
+ * source (embedded, bundled, local and external).
+ *
+ * Domains are stored as a reversed-label trie ("com" -> "example" -> "ads"),
+ * so checking a host and all of its parent domains is a single walk from the
+ * TLD down, one step per label, with no string concatenation or array copies.
+ *
+ * To keep memory low for ~200k+ domains the trie is flattened after building:
+ * - nodes are numbered breadth-first, so the children of a node are contiguous
+ *   and sorted by label (each step is a binary search among siblings)
+ * - all node labels are stored in a single string, addressed by offsets
+ * - per-node data lives in typed arrays
+ *
+ * Exception rules are scoped to the source they came from: an exception in
+ * one list never un-blocks an entry from another list. The user allowlist
+ * applies to every source. Exceptions always take precedence over block
+ * entries, whether they cover the same domain, a parent or a subdomain.
+ *
+ * Wildcard and regex host rules (see host-patterns.ts) are checked only
+ * when the trie has no entry for a host, under the same exceptions.
+ *
+ * Hosts that are IP addresses are checked against the IP and CIDR rules
+ * (see ip-ranges.ts) instead; exceptions and allowlist entries for an
+ * address cover that exact address.
+ *
+ * A matcher is built once per blocklist generation and never mutated.
+ */
+
+import { toASCIIDomain } from './idn';
+import { HostPatternMatcher, HostPatternSource } from './host-patterns';
+import { formatIpAddress, IpAddress, IpRangeMatcher, IpRangeSource, parseIpAddress, parseIpHost } from './ip-ranges';
+
+export interface BlocklistSource {
+  /**
+   * Source id, e.g. 'embedded:adult', 'bundled:custom-ads', 'local:my-list.txt', 'external:nsfw.oisd'.
+   * One list may be split over several sources sharing an id, each with its own exceptions.
+   */
+  id: string;
+  /** Blocked domains (each one also blocks its subdomains) */
+  domains: string[];
+  /** Domains this source un-blocks (each one also covers its subdomains) */
+  exceptions?: string[];
+  /** Wildcard and regex host rules (`zphimsex*.pro`, `/^ads\d+\.example\.com$/`) */
+  patterns?: string[];
+  /** IP address and CIDR rules (`5.61.55.143`, `5.61.55.0/24`, `2001:db8::/32`) */
+  ipRanges?: string[];
+}
+
+export interface DomainMatcherOptions {
+  /** User-managed allowlist, taking precedence over every source */
+  allowlist?: string[];
+}
+
+export interface DomainMatch {
+  /** The blocklist entry that matched (the host itself or one of its parents, a host pattern or an IP range) */
+  domain: string;
+  /** Id of the source the entry came from */
+  source: string;
+}
+
+/**
+ * Temporary node used while building, before the trie is flattened
+ */
+interface BuildNode {
+  children: Map<string, BuildNode> | null;
+  /** Source index + 1 of the entry ending here (0 = not an entry) */
+  terminal: number;
+  /** Later sources listing the same domain, if the first one has exceptions */
+  extra?: number[];
+}
+
+const ROOT = 0;
+
+/**
+ * Source index used for allowlist entries in the exception table
+ */
+const ALLOWLIST_SOURCE = -1;
+
+/**
+ * Normalize a domain or host for indexing and lookup
+ * Unicode (IDN) names are converted to their punycode form
+ */
+export function normalizeDomain(domain: string): string {
+  const address = parseIpAddress(domain);
+  if (address) return formatIpAddress(address);
+  return toASCIIDomain(domain.trim()).replace(/\.+$/, '');
+}
+
+export class DomainMatcher {
+  /** Number of distinct blocked domains in the index */
+  readonly size: number;
+
+  /** Concatenated labels of all nodes, in node order */
+  private readonly labelData: string;
+  /** Offset of each node's label in labelData (length nodeCount + 1) */
+  private readonly labelOffsets: Int32Array;
+  /** Index of each node's first child; children of n are [firstChild[n], firstChild[n + 1]) */
+  private readonly firstChild: Int32Array;
+  /** Source index + 1 of the entry ending at each node (0 = not an entry) */
+  private readonly terminals: Uint16Array;
+  /**
+   * Further sources listing the same domain, kept only for nodes whose
+   * first source has exceptions (so another source can still block it)
+   */
+  private readonly extraTerminals: Map<number, number[]>;
+  /** Exception domain -> indexes of the sources it applies to */
+  private readonly exceptions: Map<string, number[]>;
+  /** Wildcard and regex host rules, checked after the trie */
+  private readonly patterns: HostPatternMatcher;
+  /** IP address and CIDR rules, checked for IP hosts */
+  private readonly ipRanges: IpRangeMatcher;
+  private readonly sourceIds: string[];
+
+  private constructor(
+    labelData: string,
+    labelOffsets: Int32Array,
+    firstChild: Int32Array,
+    terminals: Uint16Array,
+    extraTerminals: Map<number, number[]>,
+    exceptions: Map<string, number[]>,
+    patterns: HostPatternMatcher,
+    ipRanges: IpRangeMatcher,
+    sourceIds: string[],
+    size: number
+  ) {
+    this.labelData = labelData;
+    this.labelOffsets = labelOffsets;
+    this.firstChild = firstChild;
+    this.terminals = terminals;
+    this.extraTerminals = extraTerminals;
+    this.exceptions = exceptions;
+    this.patterns = patterns;
+    this.ipRanges = ipRanges;
+    this.sourceIds = sourceIds;
+    this.size = size;
+  }
+
+  /**
+   * Build a matcher from a list of sources.
+   * When a domain appears in several sources, the first source wins,
+   * so pass sources in priority order.
+   */
+  static build(sources: BlocklistSource[], options: DomainMatcherOptions = {}): DomainMatcher {
+    const root: BuildNode = { children: null, terminal: 0 };
+    const sourceIds: string[] = [];
+    const patternSources: HostPatternSource[] = [];
+    const ipRangeSources: IpRangeSource[] = [];
+    const exceptions = new Map<string, number[]>();
+    const sourceHasExceptions: boolean[] = [];
+    let nodeCount = 1;
+    let size = 0;
+
+    const addException = (rawDomain: string, sourceIndex: number) => {
+      const domain = normalizeDomain(rawDomain);
+      if (!domain) return;
+      const scopes = exceptions.get(domain);
+      if (!scopes) {
+        exceptions.set(domain, [sourceIndex]);
+      } else if (!scopes.includes(sourceIndex)) {
+        scopes.push(sourceIndex);
+      }
+    };
+
+    sources.forEach((source, sourceIndex) => {
+      const sourceExceptions = source.exceptions || [];
+      sourceHasExceptions[sourceIndex] = sourceExceptions.length > 0;
+      sourceExceptions.forEach(domain => addException(domain, sourceIndex));
+    });
+    (options.allowlist || []).forEach(domain => addException(domain, ALLOWLIST_SOURCE));
+
+    for (const source of sources) {
+      const sourceIndex = sourceIds.length;
+      sourceIds.push(source.id);
+      if (source.patterns && source.patterns.length > 0) {
+        patternSources.push({ sourceIndex, patterns: source.patterns });
+      }
+      if (source.ipRanges && source.ipRanges.length > 0) {
+        ipRangeSources.push({ sourceIndex, ranges: source.ipRanges });
+      }
+
+      for (const rawDomain of source.domains) {
+        const domain = normalizeDomain(rawDomain);
+        if (!domain) continue;
+
+        const parts = domain.split('.');
+        let node = root;
+
+        for (let i = parts.length - 1; i >= 0; i--) {
+          const label = parts[i];
+          if (!label) break;
+
+          if (!node.children) {
+            node.children = new Map();
+          }
+          let child = node.children.get(label);
+          if (!child) {
+            child = { children: null, terminal: 0 };
+            node.children.set(label, child);
+            nodeCount++;
+          }
+          node = child;
+        }
+
+        if (node === root) continue;
+
+        if (node.terminal === 0) {
+          node.terminal = sourceIndex + 1;
+          size++;
+        } else if (sourceHasExceptions[node.terminal - 1] && node.terminal !== sourceIndex + 1) {
+          // The first source may be excepted at match time, so remember the others
+          if (!node.extra) {
+            node.extra = [];
+          }
+          if (!node.extra.includes(sourceIndex)) {
+            node.extra.push(sourceIndex);
+          }
+        }
+      }
+    }
+
+    // Flatten breadth-first so siblings end up contiguous and sorted
+    const labelParts: string[] = [''];
+    const labelOffsets = new Int32Array(nodeCount + 1);
+    const firstChild = new Int32Array(nodeCount + 1);
+    const terminals = new Uint16Array(nodeCount);
+    const extraTerminals = new Map<number, number[]>();
+    const queue: BuildNode[] = [root];
+    let labelLength = 0;
+    let next = 1;
+
+    for (let index = 0; index < queue.length; index++) {
+      const node = queue[index];
+      terminals[index] = node.terminal;
+      firstChild[index] = next;
+      if (node.extra) {
+        extraTerminals.set(index, node.extra);
+      }
+
+      if (node.children) {
+        const labels = Array.from(node.children.keys()).sort();
+        for (const label of labels) {
+          labelOffsets[next] = labelLength;
+          labelParts.push(label);
+          labelLength += label.length;
+          queue.push(node.children.get(label)!);
+          next++;
+        }
+        // Release the temporary node as soon as it has been flattened
+        node.children = null;
+      }
+    }
+    firstChild[nodeCount] = next;
+    labelOffsets[nodeCount] = labelLength;
+
+    return new DomainMatcher(
+      labelParts.join(''),
+      labelOffsets,
+      firstChild,
+      terminals,
+      extraTerminals,
+      exceptions,
+      HostPatternMatcher.build(patternSources),
+      IpRangeMatcher.build(ipRangeSources),
+      sourceIds,
+      size
+    );
+  }
+
+  /**
+   * Compare a label against the label stored for a node, without allocating
+   */
+  private compareLabel(label: string, node: number): number {
+    const start = this.labelOffsets[node];
+    const length = this.labelOffsets[node + 1] - start;
+    const shared = Math.min(label.length, length);
+
+    for (let i = 0; i < shared; i++) {
+      const diff = label.charCodeAt(i) - this.labelData.charCodeAt(start + i);
+      if (diff !== 0) return diff;
+    }
+    return label.length - length;
+  }
+
+  /**
+   * Find the child of a node with the given label, or -1
+   */
+  private findChild(node: number, label: string): number {
+    let low = this.firstChild[node];
+    let high = this.firstChild[node + 1] - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const cmp = this.compareLabel(label, mid);
+      if (cmp === 0) return mid;
+      if (cmp > 0) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Collect the sources whose exceptions (or the allowlist) cover a host,
+   * checking the host itself and each parent domain
+   */
+  private findExceptionScopes(parts: string[]): Set<number> {
+    const scopes = new Set<number>();
+    if (this.exceptions.size === 0) return scopes;
+
+    for (let i = 0; i < parts.length; i++) {
+      const entry = this.exceptions.get(parts.slice(i).join('.'));
+      if (entry) {
+        entry.forEach(scope => scopes.add(scope));
+      }
+    }
+    return scopes;
+  }
+
+  /**
+   * Check whether a host is covered by the user allowlist
+   */
+  isAllowlisted(host: string): boolean {
+    const address = parseIpHost(host);
+    if (address) {
+      return (this.exceptions.get(formatIpAddress(address)) || []).includes(ALLOWLIST_SOURCE);
+    }
+    return this.findExceptionScopes(normalizeDomain(host).split('.')).has(ALLOWLIST_SOURCE);
+  }
+
+  /**
+   * Find the blocklist entry covering a host, checking the host itself
+   * and then each parent domain. Returns the most specific match that is
+   * not cancelled by an exception from the same source or by the allowlist.
+   */
+  match(host: string): DomainMatch | null {
+    const address = parseIpHost(host);
+    if (address) return this.matchAddress(address);
+
+    const normalized = normalizeDomain(host);
+    const parts = normalized.split('.');
+    const hits: { node: number; depth: number }[] = [];
+    let node = ROOT;
+
+    for (let i = parts.length - 1; i >= 0; i--) {
+      const child = this.findChild(node, parts[i]);
+      if (child === -1) break;
+
+      node = child;
+      if (this.terminals[node] !== 0) {
+        hits.push({ node, depth: parts.length - i });
+      }
+    }
+
+    if (hits.length === 0) return this.matchPatterns(normalized, parts);
+
+    // Exceptions are rare, so they are only looked up once a block entry is found
+    const excepted = this.findExceptionScopes(parts);
+    if (excepted.has(ALLOWLIST_SOURCE)) return null;
+
+    for (let h = hits.length - 1; h >= 0; h--) {
+      const hit = hits[h];
+      const candidates = [this.terminals[hit.node] - 1, ...(this.extraTerminals.get(hit.node) || [])];
+      const sourceIndex = candidates.find(index => !excepted.has(index));
+
+      if (sourceIndex !== undefined) {
+        return {
+          domain: parts.slice(parts.length - hit.depth).join('.'),
+          source: this.sourceIds[sourceIndex],
+        };
+      }
+    }
+
+    return this.matchPatterns(normalized, parts, excepted);
+  }
+
+  /**
+   * Find the first wildcard or regex host rule covering a host that is not
+   * cancelled by an exception from the same source or by the allowlist
+   */
+  private matchPatterns(host: string, parts: string[], excepted?: Set<number>): DomainMatch | null {
+    const matches = this.patterns.match(host);
+    if (matches.length === 0) return null;
+
+    const scopes = excepted || this.findExceptionScopes(parts);
+    if (scopes.has(ALLOWLIST_SOURCE)) return null;
+
+    const match = matches.find(m => !scopes.has(m.sourceIndex));
+    return match ? { domain: match.pattern, source: this.sourceIds[match.sourceIndex] } : null;
+  }
+
+  /**
+   * Find the most specific IP or CIDR rule covering an address that is not
+   * cancelled by an exception from the same source or by the allowlist
+   */
+  private matchAddress(address: IpAddress): DomainMatch | null {
+    const matches = this.ipRanges.match(address);
+    if (matches.length === 0) return null;
+
+    const scopes = this.exceptions.get(formatIpAddress(address)) || [];
+    if (scopes.includes(ALLOWLIST_SOURCE)) return null;
+
+    const match = matches.find(m => !scopes.includes(m.sourceIndex));
+    return match ? { domain: match.range, source: this.sourceIds[match.sourceIndex] } : null;
+  }
+
+  /**
+   * Number of IP address and CIDR rules in the index
+   */
+  get ipRangeCount(): number {
+    return this.ipRanges.size;
+  }
+
+  /**
+   * List the IP address and CIDR rules in canonical form
+   */
+  ipRangesToArray(): string[] {
+    return this.ipRanges.toArray();
+  }
+
+  /**
+   * Number of wildcard and regex host rules in the index
+   */
+  get patternCount(): number {
+    return this.patterns.size;
+  }
+
+  /**
+   * Regular expression sources matching the hosts covered by the wildcard
+   * and regex host rules, for matchers that cannot run this one
+   */
+  patternsToRegExpSources(): string[] {
+    return this.patterns.toRegExpSources();
+  }
+
+  /**
+   * Check whether a host or any of its parent domains is blocked
+   */
+  isBlocked(host: string): boolean {
+    return this.match(host) !== null;
+  }
+
+  /**
+   * List every indexed domain. Allocates a new array, so avoid calling
+   * this on hot paths.
+   */
+  toArray(): string[] {
+    const result: string[] = [];
+    const stack: { node: number; suffix: string }[] = [{ node: ROOT, suffix: '' }];
+
+    while (stack.length > 0) {
+      const { node, suffix } = stack.pop()!;
+
+      for (let child = this.firstChild[node]; child < this.firstChild[node + 1]; child++) {
+        const label = this.labelData.substring(this.labelOffsets[child], this.labelOffsets[child + 1]);
+        const domain = suffix ? `${label}.${suffix}` : label;
+        if (this.terminals[child] !== 0) {
+          result.push(domain);
+        }
+        if (this.firstChild[child] < this.firstChild[child + 1]) {
+          stack.push({ node: child, suffix: domain });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * List the indexed domains that still block for some source: a domain is
+   * left out when every source listing it excepts it (or a parent domain).
+   * An exception for a subdomain of an entry is not expressed here, so that
+   * subdomain stays blocked. Allocates a new array, like toArray().
+   */
+  blockingToArray(): string[] {
+    const result: string[] = [];
+    const stack: { node: number; suffix: string }[] = [{ node: ROOT, suffix: '' }];
+
+    while (stack.length > 0) {
+      const { node, suffix } = stack.pop()!;
+
+      for (let child = this.firstChild[node]; child < this.firstChild[node + 1]; child++) {
+        const label = this.labelData.substring(this.labelOffsets[child], this.labelOffsets[child + 1]);
+        const domain = suffix ? `${label}.${suffix}` : label;
+        if (this.terminals[child] !== 0 && !this.isExceptedBySources(child, domain)) {
+          result.push(domain);
+        }
+        if (this.firstChild[child] < this.firstChild[child + 1]) {
+          stack.push({ node: child, suffix: domain });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether every source listing a node excepts its domain
+   */
+  private isExceptedBySources(node: number, domain: string): boolean {
+    if (this.exceptions.size === 0) return false;
+    const excepted = this.findExceptionScopes(domain.split('.'));
+    const candidates = [this.terminals[node] - 1, ...(this.extraTerminals.get(node) || [])];
+    return candidates.every(index => excepted.has(index));
+  }
+
+  /**
+   * Count indexed domains per source id
+   */
+  countBySource(): { [source: string]: number } {
+    const counts: { [source: string]: number } = {};
+    for (const id of this.sourceIds) {
+      counts[id] = 0;
+    }
+    for (let node = 1; node < this.terminals.length; node++) {
+      const terminal = this.terminals[node];
+      if (terminal !== 0) {
+        counts[this.sourceIds[terminal - 1]]++;
+      }
+    }
+    return counts;
+  }
+}
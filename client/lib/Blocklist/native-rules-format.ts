@@ -0,0 +1,64 @@
+/**
+ * Native Request Rules Format
+ *
+ * File format of the rules written for the Android request interceptor
+ * (see native-rules.ts and plugins/withWebViewRequestBlocking.js).
+ *
+ * One tab-separated record per line:
+ * - `v  1`                                   format version
+ * - `b  host`                                blocked host (and subdomains)
+ * - `p  regex`                               wildcard or regex host rule, matched against the host
+ * - `i  range`                               blocked IP address or CIDR range (`5.61.55.0/24`, `2001:db8::/32`)
+ * - `a  host`                                host on the user allowlist
+ * - `f  kind  token  typeMask  party  regex`  network filter, kind i(mportant)/b(lock)/e(xception),
+ *                                            party 0 = any, 1 = third-party, 2 = first-party
+ *
+ * List exceptions have no record: in the DomainMatcher they only cancel
+ * blocks from their own list, so they are applied before writing, by
+ * leaving out the hosts excepted by every list that blocks them
+ * (DomainMatcher.blockingToArray()).
+ *
+ * This module has no React Native imports so it also runs under Node.
+ */
+
+import type { ExportedNetworkFilter } from './network';
+
+const NATIVE_REQUEST_RULES_VERSION = 1;
+
+export interface NativeRequestRules {
+  /** Blocked hosts, without the ones their own lists except */
+  blockedHosts: string[];
+  /** Regular expression sources of the wildcard and regex host rules */
+  hostPatterns: string[];
+  /** IP address and CIDR rules in canonical form (see ip-ranges.ts) */
+  ipRanges: string[];
+  allowlist: string[];
+  filters: ExportedNetworkFilter[];
+}
+
+const FILTER_KINDS: { [kind in ExportedNetworkFilter['kind']]: string } = {
+  important: 'i',
+  block: 'b',
+  exception: 'e',
+};
+
+/**
+ * Serialize the rules in the interceptor's file format
+ */
+export function serializeNativeRequestRules(rules: NativeRequestRules): string {
+  const lines: string[] = [`v\t${NATIVE_REQUEST_RULES_VERSION}`];
+
+  rules.blockedHosts.forEach(host => lines.push(`b\t${host}`));
+  rules.hostPatterns.filter(regex => !/[\n\r]/.test(regex)).forEach(regex => lines.push(`p\t${regex}`));
+  rules.ipRanges.forEach(range => lines.push(`i\t${range}`));
+  rules.allowlist.forEach(host => lines.push(`a\t${host}`));
+
+  for (const filter of rules.filters) {
+    // Regex sources never contain line breaks; tabs are escaped by the regex syntax
+    if (/[\n\r]/.test(filter.regex)) continue;
+    const party = filter.thirdParty === undefined ? 0 : filter.thirdParty ? 1 : 2;
+    lines.push(['f', FILTER_KINDS[filter.kind], filter.token, filter.typeMask, party, filter.regex].join('\t'));
+  }
+
+  return lines.join('\n') + '\n';
+}
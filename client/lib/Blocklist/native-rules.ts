@@ -0,0 +1,50 @@
+/**
+ * Native Request Rules (Android)
+ *
+ * The Android request interceptor added by plugins/withWebViewRequestBlocking.js
+ * sees every request a page makes, including the ones page scripts cannot
+ * patch (parser-inserted scripts, CSS images, fonts). It cannot call into
+ * JavaScript synchronously, so the rules it needs are written to a file in
+ * the app's document directory, which it reloads whenever the file changes.
+ *
+ * The file format is in native-rules-format.ts.
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { NativeRequestRules, serializeNativeRequestRules } from './native-rules-format';
+
+/**
+ * File name the interceptor reads, relative to the document directory
+ * (Context.getFilesDir() on Android)
+ */
+export const NATIVE_REQUEST_RULES_FILENAME = 'safebrowse-request-rules.tsv';
+
+/**
+ * Whether this platform has the native request interceptor
+ */
+export function isNativeRequestBlockingSupported(): boolean {
+  return Platform.OS === 'android' && !!FileSystem.documentDirectory;
+}
+
+/**
+ * Write the rules for the interceptor
+ * Returns false if the platform has no interceptor or writing failed
+ */
+export async function writeNativeRequestRules(rules: NativeRequestRules): Promise<boolean> {
+  if (!isNativeRequestBlockingSupported()) return false;
+
+  const path = `${FileSystem.documentDirectory}${NATIVE_REQUEST_RULES_FILENAME}`;
+  const tempPath = `${path}.tmp`;
+
+  try {
+    // Write to a temporary file first so the interceptor never reads half a file
+    await FileSystem.writeAsStringAsync(tempPath, serializeNativeRequestRules(rules));
+    await FileSystem.moveAsync({ from: tempPath, to: path });
+    console.log(`[Blocklist] Wrote native request rules: ${rules.blockedHosts.length} hosts, ${rules.hostPatterns.length} host patterns, ${rules.ipRanges.length} IP ranges, ${rules.filters.length} URL filters`);
+    return true;
+  } catch (error) {
+    console.warn('[Blocklist] Failed to write native request rules:', error);
+    return false;
+  }
+}
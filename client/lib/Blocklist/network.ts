@@ -0,0 +1,429 @@
+/**
+ * Network Filters (Sub-Resource Request Blocking)
+ *
+ * URL-pattern rules from Adblock Plus/AdGuard lists ("||example.com/ads/*",
+ * "/banner/*-300x250.", "/^https?:\/\/ads\./") that apply to the scripts,
+ * images, frames and XHR/fetch requests a page makes. Host rules stay in the
+ * DomainMatcher; these are the rules that need the full URL.
+ *
+ * Matching uses a token index: each filter is filed under the longest
+ * literal run of its pattern that must appear in any URL it matches, so a
+ * request is only tested against the filters sharing one of its tokens.
+ * The same tokenization is used by the Android request interceptor
+ * (plugins/withWebViewRequestBlocking.js), keep the two in sync.
+ */
+
+export const RESOURCE_TYPES = [
+  'script',
+  'image',
+  'stylesheet',
+  'xmlhttprequest',
+  'subdocument',
+  'media',
+  'font',
+  'websocket',
+  'ping',
+  'other',
+] as const;
+
+export type ResourceType = typeof RESOURCE_TYPES[number];
+
+/**
+ * Filter modifiers naming a resource type; the rest ($popup, $webrtc)
+ * name requests that cannot be intercepted
+ */
+const MODIFIER_RESOURCE_TYPES: { [modifier: string]: ResourceType } = {
+  'script': 'script',
+  'image': 'image',
+  'stylesheet': 'stylesheet',
+  'css': 'stylesheet',
+  'xmlhttprequest': 'xmlhttprequest',
+  'xhr': 'xmlhttprequest',
+  'subdocument': 'subdocument',
+  'frame': 'subdocument',
+  'media': 'media',
+  'font': 'font',
+  'websocket': 'websocket',
+  'ping': 'ping',
+  'beacon': 'ping',
+  'object': 'other',
+  'object-subrequest': 'other',
+  'other': 'other',
+};
+
+export interface NetworkFilter {
+  /** The rule as written in the list */
+  rule: string;
+  /** URL pattern in Adblock Plus syntax, or a /regular expression/ */
+  pattern: string;
+  /** Resource types the filter applies to (every type when omitted) */
+  types?: ResourceType[];
+  /** Only third-party (true) or only first-party (false) requests */
+  thirdParty?: boolean;
+  /** Not cancelled by exception filters ($important) */
+  important?: boolean;
+}
+
+/**
+ * Network filters of one list, as stored with the parsed list
+ */
+export interface NetworkRules {
+  blocks: NetworkFilter[];
+  exceptions: NetworkFilter[];
+}
+
+export interface NetworkSource {
+  id: string;
+  network: NetworkRules;
+}
+
+export interface NetworkRequest {
+  url: string;
+  type: ResourceType;
+  /** Host of the page making the request, used for $third-party */
+  pageHost?: string;
+}
+
+/**
+ * A compiled filter in a plain form, for matchers outside this module
+ * (the page script and the Android request interceptor)
+ */
+export interface ExportedNetworkFilter {
+  kind: 'block' | 'important' | 'exception';
+  /** Index token, '' if the filter is tested on every request */
+  token: string;
+  /** Regular expression source, matched case-insensitively */
+  regex: string;
+  /** Bit per RESOURCE_TYPES entry, 0 for every type */
+  typeMask: number;
+  thirdParty?: boolean;
+}
+
+export interface NetworkMatch {
+  /** Source id of the list the filter came from */
+  source: string;
+  /** The filter as written in the list */
+  rule: string;
+}
+
+/**
+ * Resolve the resource type modifiers of a rule ("script", "~image") to the
+ * types it applies to. Returns undefined for every type and an empty array
+ * if none of the named types can be intercepted.
+ */
+export function resolveResourceTypes(modifiers: string[]): ResourceType[] | undefined {
+  const included = new Set<ResourceType>();
+  const excluded = new Set<ResourceType>();
+  let named = false;
+
+  for (const modifier of modifiers) {
+    const negated = modifier.startsWith('~');
+    const name = negated ? modifier.substring(1) : modifier;
+    if (!(name in MODIFIER_RESOURCE_TYPES) && name !== 'popup' && name !== 'webrtc') continue;
+
+    named = true;
+    const type = MODIFIER_RESOURCE_TYPES[name];
+    if (type) {
+      (negated ? excluded : included).add(type);
+    }
+  }
+
+  if (!named) return undefined;
+  if (included.size === 0 && excluded.size === 0) return [];
+
+  const base = included.size > 0 ? Array.from(included) : [...RESOURCE_TYPES];
+  const types = base.filter(type => !excluded.has(type));
+  return types.length === RESOURCE_TYPES.length ? undefined : types;
+}
+
+/**
+ * Check whether a rule pattern is a /regular expression/
+ */
+export function isRegexPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+}
+
+/**
+ * Translate an Adblock Plus URL pattern into a regular expression source
+ * (matched case-insensitively):
+ * - `||` matches the scheme and any subdomain, `|` anchors the start or end
+ * - `^` matches a separator (anything but a letter, digit, `_ - . %`) or the end
+ * - `*` matches anything
+ */
+export function toRegExpSource(pattern: string): string {
+  if (isRegexPattern(pattern)) {
+    return pattern.substring(1, pattern.length - 1);
+  }
+
+  let rest = pattern;
+  let source = '';
+  let end = '';
+
+  if (rest.startsWith('||')) {
+    source = '^[a-z][a-z0-9+.-]*:\\/\\/(?:[^\\/?#]*\\.)?';
+    rest = rest.substring(2);
+  } else if (rest.startsWith('|')) {
+    source = '^';
+    rest = rest.substring(1);
+  }
+  if (rest.endsWith('|')) {
+    end = '$';
+    rest = rest.substring(0, rest.length - 1);
+  }
+
+  for (const char of rest) {
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '^') {
+      source += '(?:[^\\w.%-]|$)';
+    } else {
+      source += char.replace(/[.+?${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  // Leading and trailing wildcards only slow the match down
+  return (source + end).replace(/^\.\*/, '').replace(/\.\*$/, '');
+}
+
+const TOKEN_CHAR = /[a-z0-9%]/;
+
+/**
+ * Tokens found in most URLs; a filter indexed under one of these would be
+ * tested on nearly every request, so any other token is preferred
+ */
+const COMMON_TOKENS = new Set(['http', 'https', 'www', 'com', 'net', 'org', 'js', 'html', 'php', 'cdn', 'static', 'img', 'images']);
+
+/**
+ * Split a URL into the tokens used to look up candidate filters
+ */
+export function tokenizeUrl(url: string): string[] {
+  return url.toLowerCase().match(/[a-z0-9%]+/g) || [];
+}
+
+/**
+ * Pick the token a filter is indexed under: the longest run of token
+ * characters that a matching URL must contain as a whole token.
+ * Returns '' if there is none (the filter is then tested on every request).
+ */
+export function getFilterToken(pattern: string): string {
+  if (isRegexPattern(pattern)) return '';
+
+  const lower = pattern.toLowerCase();
+  let best = '';
+  let bestScore = 0;
+  let i = 0;
+
+  while (i < lower.length) {
+    if (!TOKEN_CHAR.test(lower[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < lower.length && TOKEN_CHAR.test(lower[i])) i++;
+
+    const before = start === 0 ? '' : lower[start - 1];
+    const after = i === lower.length ? '' : lower[i];
+    // Without a separator or anchor on both sides the run may be part of a
+    // longer URL token ("ad-" also matches "load-")
+    const boundedBefore = start === 0 ? false : before !== '*';
+    const boundedAfter = i === lower.length ? false : after !== '*';
+    const anchoredStart = start === 2 && lower.startsWith('||') || start === 1 && lower.startsWith('|');
+    const anchoredEnd = i === lower.length - 1 && lower.endsWith('|');
+
+    if ((boundedBefore || anchoredStart) && (boundedAfter || anchoredEnd)) {
+      const token = lower.substring(start, i);
+      const score = COMMON_TOKENS.has(token) ? 1 : token.length + 1;
+      if (score > bestScore) {
+        best = token;
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rough registrable domain of a host (last two labels, three for
+ * country-code second-level domains like co.uk), for $third-party
+ */
+function getSiteKey(host: string): string {
+  const labels = host.split('.');
+  if (labels.length <= 2) return host;
+
+  const count = labels[labels.length - 1].length === 2 && labels[labels.length - 2].length <= 3 ? 3 : 2;
+  return labels.slice(-count).join('.');
+}
+
+/**
+ * Get the host of a URL without allocating a URL object
+ */
+export function getUrlHost(url: string): string {
+  const schemeEnd = url.indexOf('://');
+  if (schemeEnd === -1) return '';
+
+  const rest = url.substring(schemeEnd + 3);
+  const hostEnd = rest.search(/[/?#]/);
+  const authority = hostEnd === -1 ? rest : rest.substring(0, hostEnd);
+  return authority.replace(/^.*@/, '').replace(/:\d+$/, '').toLowerCase();
+}
+
+interface CompiledFilter {
+  token: string;
+  regex: RegExp;
+  /** Bit per RESOURCE_TYPES entry, 0 for every type */
+  typeMask: number;
+  thirdParty?: boolean;
+  source: string;
+  rule: string;
+}
+
+function getTypeMask(types: ResourceType[] | undefined): number {
+  if (!types) return 0;
+  return types.reduce((mask, type) => mask | (1 << RESOURCE_TYPES.indexOf(type)), 0);
+}
+
+/**
+ * Filters of one kind (blocks, important blocks or exceptions), indexed by token
+ */
+class FilterBucket {
+  size: number = 0;
+  private readonly byToken: Map<string, CompiledFilter[]> = new Map();
+  private readonly untokenized: CompiledFilter[] = [];
+
+  add(filter: NetworkFilter, source: string): void {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(toRegExpSource(filter.pattern), 'i');
+    } catch {
+      // Regex rules using syntax this engine does not support
+      return;
+    }
+
+    const token = getFilterToken(filter.pattern);
+    const compiled: CompiledFilter = {
+      token,
+      regex,
+      typeMask: getTypeMask(filter.types),
+      thirdParty: filter.thirdParty,
+      source,
+      rule: filter.rule,
+    };
+
+    if (token) {
+      const list = this.byToken.get(token);
+      if (list) {
+        list.push(compiled);
+      } else {
+        this.byToken.set(token, [compiled]);
+      }
+    } else {
+      this.untokenized.push(compiled);
+    }
+    this.size++;
+  }
+
+  *[Symbol.iterator](): IterableIterator<CompiledFilter> {
+    for (const list of this.byToken.values()) {
+      yield* list;
+    }
+    yield* this.untokenized;
+  }
+
+  find(url: string, tokens: string[], typeBit: number, thirdParty: boolean | undefined): CompiledFilter | null {
+    const test = (filter: CompiledFilter) =>
+      (filter.typeMask === 0 || (filter.typeMask & typeBit) !== 0) &&
+      // Unknown page: treat the request as third-party, as most are
+      (filter.thirdParty === undefined || filter.thirdParty === (thirdParty ?? true)) &&
+      filter.regex.test(url);
+
+    for (const token of tokens) {
+      const candidates = this.byToken.get(token);
+      if (!candidates) continue;
+      for (const filter of candidates) {
+        if (test(filter)) return filter;
+      }
+    }
+    for (const filter of this.untokenized) {
+      if (test(filter)) return filter;
+    }
+    return null;
+  }
+}
+
+export class NetworkFilterMatcher {
+  private readonly blocks = new FilterBucket();
+  private readonly important = new FilterBucket();
+  private readonly exceptions = new FilterBucket();
+
+  private constructor() {}
+
+  /**
+   * Index the network filters of several lists. Exception filters apply
+   * across lists, as they do in Adblock Plus.
+   */
+  static build(sources: NetworkSource[]): NetworkFilterMatcher {
+    const matcher = new NetworkFilterMatcher();
+    for (const { id, network } of sources) {
+      for (const filter of network.blocks) {
+        (filter.important ? matcher.important : matcher.blocks).add(filter, id);
+      }
+      for (const filter of network.exceptions) {
+        matcher.exceptions.add(filter, id);
+      }
+    }
+    return matcher;
+  }
+
+  /** Number of block and exception filters */
+  get size(): number {
+    return this.blocks.size + this.important.size + this.exceptions.size;
+  }
+
+  /**
+   * List the compiled filters, important blocks first
+   */
+  export(): ExportedNetworkFilter[] {
+    const result: ExportedNetworkFilter[] = [];
+    const add = (bucket: FilterBucket, kind: ExportedNetworkFilter['kind']) => {
+      for (const filter of bucket) {
+        result.push({
+          kind,
+          token: filter.token,
+          regex: filter.regex.source,
+          typeMask: filter.typeMask,
+          thirdParty: filter.thirdParty,
+        });
+      }
+    };
+
+    add(this.important, 'important');
+    add(this.blocks, 'block');
+    add(this.exceptions, 'exception');
+    return result;
+  }
+
+  /**
+   * Find the filter blocking a request, if any
+   */
+  match(request: NetworkRequest): NetworkMatch | null {
+    if (this.size === 0) return null;
+
+    const tokens = tokenizeUrl(request.url);
+    const typeBit = 1 << RESOURCE_TYPES.indexOf(request.type);
+    const host = getUrlHost(request.url);
+    const thirdParty = request.pageHost ? getSiteKey(host) !== getSiteKey(request.pageHost.toLowerCase()) : undefined;
+
+    const important = this.important.find(request.url, tokens, typeBit, thirdParty);
+    if (important) {
+      return { source: important.source, rule: important.rule };
+    }
+
+    const block = this.blocks.find(request.url, tokens, typeBit, thirdParty);
+    if (!block || this.exceptions.find(request.url, tokens, typeBit, thirdParty)) {
+      return null;
+    }
+    return { source: block.source, rule: block.rule };
+  }
+}
@@ -6,123 +6,686 @@
  * - AdGuard format
  * - Simple domain list format
  * - Hosts file format
+ *
+ * Only rules that can take effect as a host block (or host exception) are
+ * applied. Every other rule is counted in a per-list rule report, so it is
+ * visible how much of an upstream list actually takes effect.
  */
 
 import type { BlocklistEndpoint } from './endpoints';
+import { toASCIIDomain } from './idn';
+import type { CosmeticRules } from './cosmetic';
+import { NetworkFilter, NetworkRules, isRegexPattern, resolveResourceTypes, toRegExpSource } from './network';
+import { isHostGlobRule, isHostRegexRule, toHostPattern } from './host-patterns';
+import { formatIpRange, toIpRange } from './ip-ranges';
 
 /**
- * Parse EasyList/Adblock Plus format
- * Extracts domain-based blocking rules from filter lists
- *
- * Supported patterns:
- * - ||domain.com^ (block domain and subdomains)
- * - ||domain.com/ (block domain)
- * - ||domain.com$ (block domain with options)
- *
- * Handles:
- * - Exception rules (@@) that override blocking rules
- *
- * Ignores:
- * - Comments (lines starting with !)
- * - Metadata (lines starting with [)
- * - Element hiding rules (##, #@#, #?#)
- * - Specific URL path rules
- * - Regex rules
+ * Reasons a rule cannot take effect as a host block
  */
-export function parseEasyListFormat(content: string): string[] {
-  const blockingDomains: Set<string> = new Set();
-  const exceptionDomains: Set<string> = new Set();
-  const lines = content.split('\n');
+export type UnsupportedRuleReason =
+  | 'cosmetic'
+  | 'regex'
+  | 'path'
+  | 'wildcard'
+  | 'domain-modifier'
+  | 'modifier'
+  | 'conditional-exception'
+  | 'badfilter'
+  | 'hosts-redirect'
+  | 'ip-address'
+  | 'invalid-host';
 
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
+/**
+ * Reasons a rule is applied as a host block that is broader than upstream intended
+ */
+export type ApproximatedRuleReason = 'third-party' | 'resource-type' | 'subdomain-wildcard';
 
-    // Skip empty lines
-    if (!line) continue;
+export interface RuleReportEntry {
+  count: number;
+  /** First few rules with this reason, as written in the list */
+  samples: string[];
+}
 
-    // Skip comments and metadata
-    if (line.startsWith('!') || line.startsWith('[')) continue;
-
-    // Handle exception rules (these override blocking rules)
-    if (line.startsWith('@@')) {
-      const exceptionLine = line.substring(2).trim(); // Remove @@ prefix
-
-      // Look for exception domain patterns: ||domain.com^
-      const exceptionDomainMatch = exceptionLine.match(/^\|\|([a-zA-Z0-9][-a-zA-Z0-9._]*[a-zA-Z0-9])[\^/$]/);
-      if (exceptionDomainMatch) {
-        const domain = exceptionDomainMatch[1].toLowerCase();
-        // Skip if it looks like a partial domain or has wildcards
-        if (!domain.includes('*') && domain.includes('.')) {
-          exceptionDomains.add(domain);
-        }
-        continue;
-      }
-
-      // Alternative pattern: ||domain.com (without suffix)
-      const simpleExceptionMatch = exceptionLine.match(/^\|\|([a-zA-Z0-9][-a-zA-Z0-9._]*\.[a-zA-Z]{2,})$/);
-      if (simpleExceptionMatch) {
-        const domain = simpleExceptionMatch[1].toLowerCase();
-        if (!domain.includes('*')) {
-          exceptionDomains.add(domain);
-        }
-        continue;
-      }
-
-      // Handle domain-specific exceptions: @@||ads.example.com^$domain=example.com
-      const domainSpecificMatch = exceptionLine.match(/^\|\|([a-zA-Z0-9][-a-zA-Z0-9._]*[a-zA-Z0-9])(?:\^)?(?:\$(?:[^,]+,)*[^,]+)?$/);
-      if (domainSpecificMatch) {
-        const domainPart = exceptionLine.split('$')[0].replace(/^\|\||\^$/g, '').toLowerCase();
-        if (domainPart && domainPart.includes('.') && !domainPart.includes('*')) {
-          exceptionDomains.add(domainPart);
-        }
-      }
-      continue;
+/**
+ * How much of a list takes effect: every rule that is not a comment is
+ * either applied (possibly approximated) or reported as unsupported
+ */
+export interface RuleReport {
+  totalRules: number;
+  appliedRules: number;
+  unsupportedRules: number;
+  unsupported: Partial<Record<UnsupportedRuleReason, RuleReportEntry>>;
+  /** Applied rules that upstream limits to some requests only */
+  approximated: Partial<Record<ApproximatedRuleReason, RuleReportEntry>>;
+}
+
+/**
+ * Human-readable descriptions of report reasons
+ */
+export const RULE_REPORT_REASON_LABELS: Record<UnsupportedRuleReason | ApproximatedRuleReason, string> = {
+  'cosmetic': 'Scriptlets, HTML filters and extended CSS rules',
+  'regex': 'Invalid regular expression rules',
+  'path': 'URL rules that only apply to popups or whole pages',
+  'wildcard': 'Wildcard rules that only apply to popups or whole pages',
+  'domain-modifier': 'Rules limited to some sites ($domain=)',
+  'modifier': 'Rules with modifiers that change what they do',
+  'conditional-exception': 'Exceptions that only apply in some contexts',
+  'badfilter': 'Rules disabled by $badfilter',
+  'hosts-redirect': 'Hosts entries pointing to a real address',
+  'ip-address': 'IP addresses',
+  'invalid-host': 'Invalid host names',
+  'third-party': 'Third-party only rules, applied to all requests',
+  'resource-type': 'Rules for some request types, applied to all requests',
+  'subdomain-wildcard': 'Subdomain wildcards (*.host), also applied to the host itself',
+};
+
+/**
+ * Result of parsing a blocklist, keeping exception rules separate so the
+ * matcher can apply them to subdomains and scope them to their source list
+ */
+export interface ParsedBlocklist {
+  /** Domains to block (each one also blocks its subdomains) */
+  domains: string[];
+  /** Domains un-blocked by exception rules (@@||domain^), including their subdomains */
+  exceptions: string[];
+  /** Domains blocked by $important rules, which the list's own exceptions do not override */
+  important?: string[];
+  /** Wildcard and regex host rules of domain lists (see host-patterns.ts) */
+  patterns?: string[];
+  /** IP address and CIDR rules, in canonical form (see ip-ranges.ts) */
+  ipRanges?: string[];
+  /** Element hiding rules (##selector), if the list has any */
+  cosmetic?: CosmeticRules;
+  /** URL-pattern rules for sub-resource requests, if the list has any */
+  network?: NetworkRules;
+  /** What was applied, approximated or rejected while parsing */
+  report?: RuleReport;
+}
+
+const MAX_REPORT_SAMPLES = 5;
+
+/**
+ * Modifiers that keep a rule an unconditional host rule
+ */
+const HOST_MODIFIERS = new Set([
+  'important', 'document', 'doc', 'all', 'match-case', 'urlblock', 'first-party', '1p', '~third-party', '~3p',
+]);
+
+const THIRD_PARTY_MODIFIERS = new Set(['third-party', '3p', '~first-party', '~1p']);
+
+const RESOURCE_TYPE_MODIFIERS = new Set([
+  'script', 'image', 'stylesheet', 'css', 'object', 'object-subrequest', 'xmlhttprequest', 'xhr',
+  'subdocument', 'frame', 'ping', 'beacon', 'websocket', 'webrtc', 'media', 'font', 'other', 'popup',
+]);
+
+const DOMAIN_MODIFIERS = new Set(['domain', 'from']);
+
+const FIRST_PARTY_MODIFIERS = new Set(['first-party', '1p', '~third-party', '~3p']);
+
+/**
+ * Reasons a rule is not a host rule that still make a valid URL pattern
+ */
+const NETWORK_FILTER_REASONS = new Set<UnsupportedRuleReason>(['path', 'wildcard', 'regex', 'invalid-host']);
+
+/**
+ * Addresses hosts files use to block a name
+ */
+const BLOCKING_ADDRESSES = new Set([
+  '0.0.0.0', '127.0.0.1', '0', '::', '::0', '::1', '0:0:0:0:0:0:0:0', '0:0:0:0:0:0:0:1',
+]);
+
+/**
+ * Names every hosts file maps to itself; not blocklist entries
+ */
+const LOCAL_HOST_NAMES = new Set([
+  'localhost', 'localhost.localdomain', 'local', 'broadcasthost', 'ip6-localhost', 'ip6-loopback',
+  'ip6-localnet', 'ip6-mcastprefix', 'ip6-allnodes', 'ip6-allrouters', 'ip6-allhosts', '0.0.0.0',
+]);
+
+const COSMETIC_RULE_PATTERN = /#@?[?$%]?#|\$@?\$/;
+const ELEMENT_HIDING_MARKER = /^#@?#/;
+
+/**
+ * Procedural and action operators of extended CSS, which a stylesheet cannot express
+ */
+const EXTENDED_SELECTOR_PATTERN = /:(?:-abp-[a-z-]+|has-text|contains|matches-[a-z-]+|min-text-length|nth-ancestor|upward|xpath|remove|remove-attr|remove-class|style|watch-attr|others|if|if-not)\(|^\+js\(|^\^|[{}]/;
+const REGEX_RULE_PATTERN = /^\/.+\/(\$[^/]*)?$/;
+const IP_ADDRESS_PATTERN = /^(\d{1,3}\.){3}\d{1,3}$|:/;
+const HOST_PATTERN = /^(?:[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?\.)+[a-z0-9_-]*[a-z_-][a-z0-9_-]*$/;
+
+export function createRuleReport(): RuleReport {
+  return { totalRules: 0, appliedRules: 0, unsupportedRules: 0, unsupported: {}, approximated: {} };
+}
+
+function addReportEntry<R extends string>(
+  entries: Partial<Record<R, RuleReportEntry>>,
+  reason: R,
+  rule: string
+): void {
+  const entry = entries[reason] || (entries[reason] = { count: 0, samples: [] });
+  entry.count++;
+  if (entry.samples.length < MAX_REPORT_SAMPLES) {
+    entry.samples.push(rule);
+  }
+}
+
+/**
+ * Validate a host from a blocklist rule and bring it into lookup form
+ * (lowercase ASCII, Unicode labels as punycode). A leading "*." is
+ * accepted and reported back, since the entry then also covers the host itself.
+ */
+export function toBlockableHost(
+  raw: string
+): { host: string; wildcard: boolean } | { reason: UnsupportedRuleReason } {
+  let host = raw.trim().toLowerCase();
+  if (host.endsWith('.')) {
+    host = host.replace(/\.+$/, '');
+  }
+  let wildcard = false;
+
+  if (host.startsWith('*.')) {
+    host = host.substring(2);
+    wildcard = true;
+  }
+  if (host.includes('*')) return { reason: 'wildcard' };
+  if (IP_ADDRESS_PATTERN.test(host) || host.startsWith('[')) return { reason: 'ip-address' };
+
+  host = toASCIIDomain(host);
+  // At least two labels of up to 63 characters, and a top-level label that is not all digits
+  if (host.length > 253 || !HOST_PATTERN.test(host) || /[^.]{64}/.test(host)) {
+    return { reason: 'invalid-host' };
+  }
+
+  return { host, wildcard };
+}
+
+/**
+ * Accumulates the outcome of parsing one list
+ */
+interface ParseState {
+  blocks: Set<string>;
+  important: Set<string>;
+  exceptions: Set<string>;
+  patterns: Set<string>;
+  ipRanges: Set<string>;
+  /** Keys of rules disabled by $badfilter rules (see getFilterRuleKey) */
+  badfilters: Set<string>;
+  /** Element hiding rules, created on the first one */
+  cosmetic: {
+    generic: Set<string>;
+    genericExceptions: Set<string>;
+    specific: Map<string, Set<string>>;
+    exceptions: Map<string, Set<string>>;
+  } | null;
+  /** URL-pattern rules, created on the first one */
+  network: NetworkRules | null;
+  report: RuleReport;
+}
+
+function createParseState(): ParseState {
+  return {
+    blocks: new Set(),
+    important: new Set(),
+    exceptions: new Set(),
+    patterns: new Set(),
+    ipRanges: new Set(),
+    badfilters: new Set(),
+    cosmetic: null,
+    network: null,
+    report: createRuleReport(),
+  };
+}
+
+function markUnsupported(state: ParseState, reason: UnsupportedRuleReason, rule: string): void {
+  state.report.unsupportedRules++;
+  addReportEntry(state.report.unsupported, reason, rule);
+}
+
+function finishParseState(state: ParseState): ParsedBlocklist {
+  const important = Array.from(state.important);
+  important.forEach(domain => state.blocks.delete(domain));
+
+  const parsed: ParsedBlocklist = {
+    domains: Array.from(state.blocks),
+    exceptions: Array.from(state.exceptions),
+    report: state.report,
+  };
+  if (important.length > 0) {
+    parsed.important = important;
+  }
+  if (state.patterns.size > 0) {
+    parsed.patterns = Array.from(state.patterns);
+  }
+  if (state.ipRanges.size > 0) {
+    parsed.ipRanges = Array.from(state.ipRanges);
+  }
+
+  if (state.cosmetic) {
+    const { generic, genericExceptions, specific, exceptions } = state.cosmetic;
+    const toRecord = (table: Map<string, Set<string>>) => {
+      const record: { [hostname: string]: string[] } = {};
+      table.forEach((selectors, hostname) => {
+        record[hostname] = Array.from(selectors);
+      });
+      return record;
+    };
+
+    parsed.cosmetic = {
+      // A generic exception (#@#selector) cancels the selector everywhere
+      generic: Array.from(generic).filter(selector => !genericExceptions.has(selector)),
+      specific: toRecord(specific),
+      exceptions: toRecord(exceptions),
+    };
+  }
+  if (state.network) {
+    parsed.network = state.network;
+  }
+  return parsed;
+}
+
+function addToTable(table: Map<string, Set<string>>, hostname: string, selector: string): void {
+  let selectors = table.get(hostname);
+  if (!selectors) {
+    selectors = new Set();
+    table.set(hostname, selectors);
+  }
+  selectors.add(selector);
+}
+
+/**
+ * Parse an element hiding rule ("##sel", "a.com,~b.a.com##sel", "a.com#@#sel")
+ * into the parse state. Returns false if it cannot be expressed as a stylesheet.
+ */
+function applyElementHidingRule(line: string, state: ParseState): boolean {
+  const hash = line.indexOf('#');
+  const marker = line.substring(hash).match(ELEMENT_HIDING_MARKER);
+  if (hash === -1 || !marker) return false;
+
+  const isException = marker[0] === '#@#';
+  const selector = line.substring(hash + marker[0].length).trim();
+  if (!selector || EXTENDED_SELECTOR_PATTERN.test(selector)) return false;
+
+  const included: string[] = [];
+  const excluded: string[] = [];
+  const domainList = line.substring(0, hash).trim();
+
+  if (domainList) {
+    for (const rawDomain of domainList.split(',')) {
+      const negated = rawDomain.trim().startsWith('~');
+      const result = toBlockableHost(rawDomain.trim().replace(/^~/, ''));
+      // Entity rules (example.*) and invalid hosts cannot be indexed
+      if ('reason' in result) return false;
+      (negated ? excluded : included).push(result.host);
+    }
+  }
+
+  if (!state.cosmetic) {
+    state.cosmetic = { generic: new Set(), genericExceptions: new Set(), specific: new Map(), exceptions: new Map() };
+  }
+  const cosmetic = state.cosmetic;
+
+  if (isException) {
+    // "#@#sel" with negated domains only is just a generic exception
+    if (included.length === 0) {
+      cosmetic.genericExceptions.add(selector);
+    } else {
+      included.forEach(hostname => addToTable(cosmetic.exceptions, hostname, selector));
     }
+    return true;
+  }
 
-    // Skip element hiding rules
-    if (line.includes('##') || line.includes('#@#') || line.includes('#?#')) continue;
+  if (included.length === 0) {
+    cosmetic.generic.add(selector);
+  } else {
+    included.forEach(hostname => addToTable(cosmetic.specific, hostname, selector));
+  }
+  excluded.forEach(hostname => addToTable(cosmetic.exceptions, hostname, selector));
+  return true;
+}
 
-    // Skip regex rules
-    if (line.startsWith('/') && line.endsWith('/')) continue;
+/**
+ * Identify a filter rule independently of modifier order, so a $badfilter
+ * rule can be matched with the rule it disables
+ */
+function getFilterRuleKey(pattern: string, modifiers: string[], isException: boolean): string {
+  const options = modifiers.filter(m => m !== 'badfilter').sort().join(',');
+  return `${isException ? '@@' : ''}${pattern}$${options}`;
+}
 
-    // Look for domain blocking patterns: ||domain.com^
-    const domainBlockMatch = line.match(/^\|\|([a-zA-Z0-9][-a-zA-Z0-9._]*[a-zA-Z0-9])[\^/$]/);
-    if (domainBlockMatch) {
-      const domain = domainBlockMatch[1].toLowerCase();
-      // Skip if it looks like a partial domain or has wildcards
-      if (!domain.includes('*') && domain.includes('.')) {
-        blockingDomains.add(domain);
-      }
-      continue;
+/**
+ * Split a filter rule into pattern and lowercase modifiers
+ */
+function splitModifiers(body: string): { pattern: string; modifiers: string[] } {
+  // A regex may contain '$' itself, its modifiers follow the closing slash
+  const dollar = REGEX_RULE_PATTERN.test(body) ? body.lastIndexOf('/') + 1 : body.indexOf('$');
+  if (dollar === -1 || dollar === body.length) return { pattern: body, modifiers: [] };
+  return {
+    pattern: body.substring(0, dollar),
+    modifiers: body.substring(dollar + 1).toLowerCase().split(',').map(m => m.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * Extract the host of a host-anchored pattern: ||host^, ||host/, ||host,
+ * |https://host^ or a bare host. Anything with a path or wildcard inside is
+ * not a host rule.
+ */
+function parseHostPattern(
+  pattern: string
+): { host: string; wildcard: boolean } | { ipRange: string } | { reason: UnsupportedRuleReason } {
+  let rest: string;
+
+  if (pattern.startsWith('||')) {
+    rest = pattern.substring(2);
+  } else if (/^\|https?:\/\//i.test(pattern)) {
+    rest = pattern.replace(/^\|https?:\/\//i, '');
+  } else if (!pattern.startsWith('|') && /^[^/^|?=:]+$/.test(pattern)) {
+    rest = pattern;
+  } else {
+    return { reason: 'path' };
+  }
+
+  rest = rest.replace(/\|$/, '').replace(/[\^/]$/, '');
+  // ||1.2.3.4^ and ||[2001:db8::1]^ (a slash after the address is a path, not a CIDR length)
+  const range = rest.includes('/') ? null : toIpRange(rest);
+  if (range) return { ipRange: formatIpRange(range) };
+  if (!rest || /[/^|?=:&]/.test(rest)) return { reason: 'path' };
+
+  return toBlockableHost(rest);
+}
+
+/**
+ * Add a rule that is not a plain host rule (path, wildcard or regex pattern)
+ * to the network filters. Returns false if it cannot apply to sub-resources.
+ */
+function applyNetworkFilter(
+  line: string,
+  pattern: string,
+  modifiers: string[],
+  isException: boolean,
+  important: boolean,
+  state: ParseState
+): boolean {
+  // A pattern without a single literal character would match every request
+  if (!/[a-z0-9%]/i.test(pattern)) return false;
+  if (isRegexPattern(pattern)) {
+    try {
+      new RegExp(toRegExpSource(pattern));
+    } catch {
+      return false;
+    }
+  }
+
+  let thirdParty: boolean | undefined;
+  for (const modifier of modifiers) {
+    if (modifier === 'document' || modifier === 'doc') {
+      // Page-level rules, not sub-resource ones
+      return false;
+    }
+    if (THIRD_PARTY_MODIFIERS.has(modifier)) {
+      thirdParty = true;
+    } else if (FIRST_PARTY_MODIFIERS.has(modifier)) {
+      thirdParty = false;
+    }
+  }
+
+  const types = resolveResourceTypes(modifiers);
+  if (types && types.length === 0) return false;
+
+  const filter: NetworkFilter = { rule: line, pattern };
+  if (types) filter.types = types;
+  if (thirdParty !== undefined) filter.thirdParty = thirdParty;
+  if (important && !isException) filter.important = true;
+
+  if (!state.network) {
+    state.network = { blocks: [], exceptions: [] };
+  }
+  (isException ? state.network.exceptions : state.network.blocks).push(filter);
+  return true;
+}
+
+/**
+ * Parse one EasyList/Adblock Plus/AdGuard rule into the parse state
+ */
+function applyFilterRule(line: string, state: ParseState): void {
+  const report = state.report;
+  report.totalRules++;
+
+  if (COSMETIC_RULE_PATTERN.test(line)) {
+    if (applyElementHidingRule(line, state)) {
+      report.appliedRules++;
+    } else {
+      markUnsupported(state, 'cosmetic', line);
+    }
+    return;
+  }
+
+  const isException = line.startsWith('@@');
+  const body = isException ? line.substring(2).trim() : line;
+  const { pattern, modifiers } = splitModifiers(body);
+
+  if (modifiers.includes('badfilter')) {
+    // Takes effect by disabling the matching rule, see parseEasyListRules
+    report.appliedRules++;
+    return;
+  }
+  if (state.badfilters.has(getFilterRuleKey(pattern, modifiers, isException))) {
+    markUnsupported(state, 'badfilter', line);
+    return;
+  }
+
+  let approximation: ApproximatedRuleReason | null = null;
+  let important = false;
+
+  for (const modifier of modifiers) {
+    const name = modifier.split('=')[0];
+
+    if (HOST_MODIFIERS.has(name)) {
+      important = important || name === 'important';
+    } else if (THIRD_PARTY_MODIFIERS.has(name)) {
+      approximation = approximation || 'third-party';
+    } else if (RESOURCE_TYPE_MODIFIERS.has(name.replace(/^~/, ''))) {
+      approximation = approximation || 'resource-type';
+    } else if (isException) {
+      // e.g. $elemhide, $generichide, $domain=: not an unconditional exception
+      markUnsupported(state, 'conditional-exception', line);
+      return;
+    } else {
+      markUnsupported(state, DOMAIN_MODIFIERS.has(name) ? 'domain-modifier' : 'modifier', line);
+      return;
     }
+  }
+
+  const result = isRegexPattern(pattern) ? { reason: 'regex' as const } : parseHostPattern(pattern);
+  if ('reason' in result) {
+    // Not a host rule: keep it as a URL pattern for sub-resource requests
+    if (NETWORK_FILTER_REASONS.has(result.reason) && applyNetworkFilter(line, pattern, modifiers, isException, important, state)) {
+      report.appliedRules++;
+    } else {
+      markUnsupported(state, result.reason, line);
+    }
+    return;
+  }
+
+  if ('ipRange' in result) {
+    if (isException) {
+      markUnsupported(state, 'ip-address', line);
+      return;
+    }
+    if (approximation) {
+      addReportEntry(report.approximated, approximation, line);
+    }
+    report.appliedRules++;
+    state.ipRanges.add(result.ipRange);
+    return;
+  }
+
+  if (result.wildcard) {
+    approximation = approximation || 'subdomain-wildcard';
+  }
+  if (approximation) {
+    addReportEntry(report.approximated, approximation, line);
+  }
+  report.appliedRules++;
+
+  if (isException) {
+    state.exceptions.add(result.host);
+  } else if (important) {
+    state.important.add(result.host);
+  } else {
+    state.blocks.add(result.host);
+  }
+}
+
+/**
+ * Parse one hosts file line ("0.0.0.0 a.com b.com # comment") into the parse state
+ */
+function applyHostsLine(line: string, state: ParseState): void {
+  const tokens = line.split(/\s+/);
+  const address = tokens[0];
+  const names = tokens.slice(1).filter(name => !LOCAL_HOST_NAMES.has(name.toLowerCase()));
+  if (names.length === 0) return;
+
+  const report = state.report;
+
+  if (!BLOCKING_ADDRESSES.has(address)) {
+    report.totalRules++;
+    markUnsupported(state, IP_ADDRESS_PATTERN.test(address) ? 'hosts-redirect' : 'invalid-host', line);
+    return;
+  }
 
-    // Alternative pattern: ||domain.com (without suffix)
-    const simpleDomainMatch = line.match(/^\|\|([a-zA-Z0-9][-a-zA-Z0-9._]*\.[a-zA-Z]{2,})$/);
-    if (simpleDomainMatch) {
-      const domain = simpleDomainMatch[1].toLowerCase();
-      if (!domain.includes('*')) {
-        blockingDomains.add(domain);
-      }
+  for (const name of names) {
+    report.totalRules++;
+    const range = toIpRange(name);
+    if (range) {
+      report.appliedRules++;
+      state.ipRanges.add(formatIpRange(range));
+      continue;
+    }
+    const result = toBlockableHost(name);
+    if ('reason' in result) {
+      markUnsupported(state, result.reason, `${address} ${name}`);
       continue;
     }
+    if (result.wildcard) {
+      addReportEntry(report.approximated, 'subdomain-wildcard', `${address} ${name}`);
+    }
+    report.appliedRules++;
+    state.blocks.add(result.host);
+  }
+}
+
+/**
+ * Parse a bare host line ("example.com", "*.example.com", a wildcard or
+ * regex host rule, or an IP address or range) into the parse state
+ */
+function applyDomainLine(line: string, state: ParseState): void {
+  const report = state.report;
+  report.totalRules++;
+
+  const range = toIpRange(line);
+  if (range) {
+    report.appliedRules++;
+    state.ipRanges.add(formatIpRange(range));
+    return;
+  }
+
+  if (isHostGlobRule(line) || isHostRegexRule(line)) {
+    const pattern = toHostPattern(line);
+    if (!pattern) {
+      markUnsupported(state, isHostRegexRule(line) ? 'regex' : 'invalid-host', line);
+      return;
+    }
+    report.appliedRules++;
+    state.patterns.add(pattern);
+    return;
+  }
+
+  const result = toBlockableHost(line);
+  if ('reason' in result) {
+    markUnsupported(state, result.reason, line);
+    return;
+  }
+  if (result.wildcard) {
+    addReportEntry(report.approximated, 'subdomain-wildcard', line);
+  }
+  report.appliedRules++;
+  state.blocks.add(result.host);
+}
+
+/**
+ * Remove an inline comment from a hosts or domain list line
+ */
+function stripInlineComment(line: string): string {
+  const hash = line.indexOf('#');
+  return (hash === -1 ? line : line.substring(0, hash)).trim();
+}
+
+/**
+ * Collect the keys of rules disabled by $badfilter rules
+ */
+function collectBadfilters(lines: string[]): Set<string> {
+  const badfilters = new Set<string>();
 
-    // Handle patterns with options: ||domain.com$third-party,image,script,etc
-    const domainWithOptionsMatch = line.match(/^\|\|([a-zA-Z0-9][-a-zA-Z0-9._]*[a-zA-Z0-9])(?:\^)?(?:\$(?:[^,]+,)*[^,]+)?$/);
-    if (domainWithOptionsMatch) {
-      const domainPart = line.split('$')[0].replace(/^\|\||\^$/g, '').toLowerCase();
-      // Only add if it looks like a valid domain
-      if (domainPart && domainPart.includes('.') && !domainPart.includes('*')) {
-        blockingDomains.add(domainPart);
-      }
+  for (const rawLine of lines) {
+    if (!rawLine.includes('badfilter')) continue;
+
+    const line = rawLine.trim();
+    const isException = line.startsWith('@@');
+    const { pattern, modifiers } = splitModifiers(isException ? line.substring(2).trim() : line);
+    if (modifiers.includes('badfilter')) {
+      badfilters.add(getFilterRuleKey(pattern, modifiers, isException));
     }
   }
+  return badfilters;
+}
+
+/**
+ * Parse EasyList/Adblock Plus/AdGuard format into block and exception rules
+ *
+ * Applied as host rules:
+ * - ||domain.com^, ||domain.com/, ||domain.com, |https://domain.com^ and bare domains
+ * - Unicode (IDN) hosts, converted to punycode
+ * - ||*.domain.com^ (also covers domain.com itself)
+ * - ||1.2.3.4^ and ||[2001:db8::1]^, as IP rules (exceptions for addresses are not supported)
+ * - $important (not overridden by the list's own exceptions), $document, $all
+ * - $third-party and request type modifiers (applied to every request)
+ * - Exception rules (@@), returned separately
+ * - $badfilter, which disables the rule it names
+ * - Element hiding rules (##, #@#), returned as a selector table
+ *
+ * Applied to sub-resource requests only, as network filters (see network.ts):
+ * - Path, wildcard and /regex/ URL patterns, with $third-party, $important,
+ *   exceptions and request type modifiers honored exactly
+ *
+ * Everything else (scriptlets, extended CSS, $domain= and other modifiers,
+ * conditional exceptions) is counted in the rule report.
+ */
+export function parseEasyListRules(content: string): ParsedBlocklist {
+  const lines = content.split('\n');
+  const state = createParseState();
+  state.badfilters = collectBadfilters(lines);
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
 
-  // Remove exception domains from blocking domains
-  for (const exceptionDomain of exceptionDomains) {
-    blockingDomains.delete(exceptionDomain);
+    // Skip empty lines, comments and metadata
+    if (!line || line.startsWith('!') || line.startsWith('[') || line.startsWith('# ') || line === '#') continue;
+
+    applyFilterRule(line, state);
   }
 
-  return Array.from(blockingDomains);
+  return finishParseState(state);
+}
+
+/**
+ * Parse EasyList/Adblock Plus format
+ * Returns blocked domains, with exact-match exception domains removed
+ */
+export function parseEasyListFormat(content: string): string[] {
+  const { domains, exceptions, important } = parseEasyListRules(content);
+  const exceptionDomains = new Set(exceptions);
+  return [...domains.filter(domain => !exceptionDomains.has(domain)), ...(important || [])];
 }
 
 /**
@@ -130,66 +693,136 @@ export function parseEasyListFormat(content: string): string[] {
  * AdGuard uses the same base syntax as EasyList/Adblock Plus
  */
 export function parseAdGuardFormat(content: string): string[] {
-  // AdGuard format is largely compatible with EasyList
-  // The main additions are:
-  // - $important modifier
-  // - Extended CSS selectors
-  // - JavaScript rules
-  // These don't affect domain extraction, so we use the same parser
+  // AdGuard format is largely compatible with EasyList; its extra
+  // modifiers ($important, $badfilter, $denyallow, ...) are handled or
+  // reported by the same parser
   return parseEasyListFormat(content);
 }
 
 /**
- * Parse simple domain list format (one domain per line)
+ * Parse simple domain list format (one domain per line) with rule report
+ * Accepts "*.domain" wildcards, glob and anchored regex host rules
+ * ("zphimsex*.pro", "/^ads\d+\.example\.com$/"), IP addresses, CIDR
+ * ranges and IPv4 prefixes ("5.61.55.0/24", "5.61.55.") and inline comments.
+ * Lines in hosts or filter syntax, as found in some mixed lists, are
+ * parsed as such.
  */
-export function parseDomainsFormat(content: string): string[] {
-  const domains: Set<string> = new Set();
+export function parseDomainsRules(content: string): ParsedBlocklist {
   const lines = content.split('\n');
+  const state = createParseState();
 
   for (const rawLine of lines) {
-    const line = rawLine.trim();
+    const trimmed = rawLine.trim();
 
     // Skip empty lines and comments
-    if (!line || line.startsWith('#') || line.startsWith('!')) continue;
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('!')) continue;
 
-    // Skip lines that look like filter rules
-    if (line.startsWith('||') || line.includes('##') || line.startsWith('@@')) continue;
+    // Checked first, as it looks like a URL regex and may contain '#'
+    if (isHostRegexRule(trimmed)) {
+      applyDomainLine(trimmed, state);
+      continue;
+    }
+
+    if (/^(\|\||@@|\||\/)/.test(trimmed) || trimmed.includes('$') || COSMETIC_RULE_PATTERN.test(trimmed)) {
+      applyFilterRule(trimmed, state);
+      continue;
+    }
+
+    const line = stripInlineComment(trimmed);
+    if (!line) continue;
 
-    // Validate it looks like a domain
-    const domainPattern = /^[a-zA-Z0-9][-a-zA-Z0-9._]*\.[a-zA-Z]{2,}$/;
-    if (domainPattern.test(line)) {
-      domains.add(line.toLowerCase());
+    if (/\s/.test(line)) {
+      applyHostsLine(line, state);
+    } else {
+      applyDomainLine(line, state);
     }
   }
 
-  return Array.from(domains);
+  return finishParseState(state);
 }
 
 /**
- * Parse hosts file format (e.g., "0.0.0.0 domain.com" or "127.0.0.1 domain.com")
+ * Parse simple domain list format (one domain per line)
  */
-export function parseHostsFormat(content: string): string[] {
-  const domains: Set<string> = new Set();
+export function parseDomainsFormat(content: string): string[] {
+  return parseDomainsRules(content).domains;
+}
+
+/**
+ * Parse hosts file format with rule report
+ * ("0.0.0.0 domain.com", "::1 a.com b.com # comment", ...)
+ */
+export function parseHostsRules(content: string): ParsedBlocklist {
   const lines = content.split('\n');
+  const state = createParseState();
 
   for (const rawLine of lines) {
-    const line = rawLine.trim();
-
-    // Skip empty lines and comments
-    if (!line || line.startsWith('#')) continue;
+    // Skip empty lines and comments, full-line or inline
+    const line = stripInlineComment(rawLine);
+    if (!line) continue;
 
-    // Match hosts format: IP address followed by domain
-    const hostsMatch = line.match(/^(?:0\.0\.0\.0|127\.0\.0\.1)\s+([a-zA-Z0-9][-a-zA-Z0-9._]*[a-zA-Z0-9])$/);
-    if (hostsMatch) {
-      const domain = hostsMatch[1].toLowerCase();
-      // Skip localhost entries
-      if (domain !== 'localhost' && domain !== 'localhost.localdomain' && domain.includes('.')) {
-        domains.add(domain);
-      }
+    if (/\s/.test(line)) {
+      applyHostsLine(line, state);
+    } else {
+      // Some hosts-style lists mix in bare domains
+      applyDomainLine(line, state);
     }
   }
 
-  return Array.from(domains);
+  return finishParseState(state);
+}
+
+/**
+ * Parse hosts file format (e.g., "0.0.0.0 domain.com" or "127.0.0.1 domain.com")
+ */
+export function parseHostsFormat(content: string): string[] {
+  return parseHostsRules(content).domains;
+}
+
+/**
+ * Detect the format of blocklist content from its first lines
+ */
+export function detectBlocklistFormat(content: string): BlocklistEndpoint['format'] {
+  const firstLines = content.split('\n').slice(0, 20).join('\n');
+
+  // Check for EasyList/Adblock Plus header
+  if (firstLines.includes('[Adblock') || firstLines.includes('! Title:')) {
+    return 'easylist';
+  }
+
+  // Check for hosts file format
+  if (firstLines.match(/^(?:0\.0\.0\.0|127\.0\.0\.1|::1?)\s+/m)) {
+    return 'hosts';
+  }
+
+  // Check for domain block patterns
+  if (firstLines.includes('||') && firstLines.includes('^')) {
+    return 'easylist';
+  }
+
+  // Default to simple domain list
+  return 'domains';
+}
+
+/**
+ * Auto-detect and parse blocklist content, keeping exception rules
+ */
+export function parseBlocklist(
+  content: string,
+  formatHint?: BlocklistEndpoint['format']
+): ParsedBlocklist {
+  switch (formatHint || detectBlocklistFormat(content)) {
+    case 'easylist':
+      return parseEasyListRules(content);
+    case 'adguard':
+      // AdGuard shares the EasyList rule syntax for domain rules
+      return parseEasyListRules(content);
+    case 'hosts':
+      return parseHostsRules(content);
+    case 'domains':
+    default:
+      return parseDomainsRules(content);
+  }
 }
 
 /**
@@ -213,25 +846,13 @@ export function parseBlocklistContent(
     }
   }
 
-  // Auto-detect format based on content
-  const firstLines = content.split('\n').slice(0, 20).join('\n');
-
-  // Check for EasyList/Adblock Plus header
-  if (firstLines.includes('[Adblock') || firstLines.includes('! Title:')) {
-    return parseEasyListFormat(content);
-  }
-
-  // Check for hosts file format
-  if (firstLines.match(/^(?:0\.0\.0\.0|127\.0\.0\.1)\s+/m)) {
-    return parseHostsFormat(content);
+  switch (detectBlocklistFormat(content)) {
+    case 'easylist':
+    case 'adguard':
+      return parseEasyListFormat(content);
+    case 'hosts':
+      return parseHostsFormat(content);
+    default:
+      return parseDomainsFormat(content);
   }
-
-  // Check for domain block patterns
-  if (firstLines.includes('||') && firstLines.includes('^')) {
-    return parseEasyListFormat(content);
-  }
-
-  // Default to simple domain list
-  return parseDomainsFormat(content);
 }
-
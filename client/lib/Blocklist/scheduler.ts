@@ -0,0 +1,308 @@
+/**
+ * Blocklist Refresh Scheduler
+ *
+ * Decides when each external endpoint is due for a refresh, based on its own
+ * `updateIntervalHours`, and runs due refreshes one at a time with a short
+ * delay between them so startup does not fire every download at once.
+ *
+ * A failed refresh is retried with exponential backoff (capped at the
+ * endpoint's own interval). The previously downloaded copy stays active until
+ * a refresh succeeds; the failure is recorded here and reported in the stats.
+ *
+ * The actual download is provided by the manager through
+ * configureRefreshScheduler, which keeps this module free of manager imports.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { BlocklistEndpoint, DEFAULT_UPDATE_INTERVAL_HOURS } from './endpoints';
+
+export interface EndpointRefreshState {
+  /** When the last refresh attempt finished */
+  lastAttemptAt: number | null;
+  /** When the last successful refresh finished */
+  lastSuccessAt: number | null;
+  /** Error message of the last failed attempt, cleared on success */
+  lastError: string | null;
+  /** Number of failed attempts since the last success */
+  consecutiveFailures: number;
+  /** Earliest time of the next retry while failing (0 when not failing) */
+  retryAt: number;
+}
+
+export interface RefreshSchedulerHooks {
+  /** Endpoints that should be kept up to date */
+  getEndpoints: () => BlocklistEndpoint[];
+  /** When the copy currently in use was downloaded, if known */
+  getLastFetchedAt: (id: string) => number | null;
+  /** Download and apply a fresh copy; must throw on failure */
+  refreshEndpoint: (endpoint: BlocklistEndpoint) => Promise<void>;
+}
+
+const REFRESH_STATE_STORAGE_KEY = '@safebrowse_blocklist_refresh_state';
+
+/**
+ * Delay before the first retry; doubles after each further failure
+ */
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Upper bound for the retry delay (the endpoint interval may lower it)
+ */
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Pause between two refreshes in the same run
+ */
+const STAGGER_DELAY_MS = 3000;
+
+/**
+ * Shortest and longest wait before the scheduler checks again
+ */
+const MIN_TIMER_DELAY_MS = 5000;
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+let refreshStates: { [id: string]: EndpointRefreshState } = {};
+let refreshStatesLoaded: boolean = false;
+let hooks: RefreshSchedulerHooks | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+let currentRun: Promise<void> | null = null;
+
+/**
+ * Load the per-endpoint refresh state from storage
+ */
+export async function loadRefreshState(): Promise<void> {
+  if (refreshStatesLoaded) return;
+
+  try {
+    const stored = await AsyncStorage.getItem(REFRESH_STATE_STORAGE_KEY);
+    refreshStates = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('[Blocklist] Failed to load refresh state:', error);
+    refreshStates = {};
+  }
+  refreshStatesLoaded = true;
+}
+
+async function saveRefreshState(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(REFRESH_STATE_STORAGE_KEY, JSON.stringify(refreshStates));
+  } catch (error) {
+    console.warn('[Blocklist] Failed to save refresh state:', error);
+  }
+}
+
+/**
+ * Get the refresh state of an endpoint, or null if it was never refreshed
+ */
+export function getRefreshState(id: string): EndpointRefreshState | null {
+  return refreshStates[id] || null;
+}
+
+/**
+ * Forget the refresh state of an endpoint (e.g. after it was removed)
+ */
+export async function clearRefreshState(id: string): Promise<void> {
+  if (!(id in refreshStates)) return;
+  delete refreshStates[id];
+  await saveRefreshState();
+}
+
+/**
+ * Refresh interval of an endpoint in milliseconds
+ */
+function getIntervalMs(endpoint: BlocklistEndpoint): number {
+  return (endpoint.updateIntervalHours || DEFAULT_UPDATE_INTERVAL_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Delay before the next retry after a number of consecutive failures,
+ * with ±20% jitter so failing endpoints do not retry in lockstep
+ */
+export function getRetryDelayMs(consecutiveFailures: number, intervalMs: number): number {
+  const exponent = Math.max(0, consecutiveFailures - 1);
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, exponent), RETRY_MAX_DELAY_MS, intervalMs);
+  const jitter = delay * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(delay + jitter);
+}
+
+/**
+ * Get when an endpoint should next be refreshed (0 = as soon as possible)
+ */
+export function getNextRefreshAt(endpoint: BlocklistEndpoint): number {
+  const state = refreshStates[endpoint.id];
+  if (state && state.consecutiveFailures > 0) {
+    return state.retryAt;
+  }
+
+  const lastFetchedAt = hooks?.getLastFetchedAt(endpoint.id) ?? null;
+  const lastSuccessAt = Math.max(state?.lastSuccessAt || 0, lastFetchedAt || 0);
+  return lastSuccessAt ? lastSuccessAt + getIntervalMs(endpoint) : 0;
+}
+
+async function recordSuccess(id: string): Promise<void> {
+  const now = Date.now();
+  refreshStates[id] = {
+    lastAttemptAt: now,
+    lastSuccessAt: now,
+    lastError: null,
+    consecutiveFailures: 0,
+    retryAt: 0,
+  };
+  await saveRefreshState();
+}
+
+async function recordFailure(endpoint: BlocklistEndpoint, error: unknown): Promise<void> {
+  const now = Date.now();
+  const previous = refreshStates[endpoint.id];
+  const consecutiveFailures = (previous?.consecutiveFailures || 0) + 1;
+  const retryDelay = getRetryDelayMs(consecutiveFailures, getIntervalMs(endpoint));
+
+  refreshStates[endpoint.id] = {
+    lastAttemptAt: now,
+    lastSuccessAt: previous?.lastSuccessAt ?? null,
+    lastError: error instanceof Error ? error.message : String(error),
+    consecutiveFailures,
+    retryAt: now + retryDelay,
+  };
+  await saveRefreshState();
+
+  console.warn(`[Blocklist] Refresh of ${endpoint.name} failed ${consecutiveFailures} time(s), retrying in ${Math.round(retryDelay / 1000)}s`);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Refresh a single endpoint now and record the outcome
+ * Returns whether the refresh succeeded
+ */
+export async function refreshEndpointNow(endpoint: BlocklistEndpoint): Promise<boolean> {
+  if (!hooks) return false;
+
+  try {
+    await hooks.refreshEndpoint(endpoint);
+    await recordSuccess(endpoint.id);
+    return true;
+  } catch (error) {
+    await recordFailure(endpoint, error);
+    return false;
+  }
+}
+
+/**
+ * Provide the functions the scheduler uses to list and refresh endpoints
+ */
+export function configureRefreshScheduler(schedulerHooks: RefreshSchedulerHooks): void {
+  hooks = schedulerHooks;
+}
+
+/**
+ * Refresh every endpoint that is due, one at a time
+ * With force, every endpoint is refreshed regardless of its schedule.
+ * Resolves once all refreshes in this run have finished.
+ */
+export async function runDueRefreshes(options: { force?: boolean; stagger?: boolean } = {}): Promise<void> {
+  if (!hooks) return;
+
+  // Let a run that is already going finish first, so endpoints are never
+  // downloaded twice at the same time
+  while (currentRun) {
+    await currentRun;
+  }
+
+  const run = (async () => {
+    await loadRefreshState();
+
+    const now = Date.now();
+    const due = hooks!.getEndpoints().filter(endpoint =>
+      options.force || getNextRefreshAt(endpoint) <= now
+    );
+
+    for (let i = 0; i < due.length; i++) {
+      if (i > 0 && options.stagger !== false) {
+        await wait(STAGGER_DELAY_MS);
+      }
+
+      await refreshEndpointNow(due[i]);
+    }
+  })();
+
+  currentRun = run;
+  try {
+    await run;
+  } finally {
+    currentRun = null;
+    if (appStateSubscription) {
+      scheduleNextRun();
+    }
+  }
+}
+
+/**
+ * Set a timer for the next endpoint that becomes due
+ */
+function scheduleNextRun(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (!hooks) return;
+
+  const endpoints = hooks.getEndpoints();
+  if (endpoints.length === 0) return;
+
+  const nextAt = Math.min(...endpoints.map(getNextRefreshAt));
+  const delay = Math.min(Math.max(nextAt - Date.now(), MIN_TIMER_DELAY_MS), MAX_TIMER_DELAY_MS);
+
+  timer = setTimeout(() => {
+    timer = null;
+    runDueRefreshes().catch(error => console.warn('[Blocklist] Scheduled refresh failed:', error));
+  }, delay);
+}
+
+function handleAppStateChange(state: AppStateStatus): void {
+  if (state === 'active') {
+    // Timers do not fire while the app is suspended, so catch up on return
+    runDueRefreshes().catch(error => console.warn('[Blocklist] Refresh on resume failed:', error));
+  } else if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Start refreshing endpoints in the foreground as they become due
+ * Runs a first pass right away; safe to call more than once.
+ */
+export function startRefreshScheduler(): void {
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+  }
+  runDueRefreshes().catch(error => console.warn('[Blocklist] Initial refresh failed:', error));
+}
+
+/**
+ * Re-plan the next timer, e.g. after an endpoint's interval changed
+ */
+export function rescheduleRefreshes(): void {
+  if (appStateSubscription && !currentRun) {
+    scheduleNextRun();
+  }
+}
+
+/**
+ * Stop the foreground scheduler
+ */
+export function stopRefreshScheduler(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (appStateSubscription) {
+    appStateSubscription.remove();
+    appStateSubscription = null;
+  }
+}
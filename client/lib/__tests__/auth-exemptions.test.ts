@@ -0,0 +1,178 @@
+/**
+ * Sign-in exemption tests
+ *
+ * Regression tests for the blocklist's sign-in exemption: a blocked domain
+ * stays blocked whatever its path or query, and only verified identity
+ * providers and the callbacks of live OAuth flows are exempt. Run with
+ * `npm test`.
+ *
+ * The blocked-domain tests look URLs up with findBlockedUrlEntry(), which
+ * findBlockedDomainEntry() in content-filter.ts calls with the shared
+ * matcher, in a matcher built from the embedded blocklist asset.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { beforeEach, describe, it } from 'node:test';
+import {
+  clearOAuthFlows,
+  findBlockedUrlEntry,
+  isIdentityProviderUrl,
+  isLiveOAuthCallback,
+  noteOAuthNavigation,
+  OAUTH_FLOW_TTL_MS,
+} from '../auth-exemptions';
+import { decodeEmbeddedBlocklist, toEmbeddedSources } from '../Blocklist/embedded-sources';
+import { DomainMatcher } from '../Blocklist/matcher';
+import { isGoogleAuthUrl } from '../search_engine_restrictions';
+
+const EMBEDDED_BLOCKLIST_PATH = join(__dirname, '..', '..', '..', 'assets', 'blocklists', 'embedded.bin');
+
+const matcher = DomainMatcher.build(toEmbeddedSources(decodeEmbeddedBlocklist(readFileSync(EMBEDDED_BLOCKLIST_PATH))));
+
+/**
+ * Paths and queries that used to look like a sign-in to the old keyword check
+ */
+const SIGN_IN_LOOKING_PATHS = [
+  '/login',
+  '/signin',
+  '/auth',
+  '/accounts',
+  '/oauth/authorize?client_id=x&state=y&continue=z',
+  '/signin?redirect_uri=https%3A%2F%2Fexample.com%2Fcallback',
+  '/callback?state=abc&code=123',
+  '/o/oauth2/v2/auth?client_id=x',
+  '/video?v=1#access_token=abc&state=y',
+  '/ServiceLogin?continue=https://accounts.google.com/',
+];
+
+describe('Blocked domains on sign-in paths', () => {
+  for (const host of ['pornhub.com', 'www.pornhub.com', 'm.tiktok.com', 'tinder.com']) {
+    for (const path of SIGN_IN_LOOKING_PATHS) {
+      it(`${host}${path} stays blocked`, () => {
+        assert.notEqual(findBlockedUrlEntry(matcher, `https://${host}${path}`), null);
+      });
+    }
+  }
+
+  it('stays blocked during a live OAuth flow that calls back to it', () => {
+    clearOAuthFlows();
+    noteOAuthNavigation(
+      'https://accounts.google.com/o/oauth2/v2/auth?client_id=x&state=s1&redirect_uri=https%3A%2F%2Fpornhub.com%2Fcallback'
+    );
+    const callback = 'https://pornhub.com/callback?state=s1&code=abc';
+    assert.equal(isLiveOAuthCallback(callback), true);
+    assert.notEqual(findBlockedUrlEntry(matcher, callback), null);
+    clearOAuthFlows();
+  });
+
+  it('looks up the canonical host and its look-alike skeleton', () => {
+    assert.notEqual(findBlockedUrlEntry(matcher, 'https://WWW.PORNHUB.COM./login'), null);
+    assert.notEqual(findBlockedUrlEntry(matcher, 'https://accounts.google.com@pornhub.com/signin'), null);
+    assert.notEqual(findBlockedUrlEntry(matcher, 'https://www.pоrnhub.com/login'), null);
+  });
+
+  it('never blocks a verified identity provider', () => {
+    const blocking = DomainMatcher.build([{ id: 'test', domains: ['google.com', 'apple.com'] }]);
+    assert.equal(findBlockedUrlEntry(blocking, 'https://accounts.google.com/signin'), null);
+    assert.equal(findBlockedUrlEntry(blocking, 'https://appleid.apple.com/auth/authorize'), null);
+    assert.notEqual(findBlockedUrlEntry(blocking, 'https://www.google.com/search?q=x'), null);
+  });
+});
+
+describe('isIdentityProviderUrl', () => {
+  it('accepts Google sign-in hosts and paths', () => {
+    for (const url of [
+      'https://accounts.google.com/signin/v2/identifier',
+      'https://accounts.google.co.uk/ServiceLogin',
+      'https://myaccount.google.com/',
+      'https://oauth2.googleapis.com/token',
+      'https://www.google.com/o/oauth2/auth?client_id=x',
+      'https://www.youtube.com/signin?action_handle_signin=true',
+    ]) {
+      assert.equal(isIdentityProviderUrl(url), true, url);
+    }
+  });
+
+  it('accepts other identity providers', () => {
+    assert.equal(isIdentityProviderUrl('https://appleid.apple.com/auth/authorize'), true);
+    assert.equal(isIdentityProviderUrl('https://login.microsoftonline.com/common/oauth2/v2.0/authorize'), true);
+    assert.equal(isIdentityProviderUrl('https://LOGIN.LIVE.COM/oauth20_authorize.srf'), true);
+  });
+
+  it('rejects look-alike hosts and non-HTTPS URLs', () => {
+    for (const url of [
+      'https://accounts.google.evil.com/signin',
+      'https://accounts.google.com.evil.net/',
+      'https://evil.com/accounts.google.com/signin',
+      'https://evil.com/?continue=https://accounts.google.com/',
+      'https://notgoogle.com/signin',
+      'https://google.evil.com/o/oauth2/auth',
+      'https://appleid.apple.com.evil.net/auth',
+      'https://evil.com/login.microsoftonline.com',
+      'http://accounts.google.com/signin',
+    ]) {
+      assert.equal(isIdentityProviderUrl(url), false, url);
+    }
+  });
+
+  it('rejects Google pages that are not sign-in pages', () => {
+    assert.equal(isGoogleAuthUrl('https://www.google.com/search?q=login&state=x&continue=y'), false);
+    assert.equal(isGoogleAuthUrl('https://www.google.com/authors'), false);
+    assert.equal(isGoogleAuthUrl('https://www.youtube.com/watch?v=abc&client_id=x'), false);
+  });
+});
+
+describe('isLiveOAuthCallback', () => {
+  const START =
+    'https://accounts.google.com/o/oauth2/v2/auth?client_id=app&state=s1&redirect_uri=https%3A%2F%2Fapp.example.com%2Fauth%2Fcallback';
+  const NOW = 1_000_000;
+
+  beforeEach(() => clearOAuthFlows());
+
+  it('recognizes nothing before a flow starts', () => {
+    assert.equal(isLiveOAuthCallback('https://app.example.com/auth/callback?state=s1&code=abc', NOW), false);
+  });
+
+  it('recognizes the callback of a flow with its state', () => {
+    noteOAuthNavigation(START, NOW);
+    assert.equal(isLiveOAuthCallback('https://app.example.com/auth/callback?state=s1&code=abc', NOW + 1000), true);
+    assert.equal(isLiveOAuthCallback('https://app.example.com/auth/callback#state=s1&access_token=t', NOW + 1000), true);
+    assert.equal(isLiveOAuthCallback('https://app.example.com/auth/callback?state=s1&error=access_denied', NOW + 1000), true);
+  });
+
+  it('rejects another state, path or origin', () => {
+    noteOAuthNavigation(START, NOW);
+    assert.equal(isLiveOAuthCallback('https://app.example.com/auth/callback?state=s2&code=abc', NOW), false);
+    assert.equal(isLiveOAuthCallback('https://app.example.com/other?state=s1&code=abc', NOW), false);
+    assert.equal(isLiveOAuthCallback('https://evil.example.com/auth/callback?state=s1&code=abc', NOW), false);
+    assert.equal(isLiveOAuthCallback('http://app.example.com/auth/callback?state=s1&code=abc', NOW), false);
+    assert.equal(isLiveOAuthCallback('https://app.example.com/auth/callback', NOW), false);
+  });
+
+  it('forgets a flow after OAUTH_FLOW_TTL_MS', () => {
+    noteOAuthNavigation(START, NOW);
+    const callback = 'https://app.example.com/auth/callback?state=s1&code=abc';
+    assert.equal(isLiveOAuthCallback(callback, NOW + OAUTH_FLOW_TTL_MS - 1), true);
+    assert.equal(isLiveOAuthCallback(callback, NOW + OAUTH_FLOW_TTL_MS), false);
+  });
+
+  it('recognizes a form_post callback without parameters', () => {
+    noteOAuthNavigation(
+      'https://appleid.apple.com/auth/authorize?client_id=app&response_mode=form_post&redirect_uri=https%3A%2F%2Fapp.example.com%2Fapple',
+      NOW
+    );
+    assert.equal(isLiveOAuthCallback('https://app.example.com/apple', NOW), true);
+  });
+
+  it('ignores authorization requests outside identity providers', () => {
+    noteOAuthNavigation(
+      'https://evil.com/oauth/authorize?client_id=app&state=s1&redirect_uri=https%3A%2F%2Fblocked.example.com%2Fcb',
+      NOW
+    );
+    noteOAuthNavigation('https://accounts.google.com/signin?state=s1&redirect_uri=https%3A%2F%2Fapp.example.com%2Fcb', NOW);
+    assert.equal(isLiveOAuthCallback('https://blocked.example.com/cb?state=s1&code=abc', NOW), false);
+    assert.equal(isLiveOAuthCallback('https://app.example.com/cb?state=s1&code=abc', NOW), false);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Canonical URL tests
+ *
+ * The canonical form every filter reads a URL through (canonical-url.ts,
+ * public-suffix.ts), and the look-alike and spelling tricks it closes in
+ * the filters that run under Node. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { canonicalizeUrl, getGoogleDomain, hasUrlProtocol, isHostOnDomain, percentDecode } from '../canonical-url';
+import { isBlockedRedditPath, isRedditUrl, isSubredditPage } from '../filters/reddit_filters';
+import { matchesUrlPolicyRule, UrlPolicyRule } from '../filters/url_policy';
+import { isBlockedYouTubeShortsUrl, isYouTubeUrl } from '../filters/youtube_filter';
+import { isMediaWhitelisted } from '../media-whitelist';
+import { getPublicSuffix, getRegistrableDomain } from '../public-suffix';
+import { isBlockedGoogleSection, isGoogleAuthUrl, isGoogleSearchDomain } from '../search_engine_restrictions';
+
+describe('canonicalizeUrl', () => {
+  it('lowercases the host and drops trailing dots', () => {
+    const url = canonicalizeUrl('HTTPS://WWW.Example.COM./Path')!;
+    assert.equal(url.host, 'www.example.com');
+    assert.equal(url.domain, 'example.com');
+    assert.equal(url.href, 'https://www.example.com/Path');
+    assert.equal(url.path, '/Path');
+  });
+
+  it('drops user names and passwords', () => {
+    const url = canonicalizeUrl('https://facebook.com:pw@evil.example/x')!;
+    assert.equal(url.host, 'evil.example');
+    assert.equal(url.href, 'https://evil.example/x');
+    assert.equal(url.hasCredentials, true);
+  });
+
+  it('encodes IDN hosts and folds look-alike letters in the skeleton', () => {
+    const url = canonicalizeUrl('https://pоrnhub.com/')!;
+    assert.equal(url.host, 'xn--prnhub-wqf.com');
+    assert.equal(url.skeleton, 'pornhub.com');
+    assert.equal(canonicalizeUrl('https://bücher.example/')!.skeleton, 'bucher.example');
+    assert.equal(canonicalizeUrl('https://example.com/')!.skeleton, 'example.com');
+  });
+
+  it('puts IP hosts in canonical form', () => {
+    assert.equal(canonicalizeUrl('http://0x7f.1/')!.host, '127.0.0.1');
+    assert.equal(canonicalizeUrl('https://[::ffff:1.2.3.4]/')!.host, '1.2.3.4');
+    assert.equal(canonicalizeUrl('https://[2001:DB8::1]/')!.host, '2001:db8::1');
+    assert.equal(canonicalizeUrl('http://2130706433/')!.ip, true);
+  });
+
+  it('decodes the path, query and fragment', () => {
+    const url = canonicalizeUrl('https://example.com//a%2Fb//c?q=%2570orn+video&x=%D9%85#%41')!;
+    assert.equal(url.path, '/a/b/c');
+    assert.equal(url.params.get('q'), 'porn video');
+    assert.equal(url.params.get('x'), 'م');
+    assert.equal(url.fragment, 'A');
+    assert.equal(url.text, 'example.com/a/b/c?q=porn video&x=م#a');
+  });
+
+  it('assumes https when the protocol is missing, and only reads web URLs', () => {
+    assert.equal(canonicalizeUrl('example.com/x')!.href, 'https://example.com/x');
+    assert.equal(canonicalizeUrl('example.com:8080/x')!.port, '8080');
+    assert.equal(canonicalizeUrl('fb://profile/1'), null);
+    assert.equal(canonicalizeUrl('javascript:alert(1)'), null);
+    assert.equal(canonicalizeUrl('about:blank'), null);
+  });
+});
+
+describe('percentDecode', () => {
+  it('decodes repeatedly and keeps malformed sequences', () => {
+    assert.equal(percentDecode('%252570'), 'p');
+    assert.equal(percentDecode('%F0%9F%98%80%ff'), '😀%ff');
+    assert.equal(percentDecode('100%'), '100%');
+  });
+});
+
+describe('hasUrlProtocol', () => {
+  it('tells a protocol from a host and port', () => {
+    assert.equal(hasUrlProtocol('https://example.com'), true);
+    assert.equal(hasUrlProtocol('intent://scan'), true);
+    assert.equal(hasUrlProtocol('example.com:443'), false);
+    assert.equal(hasUrlProtocol('localhost:8080/x'), false);
+  });
+});
+
+describe('Public suffixes', () => {
+  it('finds the registrable domain under multi-label suffixes', () => {
+    assert.equal(getRegistrableDomain('news.bbc.co.uk'), 'bbc.co.uk');
+    assert.equal(getRegistrableDomain('www.google.com.sa'), 'google.com.sa');
+    assert.equal(getRegistrableDomain('a.b.example.com'), 'example.com');
+    assert.equal(getRegistrableDomain('user.github.io'), 'user.github.io');
+    assert.equal(getRegistrableDomain('co.uk'), null);
+    assert.equal(getPublicSuffix('example.unknowntld'), 'unknowntld');
+  });
+
+  it('applies wildcards and their exceptions', () => {
+    assert.equal(getPublicSuffix('a.b.bd'), 'b.bd');
+    assert.equal(getRegistrableDomain('www.ck'), 'www.ck');
+    assert.equal(getPublicSuffix('www.ck'), 'ck');
+  });
+
+  it('names the site, except under hosting platforms', () => {
+    assert.equal(canonicalizeUrl('https://www.google.com.sa/')!.site, 'google');
+    assert.equal(canonicalizeUrl('https://google.evil.com/')!.site, 'evil');
+    assert.equal(canonicalizeUrl('https://google.github.io/')!.site, 'google.github.io');
+  });
+});
+
+describe('Filters on canonical URLs', () => {
+  it('matches hosts by domain, not by text', () => {
+    assert.equal(isHostOnDomain('m.facebook.com', 'facebook.com'), true);
+    assert.equal(isHostOnDomain('notfacebook.com', 'facebook.com'), false);
+
+    const rule: UrlPolicyRule = { id: 'facebook', match: { hosts: ['facebook.com'] }, action: 'block' };
+    assert.equal(matchesUrlPolicyRule(rule, 'https://WWW.FACEBOOK.COM./'), true);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://notfacebook.com/'), false);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://facebook.com@evil.example/'), false);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://evil.example/?u=facebook.com'), false);
+  });
+
+  it('finds keywords in decoded URLs and look-alike hosts', () => {
+    const rule: UrlPolicyRule = {
+      id: 'keyword',
+      match: [{ hostContains: ['porn'] }, { pathContains: ['porn'] }, { urlContains: ['porn'] }],
+      action: 'block',
+    };
+    assert.equal(matchesUrlPolicyRule(rule, 'https://pоrnhub.example/'), true);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://example.com/%70%6Frn'), true);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://example.com/?q=%2570orn'), true);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://example.com/'), false);
+  });
+
+  it('knows Google by its registrable domain', () => {
+    assert.equal(isGoogleSearchDomain('https://www.google.com.sa/'), true);
+    assert.equal(isGoogleSearchDomain('https://GOOGLE.CO.UK./search?q=x'), true);
+    assert.equal(isGoogleSearchDomain('https://google.evil.com/'), false);
+    assert.equal(isGoogleSearchDomain('https://notgoogle.com/'), false);
+    assert.equal(isGoogleAuthUrl('https://accounts.google.com.sa/signin'), true);
+    assert.equal(isGoogleAuthUrl('https://accounts.google.github.io/signin'), false);
+    assert.equal(isBlockedGoogleSection('https://www.google.com/search?q=x&tbm=vid'), true);
+    assert.equal(isBlockedGoogleSection('https://www.google.com/%73horts'), true);
+    assert.equal(isBlockedGoogleSection('https://notgoogle.com/search?tbm=vid'), false);
+  });
+
+  it('knows Google on country domains the public suffixes do not list', () => {
+    assert.equal(getGoogleDomain('www.google.com.ve'), 'google.com.ve');
+    assert.equal(getGoogleDomain('google.co.zw'), 'google.co.zw');
+    assert.equal(getGoogleDomain('images.google.de'), 'google.de');
+    assert.equal(getGoogleDomain('google.evil.com'), null);
+    assert.equal(getGoogleDomain('google.com.evil.de'), null);
+    assert.equal(getGoogleDomain('notgoogle.com'), null);
+    assert.equal(isGoogleSearchDomain('https://www.google.com.ve/'), true);
+    assert.equal(isGoogleSearchDomain('https://google.co.zw/search?q=x'), true);
+    assert.equal(isGoogleSearchDomain('https://maps.google.com.ve/'), false);
+    assert.equal(isGoogleAuthUrl('https://accounts.google.co.zw/signin'), true);
+    assert.equal(isBlockedGoogleSection('https://www.google.com.ve/search?q=x&tbm=shs'), true);
+    assert.equal(isBlockedGoogleSection('https://google.co.zw/videohp'), true);
+  });
+
+  it('knows Reddit and YouTube by domain', () => {
+    assert.equal(isRedditUrl('https://old.reddit.com/r/pics'), true);
+    assert.equal(isRedditUrl('https://notreddit.com/r/pics'), false);
+    assert.equal(isSubredditPage('https://WWW.REDDIT.COM/r/pics'), true);
+    assert.equal(isBlockedRedditPath('https://www.reddit.com/%73ettings'), true);
+    assert.equal(isBlockedRedditPath('https://notreddit.com/settings'), false);
+    assert.equal(isYouTubeUrl('https://m.youtube.com/'), true);
+    assert.equal(isYouTubeUrl('https://notyoutube.com/'), false);
+    assert.equal(isBlockedYouTubeShortsUrl('https://www.youtube.com//shorts/abc'), true);
+    assert.equal(isBlockedYouTubeShortsUrl('https://evil.example/youtube.com/shorts/abc'), false);
+  });
+
+  it('whitelists media by domain and path prefix only', () => {
+    assert.equal(isMediaWhitelisted('https://en.wikipedia.org/wiki/Cat'), true);
+    assert.equal(isMediaWhitelisted('https://www.youtube.com/@channel'), true);
+    assert.equal(isMediaWhitelisted('https://evil.example/youtube.com/@channel'), false);
+    assert.equal(isMediaWhitelisted('https://wikipedia.org@evil.example/'), false);
+  });
+});
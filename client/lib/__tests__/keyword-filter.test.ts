@@ -0,0 +1,172 @@
+/**
+ * Keyword filter tests
+ *
+ * Blocked keywords in URLs (filters/keyword_filter.ts): folding of Unicode
+ * and Arabic text, leetspeak and letters written apart, whole words,
+ * scopes and the search box parameters of each search engine. Run with
+ * `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  FALLBACK_WORD_CHARACTERS,
+  FOLD_KEYWORD_TEXT_JS,
+  foldKeywordText,
+  getKeywordRegexSource,
+  KeywordMatcher,
+  parseKeywordSearchParams,
+  parseKeywordTerms,
+} from '../filters/keyword_filter';
+
+const matcher = new KeywordMatcher([
+  { term: 'apk', wholeWord: true },
+  { term: 'porn' },
+  { term: 'سكس', wholeWord: true },
+  { term: 'wolf qanawat', wholeWord: true },
+  { term: 'casino', scopes: ['host'] },
+]);
+
+const found = (url: string, scopes?: ('query' | 'path' | 'host')[]) => matcher.match(url, scopes)?.term ?? null;
+
+describe('foldKeywordText', () => {
+  it('folds compatibility forms, accents and invisible characters', () => {
+    assert.equal(foldKeywordText('ＰＯＲＮ'), 'porn');
+    assert.equal(foldKeywordText('Pórn'), 'porn');
+    assert.equal(foldKeywordText('po\u200brn'), 'porn');
+  });
+
+  it('folds Arabic diacritics, tatweel and letter forms', () => {
+    assert.equal(foldKeywordText('سَكْس'), 'سكس');
+    assert.equal(foldKeywordText('ســـكس'), 'سكس');
+    assert.equal(foldKeywordText('أإآٱ'), 'اااا');
+    assert.equal(foldKeywordText('مدرسة على'), 'مدرسه علي');
+    assert.equal(foldKeywordText('٢٠٢٤ ۱۲'), '2024 12');
+  });
+});
+
+describe('KeywordMatcher', () => {
+  it('matches whole-word terms as words only', () => {
+    assert.equal(found('https://example.com/whatsapp.apk'), 'apk');
+    assert.equal(found('https://example.com/search?q=whatsapp+apk+download'), 'apk');
+    assert.equal(found('https://example.com/hapkido'), null);
+    assert.equal(found('https://example.com/?q=napkins'), null);
+  });
+
+  it('matches other terms inside words', () => {
+    assert.equal(found('https://pornhub.example/'), 'porn');
+    assert.equal(found('https://example.com/videos/freeporn'), 'porn');
+  });
+
+  it('reads leetspeak and letters written apart', () => {
+    assert.equal(found('https://example.com/?q=p0rn'), 'porn');
+    assert.equal(found('https://example.com/?q=a+p+k'), 'apk');
+    assert.equal(found('https://example.com/p.o.r.n/'), 'porn');
+    assert.equal(found('https://example.com/?q=a%201%202024'), null);
+  });
+
+  it('matches Arabic terms with diacritics, tatweel and the article', () => {
+    assert.equal(found(`https://example.com/?q=${encodeURIComponent('سَكْس')}`), 'سكس');
+    assert.equal(found(`https://example.com/?q=${encodeURIComponent('ســكس')}`), 'سكس');
+    assert.equal(found(`https://example.com/?q=${encodeURIComponent('افلام السكس')}`), 'سكس');
+    assert.equal(found(`https://example.com/?q=${encodeURIComponent('مكسرات')}`), null);
+  });
+
+  it('matches phrases', () => {
+    assert.equal(found('https://example.com/?q=Wolf+Qanawat'), 'wolf qanawat');
+    assert.equal(found('https://example.com/wolf-qanawat'), 'wolf qanawat');
+    assert.equal(found('https://example.com/?q=wolf+and+qanawat'), null);
+  });
+
+  it('looks for each term in its scopes only', () => {
+    assert.equal(found('https://casino.example/'), 'casino');
+    assert.equal(found('https://example.com/casino'), null);
+    assert.equal(found('https://example.com/?q=casino'), null);
+    assert.equal(found('https://example.com/porn', ['query']), null);
+    assert.equal(found('https://example.com/?q=porn', ['host', 'path']), null);
+  });
+
+  it('reads the search box parameters of each search engine', () => {
+    assert.equal(found('https://search.yahoo.com/search?p=porn'), 'porn');
+    assert.equal(found('https://www.baidu.com/s?wd=porn'), 'porn');
+    assert.equal(found('https://yandex.ru/search/?text=porn'), 'porn');
+    assert.equal(found('https://www.amazon.co.uk/s?k=porn'), 'porn');
+    assert.equal(found('https://www.aliexpress.com/w/wholesale.html?SearchText=porn'), 'porn');
+    assert.equal(found('https://example.com/?p=porn', ['query']), null);
+    assert.equal(found('https://example.com/?ref=porn', ['query']), null);
+  });
+
+  it('takes search box parameters per site or domain', () => {
+    const custom = new KeywordMatcher([{ term: 'porn' }], { '*': ['q'], 'example': ['s'], 'search.other.net': ['find'] });
+    assert.notEqual(custom.match('https://www.example.org/?s=porn', ['query']), null);
+    assert.notEqual(custom.match('https://search.other.net/?find=porn', ['query']), null);
+    assert.equal(custom.match('https://other.net/?find=porn', ['query']), null);
+  });
+
+  it('matches look-alike and IDN hosts', () => {
+    assert.equal(found('https://pоrn.example/'), 'porn');
+    assert.equal(found('https://سكس.example/'), 'سكس');
+  });
+});
+
+describe('getKeywordRegexSource', () => {
+  it('finds the terms in folded page text', () => {
+    const pattern = new RegExp(getKeywordRegexSource([{ term: 'apk', wholeWord: true }, { term: 'wolf qanawat' }]), 'u');
+    assert.equal(pattern.test(foldKeywordText('Download the APK now')), true);
+    assert.equal(pattern.test(foldKeywordText('Hapkido classes')), false);
+    assert.equal(pattern.test(foldKeywordText('Wolf  Qanawat')), true);
+    assert.equal(new RegExp(getKeywordRegexSource([]), 'u').test('anything'), false);
+  });
+
+  it('needs no lookbehind, which older WebViews reject', () => {
+    const source = getKeywordRegexSource([{ term: 'apk', wholeWord: true }]);
+    assert.equal(source.includes('(?<'), false);
+    const pattern = new RegExp(source, 'u');
+    assert.equal(pattern.test('apk'), true);
+    assert.equal(pattern.test('whatsapp.apk'), true);
+    assert.equal(pattern.test('apks'), false);
+  });
+
+  it('spells letters out by script for engines without property escapes', () => {
+    const pattern = new RegExp(getKeywordRegexSource([{ term: 'apk', wholeWord: true }, { term: 'سكس', wholeWord: true }], FALLBACK_WORD_CHARACTERS));
+    assert.equal(pattern.test(foldKeywordText('Download the APK now')), true);
+    assert.equal(pattern.test(foldKeywordText('Hapkido classes')), false);
+    assert.equal(pattern.test(foldKeywordText('افلام سكس')), true);
+    assert.equal(pattern.test(foldKeywordText('مكسرات')), false);
+  });
+});
+
+describe('FOLD_KEYWORD_TEXT_JS', () => {
+  it('folds text the way foldKeywordText does', () => {
+    const fold = new Function(`${FOLD_KEYWORD_TEXT_JS}\nreturn foldKeywordText;`)() as (text: string) => string;
+    for (const text of ['Pórn', 'ＰＯＲＮ', 'سَكْس', 'ســـكس', 'مدرسة ٢٠٢٤']) {
+      assert.equal(fold(text), foldKeywordText(text), text);
+    }
+  });
+});
+
+describe('parseKeywordTerms', () => {
+  it('reads strings, objects and comma-separated words', () => {
+    assert.deepEqual(parseKeywordTerms('["apk", {"term": "casino", "scopes": ["host"]}]').terms, [
+      { term: 'apk' },
+      { term: 'casino', scopes: ['host'] },
+    ]);
+    assert.deepEqual(parseKeywordTerms('apk, casino').terms, [{ term: 'apk' }, { term: 'casino' }]);
+  });
+
+  it('reports invalid terms', () => {
+    const { terms, errors } = parseKeywordTerms('["", {"term": "x", "scopes": ["body"]}, {"term": "y", "wholeWord": "yes"}, 3, "ok"]');
+    assert.deepEqual(terms, [{ term: 'ok' }]);
+    assert.equal(errors.length, 4);
+  });
+});
+
+describe('parseKeywordSearchParams', () => {
+  it('reads site names to parameter lists', () => {
+    assert.deepEqual(parseKeywordSearchParams('{"example": ["s"], "bad": "s"}'), {
+      searchParams: { example: ['s'] },
+      errors: ['bad: expected a list of parameter names'],
+    });
+    assert.equal(parseKeywordSearchParams('[]').errors.length, 1);
+  });
+});
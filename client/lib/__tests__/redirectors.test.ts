@@ -0,0 +1,153 @@
+/**
+ * Redirector and short link tests
+ *
+ * Reading the target out of redirector links (filters/redirectors.ts),
+ * which processUrl() filters instead of the redirector, and the HEAD
+ * resolver for short links, against a stubbed fetch. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  getRedirectTarget,
+  isShortLinkUrl,
+  ShortLinkResolver,
+  unwrapRedirects,
+} from '../filters/redirectors';
+
+describe('getRedirectTarget', () => {
+  it('reads the target of known redirectors', () => {
+    for (const [url, target] of [
+      ['https://www.google.com/url?sa=t&url=https%3A%2F%2Fexample.com%2Fa%3Fb%3D1', 'https://example.com/a?b=1'],
+      ['https://www.google.com.sa/url?q=https://example.com/&sa=U', 'https://example.com/'],
+      ['https://www.google.com.ve/url?q=https://example.com/', 'https://example.com/'],
+      ['https://google.co.zw/aclk?adurl=https://example.com/', 'https://example.com/'],
+      ['https://l.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2F&h=AT0', 'https://example.com/'],
+      ['https://lm.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2F', 'https://example.com/'],
+      ['https://www.youtube.com/redirect?event=video&q=https%3A%2F%2Fexample.com%2F', 'https://example.com/'],
+      ['https://duckduckgo.com/l/?uddg=https%3A%2F%2Fexample.com%2F', 'https://example.com/'],
+      ['https://nam12.safelinks.protection.outlook.com/?url=https%3A%2F%2Fexample.com%2F&data=x', 'https://example.com/'],
+    ]) {
+      assert.equal(getRedirectTarget(url), target, url);
+    }
+  });
+
+  it('keeps the target\'s own query encoded', () => {
+    assert.equal(
+      getRedirectTarget('https://www.google.com/url?q=https%3A%2F%2Fexample.com%2F%3Fnext%3D%252Fx'),
+      'https://example.com/?next=%2Fx'
+    );
+  });
+
+  it('ignores look-alike hosts, other paths and non-web targets', () => {
+    for (const url of [
+      'https://google.evil.com/url?q=https://example.com/',
+      'https://notfacebook.com/l.php?u=https://example.com/',
+      'https://www.google.com/search?q=https://example.com/',
+      'https://www.google.com/url?q=javascript:alert(1)',
+      'https://www.google.com/url?q=just+words',
+      'https://l.facebook.com/l.php',
+    ]) {
+      assert.equal(getRedirectTarget(url), null, url);
+    }
+  });
+
+  it('resolves targets on the redirector\'s own site', () => {
+    assert.equal(getRedirectTarget('https://www.google.com/url?q=/search%3Fq%3Dx'), 'https://www.google.com/search?q=x');
+  });
+});
+
+describe('unwrapRedirects', () => {
+  it('follows nested redirectors and lists them outermost first', () => {
+    const facebook = `https://l.facebook.com/l.php?u=${encodeURIComponent('https://blocked.example/')}`;
+    const google = `https://www.google.com/url?q=${encodeURIComponent(facebook)}`;
+    assert.deepEqual(unwrapRedirects(google), { url: 'https://blocked.example/', wrappers: [google, facebook] });
+  });
+
+  it('leaves other URLs as they are', () => {
+    assert.deepEqual(unwrapRedirects('https://example.com/?q=https://blocked.example/'), {
+      url: 'https://example.com/?q=https://blocked.example/',
+      wrappers: [],
+    });
+  });
+
+  it('stops on redirectors wrapping themselves', () => {
+    const { wrappers } = unwrapRedirects('https://www.google.com/url?q=/url%3Fq%3D/url');
+    assert.ok(wrappers.length <= 5);
+  });
+});
+
+describe('isShortLinkUrl', () => {
+  it('recognizes links on shorteners', () => {
+    assert.equal(isShortLinkUrl('https://t.co/abc123'), true);
+    assert.equal(isShortLinkUrl('https://BIT.LY/xyz'), true);
+    assert.equal(isShortLinkUrl('http://www.tinyurl.com/xyz'), true);
+  });
+
+  it('rejects shortener home pages and other hosts', () => {
+    assert.equal(isShortLinkUrl('https://bit.ly/'), false);
+    assert.equal(isShortLinkUrl('https://bit.ly.evil.com/xyz'), false);
+    assert.equal(isShortLinkUrl('https://example.com/t.co/abc'), false);
+  });
+});
+
+describe('ShortLinkResolver', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  // Answer HEAD requests with the redirects given, by URL
+  function stubFetch(redirects: { [url: string]: string }): string[] {
+    const requested: string[] = [];
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      assert.equal(init?.method, 'HEAD');
+      requested.push(url);
+      const location = redirects[url];
+      return new Response(null, location ? { status: 301, headers: { Location: location } } : { status: 200 });
+    }) as typeof fetch;
+    return requested;
+  }
+
+  it('follows shorteners to the target and caches it', async () => {
+    const requested = stubFetch({
+      'https://t.co/abc': 'https://bit.ly/xyz',
+      'https://bit.ly/xyz': 'https://blocked.example/page',
+    });
+    const resolver = new ShortLinkResolver();
+    assert.equal(await resolver.resolve('https://t.co/abc'), 'https://blocked.example/page');
+    assert.deepEqual(requested, ['https://t.co/abc', 'https://bit.ly/xyz']);
+
+    assert.equal(resolver.getCached('https://t.co/abc'), 'https://blocked.example/page');
+    assert.equal(await resolver.resolve('https://t.co/abc'), 'https://blocked.example/page');
+    assert.equal(requested.length, 2);
+  });
+
+  it('does not request the target itself', async () => {
+    const requested = stubFetch({ 'https://t.co/abc': 'https://example.com/a', 'https://example.com/a': 'https://example.com/b' });
+    assert.equal(await new ShortLinkResolver().resolve('https://t.co/abc'), 'https://example.com/a');
+    assert.deepEqual(requested, ['https://t.co/abc']);
+  });
+
+  it('resolves to null when the shortener does not redirect', async () => {
+    stubFetch({});
+    const resolver = new ShortLinkResolver();
+    assert.equal(await resolver.resolve('https://t.co/gone'), null);
+    assert.equal(resolver.getCached('https://t.co/gone'), null);
+  });
+
+  it('forgets targets after their time', async () => {
+    stubFetch({ 'https://t.co/abc': 'https://example.com/' });
+    const resolver = new ShortLinkResolver({ ttlMs: 0 });
+    assert.equal(await resolver.resolve('https://t.co/abc'), 'https://example.com/');
+    assert.equal(resolver.getCached('https://t.co/abc'), null);
+  });
+
+  it('fails when the request fails', async () => {
+    globalThis.fetch = (async () => {
+      throw new TypeError('Network request failed');
+    }) as typeof fetch;
+    await assert.rejects(new ShortLinkResolver().resolve('https://t.co/abc'), TypeError);
+  });
+});
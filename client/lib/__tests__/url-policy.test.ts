@@ -0,0 +1,177 @@
+/**
+ * URL policy tests
+ *
+ * The ordered rules of filters/url_policy.ts: evaluation order, allow
+ * rules ending the evaluation, redirects and rewrites feeding the rules
+ * after them, the guard against rules changing a URL forever, rules read
+ * from JSON and custom rules merged over the defaults. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  evaluateUrlPolicy,
+  getUrlPolicyMessage,
+  matchesUrlPolicyRule,
+  mergeUrlPolicyRules,
+  parseUrlPolicyRules,
+  UrlPolicyRule,
+} from '../filters/url_policy';
+import { GOOGLE_POLICY_RULES } from '../search_engine_restrictions';
+
+const blockAll: UrlPolicyRule = { id: 'block-all', match: {}, action: 'block', message: 'Everything is blocked' };
+
+describe('evaluateUrlPolicy', () => {
+  it('applies the first rule that matches', () => {
+    const rules: UrlPolicyRule[] = [
+      { id: 'videos', match: { hosts: ['video.example'] }, action: 'block', message: 'No videos' },
+      { id: 'video-paths', match: { paths: ['/watch'] }, action: 'block', message: 'No watching' },
+    ];
+    const decision = evaluateUrlPolicy(rules, 'https://www.video.example/watch?v=1');
+    assert.equal(decision.blocked, true);
+    assert.equal(decision.rule?.id, 'videos');
+    assert.equal(getUrlPolicyMessage(decision.rule!), 'No videos');
+    assert.equal(evaluateUrlPolicy(rules, 'https://other.example/watch').rule?.id, 'video-paths');
+    assert.deepEqual(evaluateUrlPolicy(rules, 'https://other.example/'), { url: 'https://other.example/', blocked: false });
+  });
+
+  it('stops at an allow rule', () => {
+    const rules: UrlPolicyRule[] = [{ id: 'school', match: { hosts: ['school.example'] }, action: 'allow' }, blockAll];
+    const decision = evaluateUrlPolicy(rules, 'https://learn.school.example/');
+    assert.equal(decision.blocked, false);
+    assert.equal(decision.rule?.id, 'school');
+    assert.equal(evaluateUrlPolicy(rules, 'https://other.example/').blocked, true);
+  });
+
+  it('skips disabled rules, other contexts and unless conditions', () => {
+    const rules: UrlPolicyRule[] = [
+      { ...blockAll, id: 'off', enabled: false },
+      { ...blockAll, id: 'ads-only', contexts: ['ad'] },
+      { ...blockAll, id: 'except-docs', unless: [{ pathContains: ['docs'] }] },
+    ];
+    assert.equal(evaluateUrlPolicy(rules, 'https://example.com/', 'ad').rule?.id, 'ads-only');
+    assert.equal(evaluateUrlPolicy(rules, 'https://example.com/').rule?.id, 'except-docs');
+    assert.equal(evaluateUrlPolicy(rules, 'https://example.com/docs/').blocked, false);
+  });
+
+  it('runs the caller\'s named checks', () => {
+    const rule: UrlPolicyRule = { id: 'listed', match: { check: 'listed' }, action: 'block' };
+    const checks = { listed: (url: string) => url.includes('bad') };
+    assert.equal(evaluateUrlPolicy([rule], 'https://bad.example/', 'navigation', checks).blocked, true);
+    assert.equal(evaluateUrlPolicy([rule], 'https://good.example/', 'navigation', checks).blocked, false);
+    // A check the caller does not provide never matches
+    assert.equal(evaluateUrlPolicy([rule], 'https://bad.example/').blocked, false);
+  });
+
+  it('follows a redirect with a rewrite of the new URL', () => {
+    const rules: UrlPolicyRule[] = [
+      { id: 'mobile', match: { hosts: ['m.example.com'] }, action: 'redirect', redirect: 'https://www.example.com{path}{query}' },
+      { id: 'safe', match: { hosts: ['www.example.com'] }, action: 'rewrite', setQuery: { safe: 'active' }, removeQuery: ['nsfw'] },
+    ];
+    const decision = evaluateUrlPolicy(rules, 'https://m.example.com/search?q=cats&nsfw=1');
+    assert.deepEqual(decision, { url: 'https://www.example.com/search?q=cats&safe=active', blocked: false });
+  });
+
+  it('matches the rules after a redirect against the new URL', () => {
+    const rules: UrlPolicyRule[] = [
+      { id: 'out', match: { hosts: ['short.example'] }, action: 'redirect', redirect: 'https://target.example/?from={url}' },
+      { id: 'target', match: { hosts: ['target.example'] }, action: 'block' },
+    ];
+    const decision = evaluateUrlPolicy(rules, 'https://short.example/a');
+    assert.equal(decision.blocked, true);
+    assert.equal(decision.url, `https://target.example/?from=${encodeURIComponent('https://short.example/a')}`);
+  });
+
+  it('stops changing a URL after ten redirects and rewrites', () => {
+    const rules: UrlPolicyRule[] = Array.from({ length: 12 }, (_, index) => ({
+      id: `step-${index + 1}`,
+      match: {},
+      action: 'rewrite' as const,
+      setQuery: { step: String(index + 1) },
+    }));
+    assert.equal(evaluateUrlPolicy(rules, 'https://example.com/').url, 'https://example.com/?step=10');
+  });
+
+  it('leaves URLs it cannot read to the caller', () => {
+    assert.deepEqual(evaluateUrlPolicy([blockAll], 'not a url'), { url: 'not a url', blocked: false });
+  });
+});
+
+describe('matchesUrlPolicyRule', () => {
+  it('tells whether one rule applies, whatever its action', () => {
+    const rule: UrlPolicyRule = { id: 'google', match: { sites: ['google'], paths: ['/search'] }, action: 'allow' };
+    assert.equal(matchesUrlPolicyRule(rule, 'https://www.google.com.sa/search?q=x'), true);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://google.evil.com/search'), false);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://www.google.com/searches'), false);
+  });
+
+  it('matches host patterns for domains no site name covers', () => {
+    const rule: UrlPolicyRule = { id: 've', match: { hostPattern: '(^|\\.)example\\.com\\.ve$' }, action: 'block' };
+    assert.equal(matchesUrlPolicyRule(rule, 'https://WWW.Example.com.ve/'), true);
+    assert.equal(matchesUrlPolicyRule(rule, 'https://example.com.ve.evil.com/'), false);
+  });
+
+  it('applies the Google rules on every Google country domain', () => {
+    for (const host of ['www.google.com.ve', 'google.co.zw', 'www.google.com.sa']) {
+      assert.equal(evaluateUrlPolicy(GOOGLE_POLICY_RULES, `https://${host}/search?q=x&tbm=vid`).rule?.id, 'google-videos', host);
+      assert.equal(evaluateUrlPolicy(GOOGLE_POLICY_RULES, `https://${host}/search?q=x`).url, `https://${host}/search?q=x&safe=active`, host);
+    }
+    assert.equal(evaluateUrlPolicy(GOOGLE_POLICY_RULES, 'https://google.evil.com/search?q=x&tbm=vid').blocked, false);
+  });
+});
+
+describe('parseUrlPolicyRules', () => {
+  it('reads a list of rules or an object with a rules list', () => {
+    const rule = { id: 'clips', match: { hosts: ['twitch.tv'], paths: ['/clips'] }, action: 'block' };
+    assert.deepEqual(parseUrlPolicyRules(JSON.stringify([rule])), { rules: [rule], errors: [] });
+    assert.deepEqual(parseUrlPolicyRules(JSON.stringify({ rules: [rule] })), { rules: [rule], errors: [] });
+  });
+
+  it('rejects text that is not JSON or not a list', () => {
+    assert.deepEqual(parseUrlPolicyRules('[{"id": "x",'), { rules: [], errors: ['The rules are not valid JSON'] });
+    assert.deepEqual(parseUrlPolicyRules('{"id": "x"}'), { rules: [], errors: ['Expected a list of rules'] });
+  });
+
+  it('leaves out invalid rules and reports them', () => {
+    const { rules, errors } = parseUrlPolicyRules(JSON.stringify([
+      { id: 'ok', match: {}, action: 'allow' },
+      { match: {}, action: 'block' },
+      { id: 'bad-action', match: {}, action: 'hide' },
+      { id: 'bad-regex', match: { regex: '([' }, action: 'block' },
+      { id: 'bad-redirect', match: {}, action: 'redirect', redirect: 'javascript:alert(1)' },
+      { id: 'bad-context', match: {}, action: 'block', contexts: ['page'] },
+      { id: 'bad-hosts', match: { hosts: 'example.com' }, action: 'block' },
+      { id: 'bad-host-pattern', match: { hostPattern: '(' }, action: 'block' },
+    ]));
+    assert.deepEqual(rules.map(rule => rule.id), ['ok']);
+    assert.deepEqual(errors, [
+      'Rule 2: missing id',
+      'Rule bad-action: unknown action hide',
+      'Rule bad-regex: invalid regex ([',
+      'Rule bad-redirect: a redirect needs an http(s) redirect URL',
+      'Rule bad-context: contexts must be among navigation, resource, ad',
+      'Rule bad-hosts: hosts must be a list of strings',
+      'Rule bad-host-pattern: invalid hostPattern (',
+    ]);
+  });
+});
+
+describe('mergeUrlPolicyRules', () => {
+  const defaults: UrlPolicyRule[] = [
+    { id: 'instagram', match: { hosts: ['instagram.com'] }, action: 'block' },
+    { id: 'reddit', match: { hosts: ['reddit.com'] }, action: 'block' },
+  ];
+
+  it('puts new custom rules before the defaults', () => {
+    const custom: UrlPolicyRule = { id: 'school', match: { hosts: ['school.example'] }, action: 'allow' };
+    assert.deepEqual(mergeUrlPolicyRules(defaults, [custom]).map(rule => rule.id), ['school', 'instagram', 'reddit']);
+  });
+
+  it('replaces a default with the custom rule of the same id, in its place', () => {
+    const override: UrlPolicyRule = { id: 'instagram', enabled: false, match: {}, action: 'block' };
+    const merged = mergeUrlPolicyRules(defaults, [override]);
+    assert.deepEqual(merged, [override, defaults[1]]);
+    assert.equal(evaluateUrlPolicy(merged, 'https://www.instagram.com/').blocked, false);
+    assert.equal(evaluateUrlPolicy(merged, 'https://old.reddit.com/').blocked, true);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Sign-in Exemptions
+ *
+ * Sign-in pages have to load untouched: they are never blocked by the
+ * blocklists and get no injected scripts. The exemption is limited to:
+ * - Verified identity-provider hosts (Google accounts, Apple ID,
+ *   Microsoft), and sign-in paths on Google's own domains
+ * - The callback of an OAuth flow the app saw start. When an identity
+ *   provider is asked to authorize with a redirect_uri, a URL on that
+ *   redirect_uri carrying the flow's state is its callback for a few
+ *   minutes.
+ *
+ * A path or query that merely looks like a sign-in (`/login`, `state=`,
+ * `client_id=`) exempts nothing on any other site, and a flow's callback
+ * is only spared the injected scripts: a blocked site stays blocked.
+ *
+ * This module has no React Native imports so it also runs under Node.
+ */
+
+import { DomainMatch, DomainMatcher } from './Blocklist/matcher';
+import { CanonicalUrl, canonicalizeUrl, percentDecode } from './canonical-url';
+import { isGoogleAuthUrl } from './search_engine_restrictions';
+
+/**
+ * Identity-provider hosts outside Google, matched exactly
+ * (Google's are checked by isGoogleAuthUrl)
+ */
+export const IDENTITY_PROVIDER_HOSTS: string[] = [
+  // Apple
+  'appleid.apple.com',
+  // Microsoft
+  'login.microsoftonline.com',
+  'login.live.com',
+  'login.microsoft.com',
+];
+
+/**
+ * How long after its start an OAuth flow's callback is recognized
+ * (authorization codes are typically valid for 10 minutes)
+ */
+export const OAUTH_FLOW_TTL_MS = 10 * 60 * 1000;
+
+const MAX_OAUTH_FLOWS = 20;
+
+/**
+ * Parameters an OAuth or OpenID callback carries, in the query or the fragment
+ */
+const CALLBACK_PARAMS = ['code', 'access_token', 'id_token', 'error', 'oauth_token', 'oauth_verifier'];
+
+interface OAuthFlow {
+  /** Origin and path of the flow's redirect_uri */
+  callback: string;
+  /** state the identity provider will send back, if the flow has one */
+  state: string | null;
+  /** The callback is a form POST to the redirect_uri, with nothing in the URL */
+  formPost: boolean;
+  expiresAt: number;
+}
+
+const oauthFlows: OAuthFlow[] = [];
+
+// Origin and path of a URL, which a flow's callback must match exactly
+function toCallback(url: CanonicalUrl): string {
+  return `${url.protocol}//${url.host}${url.port ? `:${url.port}` : ''}${url.path}`;
+}
+
+/**
+ * Whether a URL is on a verified identity provider: Google's sign-in hosts
+ * and paths, or one of IDENTITY_PROVIDER_HOSTS
+ */
+export function isIdentityProviderUrl(url: string): boolean {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical || canonical.protocol !== 'https:') return false;
+  return IDENTITY_PROVIDER_HOSTS.includes(canonical.host) || isGoogleAuthUrl(canonical.href);
+}
+
+/**
+ * The matcher entry that blocks a URL's domain, or null. Verified identity
+ * providers are never blocked; a sign-in path on any other site is looked
+ * up like the rest of the site. An IDN host is also looked up by its
+ * skeleton, so a look-alike of a blocked domain (pоrnhub.com with a
+ * Cyrillic о) is blocked too.
+ */
+export function findBlockedUrlEntry(matcher: DomainMatcher, url: string): DomainMatch | null {
+  if (isIdentityProviderUrl(url)) return null;
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) {
+    return matcher.match(url.toLowerCase().replace(/^www\./, ''));
+  }
+  return matcher.match(canonical.domain) ??
+    (canonical.skeleton !== canonical.host ? matcher.match(canonical.skeleton.replace(/^www\./, '')) : null);
+}
+
+/**
+ * Record the OAuth flow a navigation starts, if it is an authorization
+ * request to an identity provider. Call for every top-level navigation.
+ */
+export function noteOAuthNavigation(url: string, now: number = Date.now()): void {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical || !isIdentityProviderUrl(canonical.href)) return;
+
+  const params = canonical.params;
+  const redirect = canonicalizeUrl(params.get('redirect_uri') || '');
+  if (!redirect || !params.get('client_id') || !/^https?:$/.test(redirect.protocol)) return;
+
+  const callback = toCallback(redirect);
+  const state = params.get('state');
+  const existing = oauthFlows.findIndex(flow => flow.callback === callback && flow.state === state);
+  if (existing !== -1) oauthFlows.splice(existing, 1);
+
+  oauthFlows.push({
+    callback,
+    state,
+    formPost: params.get('response_mode') === 'form_post',
+    expiresAt: now + OAUTH_FLOW_TTL_MS,
+  });
+  if (oauthFlows.length > MAX_OAUTH_FLOWS) oauthFlows.shift();
+  console.log(`[AuthExemptions] OAuth flow started for ${callback}`);
+}
+
+/**
+ * Whether a URL is the callback of an OAuth flow the app saw start
+ */
+export function isLiveOAuthCallback(url: string, now: number = Date.now()): boolean {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) return false;
+
+  const callback = toCallback(canonical);
+  // Implicit flows return the tokens in the fragment, parsed from the URL as
+  // written since a decoded fragment may have gained & and =
+  const fragment = new URLSearchParams(new URL(canonical.href).hash.replace(/^#/, ''));
+  const get = (param: string) => {
+    const value = canonical.params.get(param) ?? fragment.get(param);
+    return value === null ? null : percentDecode(value);
+  };
+  const hasCallbackParams = CALLBACK_PARAMS.some(param => get(param) !== null);
+
+  return oauthFlows.some(flow =>
+    flow.expiresAt > now &&
+    flow.callback === callback &&
+    (hasCallbackParams ? flow.state === null || get('state') === flow.state : flow.formPost)
+  );
+}
+
+/**
+ * Forget the OAuth flows seen so far
+ */
+export function clearOAuthFlows(): void {
+  oauthFlows.length = 0;
+}
@@ -0,0 +1,228 @@
+/**
+ * Canonical URLs
+ *
+ * Filters look at a URL through one canonical form, so writing the same
+ * URL another way cannot change their answer:
+ * - The host is lowercase ASCII (IDN labels in Punycode) without trailing
+ *   dots; IP hosts are in canonical form whatever their notation (`0x7f.1`,
+ *   `[::ffff:1.2.3.4]`)
+ * - User names and passwords are dropped: `https://google.com@evil.com`
+ *   is evil.com
+ * - The path, query and fragment are percent-decoded, repeatedly so double
+ *   encoding (`%2570`) is decoded too, and repeated slashes in the path are
+ *   collapsed
+ * - The registrable domain and site name come from the public suffixes
+ *   (see public-suffix.ts): google.com.sa is the site 'google', and
+ *   google.evil.com is the site 'evil'
+ * - The skeleton is the host with look-alike letters (Cyrillic а, Greek ο,
+ *   accented letters) folded to Latin, so IDN homographs of a name can be
+ *   caught
+ *
+ * Checkers should match hosts with isHostOnDomain() or the site name, not
+ * by looking for text in the host ('facebook.com' is in notfacebook.com).
+ * Google is matched with GOOGLE_HOST_PATTERN instead: its country domains
+ * use second-level suffixes the public suffixes do not all list
+ * (google.com.ve, google.co.zw).
+ *
+ * This module has no React Native imports so the Node tests can use it.
+ */
+
+import { toASCIIDomain, toUnicodeDomain } from './Blocklist/idn';
+import { formatIpAddress, parseIpHost } from './Blocklist/ip-ranges';
+import { getPublicSuffix, getRegistrableDomain, isPlatformSuffix } from './public-suffix';
+
+export interface CanonicalUrl {
+  /** The URL without user name and password, with a canonical host */
+  href: string;
+  /** 'http:', 'https:', 'ws:' or 'wss:' */
+  protocol: string;
+  /** Lowercase ASCII host without trailing dots; IPv6 addresses without brackets */
+  host: string;
+  /** The host without a leading www. */
+  domain: string;
+  /** Registrable domain ('bbc.co.uk' for news.bbc.co.uk); the host itself for IPs and public suffixes */
+  registrableDomain: string;
+  /** Public suffix ('co.uk'); empty for IP hosts */
+  publicSuffix: string;
+  /**
+   * Registrable domain without its public suffix ('google' for
+   * www.google.com.sa); the whole registrable domain under a hosting
+   * platform ('google.github.io') and for IPs
+   */
+  site: string;
+  /** The host with look-alike letters folded to Latin, in ASCII; the host itself when it is ASCII */
+  skeleton: string;
+  /** Whether the host is an IP address */
+  ip: boolean;
+  /** Explicit port, '' for the protocol's default */
+  port: string;
+  /** Decoded path, starting with '/' */
+  path: string;
+  /** Decoded query parameters; shared by every caller, so not to be modified */
+  params: URLSearchParams;
+  /** Decoded fragment, without '#' */
+  fragment: string;
+  /** Whether the URL had a user name or password before the host */
+  hasCredentials: boolean;
+  /** Lowercase decoded host, path, query and fragment, for text checks */
+  text: string;
+}
+
+const WEB_PROTOCOLS = ['http:', 'https:', 'ws:', 'wss:'];
+
+const MAX_CACHED_URLS = 100;
+
+// Decoding passes, enough for URLs encoded two or three times
+const MAX_DECODE_PASSES = 3;
+
+// One percent-encoded UTF-8 character; stray bytes around it stay encoded
+const UTF8_SEQUENCE = /%[0-7][0-9a-f]|%[c-d][0-9a-f]%[89ab][0-9a-f]|%e[0-9a-f](?:%[89ab][0-9a-f]){2}|%f[0-4](?:%[89ab][0-9a-f]){3}/gi;
+
+/**
+ * Letters from other scripts that look like Latin letters in a URL bar,
+ * after accents are removed
+ */
+const LOOKALIKE_LETTERS: { [letter: string]: string } = {
+  // Cyrillic
+  'а': 'a', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c', 'т': 't', 'у': 'y',
+  'х': 'x', 'ѕ': 's', 'і': 'i', 'ј': 'j', 'һ': 'h', 'ԁ': 'd', 'ԛ': 'q', 'ԝ': 'w', 'ӏ': 'l',
+  // Greek
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x', 'ω': 'w',
+  // Armenian
+  'հ': 'h', 'ո': 'n', 'ս': 'u', 'օ': 'o', 'ց': 'g',
+  // Latin letters without a decomposition
+  'ı': 'i', 'ł': 'l', 'ø': 'o', 'đ': 'd', 'ħ': 'h', 'ŧ': 't', 'ɡ': 'g', 'ɑ': 'a', 'ꞁ': 'l',
+};
+
+const cache: Map<string, CanonicalUrl | null> = new Map();
+
+/**
+ * Percent-decode text until nothing is left to decode (at most
+ * MAX_DECODE_PASSES times). Malformed sequences are kept as they are.
+ */
+export function percentDecode(text: string): string {
+  let value = text;
+  for (let pass = 0; pass < MAX_DECODE_PASSES && value.includes('%'); pass++) {
+    const decoded = value.replace(UTF8_SEQUENCE, sequence => {
+      try {
+        return decodeURIComponent(sequence);
+      } catch {
+        return sequence;
+      }
+    });
+    if (decoded === value) break;
+    value = decoded;
+  }
+  return value;
+}
+
+/**
+ * The host with look-alike letters folded to Latin (see LOOKALIKE_LETTERS)
+ */
+function toSkeleton(host: string): string {
+  if (!host.includes('xn--')) return host;
+  const folded = toUnicodeDomain(host)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+  return toASCIIDomain(Array.from(folded, letter => LOOKALIKE_LETTERS[letter] ?? letter).join(''));
+}
+
+/**
+ * Whether a URL starts with a protocol (https:, fb:, intent:...); a host
+ * and port typed without one (example.com:8080) does not
+ */
+export function hasUrlProtocol(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) && !/^[^:/?#]+:\d+(?:[/?#]|$)/.test(url);
+}
+
+function parse(url: string): CanonicalUrl | null {
+  let urlObj: URL;
+  try {
+    const trimmed = url.trim();
+    urlObj = new URL(hasUrlProtocol(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  if (!WEB_PROTOCOLS.includes(urlObj.protocol) || !urlObj.hostname) {
+    return null;
+  }
+
+  const hasCredentials = urlObj.username !== '' || urlObj.password !== '';
+  urlObj.username = '';
+  urlObj.password = '';
+
+  const address = parseIpHost(urlObj.hostname);
+  let host: string;
+  if (address) {
+    host = formatIpAddress(address);
+  } else {
+    host = toASCIIDomain(urlObj.hostname).replace(/\.+$/, '');
+    if (host !== urlObj.hostname) urlObj.hostname = host;
+  }
+
+  const registrable = address ? host : getRegistrableDomain(host);
+  const publicSuffix = address ? '' : getPublicSuffix(host);
+  const params = new URLSearchParams();
+  urlObj.searchParams.forEach((value, name) => params.append(percentDecode(name), percentDecode(value)));
+  const path = percentDecode(urlObj.pathname).replace(/\/{2,}/g, '/');
+  const fragment = percentDecode(urlObj.hash.replace(/^#/, ''));
+  const query = Array.from(params, ([name, value]) => `${name}=${value}`).join('&');
+
+  return {
+    href: urlObj.href,
+    protocol: urlObj.protocol,
+    host,
+    domain: host.replace(/^www\./, ''),
+    registrableDomain: registrable || host,
+    publicSuffix,
+    site: registrable && publicSuffix && !isPlatformSuffix(publicSuffix)
+      ? registrable.slice(0, -publicSuffix.length - 1)
+      : registrable || host,
+    skeleton: address ? host : toSkeleton(host),
+    ip: !!address,
+    port: urlObj.port,
+    path,
+    params,
+    fragment,
+    hasCredentials,
+    text: `${host}${path}${query ? `?${query}` : ''}${fragment ? `#${fragment}` : ''}`.toLowerCase(),
+  };
+}
+
+/**
+ * Canonical form of a web URL (http, https, ws, wss; https is assumed when
+ * the protocol is missing), or null if it is not one
+ */
+export function canonicalizeUrl(url: string): CanonicalUrl | null {
+  let canonical = cache.get(url);
+  if (canonical === undefined) {
+    canonical = parse(url);
+    if (cache.size >= MAX_CACHED_URLS) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(url, canonical);
+  }
+  return canonical;
+}
+
+/**
+ * Whether a canonical host is a domain or one of its subdomains
+ * ('m.facebook.com' is on facebook.com, 'notfacebook.com' is not)
+ */
+export function isHostOnDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Google's domains, with any subdomain: google.de, google.co.uk,
+ * google.com.ve. The domain itself is the first group.
+ */
+export const GOOGLE_HOST_PATTERN = /(?:^|\.)(google\.(?:com?\.[a-z]{2}|[a-z]{2,3}))$/;
+
+/**
+ * The Google domain a canonical host is on ('google.com.ve' for
+ * www.google.com.ve), or null if it is not on one
+ */
+export function getGoogleDomain(host: string): string | null {
+  return GOOGLE_HOST_PATTERN.exec(host)?.[1] ?? null;
+}
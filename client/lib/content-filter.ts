@@ -1,13 +1,29 @@
-import { getAllBlockedDomains, CUSTOM_BLOCKLIST } from './Blocklist/blocklist';
+import {
+  findBlockingAlias,
+  findBlockingRequest,
+  describeBlocklistSource,
+  getCosmeticSelectors,
+  getNetworkFilters,
+  getDomainMatcher,
+  isDomainBlocked,
+  CUSTOM_BLOCKLIST,
+} from './Blocklist/blocklist';
+import { getBlocklistGeneration, getBlockingCategory } from './Blocklist/manager';
+import type { BlocklistCategory } from './Blocklist/categories';
+import type { ResourceType } from './Blocklist/network';
+import type { DomainMatch } from './Blocklist/matcher';
+import { getCachedHostAliases, resolveHostAliases } from './Blocklist/dns-check';
+import { findBlockedUrlEntry, isIdentityProviderUrl, isLiveOAuthCallback } from './auth-exemptions';
+import { getCachedShortLink, isShortLinkCheckEnabled, resolveShortLink } from './short-link-check';
+import { canonicalizeUrl, hasUrlProtocol, isHostOnDomain } from './canonical-url';
 import { isMediaBlockingEnabled } from './app-config';
 import { isMediaWhitelisted } from './media-whitelist';
 import {
-  isGoogleAuthUrl,
   isGoogleSearchDomain,
   isGoogleHomePage,
-  isBlockedGoogleSection,
   getGoogleUiCleanupScript,
-  enforceGoogleSafeSearch,
+  GOOGLE_POLICY_CHECKS,
+  GOOGLE_POLICY_RULES,
   GOOGLE_SAFESEARCH_SUPPRESSION_JS,
   GOOGLE_SECTIONS_BLOCK_JS,
   isGoogleSearchUrl,
@@ -17,11 +33,21 @@ import {
   isRedditUrl,
   REDDIT_EARLY_CSS_JS,
   REDDIT_NSFW_FILTER_JS,
+  REDDIT_POLICY_RULES,
   isNsfwRedditUrl,
   isBlockedRedditPath,
   isSubredditPage,
   getSubredditName,
 } from './filters/reddit_filters';
+import {
+  evaluateUrlPolicy,
+  getUrlPolicyMessage,
+  matchesUrlPolicyRule,
+  mergeUrlPolicyRules,
+  parseUrlPolicyRules,
+  UrlPolicyChecks,
+  UrlPolicyRule,
+} from './filters/url_policy';
 import {
   MEDIA_BLOCK_PRELOAD_JS,
   MEDIA_BLOCK_POSTLOAD_JS,
@@ -36,6 +62,19 @@ import {
   getYouTubeContentFilterScript,
   YOUTUBE_CONTENT_FILTER_JS,
 } from './filters/youtube_filter';
+import { getCosmeticFilterScript } from './filters/cosmetic_filters';
+import { getRequestBlockingScript } from './filters/request_filters';
+import { isShortLinkUrl, unwrapRedirects } from './filters/redirectors';
+import {
+  DEFAULT_KEYWORD_SEARCH_PARAMS,
+  FALLBACK_WORD_CHARACTERS,
+  getKeywordRegexSource,
+  KeywordMatcher,
+  KeywordSearchParams,
+  KeywordTerm,
+  parseKeywordSearchParams,
+  parseKeywordTerms,
+} from './filters/keyword_filter';
 
 export {
   enforceRedditSafe,
@@ -57,6 +96,8 @@ export {
   getYouTubeContentFilterScript,
   YOUTUBE_CONTENT_FILTER_JS,
   isMediaWhitelisted,
+  getCosmeticFilterScript,
+  getRequestBlockingScript,
 };
 
 // Re-export constants for UI
@@ -76,58 +117,28 @@ export function isReferrerFromSafeSearch(referrerUrl: string | null | undefined)
     return false;
   }
 
-  try {
-    const url = new URL(referrerUrl.startsWith('http') ? referrerUrl : `https://${referrerUrl}`);
-    const domain = url.hostname.toLowerCase().replace(/^www\./, '');
-    const isSafeSearch = domain === 'safesearchengine.com';
-
-    console.log('[isReferrerFromSafeSearch] Domain:', domain);
-    console.log('[isReferrerFromSafeSearch] Result:', isSafeSearch ? '✓ YES' : '❌ NO');
-
-    return isSafeSearch;
-  } catch (e) {
-    console.log('[isReferrerFromSafeSearch] ❌ Error parsing URL:', e);
+  const url = canonicalizeUrl(referrerUrl);
+  if (!url) {
+    console.log('[isReferrerFromSafeSearch] ❌ Not a web URL:', referrerUrl);
     return false;
   }
-}
 
+  const isSafeSearch = url.domain === 'safesearchengine.com';
+  console.log('[isReferrerFromSafeSearch] Domain:', url.domain);
+  console.log('[isReferrerFromSafeSearch] Result:', isSafeSearch ? '✓ YES' : '❌ NO');
 
-// Check if URL is an OAuth callback URL (any domain receiving OAuth redirect)
-// This is used to skip heavy script injection during OAuth flows
-export function isOAuthCallbackUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const search = urlObj.search.toLowerCase();
-
-    // OAuth callback URLs typically contain authorization code or tokens
-    const callbackParams = [
-      'code=',           // Authorization code (most common)
-      'access_token=',   // Implicit grant
-      'id_token=',       // OpenID Connect
-      'oauth_token=',    // OAuth 1.0
-      'oauth_verifier=', // OAuth 1.0
-    ];
-
-    // Must also have state parameter (CSRF protection) to be a valid OAuth callback
-    const hasState = search.includes('state=');
-    const hasCallbackParam = callbackParams.some(param => search.includes(param));
-
-    return hasState && hasCallbackParam;
-  } catch {
-    return false;
-  }
+  return isSafeSearch;
 }
 
 
+// Check if URL is the callback of an OAuth flow the app saw start (see
+// auth-exemptions.ts). This is used to skip heavy script injection during OAuth flows
+export function isOAuthCallbackUrl(url: string): boolean {
+  return isLiveOAuthCallback(url);
+}
 
 export function isSafeSearchEnginePage(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const domain = urlObj.hostname.toLowerCase().replace(/^www\./, '');
-    return domain === 'safesearchengine.com';
-  } catch {
-    return false;
-  }
+  return canonicalizeUrl(url)?.domain === 'safesearchengine.com';
 }
 
 // ================================================================
@@ -171,39 +182,123 @@ const BLOCKED_SEARCH_ENGINES = [
 // ====================================================================
 // =============== BLOCKED DOMAINS LIST ===============================
 // ====================================================================
+// The URL's host without www. (see canonical-url.ts). IP hosts come back in
+// canonical form whatever their notation (0x7f.1, [::ffff:1.2.3.4]), so the
+// blocklists' IP and CIDR rules apply to them
 export function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-    return urlObj.hostname.replace(/^www\./, "");
-  } catch {
-    return url.replace(/^www\./, "");
+  return canonicalizeUrl(url)?.domain ?? url.toLowerCase().replace(/^www\./, "");
+}
+
+// Find the blocklist entry (and the list it came from) that blocks a URL's
+// domain. The shared domain matcher covers the embedded, bundled, local and
+// external blocklists, and checks parent domains as well; the sign-in pages
+// of verified identity providers are always allowed (see auth-exemptions.ts)
+export function findBlockedDomainEntry(url: string): DomainMatch | null {
+  return findBlockedUrlEntry(getDomainMatcher(), url);
+}
+
+// Element hiding script per hostname, dropped whenever the blocklists change
+const cosmeticScriptCache: Map<string, string> = new Map();
+let cosmeticScriptGeneration = -1;
+const MAX_COSMETIC_SCRIPT_CACHE = 50;
+
+// Get the preload script hiding the elements matched by the blocklists'
+// ##selector rules on a page (nothing on sign-in pages)
+export function getCosmeticFilterPreloadScript(url: string): string {
+  if (!url || isIdentityProviderUrl(url)) {
+    return 'true;';
+  }
+
+  const hostname = canonicalizeUrl(url)?.host;
+  if (!hostname) {
+    return 'true;';
   }
+
+  const generation = getBlocklistGeneration();
+  if (generation !== cosmeticScriptGeneration) {
+    cosmeticScriptCache.clear();
+    cosmeticScriptGeneration = generation;
+  }
+
+  let script = cosmeticScriptCache.get(hostname);
+  if (script === undefined) {
+    script = getCosmeticFilterScript(getCosmeticSelectors(hostname));
+    if (cosmeticScriptCache.size >= MAX_COSMETIC_SCRIPT_CACHE) {
+      cosmeticScriptCache.delete(cosmeticScriptCache.keys().next().value!);
+    }
+    cosmeticScriptCache.set(hostname, script);
+  }
+  return script;
+}
+
+// ====================================================================
+// =============== SUB-RESOURCE REQUEST BLOCKING ======================
+// ====================================================================
+
+// Most hosts a page may ask about in one message
+const MAX_HOST_CHECKS = 100;
+
+let requestBlockingScript: string | null = null;
+let requestBlockingScriptGeneration = -1;
+
+// Check a request a page makes (script, image, frame, XHR...) against the
+// host blocklists and the lists' URL-pattern rules
+export function checkResourceRequest(url: string, pageUrl: string, type: ResourceType): ProcessUrlResult {
+  if (!/^(https?|wss?):\/\//i.test(url) || isIdentityProviderUrl(pageUrl)) {
+    return { url, blocked: false };
+  }
+
+  const pageHost = canonicalizeUrl(pageUrl)?.host;
+  const match = findBlockingRequest({ url, type, pageHost });
+  if (!match) {
+    return { url, blocked: false };
+  }
+  return {
+    url,
+    blocked: true,
+    reason: "This content is blocked for safety",
+    showAlert: false,
+    source: match.source,
+    rule: match.rule,
+  };
+}
+
+// Answer a page's 'resourceHostCheck' message: whether each host is blocked
+export function checkResourceHosts(hosts: unknown): { [host: string]: boolean } {
+  const verdicts: { [host: string]: boolean } = {};
+  if (!Array.isArray(hosts)) return verdicts;
+
+  for (const host of hosts.slice(0, MAX_HOST_CHECKS)) {
+    if (typeof host === 'string' && host) {
+      verdicts[host] = isDomainBlocked(host);
+    }
+  }
+  return verdicts;
+}
+
+// Get the preload script blocking a page's sub-resource requests
+// (nothing on sign-in pages)
+export function getRequestBlockingPreloadScript(pageUrl: string): string {
+  if (!pageUrl || isIdentityProviderUrl(pageUrl)) {
+    return 'true;';
+  }
+
+  const generation = getBlocklistGeneration();
+  if (!requestBlockingScript || generation !== requestBlockingScriptGeneration) {
+    requestBlockingScript = getRequestBlockingScript(getNetworkFilters());
+    requestBlockingScriptGeneration = generation;
+  }
+  return requestBlockingScript;
 }
 
 // Check if domain is in blocked domains list
 export function isBlockedDomain(url: string): boolean {
-  // Always allow Google Auth URLs
-  if (isGoogleAuthUrl(url)) {
-    return false;
-  }
-  const domain = extractDomain(url).toLowerCase();
-  // Use getAllBlockedDomains() to include external/local blocklists when available,
-  // fallback to BLOCKED_DOMAINS + CUSTOM_BLOCKLIST for synchronous access
-  const allBlocked = [...getAllBlockedDomains()];
-  return allBlocked.some(
-    (blocked) => {
-      const b = blocked.toLowerCase();
-      return domain === b || domain.endsWith(`.${b}`);
-    },
-  );
+  return findBlockedDomainEntry(url) !== null;
 }
 
 // Check if URL is a blocked search engine
 export function isBlockedSearchEngine(url: string): boolean {
-  const domain = extractDomain(url).toLowerCase();
-  return BLOCKED_SEARCH_ENGINES.some(
-    (blocked) => domain === blocked || domain.endsWith(`.${blocked}`),
-  );
+  return matchesPolicyRule('search-engines', url);
 }
 
 
@@ -211,103 +306,72 @@ export function isBlockedSearchEngine(url: string): boolean {
 // =============== BLOCKED SOCIAL MEDIA PAGES ========================
 // ====================================================================
 
-// Instagram URL blocking logic
+// Instagram URL blocking logic: only reels and posts are allowed
 export function isBlockedInstagramUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-    const domain = urlObj.hostname.toLowerCase();
+  return matchesPolicyRule('instagram', url);
+}
 
-    if (!domain.includes("instagram.com")) {
-      return false;
-    }
+// ====================================================================
+// =============== BLOCKED SEARCH TERMS & KEYWORD URLS ================
+// ====================================================================
 
-    const path = urlObj.pathname;
+// Blocked keywords (see filters/keyword_filter.ts). 'apk' and 'xapk' only
+// match whole words, so 'hapkido' and 'napkin' are not blocked.
+export const DEFAULT_KEYWORD_TERMS: KeywordTerm[] = [
+  { term: 'apk', wholeWord: true },
+  { term: 'xapk', wholeWord: true },
+  { term: 'palringo' },
+  { term: 'qanawat' },
+];
 
-    // Allow if it's a reel or post with content
-    if (path.startsWith('/reel/') && path.length > '/reel/'.length) {
-      return false;
-    }
-    if (path.startsWith('/p/') && path.length > '/p/'.length) {
-      return false;
-    }
+// Set BLOCKED_KEYWORD_TERMS in .env to a JSON list of terms (strings, or
+// { "term", "wholeWord", "scopes" } objects) or to comma-separated words
+function parseBlockedKeywordTerms(raw: string | undefined): KeywordTerm[] {
+  if (!raw) return DEFAULT_KEYWORD_TERMS;
+  const { terms, errors } = parseKeywordTerms(raw);
+  errors.forEach(error => console.warn('[ContentFilter] Skipped keyword term:', error));
+  return terms;
+}
 
-    // Block all other Instagram URLs
-    return true;
-  } catch {
-    return false;
-  }
+// Set KEYWORD_SEARCH_PARAMS in .env to a JSON object of site names or
+// domains to their search box parameters, e.g. { "example": ["s"] }
+function parseSearchParams(raw: string | undefined): KeywordSearchParams {
+  if (!raw) return DEFAULT_KEYWORD_SEARCH_PARAMS;
+  const { searchParams, errors } = parseKeywordSearchParams(raw);
+  errors.forEach(error => console.warn('[ContentFilter] Skipped search parameters:', error));
+  return { ...DEFAULT_KEYWORD_SEARCH_PARAMS, ...searchParams };
 }
 
-// Facebook URL blocking logic
-export function isBlockedFacebookUrl(url: string): boolean {
-  try {
-    // Handle sfbfi scheme
-    if (url.startsWith("sfbfi://")) return false;
+export const BLOCKED_KEYWORD_TERMS: KeywordTerm[] = parseBlockedKeywordTerms(process.env.BLOCKED_KEYWORD_TERMS);
 
-    const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-    const domain = urlObj.hostname.toLowerCase();
+// The terms as a regular expression (flags 'u') for page scripts, over text
+// folded with FOLD_KEYWORD_TEXT_JS
+export const BLOCKED_KEYWORD_PATTERN: string = getKeywordRegexSource(BLOCKED_KEYWORD_TERMS);
 
-    // Check for Facebook, Messenger, and related domains
-    const isFacebook = domain.includes("facebook.com") ||
-      domain.includes("fb.com") ||
-      domain.includes("messenger.com") ||
-      domain.includes("fbsbx.com") ||
-      domain.includes("fb.me");
+// The same without flags, for engines without Unicode property escapes
+export const BLOCKED_KEYWORD_FALLBACK_PATTERN: string = getKeywordRegexSource(BLOCKED_KEYWORD_TERMS, FALLBACK_WORD_CHARACTERS);
 
-    if (!isFacebook) {
-      return false;
-    }
+// Search box parameters by search engine, checked for blocked terms
+const KEYWORD_SEARCH_PARAMS = parseSearchParams(process.env.KEYWORD_SEARCH_PARAMS);
 
-    const path = urlObj.pathname.toLowerCase();
-    const search = urlObj.search.toLowerCase();
+const keywordMatcher = new KeywordMatcher(BLOCKED_KEYWORD_TERMS, KEYWORD_SEARCH_PARAMS);
 
-    // Allow normal Facebook usage
-    return false;
-  } catch (error) {
-    return false;
-  }
+// Whether the search box of a URL holds a blocked term
+function hasBlockedSearchTerm(url: string): boolean {
+  return keywordMatcher.match(url, ['query']) !== null;
 }
 
-// ====================================================================
-// =============== BLOCKED SEARCH TERMS & KEYWORD URLS ================
-// ====================================================================
-
-function parseKeywordTerms(raw: string | undefined): string[] {
-  if (!raw) return ['apk', 'xapk', 'palringo', 'qanawat'];
-  try {
-    const parsed = JSON.parse(raw);
-    if (Array.isArray(parsed)) return parsed.map((t: string) => t.toLowerCase().trim()).filter(Boolean);
-  } catch {}
-  // comma-separated fallback
-  return raw.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+// Whether the host or path of a URL holds a blocked term
+function hasBlockedUrlTerm(url: string): boolean {
+  return keywordMatcher.match(url, ['host', 'path']) !== null;
 }
 
-export const BLOCKED_KEYWORD_TERMS: string[] = parseKeywordTerms(process.env.BLOCKED_KEYWORD_TERMS);
-
 export function isBlockedSearchQuery(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const q = urlObj.searchParams.get('q') || urlObj.searchParams.get('query') || urlObj.searchParams.get('search') || '';
-    if (!q) return false;
-    const lower = q.toLowerCase();
-    return BLOCKED_KEYWORD_TERMS.some(term => lower.includes(term));
-  } catch {
-    return false;
-  }
+  return matchesPolicyRule('keyword-search', url);
 }
 
 export function isBlockedKeywordInUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const domain = urlObj.hostname.toLowerCase();
-    const path = urlObj.pathname.toLowerCase();
-    if (BLOCKED_KEYWORD_TERMS.some(term => domain.includes(term) || path.includes(term))) return true;
-    const fullUrl = url.toLowerCase();
-    if (BLOCKED_KEYWORD_TERMS.some(term => fullUrl.includes(encodeURIComponent(term)) || fullUrl.includes(term.replace(/ /g, '+')))) return true;
-    return false;
-  } catch {
-    return false;
-  }
+  return matchesPolicyRule('keyword-url', url);
 }
 
 // ====================================================================
@@ -325,61 +389,179 @@ const BLOCKED_DOWNLOAD_EXTENSIONS = [
   '.iso', '.img', '.crx', '.xpi', '.jar',
 ];
 
-export function isApkDownload(url: string): boolean {
-  const lowerUrl = url.toLowerCase();
+const APK_EXTENSIONS = ['.apk', '.xapk', '.apkm', '.apkx', '.apks'];
 
-  if (
-    lowerUrl.endsWith(".apk") ||
-    lowerUrl.endsWith(".xapk") ||
-    lowerUrl.endsWith(".apkm") ||
-    lowerUrl.endsWith(".apkx") ||
-    lowerUrl.endsWith(".apks")
-  ) {
-    return true;
-  }
+const APK_URL_PATTERNS = [
+  '/download.apk', '/app.apk', '.apk?', '.apk&', '/apk/',
+  'download=apk', 'type=apk', 'file=apk', 'format=apk',
+  '/getapk', '/downloadapk', '/apk-download',
+  'application/vnd.android.package-archive',
+];
 
-  const apkPatterns = [
-    '/download.apk', '/app.apk', '.apk?', '.apk&', '/apk/',
-    'download=apk', 'type=apk', 'file=apk', 'format=apk',
-    '/getapk', '/downloadapk', '/apk-download',
-    'apkpure.com', 'apkmirror.com', 'apkcombo.com', 'apk-dl.com', 'aptoide.com',
-  ];
+// APK download sites, with their subdomains
+const APK_SITES = ['apkpure.com', 'apkmirror.com', 'apkcombo.com', 'apk-dl.com', 'aptoide.com'];
+
+export function isApkDownload(url: string): boolean {
+  const lowerUrl = url.toLowerCase();
+  const canonical = canonicalizeUrl(url);
+  // The URL as written and decoded, so an encoded name (%2Eapk) is caught too
+  const texts = canonical ? [lowerUrl, canonical.text] : [lowerUrl];
+  const path = canonical?.path.toLowerCase() ?? '';
 
-  if (apkPatterns.some(pattern => lowerUrl.includes(pattern))) return true;
+  if (APK_EXTENSIONS.some(ext => lowerUrl.endsWith(ext) || path.endsWith(ext))) return true;
 
-  if (lowerUrl.includes('application/vnd.android.package-archive') ||
-    lowerUrl.includes('application%2fvnd.android.package-archive')) {
-    return true;
-  }
+  if (canonical && APK_SITES.some(site => isHostOnDomain(canonical.host, site))) return true;
 
-  return false;
+  return texts.some(text => APK_URL_PATTERNS.some(pattern => text.includes(pattern)));
 }
 
 // Returns true for any URL that points to a non-PDF downloadable file by extension.
 // PDFs are always allowed; everything else in BLOCKED_DOWNLOAD_EXTENSIONS is not.
 export function isNonPdfFileDownload(url: string): boolean {
-  try {
-    const lower = url.toLowerCase().split('?')[0].split('#')[0];
-    if (lower.endsWith('.pdf')) return false;
-    return BLOCKED_DOWNLOAD_EXTENSIONS.some(ext => lower.endsWith(ext));
-  } catch {
-    return false;
+  const lower = (canonicalizeUrl(url)?.path ?? url.split('?')[0].split('#')[0]).toLowerCase();
+  if (lower.endsWith('.pdf')) return false;
+  return BLOCKED_DOWNLOAD_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+// ====================================================================
+// =============== URL POLICY =========================================
+// ====================================================================
+
+// The checks above as ordered rules (see filters/url_policy.ts). More can
+// be added, and these changed or turned off by id, without a code change:
+// set URL_POLICY_RULES in .env to a JSON list of rules, which run before
+// these, or call setCustomUrlPolicyRules.
+export const DEFAULT_URL_POLICY_RULES: UrlPolicyRule[] = [
+  {
+    id: 'apk-downloads',
+    match: { check: 'apk-download' },
+    action: 'block',
+    message: 'APK downloads are not allowed',
+  },
+  {
+    id: 'keyword-search',
+    description: 'Searches for BLOCKED_KEYWORD_TERMS, in the search box parameters of KEYWORD_SEARCH_PARAMS',
+    match: { check: 'keyword-search' },
+    action: 'block',
+    message: 'This search is not allowed',
+  },
+  {
+    id: 'keyword-url',
+    description: 'BLOCKED_KEYWORD_TERMS in the host or the path',
+    match: { check: 'keyword-url' },
+    action: 'block',
+    message: 'This website is blocked for safety',
+  },
+  {
+    id: 'blocklists',
+    description: 'Domains on the enabled blocklists; the reason names the list category',
+    match: { check: 'blocklist' },
+    action: 'block',
+  },
+  {
+    id: 'search-engines',
+    match: { hosts: BLOCKED_SEARCH_ENGINES },
+    action: 'block',
+    message: 'This search engine is not allowed. Please use Google.',
+  },
+  ...GOOGLE_POLICY_RULES,
+  ...REDDIT_POLICY_RULES,
+  {
+    id: 'instagram',
+    match: { hosts: ['instagram.com'] },
+    unless: [{ regex: '^https?://[^/]+/(?:reel|p)/[^/?#]' }],
+    action: 'block',
+    message: 'This Instagram content is blocked. Only reels and posts are allowed.',
+  },
+  {
+    id: 'facebook-mobile',
+    description: 'Open Facebook on the basic mobile site to avoid deep link issues',
+    match: { hosts: ['facebook.com', 'fb.com'] },
+    unless: [{ hosts: ['mbasic.facebook.com'] }],
+    action: 'redirect',
+    redirect: 'https://mbasic.facebook.com{path}{query}',
+  },
+];
+
+// Checks the rules refer to; 'blocklist' is added per URL by processUrl
+const URL_POLICY_CHECKS: UrlPolicyChecks = {
+  ...GOOGLE_POLICY_CHECKS,
+  'apk-download': isApkDownload,
+  'keyword-search': hasBlockedSearchTerm,
+  'keyword-url': hasBlockedUrlTerm,
+  'blocklist': isBlockedDomain,
+};
+
+function parseCustomUrlPolicyRules(raw: string | undefined): UrlPolicyRule[] {
+  if (!raw) return [];
+  const { rules, errors } = parseUrlPolicyRules(raw);
+  errors.forEach(error => console.warn('[ContentFilter] Skipped URL policy rule:', error));
+  return rules;
+}
+
+let urlPolicyRules: UrlPolicyRule[] = mergeUrlPolicyRules(
+  DEFAULT_URL_POLICY_RULES,
+  parseCustomUrlPolicyRules(process.env.URL_POLICY_RULES),
+);
+
+// The rules processUrl applies, in order
+export function getUrlPolicyRules(): UrlPolicyRule[] {
+  return urlPolicyRules;
+}
+
+// Replace the custom rules (a JSON list of rules, or { "rules": [...] })
+export function setCustomUrlPolicyRules(json: string): { success: boolean; error?: string } {
+  const { rules, errors } = parseUrlPolicyRules(json);
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('\n') };
   }
+  urlPolicyRules = mergeUrlPolicyRules(DEFAULT_URL_POLICY_RULES, rules);
+  console.log(`[ContentFilter] Loaded ${rules.length} custom URL policy rules`);
+  return { success: true };
 }
 
+// Check a URL against one rule by id (false if there is no such rule)
+function matchesPolicyRule(id: string, url: string): boolean {
+  const rule = urlPolicyRules.find(r => r.id === id);
+  return !!rule && matchesUrlPolicyRule(rule, url, 'navigation', URL_POLICY_CHECKS);
+}
 
-export function processUrl(inputUrl: string, context: 'navigation' | 'resource' | 'ad' = 'navigation'): {
+export interface ProcessUrlResult {
   url: string;
   blocked: boolean;
   reason?: string;
   redirect?: string;
   showAlert?: boolean;  // Whether to show an alert to the user
-} {
+  source?: string;      // Blocklist source id that matched (e.g. 'embedded:adult', 'external:nsfw.oisd')
+  rule?: string;        // Blocklist entry that matched (the domain or one of its parents)
+  category?: BlocklistCategory;  // Category of the matching source, if it has one
+  alias?: string;       // Name in the host's CNAME chain that matched, when blocked by the DNS check
+  policyRule?: string;  // Id of the URL policy rule that blocked the URL
+  wrappers?: string[];  // Redirector links and short links the blocked URL was reached through, outermost first
+}
+
+// Result for a URL whose domain (or one of its aliases) is on a blocklist
+function toBlockedDomainResult(url: string, entry: DomainMatch, context: 'navigation' | 'resource' | 'ad'): ProcessUrlResult {
+  // Name the kind of site (social media, app store...) when the list has a category
+  const category = getBlockingCategory(entry.source);
+  return {
+    url,
+    blocked: true,
+    reason: category ? category.blockReason : "This website is blocked for safety",
+    showAlert: context === 'navigation',  // Only show alert for user-initiated navigation to blocked sites
+    source: entry.source,
+    rule: entry.domain,
+    category: category?.id,
+  };
+}
+
+export function processUrl(inputUrl: string, context: 'navigation' | 'resource' | 'ad' = 'navigation'): ProcessUrlResult {
   let url = inputUrl.trim();
 
   // Handle special schemes (deep links) - don't prepend https://
-  const hasScheme = /^[a-z][a-z0-9+.-]*:/i.test(url);
-  const isWebScheme = url.startsWith("http://") || url.startsWith("https://");
+  const hasScheme = hasUrlProtocol(url);
+  // Browsers read 'HTTPS:example.com' and 'https:/example.com' as web URLs too
+  const isWebScheme = /^https?:/i.test(url);
 
   if (!hasScheme) {
     url = `https://${url}`;
@@ -387,120 +569,144 @@ export function processUrl(inputUrl: string, context: 'navigation' | 'resource'
     // It's a non-web scheme (fb://, intent://, whatsapp:// etc.)
     // We allow it to pass through so handleShouldStartLoadWithRequest can deal with it
     return { url, blocked: false };
-  } else if (url.startsWith("http://")) {
+  } else if (/^http:/i.test(url)) {
     // Upgrade HTTP to HTTPS to avoid cleartext traffic errors
-    url = url.replace(/^http:\/\//i, "https://");
+    url = url.replace(/^http:\/*/i, "https://");
   }
 
-  if (isApkDownload(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "APK downloads are not allowed",
-      showAlert: context === 'navigation',
-    };
+  // A link through a redirector (google.com/url?q=, l.facebook.com/l.php?u=)
+  // is blocked when the URL it leads to is
+  const { url: target, wrappers } = unwrapRedirects(url);
+  if (wrappers.length > 0) {
+    const targetResult = applyUrlPolicy(target, context);
+    if (targetResult.blocked) {
+      console.log(`[ContentFilter] Blocked ${target} behind ${wrappers[0]}`);
+      return { ...targetResult, wrappers };
+    }
   }
 
-  if (isBlockedSearchQuery(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This search is not allowed",
-      showAlert: context === 'navigation',
-    };
-  }
+  return applyUrlPolicy(url, context);
+}
 
-  if (isBlockedKeywordInUrl(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This website is blocked for safety",
-      showAlert: context === 'navigation',
-    };
+// Run a web URL through the URL policy rules
+function applyUrlPolicy(url: string, context: 'navigation' | 'resource' | 'ad'): ProcessUrlResult {
+  // The blocklist entry is kept for the result, which names the list
+  let domainEntry: DomainMatch | null = null;
+  const decision = evaluateUrlPolicy(urlPolicyRules, url, context, {
+    ...URL_POLICY_CHECKS,
+    'blocklist': target => (domainEntry = findBlockedDomainEntry(target)) !== null,
+  });
+
+  const rule = decision.rule;
+  if (!decision.blocked || !rule) {
+    return { url: decision.url, blocked: false, showAlert: false };
   }
 
-  if (isBlockedDomain(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This website is blocked for safety",
-      showAlert: context === 'navigation'  // Only show alert for user-initiated navigation to blocked sites
-    };
-  }
+  const entry = usesPolicyCheck(rule, 'blocklist') ? (domainEntry as DomainMatch | null) : null;
+  const result = entry
+    ? toBlockedDomainResult(decision.url, entry, context)
+    : { url: decision.url, blocked: true, reason: getUrlPolicyMessage(rule), showAlert: context === 'navigation' };
+  return {
+    ...result,
+    reason: rule.message || result.reason,
+    showAlert: result.showAlert && rule.alert !== false,  // Only show alert for user-initiated navigation
+    policyRule: rule.id,
+  };
+}
 
+// Whether a rule refers to a check, so its result can describe what the check found
+function usesPolicyCheck(rule: UrlPolicyRule, check: string): boolean {
+  const alternatives = Array.isArray(rule.match) ? rule.match : [rule.match];
+  return alternatives.some(match => match.check === check);
+}
 
-  if (isBlockedSearchEngine(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This search engine is not allowed. Please use Google.",
-      showAlert: context === 'navigation'  // Only show alert for user-initiated search engine visits
-    };
+// Host of a top-level navigation for the DNS check, or null if it has none
+// to check (IP addresses, sign-in pages, non-web URLs)
+function getDnsCheckHost(url: string): string | null {
+  if (!/^https?:\/\//i.test(url) || isIdentityProviderUrl(url)) {
+    return null;
   }
+  const canonical = canonicalizeUrl(url);
+  return canonical && canonical.host.includes('.') && !canonical.ip ? canonical.host : null;
+}
 
-  // Block Google Images, Videos, and Shorts sections
-  if (isBlockedGoogleSection(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "Google Images, Videos, and Shorts are blocked",
-      showAlert: context === 'navigation'  // Only show alert for user-initiated navigation
-    };
+// Check a top-level navigation against the blocklists by the aliases (CNAME
+// chain) of its host, resolved over DNS-over-HTTPS when the DNS check is on.
+// Resolves to null when no alias is blocked, or the check is off or failed.
+export async function checkNavigationDns(url: string): Promise<ProcessUrlResult | null> {
+  const host = getDnsCheckHost(url);
+  const aliases = host ? await resolveHostAliases(host) : null;
+  const blocked = host && aliases ? findBlockingAlias(host, aliases) : null;
+  if (!blocked) {
+    return null;
   }
+  console.log(`[ContentFilter] ${host} is an alias of blocked ${blocked.alias}`);
+  return { ...toBlockedDomainResult(url, blocked.match, 'navigation'), alias: blocked.alias };
+}
 
-  if (isNsfwRedditUrl(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This Reddit content is blocked for safety",
-      showAlert: context === 'navigation'  // Only show alert for user-initiated navigation
-    };
-  }
+// Same as checkNavigationDns, from cached DNS answers only, so it can run
+// before a page starts loading. Null when not blocked or not cached.
+export function getCachedNavigationDnsBlock(url: string): ProcessUrlResult | null {
+  const host = getDnsCheckHost(url);
+  const aliases = host ? getCachedHostAliases(host) : null;
+  const blocked = host && aliases ? findBlockingAlias(host, aliases) : null;
+  return blocked ? { ...toBlockedDomainResult(url, blocked.match, 'navigation'), alias: blocked.alias } : null;
+}
 
-  if (isBlockedRedditPath(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This Reddit page is blocked",
-      showAlert: context === 'navigation'  // Only show alert for user-initiated navigation
-    };
-  }
+// Short link (t.co, bit.ly...) a navigation goes to, possibly behind
+// redirectors, with the redirector links before it
+function getShortLink(url: string): { shortLink: string; wrappers: string[] } | null {
+  const { url: target, wrappers } = unwrapRedirects(url);
+  return isShortLinkUrl(target) ? { shortLink: target, wrappers } : null;
+}
 
-  if (isBlockedInstagramUrl(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This Instagram content is blocked. Only reels and posts are allowed.",
-      showAlert: context === 'navigation'  // Only show alert for user-initiated navigation
-    };
+// Result for the target of a short link, or null if it is not blocked
+function checkShortLinkTarget(link: { shortLink: string; wrappers: string[] }, target: string): ProcessUrlResult | null {
+  const result = processUrl(target, 'navigation');
+  if (!result.blocked) {
+    return null;
   }
+  console.log(`[ContentFilter] ${link.shortLink} leads to blocked ${result.url}`);
+  return { ...result, wrappers: [...link.wrappers, link.shortLink, ...(result.wrappers || [])] };
+}
 
-  // Redirect Facebook URLs to mobile version to avoid deep link issues
-  if ((url.includes('facebook.com') || url.includes('www.facebook.com') || url.includes('fb.com')) && !url.includes('mbasic.facebook.com')) {
-    console.log('[ContentFilter] Redirecting Facebook URL to mobile version:', url);
-    const facebookUrl = new URL(url);
-    const path = facebookUrl.pathname;
-    const search = facebookUrl.search;
-
-    // Construct mobile Facebook URL
-    const mobileUrl = new URL(path + search, 'https://mbasic.facebook.com');
-    url = mobileUrl.toString();
-    console.log('[ContentFilter] Converted to mobile URL:', url);
-  }
+// Whether a top-level navigation goes to a short link whose target is not
+// known yet, so it should wait for checkNavigationShortLink
+export function needsShortLinkCheck(url: string): boolean {
+  const link = getShortLink(url);
+  return !!link && isShortLinkCheckEnabled() && getCachedShortLink(link.shortLink) === null;
+}
 
-  if (isBlockedFacebookUrl(url)) {
-    return {
-      url,
-      blocked: true,
-      reason: "This Facebook content is blocked for safety",
-      showAlert: context === 'navigation'  // Only show alert for user-initiated navigation
-    };
-  }
+// Check where a short link a top-level navigation goes to leads, asking the
+// shortener when the short link check is on. Resolves to null when the
+// target is not blocked, or the check is off or failed.
+export async function checkNavigationShortLink(url: string): Promise<ProcessUrlResult | null> {
+  const link = getShortLink(url);
+  const target = link ? await resolveShortLink(link.shortLink) : null;
+  return link && target ? checkShortLinkTarget(link, target) : null;
+}
 
-  url = enforceGoogleSafeSearch(url);
-  url = enforceRedditSafe(url);
+// Same as checkNavigationShortLink, from cached targets only. Null when not
+// blocked or not cached.
+export function getCachedShortLinkBlock(url: string): ProcessUrlResult | null {
+  const link = getShortLink(url);
+  const target = link ? getCachedShortLink(link.shortLink) : null;
+  return link && target ? checkShortLinkTarget(link, target) : null;
+}
 
-  return { url, blocked: false, showAlert: false };
+// Build the alert text for a blocked URL, naming the list that blocked it
+// and the redirectors or short links the link went through
+export function getBlockAlertMessage(result: ProcessUrlResult): string {
+  const reason = result.reason || 'This content is blocked';
+  const wrappers = result.wrappers?.length
+    ? `Link through: ${result.wrappers.map(wrapper => canonicalizeUrl(wrapper)?.host || wrapper).join(' → ')}`
+    : '';
+  if (!result.source) {
+    return wrappers ? `${reason}\n\n${wrappers}` : reason;
+  }
+  const via = result.alias ? `\nAlias of: ${result.alias}` : '';
+  const link = wrappers ? `\n${wrappers}` : '';
+  return `${reason}\n\nBlocked by: ${describeBlocklistSource(result.source)}\nRule: ${result.rule}${via}${link}`;
 }
 
 export function isValidUrl(input: string): boolean {
@@ -0,0 +1,52 @@
+// ====================================================================
+// ========= COSMETIC FILTERS (ELEMENT HIDING FROM BLOCKLISTS) =========
+// ====================================================================
+
+// Hides page elements matched by the ##selector rules of the enabled
+// blocklists. The selectors for the current site come from
+// getCosmeticSelectors() in the Blocklist module.
+
+const COSMETIC_STYLE_ID = 'safebrowse-cosmetic-filter';
+
+/**
+ * Build the hiding stylesheet: one rule per selector, so a selector the
+ * WebView does not understand only drops its own rule
+ */
+function buildCosmeticCss(selectors: string[]): string {
+  return selectors.map(selector => `${selector}{display:none!important}`).join('\n');
+}
+
+/**
+ * Get the preload script that injects the hiding stylesheet for a page
+ * (runs before page content loads)
+ */
+export function getCosmeticFilterScript(selectors: string[]): string {
+  if (selectors.length === 0) {
+    return 'true;';
+  }
+
+  return `
+(function() {
+  'use strict';
+  if (window.__cosmeticFilterInjected) return;
+  window.__cosmeticFilterInjected = true;
+
+  var css = ${JSON.stringify(buildCosmeticCss(selectors))};
+
+  function inject() {
+    if (document.getElementById('${COSMETIC_STYLE_ID}')) return;
+    var parent = document.head || document.documentElement;
+    if (!parent) return;
+    var style = document.createElement('style');
+    style.id = '${COSMETIC_STYLE_ID}';
+    style.textContent = css;
+    parent.appendChild(style);
+  }
+
+  inject();
+  // Pages that rebuild <head> while loading drop the early stylesheet
+  document.addEventListener('DOMContentLoaded', inject);
+})();
+true;
+`;
+}
@@ -0,0 +1,364 @@
+// ====================================================================
+// =============== KEYWORD FILTER =====================================
+// ====================================================================
+
+// Blocked keywords are looked for in the words of a URL rather than in its
+// raw text, so they still match when written around the filter:
+// - Compatibility forms (ｐｏｒｎ), accents (pórn) and invisible characters
+//   (zero-width space, soft hyphen)
+// - Arabic diacritics (harakat), tatweel (ســكس), the forms of alef, ya and
+//   ta marbuta (أ إ آ ٱ → ا, ى → ي, ة → ه), Persian letters and digits
+// - Leetspeak (p0rn, $ex) and letters written apart (p o r n, a.p.k)
+//
+// A term can be limited to whole words, so 'apk' matches 'whatsapp.apk'
+// and 'apk download' but not 'hapkido', and to some parts of the URL: the
+// search box of a search engine ('query'), the path or the host. Search
+// engines name their search box differently (q, p on Yahoo, wd on Baidu,
+// text on Yandex, k on Amazon); see DEFAULT_KEYWORD_SEARCH_PARAMS.
+//
+// This module has no React Native imports so the Node tests can use it.
+
+import { toUnicodeDomain } from '../Blocklist/idn';
+import { CanonicalUrl, canonicalizeUrl, isHostOnDomain } from '../canonical-url';
+
+export type KeywordScope = 'query' | 'path' | 'host';
+
+export const KEYWORD_SCOPES: KeywordScope[] = ['query', 'path', 'host'];
+
+/**
+ * A blocked word or phrase
+ */
+export interface KeywordTerm {
+  /** The word or phrase, in any script */
+  term: string;
+  /** Match whole words only (default false: the term may be part of a word) */
+  wholeWord?: boolean;
+  /** Parts of the URL the term is looked for in (default all) */
+  scopes?: KeywordScope[];
+}
+
+/**
+ * Search box parameters by site name ('yahoo' covers every public suffix)
+ * or domain ('search.example.com'); '*' lists those of every site
+ */
+export type KeywordSearchParams = { [site: string]: string[] };
+
+export const DEFAULT_KEYWORD_SEARCH_PARAMS: KeywordSearchParams = {
+  '*': ['q', 'query', 'search', 'search_query', 'keyword', 'keywords'],
+  'yahoo': ['p'],
+  'baidu': ['wd', 'word'],
+  'yandex': ['text'],
+  'amazon': ['k', 'field-keywords'],
+  'ebay': ['_nkw'],
+  'aliexpress': ['SearchText'],
+};
+
+/**
+ * Letters folded to one form once accents and Arabic marks are removed
+ * (أ, إ and آ lose their hamza or madda and become ا on their own)
+ */
+export const LETTER_FOLDS: { [letter: string]: string } = {
+  // Arabic
+  'ة': 'ه', 'ى': 'ي', 'ٱ': 'ا',
+  // Persian and Urdu
+  'ک': 'ك', 'ی': 'ي', 'ە': 'ه', 'ھ': 'ه',
+  // Latin letters without a decomposition
+  'ß': 'ss', 'ı': 'i', 'ł': 'l', 'ø': 'o', 'đ': 'd', 'æ': 'ae', 'œ': 'oe',
+};
+
+// Digits and symbols read as letters in leetspeak
+const LEET_LETTERS: { [character: string]: string } = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g', '@': 'a', '$': 's',
+};
+
+// Invisible characters and the tatweel (Arabic letter stretching), dropped
+const IGNORED_CHARACTERS = /[\u00ad\u200b-\u200f\u2060\ufeff\u0640]/g;
+
+// Arabic-Indic and Persian digits
+const EASTERN_DIGITS = /[\u0660-\u0669\u06f0-\u06f9]/g;
+
+// A word: letters, digits, and the symbols leetspeak uses as letters
+const WORD = /[\p{L}\p{N}@$]+/gu;
+
+// Letters written apart ('p o r n') are joined when at least this many follow each other
+const MIN_SPACED_LETTERS = 3;
+
+// The Arabic article with the prepositions written before it (السكس,
+// والسكس, بالسكس), so whole-word terms match the word it is attached to
+const ARABIC_ARTICLE = /^(?:[وفبك]?ال|[وف]?لل)(?=\p{L}{2})/u;
+
+/**
+ * Fold text for keyword matching: compatibility forms, lowercase, no
+ * accents or Arabic diacritics, no invisible characters or tatweel,
+ * Western digits and one form per letter (see LETTER_FOLDS)
+ */
+export function foldKeywordText(text: string): string {
+  const folded = text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(IGNORED_CHARACTERS, '')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(EASTERN_DIGITS, digit => String(digit.charCodeAt(0) & 0xf));
+  return Array.from(folded, letter => LETTER_FOLDS[letter] ?? letter).join('');
+}
+
+/**
+ * foldKeywordText() for page scripts, as `function foldKeywordText(text)`
+ */
+export const FOLD_KEYWORD_TEXT_JS = `
+  var LETTER_FOLDS = ${JSON.stringify(LETTER_FOLDS)};
+  // Combining marks; Latin accents and Arabic diacritics where \\p{M} is not supported
+  var MARKS;
+  try {
+    MARKS = new RegExp('\\\\p{M}', 'gu');
+  } catch (e) {
+    MARKS = /[\\u0300-\\u036f\\u0610-\\u061a\\u064b-\\u065f\\u0670\\u06d6-\\u06ed]/g;
+  }
+  function foldKeywordText(text) {
+    var folded = text
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(${IGNORED_CHARACTERS.toString()}, '')
+      .normalize('NFD')
+      .replace(MARKS, '')
+      .replace(${EASTERN_DIGITS.toString()}, function (digit) { return String(digit.charCodeAt(0) & 0xf); });
+    return Array.from(folded, function (letter) { return LETTER_FOLDS[letter] || letter; }).join('');
+  }
+`;
+
+// Words of folded text, with letters written apart joined into one word
+function toWords(text: string): string[] {
+  const words: string[] = [];
+  let letters: string[] = [];
+  const flush = () => {
+    if (letters.length >= MIN_SPACED_LETTERS) words.push(letters.join(''));
+    else words.push(...letters);
+    letters = [];
+  };
+  for (const word of foldKeywordText(text).match(WORD) || []) {
+    if (Array.from(word).length === 1) {
+      letters.push(word);
+    } else {
+      flush();
+      words.push(word);
+    }
+  }
+  flush();
+  return words;
+}
+
+// A word with its leetspeak read as letters; numbers stay as they are
+function toLeet(word: string): string {
+  return /\p{L}/u.test(word) ? Array.from(word, character => LEET_LETTERS[character] ?? character).join('') : word;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface CompiledTerm {
+  keyword: KeywordTerm;
+  words: string[];
+  leetWords: string[];
+  scopes: KeywordScope[];
+}
+
+// Words of a part of a URL, as written and with leetspeak read as letters
+interface TextWords {
+  words: string[];
+  leetWords: string[];
+}
+
+function wordMatches(word: string, termWord: string): boolean {
+  return word === termWord || word.replace(ARABIC_ARTICLE, '') === termWord;
+}
+
+function containsPhrase(words: string[], phrase: string[], wholeWord: boolean): boolean {
+  if (!wholeWord) {
+    return words.join(' ').includes(phrase.join(' '));
+  }
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((termWord, j) => wordMatches(words[i + j], termWord))) return true;
+  }
+  return false;
+}
+
+function matchesTerm(term: CompiledTerm, text: TextWords): boolean {
+  const wholeWord = term.keyword.wholeWord === true;
+  return containsPhrase(text.words, term.words, wholeWord) || containsPhrase(text.leetWords, term.leetWords, wholeWord);
+}
+
+/**
+ * Finds blocked keywords in URLs
+ */
+export class KeywordMatcher {
+  private readonly terms: CompiledTerm[];
+  /** Lowercase search box parameters by site name or domain */
+  private readonly searchParams: Map<string, Set<string>>;
+
+  constructor(terms: KeywordTerm[], searchParams: KeywordSearchParams = DEFAULT_KEYWORD_SEARCH_PARAMS) {
+    this.terms = terms
+      .map(keyword => {
+        const words = toWords(keyword.term);
+        return { keyword, words, leetWords: words.map(toLeet), scopes: keyword.scopes || KEYWORD_SCOPES };
+      })
+      .filter(term => term.words.length > 0);
+    this.searchParams = new Map(
+      Object.entries(searchParams).map(([site, params]) => [site.toLowerCase(), new Set(params.map(p => p.toLowerCase()))])
+    );
+  }
+
+  /**
+   * The first term found in the given parts of a URL, or null
+   */
+  match(url: string, scopes: KeywordScope[] = KEYWORD_SCOPES): KeywordTerm | null {
+    const canonical = canonicalizeUrl(url);
+    if (!canonical) return null;
+
+    for (const scope of scopes) {
+      const terms = this.terms.filter(term => term.scopes.includes(scope));
+      if (terms.length === 0) continue;
+      for (const text of this.getTexts(canonical, scope)) {
+        const words = toWords(text);
+        const found = terms.find(term => matchesTerm(term, { words, leetWords: words.map(toLeet) }));
+        if (found) return found.keyword;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Names of the search box parameters on a URL's site (lowercase)
+   */
+  getSearchParams(url: CanonicalUrl): Set<string> {
+    const names = new Set(this.searchParams.get('*'));
+    this.searchParams.forEach((params, site) => {
+      const matches = site.includes('.') ? isHostOnDomain(url.host, site) : site === url.site;
+      if (matches) params.forEach(param => names.add(param));
+    });
+    return names;
+  }
+
+  // Texts of a part of a URL the terms are looked for in
+  private getTexts(url: CanonicalUrl, scope: KeywordScope): string[] {
+    switch (scope) {
+      case 'query': {
+        const names = this.getSearchParams(url);
+        return Array.from(url.params).filter(([name]) => names.has(name.toLowerCase())).map(([, value]) => value);
+      }
+      case 'path':
+        return [url.path];
+      case 'host':
+        // Look-alike letters folded, and IDN hosts in their own script
+        return Array.from(new Set([url.host, url.skeleton, toUnicodeDomain(url.host)]));
+    }
+  }
+}
+
+// Letters and digits in page script patterns
+const WORD_CHARACTERS = '\\p{L}\\p{N}';
+
+/**
+ * Letters and digits spelled out by script range, for engines without
+ * Unicode property escapes (see getKeywordRegexSource())
+ */
+export const FALLBACK_WORD_CHARACTERS =
+  'a-z0-9\\u00c0-\\u024f\\u0370-\\u03ff\\u0400-\\u04ff\\u0590-\\u05ff\\u0600-\\u06ff\\u0750-\\u077f' +
+  '\\u0900-\\u097f\\u0e00-\\u0e7f\\u3040-\\u30ff\\u4e00-\\u9fff\\uac00-\\ud7af';
+
+/**
+ * Regular expression (flags 'u') finding the terms in text folded with
+ * foldKeywordText(), for page scripts. Unlike KeywordMatcher it does not
+ * read leetspeak or letters written apart. A whole-word term starts the
+ * text or follows a character that is not a letter or digit: lookbehind
+ * would be shorter, but engines before iOS 16.4 reject it. With
+ * FALLBACK_WORD_CHARACTERS the pattern needs no flags.
+ */
+export function getKeywordRegexSource(terms: KeywordTerm[], wordCharacters: string = WORD_CHARACTERS): string {
+  const alternatives = terms
+    .map(keyword => {
+      const words = foldKeywordText(keyword.term).match(WORD) || [];
+      if (words.length === 0) return null;
+      const phrase = words.map(escapeRegex).join(`[^${wordCharacters}]+`);
+      return keyword.wholeWord ? `(?:^|[^${wordCharacters}])${phrase}(?![${wordCharacters}])` : phrase;
+    })
+    .filter((alternative): alternative is string => alternative !== null);
+  // A pattern that never matches when there are no terms
+  return alternatives.length > 0 ? alternatives.join('|') : '(?!)';
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function validateTerm(term: unknown): string | null {
+  if (typeof term === 'string') {
+    return term.trim() ? null : 'empty term';
+  }
+  if (!term || typeof term !== 'object') return 'a term must be a string or an object';
+  const { term: text, wholeWord, scopes } = term as { [key: string]: unknown };
+  if (typeof text !== 'string' || !text.trim()) return 'missing "term"';
+  if (wholeWord !== undefined && typeof wholeWord !== 'boolean') return `${text}: "wholeWord" must be true or false`;
+  if (scopes !== undefined && (!isStringArray(scopes) || !scopes.every(s => KEYWORD_SCOPES.includes(s as KeywordScope)))) {
+    return `${text}: "scopes" must list ${KEYWORD_SCOPES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Parse keyword terms: a JSON list of terms, each a string (part of a word,
+ * everywhere) or a KeywordTerm object; or comma-separated words. Invalid
+ * terms are skipped and reported.
+ */
+export function parseKeywordTerms(raw: string): { terms: KeywordTerm[]; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    const terms = raw.split(',').map(term => term.trim()).filter(Boolean).map(term => ({ term }));
+    return { terms, errors: [] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { terms: [], errors: ['Keyword terms must be a JSON list'] };
+  }
+
+  const terms: KeywordTerm[] = [];
+  const errors: string[] = [];
+  parsed.forEach((term, index) => {
+    const error = validateTerm(term);
+    if (error) {
+      errors.push(`Term ${index + 1}: ${error}`);
+    } else {
+      terms.push(typeof term === 'string' ? { term: term.trim() } : (term as KeywordTerm));
+    }
+  });
+  return { terms, errors };
+}
+
+/**
+ * Parse search box parameters: a JSON object of site names or domains to
+ * lists of parameter names. Invalid entries are skipped and reported.
+ */
+export function parseKeywordSearchParams(raw: string): { searchParams: KeywordSearchParams; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { searchParams: {}, errors: ['The search parameters are not valid JSON'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { searchParams: {}, errors: ['Search parameters must be a JSON object'] };
+  }
+
+  const searchParams: KeywordSearchParams = {};
+  const errors: string[] = [];
+  Object.entries(parsed).forEach(([site, params]) => {
+    if (isStringArray(params)) {
+      searchParams[site] = params;
+    } else {
+      errors.push(`${site}: expected a list of parameter names`);
+    }
+  });
+  return { searchParams, errors };
+}
@@ -1,6 +1,8 @@
 // Bypass paywall logic ported from bypass-paywalls-firefox-clean
 // Mechanisms: UA spoofing, paywall script blocking, DOM manipulation, JSON extraction
 
+import { canonicalizeUrl } from '../canonical-url';
+
 // ══════════════════════════════════════════════════════════════════════════════
 //  SIMPLE GOOGLEBOT SITES — just add the domain, global blockers do the rest
 // ══════════════════════════════════════════════════════════════════════════════
@@ -514,13 +516,9 @@ export function getBypassRule(hostname: string): BypassRule | null {
 }
 
 export function getBypassUA(url: string): string | null {
-  try {
-    const h = new URL(url.startsWith('http') ? url : `https://${url}`).hostname;
-    const rule = findRule(h);
-    return rule?.ua ? (UA_MAP[rule.ua] ?? null) : null;
-  } catch {
-    return null;
-  }
+  const h = canonicalizeUrl(url)?.host;
+  const rule = h ? findRule(h) : null;
+  return rule?.ua ? (UA_MAP[rule.ua] ?? null) : null;
 }
 
 // ─────────────────────── Build injected JS strings ───────────────────────────
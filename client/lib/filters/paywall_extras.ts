@@ -16,6 +16,7 @@
  * ─────────────────────────────────────────────────────────────────────────────
  */
 
+import { canonicalizeUrl } from '../canonical-url';
 import { getBypassRule } from './paywall_bypass';
 
 // ══════════════════════════════════════════════════════════════════════════════
@@ -91,24 +92,22 @@ const REFERER_DOMAINS: Record<string, string> = {
  *   <WebView source={{ uri: url, ...getRefererHeaders(url) }} />
  */
 export function getRefererHeaders(url: string): { headers?: Record<string, string> } {
-  try {
-    const hostname = new URL(url.startsWith('http') ? url : `https://${url}`)
-      .hostname.toLowerCase().replace(/^www\./, '');
+  const hostname = canonicalizeUrl(url)?.domain;
+  if (!hostname) return {};
 
-    // Direct match
-    if (REFERER_DOMAINS[hostname]) {
-      return { headers: { Referer: REFERER_DOMAINS[hostname] } };
-    }
+  // Direct match
+  if (REFERER_DOMAINS[hostname]) {
+    return { headers: { Referer: REFERER_DOMAINS[hostname] } };
+  }
 
-    // Subdomain match (e.g. asia.nikkei.com → nikkei.com)
-    const parts = hostname.split('.');
-    for (let i = 1; i < parts.length; i++) {
-      const parent = parts.slice(i).join('.');
-      if (REFERER_DOMAINS[parent]) {
-        return { headers: { Referer: REFERER_DOMAINS[parent] } };
-      }
+  // Subdomain match (e.g. asia.nikkei.com → nikkei.com)
+  const parts = hostname.split('.');
+  for (let i = 1; i < parts.length; i++) {
+    const parent = parts.slice(i).join('.');
+    if (REFERER_DOMAINS[parent]) {
+      return { headers: { Referer: REFERER_DOMAINS[parent] } };
     }
-  } catch {}
+  }
   return {};
 }
 
@@ -220,12 +219,8 @@ export function getArchiveNewestUrl(url: string): string {
  * Detects if the current URL is already an archive.ph URL.
  */
 export function isArchiveUrl(url: string): boolean {
-  try {
-    const host = new URL(url).hostname.toLowerCase();
-    return host === 'archive.ph' || host === 'archive.is' || host === 'archive.today';
-  } catch {
-    return false;
-  }
+  const host = canonicalizeUrl(url)?.host;
+  return host === 'archive.ph' || host === 'archive.is' || host === 'archive.today';
 }
 
 /**
@@ -336,7 +331,7 @@ const AMP_DOMAINS: Record<string, (path: string, search: string) => string> = {
 export function getAmpUrl(url: string): string | null {
   try {
     const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const hostname = urlObj.hostname.toLowerCase().replace(/^www\./, '');
+    const hostname = canonicalizeUrl(url)?.domain ?? '';
     const path = urlObj.pathname;
     const search = urlObj.search;
 
@@ -365,17 +360,13 @@ export function getAmpUrl(url: string): string | null {
  * Returns true if the URL is a known AMP URL (already on AMP version).
  */
 export function isAmpUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    return (
-      urlObj.pathname.endsWith('/amp') ||
-      urlObj.pathname.endsWith('/amp/') ||
-      urlObj.search.includes('amp=1') ||
-      urlObj.hostname.startsWith('amp.')
-    );
-  } catch {
-    return false;
-  }
+  const canonical = canonicalizeUrl(url);
+  return !!canonical && (
+    canonical.path.endsWith('/amp') ||
+    canonical.path.endsWith('/amp/') ||
+    canonical.params.get('amp') === '1' ||
+    canonical.host.startsWith('amp.')
+  );
 }
 
 
@@ -2,6 +2,9 @@
 // =============== REDDIT FILTERS AND CONSTANTS =======================
 // ====================================================================
 
+import { canonicalizeUrl, isHostOnDomain } from '../canonical-url';
+import { evaluateUrlPolicy, matchesUrlPolicyRule, UrlPolicyRule } from './url_policy';
+
 // Specific Reddit paths to block
 export const BLOCKED_REDDIT_PATHS = [
   "/settings",
@@ -24,83 +27,81 @@ export const WILDCARD_REDDIT_KEYWORDS = safeParseArray(process.env.WILDCARD_REDD
 // Subreddit patterns for exact matching
 export const NSFW_REDDIT_PATTERNS = safeParseArray(process.env.SUBREDDIT_PATTERNS_BLOCKED_LIST);
 
+// Escape a keyword for use in a regular expression
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
- * Check if Reddit URL is NSFW based on patterns and keywords
+ * Reddit rules of the URL policy (see url_policy.ts)
  */
-export function isNsfwRedditUrl(url: string): boolean {
-  const lowercaseUrl = url.toLowerCase();
-  if (!lowercaseUrl.includes("reddit.com")) {
-    return false;
-  }
-
-  if (NSFW_REDDIT_PATTERNS.some((pattern) =>
-    lowercaseUrl.includes(pattern.toLowerCase()),
-  )) {
-    return true;
-  }
+export const REDDIT_POLICY_RULES: UrlPolicyRule[] = [
+  {
+    id: 'reddit-nsfw',
+    description: 'Subreddits on the NSFW lists of .env',
+    match: [
+      { hosts: ['reddit.com'], urlContains: NSFW_REDDIT_PATTERNS },
+      ...(WILDCARD_REDDIT_KEYWORDS.length > 0
+        ? [{ hosts: ['reddit.com'], regex: `/r/[a-z0-9_]*(?:${WILDCARD_REDDIT_KEYWORDS.map(escapeRegex).join('|')})` }]
+        : []),
+    ],
+    action: 'block',
+    message: 'This Reddit content is blocked for safety',
+  },
+  {
+    id: 'reddit-paths',
+    description: 'Reddit pages outside browsing (settings, search)',
+    match: { hosts: ['reddit.com'], paths: BLOCKED_REDDIT_PATHS },
+    action: 'block',
+    message: 'This Reddit page is blocked',
+  },
+  {
+    id: 'reddit-safe',
+    description: 'Hide NSFW posts; left off search pages, where it interferes with the results',
+    match: { hosts: ['reddit.com'] },
+    unless: [{ pathContains: ['/search'] }],
+    action: 'rewrite',
+    setQuery: { over18: '0' },
+  },
+];
 
-  const subredditMatch = lowercaseUrl.match(/\/r\/([a-z0-9_]+)/i);
-  if (subredditMatch) {
-    const subredditName = subredditMatch[1].toLowerCase();
-    if (WILDCARD_REDDIT_KEYWORDS.some((keyword) =>
-      subredditName.includes(keyword),
-    )) {
-      return true;
-    }
-  }
+function getRedditRule(id: string): UrlPolicyRule {
+  return REDDIT_POLICY_RULES.find(rule => rule.id === id)!;
+}
 
-  return false;
+/**
+ * Check if Reddit URL is NSFW based on patterns and keywords
+ */
+export function isNsfwRedditUrl(url: string): boolean {
+  return matchesUrlPolicyRule(getRedditRule('reddit-nsfw'), url);
 }
 
 /**
  * Check if Reddit URL matches blocked paths
  */
 export function isBlockedRedditPath(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-    const domain = urlObj.hostname.toLowerCase();
-    const path = urlObj.pathname.toLowerCase();
-
-    if (!domain.includes("reddit.com")) {
-      return false;
-    }
-
-    return BLOCKED_REDDIT_PATHS.some((blockedPath) =>
-      path === blockedPath || path.startsWith(blockedPath + "/"),
-    );
-  } catch {
-    return false;
-  }
+  return matchesUrlPolicyRule(getRedditRule('reddit-paths'), url);
 }
 
 /**
  * Check if URL is a subreddit page
  */
 export function isSubredditPage(url: string): boolean {
-  try {
-    const urlObj = new URL(url);
-    if (!urlObj.hostname.toLowerCase().includes("reddit.com")) {
-      return false;
-    }
-    // Check if path matches /r/subreddit-name
-    // But it could also be /r/subreddit-name/comments/...
-    return /^\/r\/[a-z0-9_]+/i.test(urlObj.pathname);
-  } catch {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical || !isHostOnDomain(canonical.host, "reddit.com")) {
     return false;
   }
+  // Check if path matches /r/subreddit-name
+  // But it could also be /r/subreddit-name/comments/...
+  return /^\/r\/[a-z0-9_]+/i.test(canonical.path);
 }
 
 /**
  * Extract subreddit name from URL
  */
 export function getSubredditName(url: string): string | null {
-  try {
-    const urlObj = new URL(url);
-    const match = urlObj.pathname.match(/^\/r\/([a-z0-9_]+)/i);
-    return match ? match[1] : null;
-  } catch {
-    return null;
-  }
+  const match = canonicalizeUrl(url)?.path.match(/^\/r\/([a-z0-9_]+)/i);
+  return match ? match[1] : null;
 }
 
 
@@ -108,34 +109,15 @@ export function getSubredditName(url: string): string | null {
  * Enforce Reddit Safe Browsing by adding over18=0 parameter
  */
 export function enforceRedditSafe(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    const domain = urlObj.hostname.toLowerCase();
-
-    if (domain.includes("reddit.com")) {
-      // Don't modify search URLs as over18=0 can interfere with search results
-      if (urlObj.pathname.includes("/search")) {
-        return url;
-      }
-      urlObj.searchParams.set("over18", "0");
-      return urlObj.toString();
-    }
-    return url;
-  } catch {
-    return url;
-  }
+  return evaluateUrlPolicy([getRedditRule('reddit-safe')], url).url;
 }
 
 /**
  * Check if URL is a Reddit URL
  */
 export function isRedditUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.toLowerCase().includes("reddit.com");
-  } catch {
-    return false;
-  }
+  const canonical = canonicalizeUrl(url);
+  return !!canonical && isHostOnDomain(canonical.host, "reddit.com");
 }
 
 /**
@@ -0,0 +1,233 @@
+// ====================================================================
+// =============== REDIRECTORS AND SHORT LINKS ========================
+// ====================================================================
+
+// Links in search results, social media and mail often go through a
+// redirector: google.com/url?q=<target>, l.facebook.com/l.php?u=<target>.
+// Judged on the redirector's host they would all pass, and the target would
+// only be seen once the WebView is already on its way there. The target of
+// a known redirector is in the URL, so it is read out (through nested
+// redirectors too) and filtered before the link opens.
+//
+// Short links (t.co, bit.ly...) give nothing away: only the shortener knows
+// the target. ShortLinkResolver asks it with a HEAD request and reads the
+// redirect, without loading the page.
+//
+// This module has no React Native imports so the Node tests can use it.
+
+import { CanonicalUrl, canonicalizeUrl, GOOGLE_HOST_PATTERN, hasUrlProtocol, isHostOnDomain } from '../canonical-url';
+
+/**
+ * A redirector that carries its target in a query parameter
+ */
+export interface Redirector {
+  id: string;
+  /** The host or one of its parent domains */
+  hosts?: string[];
+  /** Pattern of the host, for domains under suffixes the public suffixes miss */
+  hostPattern?: RegExp;
+  /** Paths the redirector answers on (any path if not given) */
+  paths?: string[];
+  /** Parameters that may hold the target, in order */
+  params: string[];
+}
+
+export const REDIRECTORS: Redirector[] = [
+  { id: 'google', hostPattern: GOOGLE_HOST_PATTERN, paths: ['/url', '/link'], params: ['q', 'url'] },
+  { id: 'google-ads', hostPattern: GOOGLE_HOST_PATTERN, paths: ['/aclk'], params: ['adurl'] },
+  { id: 'youtube', hosts: ['youtube.com'], paths: ['/redirect'], params: ['q'] },
+  { id: 'facebook', hosts: ['facebook.com', 'messenger.com'], paths: ['/l.php'], params: ['u'] },
+  { id: 'instagram', hosts: ['l.instagram.com'], params: ['u'] },
+  { id: 'threads', hosts: ['l.threads.net'], params: ['u'] },
+  { id: 'duckduckgo', hosts: ['duckduckgo.com'], paths: ['/l'], params: ['uddg'] },
+  { id: 'reddit', hosts: ['out.reddit.com'], params: ['url'] },
+  { id: 'linkedin', hosts: ['linkedin.com'], paths: ['/redir/redirect'], params: ['url'] },
+  { id: 'tumblr', hosts: ['t.umblr.com'], paths: ['/redirect'], params: ['z'] },
+  { id: 'vk', hosts: ['away.vk.com', 'vk.com'], paths: ['/away.php'], params: ['to'] },
+  { id: 'steam', hosts: ['steamcommunity.com'], paths: ['/linkfilter'], params: ['u', 'url'] },
+  { id: 'outlook', hosts: ['safelinks.protection.outlook.com'], params: ['url'] },
+  { id: 'slack', hosts: ['slack-redir.net'], paths: ['/link'], params: ['url'] },
+];
+
+/**
+ * Link shorteners, whose targets can only be learned by asking them
+ */
+export const SHORT_LINK_HOSTS: string[] = [
+  't.co', 'bit.ly', 'bitly.com', 'j.mp', 'tinyurl.com', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 't.ly', 's.id', 'lnkd.in', 'fb.me',
+  'dlvr.it', 'trib.al', 'amzn.to', 'shorte.st', 'adf.ly', 'bl.ink', 'qrco.de', 'tr.ee',
+];
+
+// Redirectors followed into each other, against links wrapping themselves
+const MAX_REDIRECT_DEPTH = 5;
+
+// Shortener hops followed by the resolver (a short link to a short link...)
+const MAX_SHORT_LINK_HOPS = 5;
+
+const DEFAULT_TIMEOUT_MS = 3000;
+const SHORT_LINK_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHED_SHORT_LINKS = 200;
+
+function matchesRedirector(redirector: Redirector, url: CanonicalUrl): boolean {
+  if (redirector.hosts && !redirector.hosts.some(host => isHostOnDomain(url.host, host))) return false;
+  if (redirector.hostPattern && !redirector.hostPattern.test(url.host)) return false;
+  const path = url.path.toLowerCase().replace(/(.)\/+$/, '$1');
+  return !redirector.paths || redirector.paths.includes(path);
+}
+
+// A target as found in a parameter: a web URL, or a path on the redirector's own site
+function toTarget(value: string, base: string): string | null {
+  const trimmed = value.trim();
+  if (!hasUrlProtocol(trimmed) && !trimmed.startsWith('/')) return null;
+  try {
+    const target = new URL(trimmed, base);
+    return /^https?:$/.test(target.protocol) ? target.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Target of a link through a known redirector, or null if the URL is not one
+ */
+export function getRedirectTarget(url: string): string | null {
+  const canonical = canonicalizeUrl(url);
+  const redirector = canonical && REDIRECTORS.find(r => matchesRedirector(r, canonical));
+  if (!canonical || !redirector) return null;
+
+  // Parameters as written, decoded once: the target's own query stays encoded
+  const params = new URL(canonical.href).searchParams;
+  for (const param of redirector.params) {
+    const value = params.get(param);
+    const target = value ? toTarget(value, canonical.href) : null;
+    if (target) return target;
+  }
+  return null;
+}
+
+/**
+ * Follow a URL through known redirectors to the URL it leads to. wrappers
+ * lists the redirector links passed through, outermost first, and is
+ * empty when the URL is not a redirector link.
+ */
+export function unwrapRedirects(url: string): { url: string; wrappers: string[] } {
+  const wrappers: string[] = [];
+  let current = url;
+  while (wrappers.length < MAX_REDIRECT_DEPTH) {
+    const target = getRedirectTarget(current);
+    if (!target || target === current || wrappers.includes(target)) break;
+    wrappers.push(current);
+    current = target;
+  }
+  return { url: current, wrappers };
+}
+
+/**
+ * Whether a URL is a link on a shortener (see SHORT_LINK_HOSTS)
+ */
+export function isShortLinkUrl(url: string): boolean {
+  const canonical = canonicalizeUrl(url);
+  return !!canonical &&
+    canonical.path !== '/' &&
+    SHORT_LINK_HOSTS.some(host => canonical.host === host || canonical.host === `www.${host}`);
+}
+
+export interface ShortLinkResolverOptions {
+  /** Give up on a request after this many milliseconds */
+  timeoutMs?: number;
+  /** How long a resolved link is remembered */
+  ttlMs?: number;
+}
+
+interface CachedShortLink {
+  target: string;
+  expiresAt: number;
+}
+
+/**
+ * Learns where short links lead by asking the shortener with a HEAD
+ * request, with a cache
+ */
+export class ShortLinkResolver {
+  private readonly timeoutMs: number;
+  private readonly ttlMs: number;
+  /** Short link -> target, in insertion order for eviction */
+  private readonly cache = new Map<string, CachedShortLink>();
+  /** Requests in flight, so concurrent checks share one */
+  private readonly pending = new Map<string, Promise<string | null>>();
+
+  constructor(options: ShortLinkResolverOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.ttlMs = options.ttlMs ?? SHORT_LINK_TTL_MS;
+  }
+
+  /**
+   * Get the URL a short link leads to, following shorteners that lead to
+   * other shorteners. Null if the shortener did not redirect. Throws if a
+   * request fails.
+   */
+  resolve(url: string): Promise<string | null> {
+    const cached = this.getCached(url);
+    if (cached) return Promise.resolve(cached);
+
+    let request = this.pending.get(url);
+    if (!request) {
+      request = this.follow(url).finally(() => this.pending.delete(url));
+      this.pending.set(url, request);
+    }
+    return request;
+  }
+
+  /**
+   * Get the URL a short link leads to from the cache only, or null
+   */
+  getCached(url: string): string | null {
+    const entry = this.cache.get(url);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.cache.delete(url);
+      return null;
+    }
+    return entry.target;
+  }
+
+  /**
+   * Forget every resolved link
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async follow(url: string): Promise<string | null> {
+    let current = url;
+    for (let hop = 0; hop < MAX_SHORT_LINK_HOPS && isShortLinkUrl(current); hop++) {
+      const next = await this.request(current);
+      if (!next || next === current) break;
+      current = next;
+    }
+    if (current === url) return null;
+
+    this.cache.delete(url);
+    this.cache.set(url, { target: current, expiresAt: Date.now() + this.ttlMs });
+    // Drop the oldest entries first
+    while (this.cache.size > MAX_CACHED_SHORT_LINKS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return current;
+  }
+
+  // Where one shortener redirects: the Location header, or the final URL
+  // where fetch follows redirects anyway (React Native)
+  private async request(url: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(url, { method: 'HEAD', redirect: 'manual', signal: controller.signal });
+      const location = response.headers.get('location');
+      if (location) return toTarget(location, url);
+      return response.url && response.url !== url ? toTarget(response.url, url) : null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
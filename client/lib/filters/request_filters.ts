@@ -0,0 +1,371 @@
+// ====================================================================
+// ============ SUB-RESOURCE REQUEST BLOCKING (PAGE SCRIPT) ============
+// ====================================================================
+
+// Enforces the blocklists on the requests a page makes itself: fetch, XHR
+// and the src of scripts, images, frames and media. URL-pattern rules are
+// embedded and checked synchronously; host blocklists are too large to
+// embed, so the page asks the app about each new host (message
+// 'resourceHostCheck', answered through window.__safebrowseHostVerdicts).
+//
+// While a host's verdict is pending, fetch, async XHR, scripts and frames
+// wait for it; images and media load and are removed if the host turns out
+// to be blocked. Resources in the initial HTML cannot be stopped from here,
+// that is left to the native interceptor on Android.
+
+import type { ExportedNetworkFilter } from '../Blocklist/network';
+import { RESOURCE_TYPES } from '../Blocklist/network';
+
+// Limit on the URL rules embedded in every page; larger lists are still
+// enforced by the native interceptor on Android
+const MAX_PAGE_FILTERS = 10000;
+
+// How long a request waits for a host verdict before it is let through
+const HOST_VERDICT_TIMEOUT_MS = 3000;
+
+const FILTER_KINDS: { [kind in ExportedNetworkFilter['kind']]: number } = {
+  important: 0,
+  block: 1,
+  exception: 2,
+};
+
+/**
+ * Get the preload script blocking a page's sub-resource requests
+ */
+export function getRequestBlockingScript(filters: ExportedNetworkFilter[]): string {
+  if (filters.length > MAX_PAGE_FILTERS) {
+    console.log(`[RequestFilter] Embedding ${MAX_PAGE_FILTERS} of ${filters.length} URL rules`);
+  }
+
+  // [kind, token, regex, typeMask, party] with party 0 = any, 1 = third, 2 = first
+  const compact = filters.slice(0, MAX_PAGE_FILTERS).map(filter => [
+    FILTER_KINDS[filter.kind],
+    filter.token,
+    filter.regex,
+    filter.typeMask,
+    filter.thirdParty === undefined ? 0 : filter.thirdParty ? 1 : 2,
+  ]);
+
+  return `
+(function() {
+  'use strict';
+  if (window.__safebrowseRequestFilter) return;
+  window.__safebrowseRequestFilter = true;
+
+  var TYPES = ${JSON.stringify(RESOURCE_TYPES)};
+  var FILTERS = ${JSON.stringify(compact)};
+  var VERDICT_TIMEOUT = ${HOST_VERDICT_TIMEOUT_MS};
+
+  // ---- URL rules: token index per kind, regexes compiled on first use ----
+  var buckets = [{}, {}, {}];
+  var untokenized = [[], [], []];
+  for (var i = 0; i < FILTERS.length; i++) {
+    var f = FILTERS[i];
+    var entry = { src: f[2], re: null, mask: f[3], party: f[4] };
+    if (f[1]) {
+      (buckets[f[0]][f[1]] = buckets[f[0]][f[1]] || []).push(entry);
+    } else {
+      untokenized[f[0]].push(entry);
+    }
+  }
+
+  var pageHost = '';
+  try { pageHost = location.hostname.toLowerCase(); } catch (e) {}
+
+  function hostOf(url) {
+    var m = /^[a-z][a-z0-9+.-]*:\\/\\/(?:[^\\/?#@]*@)?([^\\/?#:]*)/i.exec(url);
+    return m ? m[1].toLowerCase() : '';
+  }
+
+  function siteKey(host) {
+    var labels = host.split('.');
+    if (labels.length <= 2) return host;
+    var n = labels[labels.length - 1].length === 2 && labels[labels.length - 2].length <= 3 ? 3 : 2;
+    return labels.slice(-n).join('.');
+  }
+
+  function test(entry, url, bit, third) {
+    if (entry.mask && !(entry.mask & bit)) return false;
+    if (entry.party === 1 && !third) return false;
+    if (entry.party === 2 && third) return false;
+    if (entry.re === null) {
+      try { entry.re = new RegExp(entry.src, 'i'); } catch (e) { entry.re = false; }
+    }
+    return entry.re ? entry.re.test(url) : false;
+  }
+
+  function find(kind, url, tokens, bit, third) {
+    var bucket = buckets[kind];
+    for (var i = 0; i < tokens.length; i++) {
+      var list = bucket[tokens[i]];
+      if (!list) continue;
+      for (var j = 0; j < list.length; j++) {
+        if (test(list[j], url, bit, third)) return true;
+      }
+    }
+    var rest = untokenized[kind];
+    for (var k = 0; k < rest.length; k++) {
+      if (test(rest[k], url, bit, third)) return true;
+    }
+    return false;
+  }
+
+  function matchesUrlRules(url, type) {
+    if (!FILTERS.length) return false;
+    var tokens = url.toLowerCase().match(/[a-z0-9%]+/g) || [];
+    var bit = 1 << TYPES.indexOf(type);
+    var third = siteKey(hostOf(url)) !== siteKey(pageHost);
+    if (find(0, url, tokens, bit, third)) return true;
+    return find(1, url, tokens, bit, third) && !find(2, url, tokens, bit, third);
+  }
+
+  // ---- Blocked request counting ----
+  var blockedCount = 0;
+  var blockedSamples = [];
+  var reportTimer = null;
+
+  function post(message) {
+    try {
+      if (window.ReactNativeWebView) window.ReactNativeWebView.postMessage(JSON.stringify(message));
+    } catch (e) {}
+  }
+
+  function countBlocked(url) {
+    blockedCount++;
+    if (blockedSamples.length < 5) blockedSamples.push(url);
+    if (reportTimer) return;
+    reportTimer = setTimeout(function() {
+      reportTimer = null;
+      post({ type: 'resourcesBlocked', count: blockedCount, samples: blockedSamples });
+    }, 500);
+  }
+
+  // ---- Host verdicts from the app ----
+  var hostVerdicts = {};
+  var pendingHosts = {};
+  var queuedHosts = [];
+  var flushTimer = null;
+  var blockedHostListeners = [];
+
+  function flushHosts() {
+    flushTimer = null;
+    var hosts = queuedHosts;
+    queuedHosts = [];
+    post({ type: 'resourceHostCheck', hosts: hosts });
+  }
+
+  function settleHost(host, blocked) {
+    var callbacks = pendingHosts[host] || [];
+    delete pendingHosts[host];
+    for (var i = 0; i < callbacks.length; i++) callbacks[i](blocked);
+  }
+
+  function requestVerdict(host, callback) {
+    if (pendingHosts[host]) {
+      pendingHosts[host].push(callback);
+      return;
+    }
+    pendingHosts[host] = [callback];
+    queuedHosts.push(host);
+    if (!flushTimer) flushTimer = setTimeout(flushHosts, 0);
+    // Never hold a request forever if the app does not answer
+    setTimeout(function() {
+      if (pendingHosts[host]) settleHost(host, false);
+    }, VERDICT_TIMEOUT);
+  }
+
+  window.__safebrowseHostVerdicts = function(verdicts) {
+    for (var host in verdicts) {
+      var blocked = !!verdicts[host];
+      hostVerdicts[host] = blocked;
+      settleHost(host, blocked);
+      if (blocked) {
+        for (var i = 0; i < blockedHostListeners.length; i++) blockedHostListeners[i](host);
+      }
+    }
+  };
+
+  function toAbsolute(url) {
+    try { return new URL(String(url), document.baseURI).href; } catch (e) { return String(url); }
+  }
+
+  // true = blocked, false = allowed, undefined = host verdict pending
+  function checkNow(rawUrl, type) {
+    var url = toAbsolute(rawUrl);
+    if (!/^(https?|wss?):/i.test(url)) return false;
+    if (matchesUrlRules(url, type)) {
+      countBlocked(url);
+      return true;
+    }
+    var host = hostOf(url);
+    // The page itself passed the navigation filter
+    if (!host || host === pageHost) return false;
+    if (host in hostVerdicts) {
+      if (hostVerdicts[host]) countBlocked(url);
+      return hostVerdicts[host];
+    }
+    return undefined;
+  }
+
+  function checkLater(rawUrl, callback) {
+    var url = toAbsolute(rawUrl);
+    requestVerdict(hostOf(url), function(blocked) {
+      if (blocked) countBlocked(url);
+      callback(blocked);
+    });
+  }
+
+  // ---- fetch ----
+  if (typeof window.fetch === 'function') {
+    var _fetch = window.fetch;
+    window.fetch = function(input, init) {
+      var self = this;
+      var args = arguments;
+      var url = typeof input === 'string' ? input : (input && input.url) || String(input);
+      var verdict = checkNow(url, 'xmlhttprequest');
+      if (verdict === true) return Promise.reject(new TypeError('Failed to fetch'));
+      if (verdict === false) return _fetch.apply(self, args);
+      return new Promise(function(resolve, reject) {
+        checkLater(url, function(blocked) {
+          if (blocked) reject(new TypeError('Failed to fetch'));
+          else _fetch.apply(self, args).then(resolve, reject);
+        });
+      });
+    };
+  }
+
+  // ---- XMLHttpRequest ----
+  var _open = XMLHttpRequest.prototype.open;
+  var _send = XMLHttpRequest.prototype.send;
+
+  function failXhr(xhr) {
+    setTimeout(function() {
+      try { xhr.dispatchEvent(new ProgressEvent('error')); } catch (e) {}
+      try { xhr.dispatchEvent(new ProgressEvent('loadend')); } catch (e) {}
+    }, 0);
+  }
+
+  XMLHttpRequest.prototype.open = function(method, url, async) {
+    this.__safebrowseUrl = String(url);
+    this.__safebrowseAsync = async !== false;
+    return _open.apply(this, arguments);
+  };
+
+  XMLHttpRequest.prototype.send = function() {
+    var xhr = this;
+    var args = arguments;
+    if (!xhr.__safebrowseUrl) return _send.apply(xhr, args);
+
+    var verdict = checkNow(xhr.__safebrowseUrl, 'xmlhttprequest');
+    if (verdict === true) return failXhr(xhr);
+    // Synchronous requests cannot wait for a verdict
+    if (verdict === false || !xhr.__safebrowseAsync) return _send.apply(xhr, args);
+
+    checkLater(xhr.__safebrowseUrl, function(blocked) {
+      if (blocked) failXhr(xhr);
+      else try { _send.apply(xhr, args); } catch (e) {}
+    });
+  };
+
+  // ---- Element sources ----
+  var ELEMENTS = [
+    ['HTMLScriptElement', 'script', true],
+    ['HTMLIFrameElement', 'subdocument', true],
+    ['HTMLImageElement', 'image', false],
+    ['HTMLSourceElement', 'media', false],
+    ['HTMLMediaElement', 'media', false]
+  ];
+
+  function neutralize(el) {
+    try {
+      el.removeAttribute('srcset');
+      if (el.tagName === 'IFRAME') el.setAttribute('src', 'about:blank');
+      else el.removeAttribute('src');
+      el.style.setProperty('display', 'none', 'important');
+    } catch (e) {}
+  }
+
+  function typeOf(el) {
+    for (var i = 0; i < ELEMENTS.length; i++) {
+      var ctor = window[ELEMENTS[i][0]];
+      if (ctor && el instanceof ctor) return ELEMENTS[i];
+    }
+    return null;
+  }
+
+  ELEMENTS.forEach(function(spec) {
+    var ctor = window[spec[0]];
+    var desc = ctor && Object.getOwnPropertyDescriptor(ctor.prototype, 'src');
+    if (!desc || !desc.set) return;
+
+    Object.defineProperty(ctor.prototype, 'src', {
+      configurable: true,
+      enumerable: desc.enumerable,
+      get: desc.get,
+      set: function(value) {
+        var el = this;
+        el.__safebrowseChecked = String(value);
+        var verdict = checkNow(value, spec[1]);
+        if (verdict === true) return;
+        if (verdict === undefined && spec[2]) {
+          // Scripts and frames run as soon as they load, so they wait
+          checkLater(value, function(blocked) {
+            if (!blocked) desc.set.call(el, value);
+          });
+          return;
+        }
+        desc.set.call(el, value);
+        if (verdict === undefined) {
+          checkLater(value, function(blocked) { if (blocked) neutralize(el); });
+        }
+      }
+    });
+  });
+
+  var _setAttribute = Element.prototype.setAttribute;
+  Element.prototype.setAttribute = function(name, value) {
+    if (String(name).toLowerCase() === 'src' && typeOf(this)) {
+      this.src = value;
+      return;
+    }
+    return _setAttribute.apply(this, arguments);
+  };
+
+  // Elements that never went through the setters (HTML, innerHTML)
+  function inspect(el) {
+    var spec = typeOf(el);
+    var src = spec && el.getAttribute('src');
+    if (!src || el.__safebrowseChecked === src) return;
+    el.__safebrowseChecked = src;
+    var verdict = checkNow(src, spec[1]);
+    if (verdict === true) neutralize(el);
+    else if (verdict === undefined) checkLater(src, function(blocked) { if (blocked) neutralize(el); });
+  }
+
+  blockedHostListeners.push(function(host) {
+    var els = document.querySelectorAll('img[src],iframe[src],video[src],audio[src],source[src]');
+    for (var i = 0; i < els.length; i++) {
+      if (hostOf(toAbsolute(els[i].getAttribute('src'))) === host) neutralize(els[i]);
+    }
+  });
+
+  try {
+    new MutationObserver(function(mutations) {
+      for (var i = 0; i < mutations.length; i++) {
+        var added = mutations[i].addedNodes;
+        for (var j = 0; j < added.length; j++) {
+          var node = added[j];
+          if (node.nodeType !== 1) continue;
+          inspect(node);
+          if (node.querySelectorAll) {
+            var inner = node.querySelectorAll('img[src],iframe[src],video[src],audio[src],source[src]');
+            for (var k = 0; k < inner.length; k++) inspect(inner[k]);
+          }
+        }
+      }
+    }).observe(document.documentElement || document, { childList: true, subtree: true });
+  } catch (e) {}
+})();
+true;
+`;
+}
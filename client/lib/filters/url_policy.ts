@@ -0,0 +1,402 @@
+// ====================================================================
+// =============== URL POLICY (ORDERED FILTERING RULES) ===============
+// ====================================================================
+
+// Every URL the browser is asked to open goes through an ordered list of
+// rules. Each rule has an id, a matcher (host, path, query, regex...), an
+// action and a message:
+// - block:    stop and refuse the URL, with the rule's message
+// - allow:    stop and let the URL through, skipping the remaining rules
+// - redirect: replace the URL with the rule's target (e.g. a mobile site)
+//             and keep evaluating the remaining rules against it
+// - rewrite:  set or remove query parameters (e.g. safe=active) and keep
+//             evaluating
+//
+// Rules are plain data, so they can be written as JSON (see
+// parseUrlPolicyRules). Conditions that depend on the app's state, like
+// the blocklists, are named checks provided by the caller.
+//
+// Rules match the canonical form of a URL (see canonical-url.ts): the host
+// in lowercase ASCII, the path and query decoded.
+
+import { canonicalizeUrl } from '../canonical-url';
+
+export type UrlPolicyAction = 'block' | 'allow' | 'redirect' | 'rewrite';
+
+export type UrlPolicyContext = 'navigation' | 'resource' | 'ad';
+
+/**
+ * Conditions on a URL. Every field given must match; a list matches when
+ * any of its entries does. Matching ignores case.
+ */
+export interface UrlPolicyMatch {
+  /** The host or one of its parent domains ('reddit.com' covers 'old.reddit.com') */
+  hosts?: string[];
+  /** Sites by name, under any public suffix ('google' covers google.com and google.co.uk, not google.evil.com) */
+  sites?: string[];
+  /** Regular expression tested against the host, for domains no site name covers */
+  hostPattern?: string;
+  /** Text in the host, or in its look-alike skeleton ('pоrn' with a Cyrillic о) */
+  hostContains?: string[];
+  /** Path prefixes, by whole segment ('/search' covers '/search/x', not '/searches') */
+  paths?: string[];
+  /** Text in the decoded path */
+  pathContains?: string[];
+  /** Query parameter -> accepted values, or ['*'] for any value */
+  query?: { [param: string]: string[] };
+  /** Terms in the first of the named query parameters the URL has (the search box) */
+  queryContains?: { params: string[]; terms: string[] };
+  /** Text anywhere in the URL, as written or decoded */
+  urlContains?: string[];
+  /** Regular expression tested against the whole URL, as written or decoded */
+  regex?: string;
+  /** Named check provided by the caller (e.g. 'blocklist') */
+  check?: string;
+}
+
+export interface UrlPolicyRule {
+  /** Unique id; a custom rule with the id of a default rule replaces it */
+  id: string;
+  /** What the rule is for, shown nowhere but useful in JSON files */
+  description?: string;
+  /** False to turn the rule off (default true) */
+  enabled?: boolean;
+  /** Conditions, or a list of alternative conditions */
+  match: UrlPolicyMatch | UrlPolicyMatch[];
+  /** Conditions under which the rule does not apply */
+  unless?: UrlPolicyMatch[];
+  /** Contexts the rule applies in (default all) */
+  contexts?: UrlPolicyContext[];
+  action: UrlPolicyAction;
+  /** Reason shown when the rule blocks a URL */
+  message?: string;
+  /** False to block without an alert (default: alert on navigation) */
+  alert?: boolean;
+  /** Target of a redirect; {host}, {path}, {query} and {url} are replaced */
+  redirect?: string;
+  /** Query parameters a rewrite sets */
+  setQuery?: { [param: string]: string };
+  /** Query parameters a rewrite removes */
+  removeQuery?: string[];
+}
+
+/**
+ * Named checks a caller provides for the rules' `check` conditions
+ */
+export type UrlPolicyChecks = { [name: string]: (url: string) => boolean };
+
+export interface UrlPolicyDecision {
+  /** The URL after redirects and rewrites */
+  url: string;
+  blocked: boolean;
+  /** The rule that blocked or allowed the URL, if one did */
+  rule?: UrlPolicyRule;
+}
+
+export const URL_POLICY_ACTIONS: UrlPolicyAction[] = ['block', 'allow', 'redirect', 'rewrite'];
+
+const URL_POLICY_CONTEXTS: UrlPolicyContext[] = ['navigation', 'resource', 'ad'];
+
+const DEFAULT_BLOCK_MESSAGE = 'This website is blocked for safety';
+
+// Redirects and rewrites applied to one URL, so rules redirecting to each
+// other cannot loop
+const MAX_URL_CHANGES = 10;
+
+// A URL split into the parts rules match on, lowercased
+interface PolicyUrl {
+  // The URL as given, for the caller's checks
+  url: string;
+  // Canonical URL, as written and decoded
+  href: string;
+  decodedHref: string;
+  lowerHref: string;
+  // Decoded host, path, query and fragment
+  text: string;
+  host: string;
+  skeleton: string;
+  site: string;
+  path: string;
+  params: URLSearchParams;
+}
+
+const regexCache: Map<string, RegExp | null> = new Map();
+
+function getRegex(source: string): RegExp | null {
+  let regex = regexCache.get(source);
+  if (regex === undefined) {
+    try {
+      regex = new RegExp(source, 'i');
+    } catch {
+      regex = null;
+    }
+    regexCache.set(source, regex);
+  }
+  return regex;
+}
+
+function toPolicyUrl(url: string): PolicyUrl | null {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) return null;
+  return {
+    url,
+    href: canonical.href,
+    decodedHref: `${canonical.protocol}//${canonical.text}`,
+    lowerHref: canonical.href.toLowerCase(),
+    text: canonical.text,
+    host: canonical.host,
+    skeleton: canonical.skeleton,
+    site: canonical.site,
+    path: canonical.path.toLowerCase(),
+    params: canonical.params,
+  };
+}
+
+function containsAny(value: string, terms: string[]): boolean {
+  return terms.some(term => term !== '' && value.includes(term.toLowerCase()));
+}
+
+function matchesHost(host: string, domains: string[]): boolean {
+  return domains.some(domain => {
+    const d = domain.toLowerCase();
+    return host === d || host.endsWith(`.${d}`);
+  });
+}
+
+function matchesPath(path: string, prefixes: string[]): boolean {
+  return prefixes.some(prefix => {
+    const p = prefix.toLowerCase();
+    return path === p || path.startsWith(p.endsWith('/') ? p : `${p}/`);
+  });
+}
+
+function matchesQuery(params: URLSearchParams, query: { [param: string]: string[] }): boolean {
+  return Object.entries(query).every(([param, values]) => {
+    const value = params.get(param);
+    if (value === null) return false;
+    return values.some(v => v === '*' || v.toLowerCase() === value.toLowerCase());
+  });
+}
+
+function matchesQueryTerms(params: URLSearchParams, { params: names, terms }: { params: string[]; terms: string[] }): boolean {
+  const name = names.find(n => params.get(n));
+  return name !== undefined && containsAny(params.get(name)!.toLowerCase(), terms);
+}
+
+function matchesRegex(source: string, url: PolicyUrl): boolean {
+  const regex = getRegex(source);
+  return !!regex && (regex.test(url.href) || regex.test(url.decodedHref));
+}
+
+function matches(match: UrlPolicyMatch, url: PolicyUrl, checks: UrlPolicyChecks): boolean {
+  if (match.hosts && !matchesHost(url.host, match.hosts)) return false;
+  if (match.sites && !match.sites.some(site => site.toLowerCase() === url.site)) return false;
+  if (match.hostPattern !== undefined && !getRegex(match.hostPattern)?.test(url.host)) return false;
+  if (match.hostContains && !containsAny(url.host, match.hostContains) && !containsAny(url.skeleton, match.hostContains)) {
+    return false;
+  }
+  if (match.paths && !matchesPath(url.path, match.paths)) return false;
+  if (match.pathContains && !containsAny(url.path, match.pathContains)) return false;
+  if (match.query && !matchesQuery(url.params, match.query)) return false;
+  if (match.queryContains && !matchesQueryTerms(url.params, match.queryContains)) return false;
+  if (match.urlContains && !containsAny(url.lowerHref, match.urlContains) && !containsAny(url.text, match.urlContains)) {
+    return false;
+  }
+  if (match.regex !== undefined && !matchesRegex(match.regex, url)) return false;
+  // Checks last: they may be costly (the blocklists) and have side effects
+  if (match.check !== undefined && !checks[match.check]?.(url.url)) return false;
+  return true;
+}
+
+function appliesTo(rule: UrlPolicyRule, url: PolicyUrl, context: UrlPolicyContext, checks: UrlPolicyChecks): boolean {
+  if (rule.enabled === false) return false;
+  if (rule.contexts && !rule.contexts.includes(context)) return false;
+
+  const alternatives = Array.isArray(rule.match) ? rule.match : [rule.match];
+  if (!alternatives.some(match => matches(match, url, checks))) return false;
+  return !(rule.unless || []).some(match => matches(match, url, checks));
+}
+
+function redirectTarget(template: string, url: string): string | null {
+  try {
+    const urlObj = new URL(url);
+    const target = template
+      .replace(/\{host\}/g, urlObj.host)
+      .replace(/\{path\}/g, urlObj.pathname)
+      .replace(/\{query\}/g, urlObj.search)
+      .replace(/\{url\}/g, encodeURIComponent(url));
+    return new URL(target).toString();
+  } catch {
+    return null;
+  }
+}
+
+function rewriteQuery(rule: UrlPolicyRule, url: string): string {
+  try {
+    const urlObj = new URL(url);
+    (rule.removeQuery || []).forEach(param => urlObj.searchParams.delete(param));
+    Object.entries(rule.setQuery || {}).forEach(([param, value]) => urlObj.searchParams.set(param, value));
+    return urlObj.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Run a URL through the rules in order
+ */
+export function evaluateUrlPolicy(
+  rules: UrlPolicyRule[],
+  inputUrl: string,
+  context: UrlPolicyContext = 'navigation',
+  checks: UrlPolicyChecks = {}
+): UrlPolicyDecision {
+  let url = inputUrl;
+  let parsed = toPolicyUrl(url);
+  let changes = 0;
+
+  for (const rule of rules) {
+    if (!parsed || !appliesTo(rule, parsed, context, checks)) continue;
+
+    switch (rule.action) {
+      case 'block':
+        return { url, blocked: true, rule };
+      case 'allow':
+        return { url, blocked: false, rule };
+      case 'redirect':
+      case 'rewrite': {
+        const next = rule.action === 'redirect' ? redirectTarget(rule.redirect || '', url) : rewriteQuery(rule, url);
+        if (!next || next === url || changes >= MAX_URL_CHANGES) break;
+        if (rule.action === 'redirect') {
+          console.log(`[UrlPolicy] ${rule.id}: ${url} -> ${next}`);
+        }
+        url = next;
+        parsed = toPolicyUrl(url);
+        changes++;
+        break;
+      }
+    }
+  }
+
+  return { url, blocked: false };
+}
+
+/**
+ * Whether a single rule applies to a URL, whatever its action
+ */
+export function matchesUrlPolicyRule(
+  rule: UrlPolicyRule,
+  url: string,
+  context: UrlPolicyContext = 'navigation',
+  checks: UrlPolicyChecks = {}
+): boolean {
+  const parsed = toPolicyUrl(url);
+  return parsed !== null && appliesTo(rule, parsed, context, checks);
+}
+
+/**
+ * Reason to show for a URL blocked by a rule
+ */
+export function getUrlPolicyMessage(rule: UrlPolicyRule): string {
+  return rule.message || DEFAULT_BLOCK_MESSAGE;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isStringMap(value: unknown, isValue: (v: unknown) => boolean): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isValue);
+}
+
+// Why a matcher from JSON is invalid, or null if it is valid
+function validateMatch(match: unknown): string | null {
+  if (!match || typeof match !== 'object' || Array.isArray(match)) return 'a matcher is not an object';
+  const m = match as Record<string, unknown>;
+
+  for (const field of ['hosts', 'sites', 'hostContains', 'paths', 'pathContains', 'urlContains']) {
+    if (m[field] !== undefined && !isStringArray(m[field])) return `${field} must be a list of strings`;
+  }
+  if (m.query !== undefined && !isStringMap(m.query, isStringArray)) return 'query must map parameters to lists of values';
+  if (m.queryContains !== undefined) {
+    const qc = m.queryContains as Record<string, unknown>;
+    if (!qc || !isStringArray(qc.params) || !isStringArray(qc.terms)) return 'queryContains needs params and terms lists';
+  }
+  if (m.hostPattern !== undefined && (typeof m.hostPattern !== 'string' || !getRegex(m.hostPattern))) {
+    return `invalid hostPattern ${String(m.hostPattern)}`;
+  }
+  if (m.regex !== undefined && (typeof m.regex !== 'string' || !getRegex(m.regex))) return `invalid regex ${String(m.regex)}`;
+  if (m.check !== undefined && typeof m.check !== 'string') return 'check must be a string';
+  return null;
+}
+
+// Why a rule from JSON is invalid, or null if it is valid
+function validateRule(rule: unknown): string | null {
+  if (!rule || typeof rule !== 'object') return 'not an object';
+  const r = rule as Record<string, unknown>;
+
+  if (typeof r.id !== 'string' || !r.id) return 'missing id';
+  if (!URL_POLICY_ACTIONS.includes(r.action as UrlPolicyAction)) return `unknown action ${String(r.action)}`;
+
+  const alternatives = Array.isArray(r.match) ? r.match : [r.match];
+  if (alternatives.length === 0) return 'empty match';
+  if (r.unless !== undefined && !Array.isArray(r.unless)) return 'unless must be a list of matchers';
+  for (const match of [...alternatives, ...((r.unless as unknown[]) || [])]) {
+    const error = validateMatch(match);
+    if (error) return error;
+  }
+  if (r.contexts !== undefined && !(isStringArray(r.contexts) && r.contexts.every(c => URL_POLICY_CONTEXTS.includes(c as UrlPolicyContext)))) {
+    return `contexts must be among ${URL_POLICY_CONTEXTS.join(', ')}`;
+  }
+  if (r.message !== undefined && typeof r.message !== 'string') return 'message must be a string';
+  if (r.action === 'redirect' && (typeof r.redirect !== 'string' || !/^https?:\/\//i.test(r.redirect))) {
+    return 'a redirect needs an http(s) redirect URL';
+  }
+  if (r.setQuery !== undefined && !isStringMap(r.setQuery, v => typeof v === 'string')) return 'setQuery must map parameters to strings';
+  if (r.removeQuery !== undefined && !isStringArray(r.removeQuery)) return 'removeQuery must be a list of strings';
+  return null;
+}
+
+/**
+ * Read rules from JSON: a list of rules, or an object with a `rules` list.
+ * Invalid rules are left out and reported in `errors`.
+ */
+export function parseUrlPolicyRules(json: string): { rules: UrlPolicyRule[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { rules: [], errors: ['The rules are not valid JSON'] };
+  }
+
+  const list = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) {
+    return { rules: [], errors: ['Expected a list of rules'] };
+  }
+
+  const rules: UrlPolicyRule[] = [];
+  const errors: string[] = [];
+  list.forEach((rule, index) => {
+    const error = validateRule(rule);
+    if (error) {
+      errors.push(`Rule ${(rule as { id?: unknown })?.id ?? index + 1}: ${error}`);
+    } else {
+      rules.push(rule as UrlPolicyRule);
+    }
+  });
+  return { rules, errors };
+}
+
+/**
+ * Put custom rules in front of the defaults. A custom rule with the id of
+ * a default rule takes its place instead, so a default can be changed or
+ * turned off ({ "id": ..., "enabled": false, ... }).
+ */
+export function mergeUrlPolicyRules(defaults: UrlPolicyRule[], custom: UrlPolicyRule[]): UrlPolicyRule[] {
+  const overrides = new Map(custom.map(rule => [rule.id, rule]));
+  const defaultIds = new Set(defaults.map(rule => rule.id));
+  return [
+    ...custom.filter(rule => !defaultIds.has(rule.id)),
+    ...defaults.map(rule => overrides.get(rule.id) || rule),
+  ];
+}
@@ -2,17 +2,17 @@
 // ========== YOUTUBE SHORTS BLOCKING ==========
 // ====================================================================
 
+import { canonicalizeUrl, isHostOnDomain } from '../canonical-url';
+
+// YouTube's domains, with their subdomains (m.youtube.com, music.youtube.com)
+const YOUTUBE_DOMAINS = ["youtube.com", "youtu.be"];
+
 /**
  * Check if URL is a YouTube URL
  */
 export function isYouTubeUrl(url: string): boolean {
-    try {
-        const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-        const domain = urlObj.hostname.toLowerCase();
-        return domain.includes("youtube.com") || domain.includes("youtu.be") || domain.includes("m.youtube.com");
-    } catch {
-        return false;
-    }
+    const canonical = canonicalizeUrl(url);
+    return !!canonical && YOUTUBE_DOMAINS.some(domain => isHostOnDomain(canonical.host, domain));
 }
 
 /**
@@ -22,21 +22,17 @@ export function isYouTubeUrl(url: string): boolean {
 export function isYouTubeShortsFromChannel(url: string, referrer: string | null): boolean {
     if (!referrer) return false;
 
-    try {
-        const referrerUrl = new URL(referrer);
-        const referrerPath = referrerUrl.pathname.toLowerCase();
-
-        // Check if referrer is a channel page
-        const isFromChannel =
-            referrerPath.startsWith('/channel/') ||
-            referrerPath.startsWith('/@') ||
-            referrerPath.startsWith('/c/') ||
-            referrerPath.startsWith('/user/');
-
-        return isFromChannel;
-    } catch {
-        return false;
-    }
+    const referrerPath = canonicalizeUrl(referrer)?.path.toLowerCase();
+    if (!referrerPath) return false;
+
+    // Check if referrer is a channel page
+    const isFromChannel =
+        referrerPath.startsWith('/channel/') ||
+        referrerPath.startsWith('/@') ||
+        referrerPath.startsWith('/c/') ||
+        referrerPath.startsWith('/user/');
+
+    return isFromChannel;
 }
 
 /**
@@ -44,58 +40,48 @@ export function isYouTubeShortsFromChannel(url: string, referrer: string | null)
  * Blocks /shorts/ URLs unless they come from a channel
  */
 export function isBlockedYouTubeShortsUrl(url: string, referrer: string | null = null): boolean {
-    try {
-        const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-        const domain = urlObj.hostname.toLowerCase();
+    const canonical = canonicalizeUrl(url);
 
-        // Only applies to YouTube
-        if (!domain.includes("youtube.com") && !domain.includes("m.youtube.com")) {
-            return false;
-        }
+    // Only applies to YouTube
+    if (!canonical || !isHostOnDomain(canonical.host, "youtube.com")) {
+        return false;
+    }
 
-        const path = urlObj.pathname.toLowerCase();
+    const path = canonical.path.toLowerCase();
 
-        // Check if it's a shorts URL
-        if (path.startsWith('/shorts') || path.startsWith('/shorts/')) {
-            // Allow if coming from a channel
-            if (isYouTubeShortsFromChannel(url, referrer)) {
-                return false;
-            }
-            return true;
+    // Check if it's a shorts URL
+    if (path.startsWith('/shorts')) {
+        // Allow if coming from a channel
+        if (isYouTubeShortsFromChannel(url, referrer)) {
+            return false;
         }
-
-        return false;
-    } catch {
-        return false;
+        return true;
     }
+
+    return false;
 }
 
 /**
  * Check if URL is a YouTube video page
  */
 export function isYouTubeVideoPage(url: string): boolean {
-    try {
-        const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-        const domain = urlObj.hostname.toLowerCase();
+    const canonical = canonicalizeUrl(url);
 
-        if (!domain.includes("youtube.com") && !domain.includes("youtu.be") && !domain.includes("m.youtube.com")) {
-            return false;
-        }
-
-        // youtube.com/watch?v=... 
-        if (urlObj.pathname.includes('/watch')) {
-            return true;
-        }
+    if (!canonical || !YOUTUBE_DOMAINS.some(domain => isHostOnDomain(canonical.host, domain))) {
+        return false;
+    }
 
-        // youtu.be/VIDEO_ID
-        if (domain.includes("youtu.be") && urlObj.pathname.length > 1) {
-            return true;
-        }
+    // youtube.com/watch?v=...
+    if (canonical.path.includes('/watch')) {
+        return true;
+    }
 
-        return false;
-    } catch {
-        return false;
+    // youtu.be/VIDEO_ID
+    if (isHostOnDomain(canonical.host, "youtu.be") && canonical.path.length > 1) {
+        return true;
     }
+
+    return false;
 }
 
 /**
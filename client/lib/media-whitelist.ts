@@ -6,6 +6,8 @@
  * website body sections are hidden/blurred except for sites listed here.
  */
 
+import { canonicalizeUrl, isHostOnDomain } from './canonical-url';
+
 // Domains that are fully exempt from media filtering
 // Images and videos will be shown normally on these domains
 export const WHITELISTED_DOMAINS: string[] = [
@@ -107,20 +109,15 @@ export function isDomainWhitelisted(hostname: string): boolean {
  * @returns true if the path is whitelisted
  */
 export function isPathWhitelisted(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const hostname = urlObj.hostname.toLowerCase().replace(/^www\./, '');
-    const pathname = urlObj.pathname.toLowerCase();
-    const fullPath = `${hostname}${pathname}`;
-
-    return WHITELISTED_PATHS.some(path => {
-      const normalizedPath = path.toLowerCase();
-      return fullPath.startsWith(normalizedPath) ||
-        fullPath.includes(normalizedPath);
-    });
-  } catch {
-    return false;
-  }
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) return false;
+  const pathname = canonical.path.toLowerCase();
+
+  // The entry's domain (or a subdomain) and a path starting with its path
+  return WHITELISTED_PATHS.some(entry => {
+    const [domain, ...path] = entry.toLowerCase().split('/');
+    return isHostOnDomain(canonical.host, domain) && pathname.startsWith(`/${path.join('/')}`);
+  });
 }
 
 /**
@@ -129,24 +126,18 @@ export function isPathWhitelisted(url: string): boolean {
  * @returns true if images/videos should be shown normally
  */
 export function isMediaWhitelisted(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const hostname = urlObj.hostname;
-
-    // Check if domain is fully whitelisted
-    if (isDomainWhitelisted(hostname)) {
-      return true;
-    }
-
-    // Check if specific path is whitelisted
-    if (isPathWhitelisted(url)) {
-      return true;
-    }
-
-    return false;
-  } catch {
+  const hostname = canonicalizeUrl(url)?.host;
+  if (!hostname) {
     return false;
   }
+
+  // Check if domain is fully whitelisted
+  if (isDomainWhitelisted(hostname)) {
+    return true;
+  }
+
+  // Check if specific path is whitelisted
+  return isPathWhitelisted(url);
 }
 
 /**
@@ -0,0 +1,133 @@
+/**
+ * Public Suffixes
+ *
+ * The registrable domain of a host is the part a single owner registered:
+ * one label under its public suffix (`bbc.co.uk` for `news.bbc.co.uk`,
+ * `example.github.io` for `a.example.github.io`). Filters compare
+ * registrable domains so `google.com.sa` is Google and `google.evil.com`
+ * is not.
+ *
+ * Suffixes follow the rules of the Public Suffix List (publicsuffix.org):
+ * the longest matching rule wins, `*` matches any one label, `!` marks an
+ * exception to a wildcard, and a host no rule covers has its last label
+ * as suffix. Only suffixes of more than one label need listing: the
+ * second-level domains of country TLDs (PUBLIC_SUFFIX_RULES) and the
+ * hosting platforms that give each user a subdomain (PLATFORM_SUFFIX_RULES).
+ * They are a subset of the list; add a suffix when a site under it is
+ * matched too broadly.
+ */
+
+export const PUBLIC_SUFFIX_RULES: string[] = [
+  // Arab countries
+  'com.sa', 'net.sa', 'org.sa', 'gov.sa', 'edu.sa', 'med.sa', 'pub.sa', 'sch.sa',
+  'co.ae', 'net.ae', 'org.ae', 'gov.ae', 'ac.ae', 'sch.ae', 'mil.ae',
+  'com.eg', 'net.eg', 'org.eg', 'gov.eg', 'edu.eg', 'eun.eg', 'sci.eg',
+  'co.ma', 'net.ma', 'org.ma', 'gov.ma', 'ac.ma', 'press.ma',
+  'com.dz', 'net.dz', 'org.dz', 'gov.dz', 'edu.dz',
+  'com.tn', 'net.tn', 'org.tn', 'gov.tn', 'ens.tn',
+  'com.jo', 'net.jo', 'org.jo', 'gov.jo', 'edu.jo',
+  'com.kw', 'net.kw', 'org.kw', 'gov.kw', 'edu.kw',
+  'com.qa', 'net.qa', 'org.qa', 'gov.qa', 'edu.qa',
+  'com.om', 'co.om', 'net.om', 'org.om', 'gov.om', 'edu.om',
+  'com.bh', 'net.bh', 'org.bh', 'gov.bh', 'edu.bh',
+  'com.lb', 'net.lb', 'org.lb', 'gov.lb', 'edu.lb',
+  'com.iq', 'net.iq', 'org.iq', 'gov.iq', 'edu.iq',
+  'com.sy', 'net.sy', 'org.sy', 'gov.sy', 'edu.sy',
+  'com.ly', 'net.ly', 'org.ly', 'gov.ly', 'edu.ly',
+  'com.sd', 'net.sd', 'org.sd', 'gov.sd', 'edu.sd',
+  'com.ps', 'net.ps', 'org.ps', 'gov.ps', 'edu.ps',
+  'com.ye', 'net.ye', 'org.ye', 'gov.ye', 'edu.ye',
+  // Europe
+  'co.uk', 'org.uk', 'me.uk', 'ltd.uk', 'plc.uk', 'net.uk', 'sch.uk', 'ac.uk', 'gov.uk', 'nhs.uk', 'police.uk',
+  'com.tr', 'net.tr', 'org.tr', 'gov.tr', 'edu.tr', 'gen.tr', 'web.tr', 'biz.tr', 'info.tr', 'av.tr', 'bel.tr',
+  'com.es', 'org.es', 'nom.es', 'gob.es', 'edu.es',
+  'com.pl', 'net.pl', 'org.pl',
+  'com.gr', 'net.gr', 'org.gr', 'gov.gr', 'edu.gr',
+  'com.ua', 'net.ua', 'org.ua', 'gov.ua', 'in.ua',
+  'com.ru', 'net.ru', 'org.ru',
+  'com.cy', 'com.pt', 'gouv.fr', 'asso.fr',
+  // Asia and Oceania
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au', 'asn.au', 'id.au',
+  'co.nz', 'net.nz', 'org.nz', 'govt.nz', 'ac.nz', 'school.nz', 'geek.nz', 'gen.nz',
+  'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'ad.jp', 'ed.jp', 'go.jp', 'gr.jp', 'lg.jp',
+  'co.kr', 'ne.kr', 'or.kr', 're.kr', 'pe.kr', 'go.kr', 'ac.kr',
+  'com.cn', 'net.cn', 'org.cn', 'gov.cn', 'edu.cn', 'ac.cn',
+  'com.hk', 'net.hk', 'org.hk', 'edu.hk', 'gov.hk', 'idv.hk',
+  'com.tw', 'net.tw', 'org.tw', 'edu.tw', 'gov.tw', 'idv.tw',
+  'co.in', 'net.in', 'org.in', 'firm.in', 'gen.in', 'ind.in', 'ac.in', 'edu.in', 'res.in', 'gov.in', 'nic.in',
+  'com.pk', 'net.pk', 'org.pk', 'gov.pk', 'edu.pk',
+  'co.id', 'net.id', 'or.id', 'go.id', 'ac.id', 'web.id', 'my.id',
+  'com.my', 'net.my', 'org.my', 'gov.my', 'edu.my',
+  'com.sg', 'net.sg', 'org.sg', 'gov.sg', 'edu.sg',
+  'com.ph', 'net.ph', 'org.ph', 'gov.ph', 'edu.ph',
+  'co.th', 'in.th', 'or.th', 'go.th', 'ac.th',
+  'com.vn', 'net.vn', 'org.vn', 'gov.vn', 'edu.vn',
+  'co.il', 'org.il', 'net.il', 'ac.il', 'gov.il',
+  'co.ir', 'ac.ir', 'gov.ir', 'org.ir', 'net.ir', 'id.ir',
+  '*.bd', '*.np', '*.kh', '*.mm', '*.pg', '*.ck', '!www.ck',
+  // Africa and the Americas
+  'co.za', 'net.za', 'org.za', 'gov.za', 'ac.za', 'web.za',
+  'com.ng', 'net.ng', 'org.ng', 'gov.ng', 'edu.ng',
+  'co.ke', 'or.ke', 'ne.ke', 'go.ke', 'ac.ke',
+  'com.br', 'net.br', 'org.br', 'gov.br', 'edu.br', 'art.br', 'blog.br',
+  'com.ar', 'net.ar', 'org.ar', 'gob.ar', 'edu.ar',
+  'com.mx', 'net.mx', 'org.mx', 'gob.mx', 'edu.mx',
+  'com.co', 'net.co', 'org.co', 'gov.co', 'edu.co',
+];
+
+/**
+ * Hosting platforms that give each user a subdomain: every subdomain is a
+ * separate site, which does not belong to the platform's own company
+ */
+export const PLATFORM_SUFFIX_RULES: string[] = [
+  'blogspot.com', 'github.io', 'githubusercontent.com', 'gitlab.io', 'herokuapp.com', 'appspot.com',
+  'web.app', 'firebaseapp.com', 'netlify.app', 'vercel.app', 'pages.dev', 'workers.dev',
+  'azurewebsites.net', 'cloudfront.net', 'glitch.me', 'onrender.com', 'fly.dev', 'ngrok.io', 'duckdns.org',
+];
+
+const platformSuffixes: Set<string> = new Set(PLATFORM_SUFFIX_RULES);
+const suffixRules: Set<string> = new Set(
+  [...PUBLIC_SUFFIX_RULES, ...PLATFORM_SUFFIX_RULES].filter(rule => !rule.startsWith('!'))
+);
+const suffixExceptions: Set<string> = new Set(
+  PUBLIC_SUFFIX_RULES.filter(rule => rule.startsWith('!')).map(rule => rule.slice(1))
+);
+
+/**
+ * Number of trailing labels of a host that form its public suffix
+ */
+function suffixLength(labels: string[]): number {
+  for (let i = 0; i < labels.length; i++) {
+    const name = labels.slice(i).join('.');
+    // An exception's parent is the suffix (!www.ck: www.ck is registrable)
+    if (suffixExceptions.has(name)) return labels.length - i - 1;
+    const wildcard = ['*', ...labels.slice(i + 1)].join('.');
+    if (suffixRules.has(name) || suffixRules.has(wildcard)) return labels.length - i;
+  }
+  return 1;
+}
+
+/**
+ * Public suffix of a lowercase ASCII host ('co.uk' for 'news.bbc.co.uk')
+ */
+export function getPublicSuffix(host: string): string {
+  const labels = host.split('.');
+  return labels.slice(-suffixLength(labels)).join('.');
+}
+
+/**
+ * Registrable domain of a lowercase ASCII host ('bbc.co.uk' for
+ * 'news.bbc.co.uk'), or null when the host is itself a public suffix
+ */
+export function getRegistrableDomain(host: string): string | null {
+  const labels = host.split('.');
+  const length = suffixLength(labels);
+  return labels.length > length ? labels.slice(-(length + 1)).join('.') : null;
+}
+
+/**
+ * Whether a public suffix is a hosting platform's (see PLATFORM_SUFFIX_RULES)
+ */
+export function isPlatformSuffix(suffix: string): boolean {
+  return platformSuffixes.has(suffix);
+}
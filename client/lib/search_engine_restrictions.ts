@@ -1,176 +1,159 @@
 import { isGoogleImagesBlockingEnabled } from './app-config';
+import { CanonicalUrl, canonicalizeUrl, getGoogleDomain, GOOGLE_HOST_PATTERN } from './canonical-url';
+import { evaluateUrlPolicy, UrlPolicyChecks, UrlPolicyRule } from './filters/url_policy';
+
+// Google hosts that only serve sign-in (accounts.google.<suffix> is matched
+// by isGoogleSiteHost)
+const GOOGLE_AUTH_HOSTS = [
+  'myaccount.google.com',
+  'accounts.youtube.com',
+  'oauth2.googleapis.com',
+  'securetoken.googleapis.com',
+  'identitytoolkit.googleapis.com',
+  'content.googleapis.com',
+  'sts.googleapis.com',
+  'gsi.gstatic.com',
+  'iframerpc.gstatic.com',
+];
+
+// Whether a URL is on Google (see GOOGLE_HOST_PATTERN) or YouTube, on one
+// of the given subdomains ('' for the domain itself)
+function isGoogleSiteHost(url: CanonicalUrl, subdomains: string[]): boolean {
+  const domain = getGoogleDomain(url.host) ?? (url.registrableDomain === 'youtube.com' ? url.registrableDomain : null);
+  return !!domain && subdomains.some(sub => url.host === (sub ? `${sub}.${domain}` : domain));
+}
 
-// Check if URL is a Google authentication/OAuth URL
+// Sign-in paths on Google's own sites, matched by whole segment
+const GOOGLE_AUTH_PATHS = [
+  '/signin',
+  '/oauth',
+  '/o/oauth2',
+  '/auth',
+  '/login',
+  '/accounts',
+  '/gsi',
+  '/servicelogin',
+  '/checkcookie',
+  '/accountchooser',
+  '/addsession',
+  '/logout',
+  '/challenge',
+  '/speedbump',
+  '/accountlookup',
+  '/interstitial',
+  '/embedded',
+  '/authorization',
+];
+
+// Check if URL is a Google authentication/OAuth URL: a Google sign-in host,
+// or a sign-in path on Google's own sites. Paths and parameters that look
+// like sign-in on other sites do not count (see auth-exemptions.ts).
 export function isGoogleAuthUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const hostname = urlObj.hostname.toLowerCase();
-    const path = urlObj.pathname.toLowerCase();
-    const search = urlObj.search.toLowerCase();
-
-    // Auth-related subdomains - these should ALWAYS be allowed (wildcard match)
-    const authSubdomains = [
-      'accounts.google',
-      'myaccount.google',
-      'oauth2.googleapis',
-      'securetoken.googleapis',
-      'identitytoolkit.googleapis',
-      'gsi.gstatic',
-      'iframerpc.gstatic',
-      'content.googleapis',
-      'sts.googleapis',
-      'accounts.youtube'
-    ];
-    if (authSubdomains.some(sub => hostname.includes(sub))) {
-      return true;
-    }
-
-    // Auth-related path patterns (wildcard-like matching)
-    // Any path containing these keywords indicates auth flow
-    const authPathKeywords = [
-      '/signin',
-      '/oauth',
-      '/auth',
-      '/login',
-      '/accounts',
-      '/gsi',
-      '/ServiceLogin',
-      '/CheckCookie',
-      '/AccountChooser',
-      '/AddSession',
-      '/Logout',
-      '/challenge',
-      '/speedbump',
-      '/accountlookup',
-      '/interstitial',
-      '/embedded',
-      '/authorization'
-    ];
-    if (authPathKeywords.some(keyword => path.includes(keyword))) {
-      return true;
-    }
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) return false;
 
-    // OAuth query parameters (any of these indicate OAuth flow)
-    const oauthParams = [
-      'response_type=',
-      'client_id=',
-      'redirect_uri=',
-      'state=',
-      'scope=',
-      'continue=',
-      'authuser=',
-      'oauth=',
-      'token=',
-      'access_token=',
-      'code=',
-      'grant_type=',
-      'refresh_token='
-    ];
-    if (oauthParams.some(param => search.includes(param))) {
-      return true;
-    }
-
-    return false;
-  } catch {
-    return false;
+  if (GOOGLE_AUTH_HOSTS.includes(canonical.host) || isGoogleSiteHost(canonical, ['accounts'])) {
+    return true;
   }
+
+  const path = canonical.path.toLowerCase();
+  return isGoogleSiteHost(canonical, ['', 'www', 'm']) &&
+    GOOGLE_AUTH_PATHS.some(authPath => path === authPath || path.startsWith(`${authPath}/`));
 }
 
 // Check if URL is Google (search domain, not services or auth)
 export function isGoogleSearchDomain(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const hostname = urlObj.hostname.toLowerCase();
-    const domain = hostname.replace(/^www\./, '');
-
-    // Always allow Google authentication URLs
-    if (isGoogleAuthUrl(url)) {
-      return false;
-    }
+  const canonical = canonicalizeUrl(url);
 
-    // Only block main Google search domain to only allow safesearchengine.com
-    if (domain === 'google.com' || domain.match(/^google\.[a-z]{2,3}(\.[a-z]{2})?$/)) {
-      // Allow Google services
-      const allowedPrefixes = ['maps.', 'drive.', 'docs.', 'sheets.', 'slides.',
-        'calendar.', 'mail.', 'meet.', 'translate.', 'play.',
-        'accounts.', 'myaccount.', 'support.', 'cloud.',
-        'apis.', 'fonts.', 'firebase.', 'storage.'];
-      if (allowedPrefixes.some(p => hostname.startsWith(p))) {
-        return false;
-      }
-      return true;
-    }
-    return false;
-  } catch {
+  // Always allow Google authentication URLs
+  if (!canonical || isGoogleAuthUrl(url)) {
     return false;
   }
+
+  // Only block main Google search domain to only allow safesearchengine.com;
+  // Google services (maps., drive., accounts.) are on their own subdomains
+  return !!getGoogleDomain(canonical.host) && isGoogleSiteHost(canonical, ['', 'www']);
 }
 
 // Check if URL is the Google homepage (root or webhp)
 export function isGoogleHomePage(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const path = urlObj.pathname.toLowerCase();
-
-    // Homepage is root '/' or '/webhp'
-    // Also check for empty path if it's just the domain
-    return path === '/' || path === '/webhp';
-  } catch {
-    return false;
-  }
+  const path = canonicalizeUrl(url)?.path.toLowerCase();
+
+  // Homepage is root '/' or '/webhp' (a bare domain has the path '/')
+  return path === '/' || path === '/webhp';
 }
 
 // ====================================================================
-//  Check if URL is a blocked Google section (videos, shorts, images)
+//  Blocked Google sections (videos, shorts, images) and SafeSearch
 // ====================================================================
-export function isBlockedGoogleSection(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
-    const domain = urlObj.hostname.toLowerCase().replace(/^www\./, '');
 
-    // ALWAYS allow Auth URLs to bypass section blocking
-    if (isGoogleAuthUrl(url)) {
-      return false;
-    }
-
-    if (!domain.includes('google.')) {
-      return false;
-    }
+// Any Google domain (google.com, google.co.uk, google.com.ve...); sign-in
+// flows are left alone
+const GOOGLE_SEARCH_MATCH = { hostPattern: GOOGLE_HOST_PATTERN.source };
+const GOOGLE_AUTH_EXEMPTION = [{ check: 'google-auth' }];
 
-    const path = urlObj.pathname.toLowerCase();
-    const searchParams = urlObj.searchParams;
-    const fullUrl = url.toLowerCase();
-
-    // Block Google Images - check all possible indicators
-    // Configurable via App Config
-    if (isGoogleImagesBlockingEnabled()) {
-      if (path.includes('/imghp') || path.includes('/images') ||
-        searchParams.get('tbm') === 'isch' ||
-        searchParams.get('udm') === '2' ||
-        fullUrl.includes('tbm=isch') || fullUrl.includes('udm=2')) {
-        return true;
-      }
-    }
+/**
+ * Google rules of the URL policy (see filters/url_policy.ts). They use the
+ * 'google-auth' check (GOOGLE_POLICY_CHECKS).
+ */
+export const GOOGLE_POLICY_RULES: UrlPolicyRule[] = [
+  {
+    id: 'google-images',
+    description: 'Google Images (ENABLE_GOOGLE_IMAGES_BLOCKING)',
+    enabled: isGoogleImagesBlockingEnabled(),
+    match: [
+      { ...GOOGLE_SEARCH_MATCH, pathContains: ['/imghp', '/images'] },
+      { ...GOOGLE_SEARCH_MATCH, urlContains: ['tbm=isch', 'udm=2'] },
+    ],
+    unless: GOOGLE_AUTH_EXEMPTION,
+    action: 'block',
+    message: 'Google Images, Videos, and Shorts are blocked',
+  },
+  {
+    id: 'google-videos',
+    description: 'Google Videos, also hidden from the results page',
+    match: [
+      { ...GOOGLE_SEARCH_MATCH, pathContains: ['/videohp', '/videos'] },
+      { ...GOOGLE_SEARCH_MATCH, urlContains: ['tbm=vid', 'udm=7'] },
+    ],
+    unless: GOOGLE_AUTH_EXEMPTION,
+    action: 'block',
+    message: 'Google Images, Videos, and Shorts are blocked',
+  },
+  {
+    id: 'google-shorts',
+    description: 'Google Shorts, also hidden from the results page',
+    match: [
+      { ...GOOGLE_SEARCH_MATCH, pathContains: ['/shorts'] },
+      { ...GOOGLE_SEARCH_MATCH, urlContains: ['tbm=shs', 'udm=39'] },
+    ],
+    unless: GOOGLE_AUTH_EXEMPTION,
+    action: 'block',
+    message: 'Google Images, Videos, and Shorts are blocked',
+  },
+  {
+    id: 'google-safesearch',
+    description: 'Lock SafeSearch on',
+    match: GOOGLE_SEARCH_MATCH,
+    unless: GOOGLE_AUTH_EXEMPTION,
+    action: 'rewrite',
+    setQuery: { safe: 'active' },
+  },
+];
 
-    // Block Google Videos - ALWAYS BLOCKED (Hidden via UI, blocked via Navigation)
-    if (path.includes('/videohp') || path.includes('/videos') ||
-      searchParams.get('tbm') === 'vid' ||
-      searchParams.get('udm') === '7' ||
-      fullUrl.includes('tbm=vid') || fullUrl.includes('udm=7')) {
-      return true;
-    }
+/**
+ * Checks used by GOOGLE_POLICY_RULES
+ */
+export const GOOGLE_POLICY_CHECKS: UrlPolicyChecks = {
+  'google-auth': isGoogleAuthUrl,
+};
 
-    // Block Google Shorts - ALWAYS BLOCKED
-    if (path.includes('/shorts') ||
-      searchParams.get('udm') === '39' ||
-      fullUrl.includes('tbm=shs') || fullUrl.includes('udm=39')) {
-      return true;
-    }
+const GOOGLE_SECTION_RULES = GOOGLE_POLICY_RULES.filter(rule => rule.action === 'block');
+const GOOGLE_SAFESEARCH_RULES = GOOGLE_POLICY_RULES.filter(rule => rule.id === 'google-safesearch');
 
-    return false;
-  } catch {
-    return false;
-  }
+// Check if URL is a blocked Google section (videos, shorts, images)
+export function isBlockedGoogleSection(url: string): boolean {
+  return evaluateUrlPolicy(GOOGLE_SECTION_RULES, url, 'navigation', GOOGLE_POLICY_CHECKS).blocked;
 }
 
 // Generate CSS/JS to hide blocked Google sections
@@ -237,23 +220,7 @@ export function getGoogleUiCleanupScript(): string {
 // ====================================================================
 // Enforce Google SafeSearch by adding safe=active parameter
 export function enforceGoogleSafeSearch(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    const domain = urlObj.hostname.toLowerCase();
-
-    // Skip SafeSearch enforcement for Auth URLs
-    if (isGoogleAuthUrl(url)) {
-      return url;
-    }
-
-    if (domain.includes("google.")) {
-      urlObj.searchParams.set("safe", "active");
-      return urlObj.toString();
-    }
-    return url;
-  } catch {
-    return url;
-  }
+  return evaluateUrlPolicy(GOOGLE_SAFESEARCH_RULES, url, 'navigation', GOOGLE_POLICY_CHECKS).url;
 }
 
 // JS to suppress Google search results when SafeSearch is locked
@@ -547,13 +514,8 @@ export const GOOGLE_SECTIONS_BLOCK_JS = `
  * Check if URL is a Google search page
  */
 export function isGoogleSearchUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url.startsWith("http") ? url : `https://${url}`);
-    const domain = urlObj.hostname.toLowerCase();
-    // Check if it's a Google search page (not other Google services like YouTube, Maps, etc.)
-    return (domain.includes("google.") || domain === "google.com") &&
-      (urlObj.pathname.includes("/search") || urlObj.pathname === "/" || urlObj.pathname === "");
-  } catch {
-    return false;
-  }
+  const canonical = canonicalizeUrl(url);
+  // Check if it's a Google search page (not other Google services like YouTube, Maps, etc.)
+  return !!canonical && !!getGoogleDomain(canonical.host) &&
+    (canonical.path.includes("/search") || canonical.path === "/");
 }
@@ -0,0 +1,103 @@
+/**
+ * Short Link Check
+ *
+ * A short link (t.co, bit.ly...) says nothing about where it leads, so the
+ * filters only see the shortener. When turned on in Settings, a top-level
+ * navigation to a short link is held while the shortener is asked for the
+ * target with a HEAD request (see filters/redirectors.ts), and the target
+ * is filtered before anything loads.
+ *
+ * Targets are cached for an hour. The check is off by default: it sends
+ * each short link opened to its shortener from the app, and React Native's
+ * fetch follows the redirects with HEAD requests up to the target. A failed
+ * request never blocks a link; it opens as before.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ShortLinkResolver } from './filters/redirectors';
+
+export interface ShortLinkCheckSettings {
+  enabled: boolean;
+}
+
+const SHORT_LINK_CHECK_STORAGE_KEY = '@safebrowse_short_link_check';
+
+let settings: ShortLinkCheckSettings = { enabled: false };
+let settingsLoad: Promise<void> | null = null;
+const resolver = new ShortLinkResolver();
+
+/**
+ * Load the short link check settings from storage (once)
+ */
+export function loadShortLinkCheckSettings(): Promise<void> {
+  if (!settingsLoad) {
+    settingsLoad = AsyncStorage.getItem(SHORT_LINK_CHECK_STORAGE_KEY)
+      .then(stored => {
+        const parsed = stored ? JSON.parse(stored) : {};
+        settings = { enabled: parsed.enabled === true };
+      })
+      .catch(error => {
+        console.warn('[ShortLinks] Failed to load short link check settings:', error);
+      });
+  }
+  return settingsLoad;
+}
+
+/**
+ * Get the short link check settings (the defaults until they are loaded)
+ */
+export function getShortLinkCheckSettings(): ShortLinkCheckSettings {
+  return { ...settings };
+}
+
+/**
+ * Turn the short link check on or off
+ */
+export async function setShortLinkCheckSettings(
+  changes: Partial<ShortLinkCheckSettings>
+): Promise<{ success: boolean; error?: string }> {
+  await loadShortLinkCheckSettings();
+
+  const next = { ...settings, ...changes };
+  try {
+    await AsyncStorage.setItem(SHORT_LINK_CHECK_STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('[ShortLinks] Failed to save short link check settings:', error);
+    return { success: false, error: 'Could not save the setting' };
+  }
+
+  settings = next;
+  console.log(`[ShortLinks] Short link check ${next.enabled ? 'enabled' : 'disabled'}`);
+  return { success: true };
+}
+
+/**
+ * Whether short links are checked
+ */
+export function isShortLinkCheckEnabled(): boolean {
+  return settings.enabled;
+}
+
+/**
+ * Get the URL a short link leads to, or null if the check is off or the
+ * shortener gave no answer
+ */
+export async function resolveShortLink(url: string): Promise<string | null> {
+  await loadShortLinkCheckSettings();
+  if (!settings.enabled) return null;
+
+  try {
+    return await resolver.resolve(url);
+  } catch (error) {
+    console.warn(`[ShortLinks] Could not resolve ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the URL a short link leads to if it is cached, without waiting
+ */
+export function getCachedShortLink(url: string): string | null {
+  if (!settings.enabled) return null;
+  return resolver.getCached(url);
+}
@@ -7,6 +7,7 @@ import BrowserScreen from '@/screens/BrowserScreen';
 import BookmarksScreen from '@/screens/BookmarksScreen';
 import HistoryScreen from '@/screens/HistoryScreen';
 import SettingsScreen from '@/screens/SettingsScreen';
+import BlocklistsScreen from '@/screens/BlocklistsScreen';
 import { useTheme } from '@/hooks/useTheme';
 import { useBrowser } from '@/lib/browser-context';
 import { Spacing, BorderRadius } from '@/constants/theme';
@@ -16,6 +17,7 @@ export type DrawerParamList = {
   Browser: undefined;
   Bookmarks: undefined;
   History: undefined;
+  Blocklists: undefined;
   Settings: undefined;
 };
 
@@ -231,6 +233,16 @@ export default function DrawerNavigator() {
           ),
         }}
       />
+      <Drawer.Screen
+        name="Blocklists"
+        component={BlocklistsScreen}
+        options={{
+          title: 'Blocklists',
+          drawerIcon: ({ color, size }) => (
+            <Feather name="shield" size={size} color={color} />
+          ),
+        }}
+      />
       <Drawer.Screen
         name="Settings"
         component={SettingsScreen}
@@ -1,12 +1,13 @@
 import React from 'react';
+import { NavigatorScreenParams } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
-import DrawerNavigator from '@/navigation/DrawerNavigator';
+import DrawerNavigator, { DrawerParamList } from '@/navigation/DrawerNavigator';
 import TabSwitcherScreen from '@/screens/TabSwitcherScreen';
 import { useScreenOptions } from '@/hooks/useScreenOptions';
 import { useTheme } from '@/hooks/useTheme';
 
 export type RootStackParamList = {
-  Main: undefined;
+  Main: NavigatorScreenParams<DrawerParamList> | undefined;
   TabSwitcher: undefined;
 };
 
@@ -0,0 +1,1241 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  Switch,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect, DrawerActions } from '@react-navigation/native';
+import { HeaderButton } from '@react-navigation/elements';
+
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { useTheme } from '@/hooks/useTheme';
+import { Spacing, BorderRadius } from '@/constants/theme';
+import {
+  getBlocklistStats,
+  refreshBlocklists,
+  getAllEndpoints,
+  getEnabledLocalBlocklists,
+  listLocalBlocklists,
+  addBlocklistFromUrl,
+  addBlocklistFromText,
+  deleteLocalBlocklist,
+  setBlocklistEndpointEnabled,
+  toBlocklistFilename,
+  exportEndpointRegistry,
+  importBlocklistEndpoints,
+  BlocklistEndpoint,
+  BlocklistRefreshFailure,
+  EmbeddedLoadFailure,
+  DEFAULT_UPDATE_INTERVAL_HOURS,
+  getBlocklistRuleReport,
+  RULE_REPORT_REASON_LABELS,
+  UnsupportedRuleReason,
+  ApproximatedRuleReason,
+  BlocklistRejection,
+  BlocklistRejectionReason,
+  getBlocklistRejections,
+  clearBlocklistRejections,
+  describeBlocklistSource,
+  BlocklistChange,
+  BlocklistChangeCounts,
+  getBlocklistChangelog,
+  getBlocklistChangeCounts,
+  getBlockedSince,
+  BlocklistImportPreview,
+  SharedBlocklist,
+  pickBlocklistFile,
+  isUsableBlocklistImport,
+  takePendingBlocklistImport,
+  onPendingBlocklistImport,
+  BlocklistBackup,
+  BlocklistBackupRestoreMode,
+  shareBlocklistBackup,
+  pickBlocklistBackup,
+  restoreBlocklistBackup,
+} from '@/lib/Blocklist';
+
+type BlocklistStats = ReturnType<typeof getBlocklistStats>;
+type BlocklistChanges = ReturnType<typeof getBlocklistChangeCounts>;
+type AddMode = 'url' | 'text';
+
+/**
+ * Window of the "+added / −removed" counts
+ */
+const RECENT_CHANGES_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Most recent changelog entries shown on the screen
+ */
+const MAX_SHOWN_CHANGES = 5;
+
+/**
+ * Most recent rejected downloads shown on the screen
+ */
+const MAX_SHOWN_REJECTIONS = 10;
+
+const FORMAT_LABELS: { [format in NonNullable<BlocklistEndpoint['format']>]: string } = {
+  domains: 'Domain list',
+  hosts: 'Hosts file',
+  easylist: 'Adblock Plus filters',
+  adguard: 'AdGuard filters',
+};
+
+const REJECTION_REASON_LABELS: { [reason in BlocklistRejectionReason]: string } = {
+  checksum: 'Checksum mismatch',
+  signature: 'Invalid signature',
+  shrink: 'List shrank too much',
+  empty: 'Empty list',
+};
+
+function formatUpdatedAt(date: Date | null | undefined): string {
+  if (!date) return 'Not downloaded yet';
+  return `Updated ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+function formatCount(count: number): string {
+  return `${count.toLocaleString()} domains`;
+}
+
+function formatFailure(failure: BlocklistRefreshFailure | undefined): string {
+  if (!failure) return '';
+  const retryAt = failure.nextRetryAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `\nUpdate failed: ${failure.error} · Retrying at ${retryAt}`;
+}
+
+function formatEmbeddedFailure(failure: EmbeddedLoadFailure | null): string {
+  if (!failure) return '';
+  const retryAt = failure.nextRetryAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `\nCould not load: ${failure.error} · Retrying at ${retryAt}`;
+}
+
+function formatNetwork(count: number | undefined): string {
+  return count ? ` · ${count.toLocaleString()} URL rules` : '';
+}
+
+function formatCosmetic(count: number | undefined): string {
+  return count ? ` · ${count.toLocaleString()} hiding rules` : '';
+}
+
+function formatUnsupported(count: number | undefined): string {
+  return count ? ` · ${count.toLocaleString()} rules not applied` : '';
+}
+
+/**
+ * Show how many rules of a list took effect and why the others did not
+ */
+function showRuleReport(sourceId: string, name: string): void {
+  const report = getBlocklistRuleReport(sourceId);
+  if (!report) {
+    Alert.alert(name, 'No rule report is available for this list yet.');
+    return;
+  }
+
+  const lines = [
+    `${report.appliedRules.toLocaleString()} of ${report.totalRules.toLocaleString()} rules applied.`,
+  ];
+
+  const unsupported = Object.entries(report.unsupported);
+  if (unsupported.length > 0) {
+    lines.push('', 'Not applied:');
+    for (const [reason, entry] of unsupported) {
+      lines.push(`• ${RULE_REPORT_REASON_LABELS[reason as UnsupportedRuleReason]}: ${entry!.count.toLocaleString()}`);
+      lines.push(`   e.g. ${entry!.samples[0]}`);
+    }
+  }
+
+  const approximated = Object.entries(report.approximated);
+  if (approximated.length > 0) {
+    lines.push('', 'Applied more broadly than written:');
+    for (const [reason, entry] of approximated) {
+      lines.push(`• ${RULE_REPORT_REASON_LABELS[reason as ApproximatedRuleReason]}: ${entry!.count.toLocaleString()}`);
+    }
+  }
+
+  Alert.alert(name, lines.join('\n'));
+}
+
+function formatChangeCounts(counts: BlocklistChangeCounts | undefined): string {
+  if (!counts || (counts.added === 0 && counts.removed === 0)) return '';
+  return `+${counts.added.toLocaleString()} / −${counts.removed.toLocaleString()}`;
+}
+
+function formatRecentChanges(counts: BlocklistChangeCounts | undefined): string {
+  const formatted = formatChangeCounts(counts);
+  return formatted ? ` · ${formatted} since yesterday` : '';
+}
+
+function formatChange(change: BlocklistChange): string {
+  const date = new Date(change.at);
+  const time = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  switch (change.kind) {
+    case 'added':
+      return `Added with ${formatCount(change.addedCount)} · ${time}`;
+    case 'deleted':
+      return `Removed (${formatCount(change.removedCount)}) · ${time}`;
+    default:
+      return `${formatChangeCounts({ added: change.addedCount, removed: change.removedCount })} · ${time}`;
+  }
+}
+
+/**
+ * Show which list blocks a domain and since when
+ */
+function showBlockedSince(input: string): void {
+  const domain = input.trim().toLowerCase().replace(/^https?:\/\//, '').split(/[/?#]/)[0];
+  const result = getBlockedSince(domain);
+  if (!result) {
+    Alert.alert(domain, 'This domain is not blocked by any list.');
+    return;
+  }
+
+  const name = describeBlocklistSource(result.source);
+  let since: string;
+  if (result.source.startsWith('embedded:') || result.source.startsWith('bundled:')) {
+    since = 'It ships with the app.';
+  } else if (result.since) {
+    since = `Blocked since ${result.since.toLocaleString()}.`;
+  } else if (result.trackedSince) {
+    since = `Blocked since before ${result.trackedSince.toLocaleString()}, when change tracking for this list began.`;
+  } else {
+    since = 'No changes to this list have been recorded yet.';
+  }
+  Alert.alert(domain, `Blocked by ${name} (rule: ${result.domain}).\n${since}`);
+}
+
+function formatRejection(rejection: BlocklistRejection): string {
+  const date = new Date(rejection.rejectedAt);
+  const time = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  return `${REJECTION_REASON_LABELS[rejection.reason]} · ${time}\n${rejection.message}`;
+}
+
+function formatImportPreview(preview: BlocklistImportPreview): string {
+  const format = FORMAT_LABELS[preview.format || 'domains'];
+  return `${format} · ${formatCount(preview.domainCount)}${formatNetwork(preview.networkFilters)}${formatCosmetic(preview.cosmeticSelectors)}${formatUnsupported(preview.unsupportedRules)}`;
+}
+
+/**
+ * Name for an imported list: the file name without its extension
+ */
+function toImportName(name: string): string {
+  return name.replace(/\.[a-z0-9]{1,10}$/i, '');
+}
+
+function formatBackup(backup: BlocklistBackup): string {
+  const { manifest } = backup;
+  const created = manifest.createdAt ? new Date(manifest.createdAt).toLocaleString() : 'an unknown date';
+  return [
+    `Backup from ${created}:`,
+    `• ${manifest.endpoints.length} online lists`,
+    `• ${manifest.files.length} of your lists`,
+    `• ${manifest.allowlist.length} allowed domains`,
+    `• ${manifest.disabledCategories.length} categories turned off`,
+    '',
+    'Merge adds it to this device. Replace makes this device match the backup and deletes your other lists.',
+  ].join('\n');
+}
+
+function formatInterval(hours: number = DEFAULT_UPDATE_INTERVAL_HOURS): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return days === 1 ? 'Daily' : `Every ${days} days`;
+  }
+  return hours === 1 ? 'Hourly' : `Every ${hours} hours`;
+}
+
+interface SectionProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+function Section({ title, children }: SectionProps) {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.section}>
+      <ThemedText type="small" style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+        {title}
+      </ThemedText>
+      <View style={[styles.sectionContent, { backgroundColor: theme.backgroundDefault }]}>
+        {children}
+      </View>
+    </View>
+  );
+}
+
+interface SourceRowProps {
+  icon: keyof typeof Feather.glyphMap;
+  title: string;
+  subtitle: string;
+  rightElement?: React.ReactNode;
+  onPress?: () => void;
+}
+
+function SourceRow({ icon, title, subtitle, rightElement, onPress }: SourceRowProps) {
+  const { theme } = useTheme();
+
+  const content = (
+    <View style={styles.row}>
+      <View style={[styles.iconContainer, { backgroundColor: theme.primary }]}>
+        <Feather name={icon} size={16} color="#FFFFFF" />
+      </View>
+      <View style={styles.rowContent}>
+        <ThemedText type="body" style={styles.rowTitle} numberOfLines={1}>
+          {title}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }} numberOfLines={3}>
+          {subtitle}
+        </ThemedText>
+      </View>
+      {rightElement}
+    </View>
+  );
+
+  if (onPress) {
+    return (
+      <Pressable onPress={onPress} style={({ pressed }) => [pressed && { opacity: 0.7 }]}>
+        {content}
+      </Pressable>
+    );
+  }
+
+  return content;
+}
+
+function Divider() {
+  const { theme } = useTheme();
+  return <View style={[styles.divider, { backgroundColor: theme.border }]} />;
+}
+
+export default function BlocklistsScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+
+  const [stats, setStats] = useState<BlocklistStats>(() => getBlocklistStats());
+  const [endpoints, setEndpoints] = useState<BlocklistEndpoint[]>(() => getAllEndpoints());
+  const [localFiles, setLocalFiles] = useState<string[]>([]);
+  const [rejections, setRejections] = useState<BlocklistRejection[]>(() => getBlocklistRejections());
+  const [changes, setChanges] = useState<BlocklistChanges>(() => getBlocklistChangeCounts(Date.now() - RECENT_CHANGES_WINDOW_MS));
+  const [recentChanges, setRecentChanges] = useState<BlocklistChange[]>(() => getBlocklistChangelog().slice(0, MAX_SHOWN_CHANGES));
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [pendingEndpointId, setPendingEndpointId] = useState<string | null>(null);
+
+  const [isAddModalVisible, setIsAddModalVisible] = useState(false);
+  const [addMode, setAddMode] = useState<AddMode>('url');
+  const [nameInput, setNameInput] = useState('');
+  const [urlInput, setUrlInput] = useState('');
+  const [textInput, setTextInput] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const [isLookupModalVisible, setIsLookupModalVisible] = useState(false);
+  const [lookupInput, setLookupInput] = useState('');
+
+  const [isImportModalVisible, setIsImportModalVisible] = useState(false);
+  const [importInput, setImportInput] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const [filePreview, setFilePreview] = useState<BlocklistImportPreview | null>(null);
+  const [fileNameInput, setFileNameInput] = useState('');
+  const [isPickingFile, setIsPickingFile] = useState(false);
+  const [isSavingFile, setIsSavingFile] = useState(false);
+
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setStats(getBlocklistStats());
+    setEndpoints(getAllEndpoints());
+    setRejections(getBlocklistRejections());
+    setChanges(getBlocklistChangeCounts(Date.now() - RECENT_CHANGES_WINDOW_MS));
+    setRecentChanges(getBlocklistChangelog().slice(0, MAX_SHOWN_CHANGES));
+    setLocalFiles(await listLocalBlocklists());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    if (isRefreshing) return;
+    setIsRefreshing(true);
+    try {
+      await refreshBlocklists();
+    } catch (error) {
+      console.warn('[Blocklists] Refresh failed:', error);
+      Alert.alert('Refresh Failed', 'Could not refresh blocklists. Previously downloaded lists are still active.');
+    } finally {
+      await loadData();
+      setIsRefreshing(false);
+    }
+  }, [isRefreshing, loadData]);
+
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      headerShown: true,
+      headerTitle: 'Blocklists',
+      headerStyle: { backgroundColor: theme.backgroundRoot },
+      headerTintColor: theme.text,
+      headerLeft: () => (
+        <Pressable
+          onPress={() => navigation.dispatch(DrawerActions.openDrawer())}
+          style={{ paddingHorizontal: Spacing.md }}
+        >
+          <Feather name="menu" size={24} color={theme.text} />
+        </Pressable>
+      ),
+      headerRight: () => (
+        isRefreshing ? (
+          <ActivityIndicator style={{ paddingHorizontal: Spacing.md }} color={theme.primary} />
+        ) : (
+          <HeaderButton onPress={handleRefresh} pressColor={theme.primary}>
+            <ThemedText style={{ color: theme.primary }}>Refresh</ThemedText>
+          </HeaderButton>
+        )
+      ),
+    });
+  }, [navigation, theme, isRefreshing, handleRefresh]);
+
+  const handleToggleEndpoint = useCallback(async (endpoint: BlocklistEndpoint, enabled: boolean) => {
+    setPendingEndpointId(endpoint.id);
+    setEndpoints(current => current.map(e => (e.id === endpoint.id ? { ...e, enabled } : e)));
+    const saved = await setBlocklistEndpointEnabled(endpoint.id, enabled);
+    if (!saved) {
+      Alert.alert('Error', `Could not ${enabled ? 'enable' : 'disable'} ${endpoint.name}.`);
+    }
+    await loadData();
+    setPendingEndpointId(null);
+  }, [loadData]);
+
+  const handleDeleteLocal = useCallback((filename: string) => {
+    Alert.alert(
+      'Delete Blocklist',
+      `Delete ${filename}? Domains from this list will no longer be blocked.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const deleted = await deleteLocalBlocklist(filename);
+            if (!deleted) {
+              Alert.alert('Error', `Could not delete ${filename}.`);
+            }
+            await loadData();
+          },
+        },
+      ]
+    );
+  }, [loadData]);
+
+  const resetAddForm = useCallback(() => {
+    setNameInput('');
+    setUrlInput('');
+    setTextInput('');
+    setAddMode('url');
+  }, []);
+
+  const handleCancelAdd = useCallback(() => {
+    if (isAdding) return;
+    resetAddForm();
+    setIsAddModalVisible(false);
+  }, [isAdding, resetAddForm]);
+
+  const handleAdd = useCallback(async () => {
+    const url = urlInput.trim();
+    const text = textInput.trim();
+
+    if (addMode === 'url' && !/^https?:\/\/\S+$/i.test(url)) {
+      Alert.alert('Invalid URL', 'Please enter a valid http(s) URL of a blocklist.');
+      return;
+    }
+    if (addMode === 'text' && !text) {
+      Alert.alert('Empty List', 'Please paste the blocklist content.');
+      return;
+    }
+
+    const fallbackName = addMode === 'url' ? url.split('/').pop() || 'blocklist' : `pasted-${Date.now()}`;
+    const filename = toBlocklistFilename(nameInput || fallbackName);
+
+    if (localFiles.includes(filename)) {
+      Alert.alert('Name In Use', `A list named ${filename} already exists. Choose another name.`);
+      return;
+    }
+
+    setIsAdding(true);
+    const result = addMode === 'url'
+      ? await addBlocklistFromUrl(url, filename)
+      : await addBlocklistFromText(text, filename);
+    setIsAdding(false);
+
+    if (!result.success) {
+      Alert.alert('Could Not Add List', result.error || 'Unknown error');
+      return;
+    }
+
+    resetAddForm();
+    setIsAddModalVisible(false);
+    await loadData();
+    Alert.alert('List Added', `${filename} added with ${formatCount(result.domainCount)}.`);
+  }, [addMode, urlInput, textInput, nameInput, localFiles, resetAddForm, loadData]);
+
+  const openFilePreview = useCallback((preview: BlocklistImportPreview) => {
+    if (!isUsableBlocklistImport(preview)) {
+      Alert.alert('Nothing To Import', `${preview.name} does not contain any domains or filter rules.`);
+      return;
+    }
+    setFileNameInput(toImportName(preview.name));
+    setFilePreview(preview);
+  }, []);
+
+  const openSharedBlocklist = useCallback((shared: SharedBlocklist) => {
+    if (shared.kind === 'url') {
+      // Links are downloaded like any list added by URL
+      resetAddForm();
+      setUrlInput(shared.url);
+      setIsAddModalVisible(true);
+    } else {
+      openFilePreview(shared.preview);
+    }
+  }, [resetAddForm, openFilePreview]);
+
+  // Lists shared from other apps arrive through BlocklistShareHandler
+  useEffect(() => {
+    const showPending = () => {
+      const shared = takePendingBlocklistImport();
+      if (shared) openSharedBlocklist(shared);
+    };
+    showPending();
+    return onPendingBlocklistImport(showPending);
+  }, [openSharedBlocklist]);
+
+  const handlePickFile = useCallback(async () => {
+    if (isPickingFile) return;
+    setIsPickingFile(true);
+    try {
+      const preview = await pickBlocklistFile();
+      if (preview) openFilePreview(preview);
+    } catch (error) {
+      console.warn('[Blocklists] Could not read the file:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Could not read the file.');
+    } finally {
+      setIsPickingFile(false);
+    }
+  }, [isPickingFile, openFilePreview]);
+
+  const handleCancelFile = useCallback(() => {
+    if (isSavingFile) return;
+    setFilePreview(null);
+    setFileNameInput('');
+  }, [isSavingFile]);
+
+  const handleSaveFile = useCallback(async () => {
+    if (!filePreview) return;
+
+    const filename = toBlocklistFilename(fileNameInput || toImportName(filePreview.name));
+    if (localFiles.includes(filename)) {
+      Alert.alert('Name In Use', `A list named ${filename} already exists. Choose another name.`);
+      return;
+    }
+
+    setIsSavingFile(true);
+    const result = await addBlocklistFromText(filePreview.content, filename, filePreview.format);
+    setIsSavingFile(false);
+
+    if (!result.success) {
+      Alert.alert('Could Not Add List', result.error || 'Unknown error');
+      return;
+    }
+
+    setFilePreview(null);
+    setFileNameInput('');
+    await loadData();
+    Alert.alert('List Added', `${filename} added with ${formatCount(result.domainCount)}.`);
+  }, [filePreview, fileNameInput, localFiles, loadData]);
+
+  const handleBackup = useCallback(async () => {
+    if (isBackingUp) return;
+    setIsBackingUp(true);
+    try {
+      const shared = await shareBlocklistBackup();
+      if (!shared) {
+        Alert.alert('Backup Unavailable', 'Sharing files is not available on this device.');
+      }
+    } catch (error) {
+      console.warn('[Blocklists] Backup failed:', error);
+      Alert.alert('Backup Failed', 'Could not create the backup.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  }, [isBackingUp]);
+
+  const runRestore = useCallback(async (backup: BlocklistBackup, mode: BlocklistBackupRestoreMode) => {
+    setIsRestoring(true);
+    const result = await restoreBlocklistBackup(backup, mode);
+    setIsRestoring(false);
+    await loadData();
+
+    if (!result.success) {
+      Alert.alert('Restore Incomplete', result.error || 'Unknown error');
+      return;
+    }
+    Alert.alert(
+      'Backup Restored',
+      `Restored ${result.endpoints} online lists and ${result.files} of your lists. ${result.allowlist} domains are allowed.`
+    );
+  }, [loadData]);
+
+  const handleRestore = useCallback(async () => {
+    if (isRestoring) return;
+    setIsRestoring(true);
+    let picked: Awaited<ReturnType<typeof pickBlocklistBackup>>;
+    try {
+      picked = await pickBlocklistBackup();
+    } catch (error) {
+      console.warn('[Blocklists] Could not read the backup:', error);
+      picked = { error: 'Could not read the file.' };
+    } finally {
+      setIsRestoring(false);
+    }
+
+    if (!picked) return;
+    const { backup, error } = picked;
+    if (!backup) {
+      Alert.alert('Restore Failed', error || 'Unknown error');
+      return;
+    }
+    Alert.alert(
+      'Restore Backup',
+      formatBackup(backup),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => runRestore(backup, 'replace') },
+        { text: 'Merge', onPress: () => runRestore(backup, 'merge') },
+      ]
+    );
+  }, [isRestoring, runRestore]);
+
+  const handleExportEndpoints = useCallback(async () => {
+    try {
+      await Share.share({ message: exportEndpointRegistry(), title: 'Blocklist endpoints' });
+    } catch (error) {
+      console.warn('[Blocklists] Export failed:', error);
+    }
+  }, []);
+
+  const handleCancelImport = useCallback(() => {
+    if (isImporting) return;
+    setImportInput('');
+    setIsImportModalVisible(false);
+  }, [isImporting]);
+
+  const runImport = useCallback(async (mode: 'merge' | 'replace') => {
+    setIsImporting(true);
+    const result = await importBlocklistEndpoints(importInput, mode);
+    setIsImporting(false);
+
+    if (!result.success) {
+      Alert.alert('Import Failed', result.error || 'Unknown error');
+      return;
+    }
+
+    setImportInput('');
+    setIsImportModalVisible(false);
+    await loadData();
+    const skipped = result.skipped > 0 ? ` ${result.skipped} invalid entries were skipped.` : '';
+    Alert.alert('Endpoints Imported', `Imported ${result.imported} endpoints.${skipped}`);
+  }, [importInput, loadData]);
+
+  const handleImport = useCallback(() => {
+    if (!importInput.trim()) {
+      Alert.alert('Nothing To Import', 'Please paste an exported endpoint list.');
+      return;
+    }
+    Alert.alert(
+      'Import Endpoints',
+      'Merge with your current online lists, or replace them entirely?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => runImport('replace') },
+        { text: 'Merge', onPress: () => runImport('merge') },
+      ]
+    );
+  }, [importInput, runImport]);
+
+  const handleCancelLookup = useCallback(() => {
+    setLookupInput('');
+    setIsLookupModalVisible(false);
+  }, []);
+
+  const handleLookup = useCallback(() => {
+    if (!lookupInput.trim()) {
+      Alert.alert('No Domain', 'Please enter a domain to look up.');
+      return;
+    }
+    showBlockedSince(lookupInput);
+  }, [lookupInput]);
+
+  const handleClearRejections = useCallback(async () => {
+    await clearBlocklistRejections();
+    await loadData();
+  }, [loadData]);
+
+  const bundledLists = getEnabledLocalBlocklists();
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={[styles.summaryBox, { backgroundColor: theme.backgroundDefault }]}>
+          <Feather name="shield" size={20} color={theme.primary} />
+          <View style={styles.rowContent}>
+            <ThemedText type="body" style={styles.rowTitle}>
+              {formatCount(stats.total)} blocked
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {stats.lastUpdate ? formatUpdatedAt(stats.lastUpdate) : 'Blocklists have not been refreshed yet'}
+            </ThemedText>
+            {formatChangeCounts(changes.total) ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {formatChangeCounts(changes.total)} since yesterday
+              </ThemedText>
+            ) : null}
+          </View>
+        </View>
+
+        <Section title="Built-in">
+          <SourceRow
+            icon="lock"
+            title="Built-in blocklist"
+            subtitle={`${formatCount(stats.embedded)} · Ships with the app${formatEmbeddedFailure(stats.embeddedFailure)}`}
+          />
+          {bundledLists.map(list => (
+            <React.Fragment key={list.id}>
+              <Divider />
+              <SourceRow
+                icon="package"
+                title={list.name}
+                subtitle={`${formatCount(stats.bundled[list.id] || 0)} · Ships with the app`}
+                onPress={() => showRuleReport(`bundled:${list.id}`, list.name)}
+              />
+            </React.Fragment>
+          ))}
+        </Section>
+
+        <Section title="Online lists">
+          {endpoints.length === 0 ? (
+            <SourceRow icon="cloud-off" title="No online lists" subtitle="No endpoints are configured" />
+          ) : (
+            endpoints.map((endpoint, index) => (
+              <React.Fragment key={endpoint.id}>
+                {index > 0 ? <Divider /> : null}
+                <SourceRow
+                  icon="cloud"
+                  title={endpoint.name}
+                  subtitle={
+                    endpoint.enabled
+                      ? `${formatCount(stats.external[endpoint.id] || 0)} · ${formatInterval(endpoint.updateIntervalHours)} · ${formatUpdatedAt(stats.updatedAt[`external:${endpoint.id}`])}${formatNetwork(stats.networkFilters[`external:${endpoint.id}`])}${formatCosmetic(stats.cosmeticSelectors[`external:${endpoint.id}`])}${formatUnsupported(stats.unsupportedRules[`external:${endpoint.id}`])}${formatRecentChanges(changes.bySource[`external:${endpoint.id}`])}${formatFailure(stats.refreshFailures[endpoint.id])}`
+                      : 'Disabled'
+                  }
+                  onPress={endpoint.enabled ? () => showRuleReport(`external:${endpoint.id}`, endpoint.name) : undefined}
+                  rightElement={
+                    pendingEndpointId === endpoint.id ? (
+                      <ActivityIndicator color={theme.primary} />
+                    ) : (
+                      <Switch
+                        value={endpoint.enabled}
+                        onValueChange={(value) => handleToggleEndpoint(endpoint, value)}
+                        disabled={pendingEndpointId !== null}
+                        trackColor={{ true: theme.primary, false: theme.backgroundTertiary }}
+                      />
+                    )
+                  }
+                />
+              </React.Fragment>
+            ))
+          )}
+          <Divider />
+          <SourceRow
+            icon="download"
+            title="Import online lists"
+            subtitle="Paste an exported endpoint list (JSON)"
+            onPress={() => setIsImportModalVisible(true)}
+          />
+          <Divider />
+          <SourceRow
+            icon="share"
+            title="Export online lists"
+            subtitle="Share your endpoint list as JSON"
+            onPress={handleExportEndpoints}
+          />
+        </Section>
+
+        <Section title="Your lists">
+          {localFiles.map(filename => (
+            <React.Fragment key={filename}>
+              <SourceRow
+                icon="file-text"
+                title={filename}
+                subtitle={`${formatCount(stats.local[filename] || 0)} · ${formatUpdatedAt(stats.updatedAt[`local:${filename}`])}${formatNetwork(stats.networkFilters[`local:${filename}`])}${formatCosmetic(stats.cosmeticSelectors[`local:${filename}`])}${formatUnsupported(stats.unsupportedRules[`local:${filename}`])}${formatRecentChanges(changes.bySource[`local:${filename}`])}`}
+                onPress={() => showRuleReport(`local:${filename}`, filename)}
+                rightElement={
+                  <Pressable
+                    onPress={() => handleDeleteLocal(filename)}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Feather name="trash-2" size={18} color={theme.error} />
+                  </Pressable>
+                }
+              />
+              <Divider />
+            </React.Fragment>
+          ))}
+          <SourceRow
+            icon="plus"
+            title="Add a list"
+            subtitle="Download from a URL or paste domains, hosts or filter rules"
+            onPress={() => setIsAddModalVisible(true)}
+          />
+          <Divider />
+          <SourceRow
+            icon="folder"
+            title="Import a file"
+            subtitle="Choose a domain list, hosts file or filter list on this device"
+            onPress={handlePickFile}
+            rightElement={isPickingFile ? <ActivityIndicator color={theme.primary} /> : undefined}
+          />
+        </Section>
+
+        <Section title="Backup">
+          <SourceRow
+            icon="archive"
+            title="Back up blocklists"
+            subtitle="Save online lists, your lists, the allowlist and blocked categories to one file"
+            onPress={handleBackup}
+            rightElement={isBackingUp ? <ActivityIndicator color={theme.primary} /> : undefined}
+          />
+          <Divider />
+          <SourceRow
+            icon="upload"
+            title="Restore from backup"
+            subtitle="Set up this device from a backup file"
+            onPress={handleRestore}
+            rightElement={isRestoring ? <ActivityIndicator color={theme.primary} /> : undefined}
+          />
+        </Section>
+
+        <Section title="Changes">
+          {recentChanges.map(change => (
+            <React.Fragment key={`${change.sourceId}-${change.at}`}>
+              <SourceRow
+                icon="git-commit"
+                title={describeBlocklistSource(change.sourceId)}
+                subtitle={formatChange(change)}
+              />
+              <Divider />
+            </React.Fragment>
+          ))}
+          <SourceRow
+            icon="search"
+            title="Look up a domain"
+            subtitle="See which list blocks a domain and since when"
+            onPress={() => setIsLookupModalVisible(true)}
+          />
+        </Section>
+
+        {rejections.length > 0 ? (
+          <Section title="Rejected downloads">
+            {rejections.slice(0, MAX_SHOWN_REJECTIONS).map(rejection => (
+              <React.Fragment key={`${rejection.sourceId}-${rejection.rejectedAt}`}>
+                <SourceRow
+                  icon="alert-triangle"
+                  title={describeBlocklistSource(rejection.sourceId)}
+                  subtitle={formatRejection(rejection)}
+                />
+                <Divider />
+              </React.Fragment>
+            ))}
+            <SourceRow
+              icon="x-circle"
+              title="Clear rejection log"
+              subtitle={`${rejections.length} rejected download${rejections.length === 1 ? '' : 's'} recorded. The lists in use were kept.`}
+              onPress={handleClearRejections}
+            />
+          </Section>
+        ) : null}
+      </ScrollView>
+
+      <Modal
+        visible={isAddModalVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleCancelAdd}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.surface }]}>
+            <ThemedText style={styles.modalTitle}>Add Blocklist</ThemedText>
+
+            <View style={[styles.modeSwitch, { borderColor: theme.border }]}>
+              {(['url', 'text'] as AddMode[]).map(mode => (
+                <Pressable
+                  key={mode}
+                  onPress={() => setAddMode(mode)}
+                  style={[
+                    styles.modeButton,
+                    addMode === mode && { backgroundColor: theme.primary },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: addMode === mode ? theme.buttonText : theme.text }}
+                  >
+                    {mode === 'url' ? 'From URL' : 'Paste text'}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+
+            <TextInput
+              style={[styles.modalInput, { borderColor: theme.border, color: theme.text }]}
+              placeholder="List name (optional)"
+              placeholderTextColor={theme.textSecondary}
+              value={nameInput}
+              onChangeText={setNameInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            {addMode === 'url' ? (
+              <TextInput
+                style={[styles.modalInput, { borderColor: theme.border, color: theme.text }]}
+                placeholder="https://example.com/blocklist.txt"
+                placeholderTextColor={theme.textSecondary}
+                value={urlInput}
+                onChangeText={setUrlInput}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+            ) : (
+              <TextInput
+                style={[
+                  styles.modalInput,
+                  styles.modalTextArea,
+                  { borderColor: theme.border, color: theme.text },
+                ]}
+                placeholder={'example.com\n0.0.0.0 ads.example.com\n||tracker.example^'}
+                placeholderTextColor={theme.textSecondary}
+                value={textInput}
+                onChangeText={setTextInput}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+                textAlignVertical="top"
+              />
+            )}
+
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={handleCancelAdd}
+                disabled={isAdding}
+                style={[styles.modalButton, { borderColor: theme.border }]}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: theme.textSecondary }]}>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleAdd}
+                disabled={isAdding}
+                style={[styles.modalButton, styles.modalPrimaryButton, { backgroundColor: theme.primary }]}
+              >
+                {isAdding ? (
+                  <ActivityIndicator color={theme.surface} />
+                ) : (
+                  <ThemedText style={[styles.modalButtonText, { color: theme.surface }]}>Add</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={filePreview !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleCancelFile}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.surface }]}>
+            <ThemedText style={styles.modalTitle}>Import Blocklist</ThemedText>
+
+            {filePreview ? (
+              <ThemedText type="small" style={[styles.modalSummary, { color: theme.textSecondary }]}>
+                {filePreview.name}{'\n'}{formatImportPreview(filePreview)}
+              </ThemedText>
+            ) : null}
+
+            <TextInput
+              style={[styles.modalInput, { borderColor: theme.border, color: theme.text }]}
+              placeholder="List name"
+              placeholderTextColor={theme.textSecondary}
+              value={fileNameInput}
+              onChangeText={setFileNameInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={handleCancelFile}
+                disabled={isSavingFile}
+                style={[styles.modalButton, { borderColor: theme.border }]}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: theme.textSecondary }]}>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleSaveFile}
+                disabled={isSavingFile}
+                style={[styles.modalButton, styles.modalPrimaryButton, { backgroundColor: theme.primary }]}
+              >
+                {isSavingFile ? (
+                  <ActivityIndicator color={theme.surface} />
+                ) : (
+                  <ThemedText style={[styles.modalButtonText, { color: theme.surface }]}>Save</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={isLookupModalVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleCancelLookup}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.surface }]}>
+            <ThemedText style={styles.modalTitle}>Look Up a Domain</ThemedText>
+
+            <TextInput
+              style={[styles.modalInput, { borderColor: theme.border, color: theme.text }]}
+              placeholder="example.com"
+              placeholderTextColor={theme.textSecondary}
+              value={lookupInput}
+              onChangeText={setLookupInput}
+              onSubmitEditing={handleLookup}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={handleCancelLookup}
+                style={[styles.modalButton, { borderColor: theme.border }]}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: theme.textSecondary }]}>Close</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleLookup}
+                style={[styles.modalButton, styles.modalPrimaryButton, { backgroundColor: theme.primary }]}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: theme.surface }]}>Look Up</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={isImportModalVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={handleCancelImport}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.surface }]}>
+            <ThemedText style={styles.modalTitle}>Import Online Lists</ThemedText>
+
+            <TextInput
+              style={[
+                styles.modalInput,
+                styles.modalTextArea,
+                { borderColor: theme.border, color: theme.text },
+              ]}
+              placeholder={'{ "endpoints": [ ... ] }'}
+              placeholderTextColor={theme.textSecondary}
+              value={importInput}
+              onChangeText={setImportInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+              textAlignVertical="top"
+            />
+
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={handleCancelImport}
+                disabled={isImporting}
+                style={[styles.modalButton, { borderColor: theme.border }]}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: theme.textSecondary }]}>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleImport}
+                disabled={isImporting}
+                style={[styles.modalButton, styles.modalPrimaryButton, { backgroundColor: theme.primary }]}
+              >
+                {isImporting ? (
+                  <ActivityIndicator color={theme.surface} />
+                ) : (
+                  <ThemedText style={[styles.modalButtonText, { color: theme.surface }]}>Import</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.md,
+  },
+  summaryBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: Spacing.xs,
+    marginLeft: Spacing.xs,
+    fontSize: 11,
+  },
+  sectionContent: {
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.sm,
+  },
+  iconContainer: {
+    width: 28,
+    height: 28,
+    borderRadius: BorderRadius.xs,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: Spacing.sm,
+  },
+  rowContent: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  rowTitle: {
+    fontWeight: '500',
+    fontSize: 14,
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    marginLeft: 44,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.lg,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: Spacing.md,
+    textAlign: 'center',
+  },
+  modalSummary: {
+    marginBottom: Spacing.md,
+    textAlign: 'center',
+  },
+  modeSwitch: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    marginBottom: Spacing.md,
+  },
+  modeButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.sm,
+    fontSize: 16,
+    marginBottom: Spacing.md,
+  },
+  modalTextArea: {
+    height: 160,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  modalPrimaryButton: {
+    borderWidth: 0,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
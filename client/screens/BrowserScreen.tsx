@@ -58,6 +58,12 @@ import {
 } from '@/lib/filters/visuals_filters';
 import {
   processUrl,
+  getBlockAlertMessage,
+  checkNavigationDns,
+  getCachedNavigationDnsBlock,
+  checkNavigationShortLink,
+  getCachedShortLinkBlock,
+  needsShortLinkCheck,
   isApkDownload,
   isNonPdfFileDownload,
   getUrlOrSearch,
@@ -66,8 +72,17 @@ import {
   isMediaWhitelisted,
   isOAuthCallbackUrl,
   isReferrerFromSafeSearch,
-  BLOCKED_KEYWORD_TERMS,
+  getCosmeticFilterPreloadScript,
+  getRequestBlockingPreloadScript,
+  checkResourceRequest,
+  checkResourceHosts,
+  isBlockedSearchQuery,
+  isBlockedKeywordInUrl,
+  BLOCKED_KEYWORD_PATTERN,
+  BLOCKED_KEYWORD_FALLBACK_PATTERN,
 } from '@/lib/content-filter';
+import { FOLD_KEYWORD_TEXT_JS } from '@/lib/filters/keyword_filter';
+import { syncNativeRequestRules } from '@/lib/Blocklist/blocklist';
 import {
   isGoogleSearchUrl,
   GOOGLE_SAFESEARCH_SUPPRESSION_JS,
@@ -80,6 +95,7 @@ import {
   getGoogleUiCleanupScript,
 } from '@/lib/search_engine_restrictions';
 import { isYouTubeAlwaysRestrictedEnabled } from '@/lib/app-config';
+import { noteOAuthNavigation } from '@/lib/auth-exemptions';
 import {
   getBypassUA,
   getBypassRule,
@@ -250,6 +266,10 @@ export default function BrowserScreen() {
 
   // Track previous URL for Google referrer checking
   const previousUrlRef = useRef<string | null>(null);
+  // Last top-level URL whose host aliases were checked over DNS
+  const dnsCheckedUrlRef = useRef<string | null>(null);
+  // Last short link held while its shortener was asked where it leads
+  const shortLinkCheckedUrlRef = useRef<string | null>(null);
   const [pendingPermissionOrigin, setPendingPermissionOrigin] = useState<string | null>(null);
 
   // Counter to force WebView navigation when we need to redirect
@@ -1055,7 +1075,15 @@ export default function BrowserScreen() {
       // explicit keyword searches before they reach this page.
       if (window.location.hostname.toLowerCase().includes('safesearchengine.com')) return;
 
-      var TERMS = ${JSON.stringify(BLOCKED_KEYWORD_TERMS)};
+      ${FOLD_KEYWORD_TEXT_JS}
+      // Blocked terms, in text folded the way the URL filter folds it. A
+      // pattern the engine rejects must not stop the scan
+      var PATTERN;
+      try {
+        PATTERN = new RegExp(${JSON.stringify(BLOCKED_KEYWORD_PATTERN)}, 'u');
+      } catch (e) {
+        PATTERN = new RegExp(${JSON.stringify(BLOCKED_KEYWORD_FALLBACK_PATTERN)});
+      }
       function killPage() {
         // Strip all links so nothing is clickable or copyable
         var links = document.querySelectorAll('a');
@@ -1078,14 +1106,11 @@ export default function BrowserScreen() {
         }
       }
       function check() {
-        var title = (document.title || '').toLowerCase();
-        var url = window.location.href.toLowerCase();
-        var bodyText = document.body ? (document.body.innerText || '').toLowerCase().substring(0, 20000) : '';
-        for (var i = 0; i < TERMS.length; i++) {
-          if (title.includes(TERMS[i]) || url.includes(TERMS[i]) || bodyText.includes(TERMS[i])) {
-            killPage();
-            return;
-          }
+        var title = foldKeywordText(document.title || '');
+        var url = foldKeywordText(window.location.href);
+        var bodyText = document.body ? foldKeywordText((document.body.innerText || '').substring(0, 20000)) : '';
+        if (PATTERN.test(title) || PATTERN.test(url) || PATTERN.test(bodyText)) {
+          killPage();
         }
       }
       if (document.readyState === 'loading') {
@@ -1366,15 +1391,19 @@ export default function BrowserScreen() {
 
   const [lockIconMenu, setLockIconMenu] = useState(false);
   const [lockMenuHostname, setLockMenuHostname] = useState('');
+  // Sub-resource requests blocked on the current page, as reported by the
+  // page script (a running total) and the Android interceptor (one at a time)
+  const [blockedRequestCount, setBlockedRequestCount] = useState(0);
+  const pageBlockedRequestsRef = useRef(0);
+  const nativeBlockedRequestsRef = useRef(0);
   const [showFindInPage, setShowFindInPage] = useState(false);
   const [findSearchText, setFindSearchText] = useState('');
   const [findResultsCount, setFindResultsCount] = useState(0);
   const [findCurrentIndex, setFindCurrentIndex] = useState(0);
 
   const showLinkContextMenu = useCallback((url: string, text: string) => {
-    const lowerUrl = url.toLowerCase();
     const isApkLink = isApkDownload(url) || isNonPdfFileDownload(url) ||
-      BLOCKED_KEYWORD_TERMS.some(t => lowerUrl.includes(t));
+      isBlockedSearchQuery(url) || isBlockedKeywordInUrl(url);
 
     if (Platform.OS === 'ios') {
       const options = isApkLink
@@ -1389,7 +1418,7 @@ export default function BrowserScreen() {
             if (!result.blocked) {
               createTab(result.url);
             } else if (result.showAlert) {
-              Alert.alert('Content Blocked', result.reason || 'This content is blocked');
+              Alert.alert('Content Blocked', getBlockAlertMessage(result));
             }
           } else if (!isApkLink && buttonIndex === 1) {
             Clipboard.setStringAsync(url);
@@ -1598,7 +1627,7 @@ export default function BrowserScreen() {
         }
         setUrlInputValue(result.redirect);
       } else if (result.showAlert) {
-        Alert.alert('Content Blocked', result.reason || 'This content is blocked');
+        Alert.alert('Content Blocked', getBlockAlertMessage(result));
       }
       setForceNavCounter(c => c + 1); // Force WebView to navigate to the new URL or reflect blocked state
       return;
@@ -1649,6 +1678,20 @@ export default function BrowserScreen() {
       } else if (data.type === 'reload') {
         // Back-compat: older injected scripts request reload directly
         webViewRef.current?.reload();
+      } else if (data.type === 'resourceHostCheck') {
+        // Page request filter asking which hosts are blocked
+        const verdicts = checkResourceHosts(data.hosts);
+        webViewRef.current?.injectJavaScript(
+          `window.__safebrowseHostVerdicts && window.__safebrowseHostVerdicts(${JSON.stringify(verdicts)});true;`
+        );
+      } else if (data.type === 'resourcesBlocked' || data.type === 'nativeResourceBlocked') {
+        if (data.type === 'resourcesBlocked') {
+          pageBlockedRequestsRef.current = Number(data.count) || 0;
+        } else {
+          nativeBlockedRequestsRef.current++;
+        }
+        setBlockedRequestCount(pageBlockedRequestsRef.current + nativeBlockedRequestsRef.current);
+        if (__DEV__) console.log('[RequestFilter] Blocked:', data.samples || data.url);
       } else if (data.type === 'longPressLink') {
         showLinkContextMenu(data.url, data.text);
       } else if (data.type === 'longPressImage') {
@@ -1907,6 +1950,9 @@ export default function BrowserScreen() {
       if (__DEV__) console.log('[Google Auth Check] NavigationStateChange: ALLOWING auth URL:', navState.url);
     }
 
+    // Server-side redirects into an OAuth flow only show up here
+    noteOAuthNavigation(navState.url);
+
     // Get current page URL as referrer (where we're navigating FROM)
     const activeTab = getActiveTab();
     const currentReferrer = activeTab?.url || previousUrlRef.current;
@@ -1992,11 +2038,25 @@ export default function BrowserScreen() {
         previousUrlRef.current = null;
       } else if (result.showAlert) {
         webViewRef.current?.goBack();
-        Alert.alert('Content Blocked', result.reason || 'This content is blocked');
+        Alert.alert('Content Blocked', getBlockAlertMessage(result));
       }
       return;
     }
 
+    // Hosts that are aliases (CNAME) of a blocked domain, when the DNS check is on.
+    // The page keeps loading while the resolver answers.
+    if (dnsCheckedUrlRef.current !== navState.url) {
+      dnsCheckedUrlRef.current = navState.url;
+      const checkedUrl = navState.url;
+      checkNavigationDns(checkedUrl).then(dnsResult => {
+        // Skip if the user already went elsewhere
+        if (!dnsResult || previousUrlRef.current !== checkedUrl) return;
+        webViewRef.current?.stopLoading();
+        webViewRef.current?.goBack();
+        Alert.alert('Content Blocked', getBlockAlertMessage(dnsResult));
+      });
+    }
+
     // Update previous URL for next navigation's referrer check (MUST be after all checks)
     if (__DEV__) console.log('[previousUrlRef Update] Setting to:', navState.url);
     previousUrlRef.current = navState.url;
@@ -2037,6 +2097,13 @@ export default function BrowserScreen() {
     isLoadingRef.current = true;
     loadingProgress.value = 0.1;
 
+    // New page: restart the blocked request count, and make sure the
+    // Android interceptor has the current rules
+    pageBlockedRequestsRef.current = 0;
+    nativeBlockedRequestsRef.current = 0;
+    setBlockedRequestCount(0);
+    syncNativeRequestRules();
+
     // Immediately inject permission blocking script
     if (webViewRef.current && activeTabId) {
       // Get hostname from current URL
@@ -2909,7 +2976,7 @@ export default function BrowserScreen() {
     })();
   `;
 
-  const handleShouldStartLoadWithRequest = useCallback((request: { url: string }) => {
+  const handleShouldStartLoadWithRequest = useCallback((request: { url: string; isTopFrame?: boolean }) => {
     const { url } = request;
 
     // Upgrade HTTP to HTTPS to avoid cleartext traffic errors
@@ -3023,7 +3090,7 @@ export default function BrowserScreen() {
             }
           }, 100); // Small delay to ensure the navigation is processed
         } else if (result.showAlert) {
-          Alert.alert('Content Blocked', result.reason || 'This content is blocked');
+          Alert.alert('Content Blocked', getBlockAlertMessage(result));
         }
         return false; // Prevent the original deep link from loading
       } else {
@@ -3155,6 +3222,16 @@ export default function BrowserScreen() {
       youtubeReferrerRef.current = activeTab?.url || null;
     }
 
+    // Frames inside the page are sub-resources: apply the lists' URL rules too
+    if (request.isTopFrame === false) {
+      const frameResult = checkResourceRequest(url, getActiveTab()?.url || '', 'subdocument');
+      if (frameResult.blocked) {
+        nativeBlockedRequestsRef.current++;
+        setBlockedRequestCount(pageBlockedRequestsRef.current + nativeBlockedRequestsRef.current);
+        return false;
+      }
+    }
+
     // Treat WebView requests as resources/sub-requests to avoid spamming alerts for ads/tracking
     // User-initiated navigation (typing URL, clicking link) is handled separately
     const result = processUrl(request.url, 'resource');
@@ -3167,11 +3244,49 @@ export default function BrowserScreen() {
         }
       } else if (result.showAlert) {
         // Only show alert if this is a user-initiated navigation
-        Alert.alert('Content Blocked', result.reason || 'This content is blocked');
+        Alert.alert('Content Blocked', getBlockAlertMessage(result));
       }
       return false;
     }
 
+    // Aliases of a blocked domain, when the DNS check already has the answer
+    if (request.isTopFrame !== false) {
+      const dnsResult = getCachedNavigationDnsBlock(url);
+      if (dnsResult) {
+        Alert.alert('Content Blocked', getBlockAlertMessage(dnsResult));
+        return false;
+      }
+
+      // Short links (t.co, bit.ly...) leading to a blocked page, when the
+      // short link check already knows the target
+      const shortLinkResult = getCachedShortLinkBlock(url);
+      if (shortLinkResult) {
+        Alert.alert('Content Blocked', getBlockAlertMessage(shortLinkResult));
+        return false;
+      }
+
+      // Otherwise hold the link until the shortener says where it leads,
+      // then open it again (once, even if the shortener did not answer)
+      if (shortLinkCheckedUrlRef.current !== url && needsShortLinkCheck(url)) {
+        shortLinkCheckedUrlRef.current = url;
+        const tabId = activeTabId;
+        const fromUrl = previousUrlRef.current;
+        checkNavigationShortLink(url).then(linkResult => {
+          if (linkResult) {
+            Alert.alert('Content Blocked', getBlockAlertMessage(linkResult));
+          } else if (tabId && previousUrlRef.current === fromUrl) {
+            // Skipped if the user already went elsewhere
+            updateTab(tabId, { url, sourceUrl: url });
+            setForceNavCounter(c => c + 1);
+          }
+        });
+        return false;
+      }
+
+      // Remember OAuth flows starting here so their callback is recognized
+      noteOAuthNavigation(url);
+    }
+
     // === NAVIGATION-BASED PERMISSION CONTROL ===
     // Block sites where camera/mic is explicitly disabled
     const origin = extractOrigin(url);
@@ -3634,7 +3749,9 @@ export default function BrowserScreen() {
           cancelButtonIndex,
           destructiveButtonIndex,
           title: hostname,
-          message: 'Site privacy and data options',
+          message: blockedRequestCount > 0
+            ? `Site privacy and data options\n${blockedRequestCount} blocked request${blockedRequestCount === 1 ? '' : 's'} on this page`
+            : 'Site privacy and data options',
         },
         (buttonIndex) => {
           if (buttonIndex === 0) {
@@ -3845,7 +3962,7 @@ export default function BrowserScreen() {
       setLockMenuHostname(hostname);
       setLockIconMenu(true);
     }
-  }, [activeTab, allowMicCamera, askToRemember, removePersistedPermission]);
+  }, [activeTab, allowMicCamera, askToRemember, removePersistedPermission, blockedRequestCount]);
 
   const handleOpenBookmarks = useCallback(() => {
     navigation.dispatch(DrawerActions.jumpTo('Bookmarks'));
@@ -4478,6 +4595,10 @@ export default function BrowserScreen() {
   const isCurrentSiteMediaWhitelisted = activeTab?.url ? (isGoogleAuth || isMediaWhitelisted(activeTab.url)) : false;
   const mediaFilterJS = getMediaFilterScript(isCurrentSiteMediaWhitelisted);
   const mediaFilterPreloadJS = getMediaFilterPreloadScript(isCurrentSiteMediaWhitelisted);
+  // Element hiding rules from the blocklists for this site
+  const cosmeticFilterJS = activeTab?.url ? getCosmeticFilterPreloadScript(activeTab.url) : '';
+  // Blocklist enforcement for the page's own requests (fetch, XHR, scripts, images, frames)
+  const requestBlockingJS = activeTab?.url ? getRequestBlockingPreloadScript(activeTab.url) : '';
 
   // Always include notification interception and permission blocking for all sites
   // BUT skip ALL injections for Google auth pages (they need to work without interference)
@@ -4791,7 +4912,7 @@ export default function BrowserScreen() {
                   if (!result.blocked) {
                     createTab(result.url);
                   } else if (result.showAlert) {
-                    Alert.alert('Content Blocked', result.reason || 'This content is blocked');
+                    Alert.alert('Content Blocked', getBlockAlertMessage(result));
                   }
                 }}
                 style={({ pressed }) => [
@@ -4804,7 +4925,7 @@ export default function BrowserScreen() {
               </Pressable>
 
               {!isApkDownload(linkContextMenu.url) && !isNonPdfFileDownload(linkContextMenu.url) &&
-               !BLOCKED_KEYWORD_TERMS.some(t => linkContextMenu.url.toLowerCase().includes(t)) && (
+               !isBlockedSearchQuery(linkContextMenu.url) && !isBlockedKeywordInUrl(linkContextMenu.url) && (
                 <Pressable
                   onPress={() => {
                     setLinkContextMenu(null);
@@ -4875,6 +4996,11 @@ export default function BrowserScreen() {
               <ThemedText style={[styles.lockIconMenuTitle, { color: theme.textSecondary }]}>
                 {lockMenuHostname}
               </ThemedText>
+              {blockedRequestCount > 0 && (
+                <ThemedText style={[styles.lockIconMenuSubtitle, { color: theme.textSecondary }]}>
+                  {blockedRequestCount} blocked request{blockedRequestCount === 1 ? '' : 's'} on this page
+                </ThemedText>
+              )}
 
               <Pressable
                 onPress={() => {
@@ -5476,7 +5602,7 @@ export default function BrowserScreen() {
                   }
                 })();
               ` + (skipHeavyScripts ? DEBUG_CONSOLE_PROXY_JS + scrollTrackingJS : injectedJS) + (!skipHeavyScripts && tabIsYouTube ? youtubeFixJS : '') + (!skipHeavyScripts && tabIsReddit ? REDDIT_NSFW_FILTER_JS : '') + (!skipHeavyScripts && tabIsGoogle ? GOOGLE_SAFESEARCH_SUPPRESSION_JS + GOOGLE_SECTIONS_BLOCK_JS : '') + (!skipHeavyScripts ? PAYWALL_BYPASS_POSTLOAD_JS : '')}
-                injectedJavaScriptBeforeContentLoaded={skipHeavyScripts ? DEBUG_CONSOLE_PROXY_JS : (apkDownloadBlockJS + blobDownloadInterceptJS + keywordPageScanJS + PAYWALL_BYPASS_PRELOAD_JS + facebookDeepLinkPreventionJS + mediaFilterPreloadJS + (tabIsYouTube ? youtubePreloadJS + ';' + youtubeFixJS : '') + (tabIsReddit ? REDDIT_EARLY_CSS_JS : '') + (tabIsGoogle ? GOOGLE_SAFESEARCH_SUPPRESSION_JS + GOOGLE_SECTIONS_BLOCK_JS : '') + getPermissionBlockingScript(currentHostname))}
+                injectedJavaScriptBeforeContentLoaded={skipHeavyScripts ? DEBUG_CONSOLE_PROXY_JS : (apkDownloadBlockJS + blobDownloadInterceptJS + keywordPageScanJS + PAYWALL_BYPASS_PRELOAD_JS + facebookDeepLinkPreventionJS + requestBlockingJS + mediaFilterPreloadJS + cosmeticFilterJS + (tabIsYouTube ? youtubePreloadJS + ';' + youtubeFixJS : '') + (tabIsReddit ? REDDIT_EARLY_CSS_JS : '') + (tabIsGoogle ? GOOGLE_SAFESEARCH_SUPPRESSION_JS + GOOGLE_SECTIONS_BLOCK_JS : '') + getPermissionBlockingScript(currentHostname))}
                 key={`${tab.id}-${permissionCounter}-${forceNavCounter}`}
                 originWhitelist={['*']}
                 allowsBackForwardNavigationGestures
@@ -6247,6 +6373,11 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.sm,
     fontSize: 12,
   },
+  lockIconMenuSubtitle: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+    fontSize: 11,
+  },
   lockIconMenuButton: {
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.sm,
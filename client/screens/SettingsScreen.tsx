@@ -1,10 +1,13 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   StyleSheet,
   ScrollView,
   Pressable,
   Alert,
+  Switch,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -17,6 +20,23 @@ import { useTheme } from '@/hooks/useTheme';
 import { useBrowser } from '@/lib/browser-context';
 import { Spacing, BorderRadius } from '@/constants/theme';
 import { RootStackParamList } from '@/navigation/RootStackNavigator';
+import {
+  BLOCKLIST_CATEGORIES,
+  BlocklistCategory,
+  DnsCheckSettings,
+  getDnsCheckSettings,
+  isBlocklistCategoryEnabled,
+  loadBlocklistCategorySettings,
+  loadDnsCheckSettings,
+  setBlocklistCategoryEnabled,
+  setDnsCheckSettings,
+} from '@/lib/Blocklist';
+import {
+  getShortLinkCheckSettings,
+  loadShortLinkCheckSettings,
+  setShortLinkCheckSettings,
+  ShortLinkCheckSettings,
+} from '@/lib/short-link-check';
 
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -101,6 +121,10 @@ function SettingsRow({
   return content;
 }
 
+function getEnabledCategories(): BlocklistCategory[] {
+  return BLOCKLIST_CATEGORIES.map(category => category.id).filter(isBlocklistCategoryEnabled);
+}
+
 function SettingsDivider() {
   const { theme } = useTheme();
   return (
@@ -113,6 +137,16 @@ export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<NavigationProp>();
   const { clearHistory, clearBookmarks, requestCacheClear, clearAllData, history, bookmarks, getActiveTab } = useBrowser();
+  const [enabledCategories, setEnabledCategories] = useState<BlocklistCategory[]>(getEnabledCategories);
+  const [dnsCheck, setDnsCheck] = useState<DnsCheckSettings>(getDnsCheckSettings);
+  const [endpointInput, setEndpointInput] = useState<string | null>(null);
+  const [shortLinkCheck, setShortLinkCheck] = useState<ShortLinkCheckSettings>(getShortLinkCheckSettings);
+
+  React.useEffect(() => {
+    loadBlocklistCategorySettings().then(() => setEnabledCategories(getEnabledCategories()));
+    loadDnsCheckSettings().then(() => setDnsCheck(getDnsCheckSettings()));
+    loadShortLinkCheckSettings().then(() => setShortLinkCheck(getShortLinkCheckSettings()));
+  }, []);
 
   React.useLayoutEffect(() => {
     navigation.setOptions({
@@ -189,7 +223,46 @@ const handleClearCookies = useCallback(() => {
   );
 }, [clearAllData]);
 
-  
+  const handleToggleCategory = useCallback(async (category: BlocklistCategory, enabled: boolean) => {
+    setEnabledCategories(current =>
+      enabled ? [...current, category] : current.filter(c => c !== category)
+    );
+    const saved = await setBlocklistCategoryEnabled(category, enabled);
+    if (!saved) {
+      Alert.alert('Error', 'Could not save the setting.');
+      setEnabledCategories(getEnabledCategories());
+    }
+  }, []);
+
+  const handleToggleDnsCheck = useCallback(async (enabled: boolean) => {
+    setDnsCheck(current => ({ ...current, enabled }));
+    const result = await setDnsCheckSettings({ enabled });
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Could not save the setting.');
+    }
+    setDnsCheck(getDnsCheckSettings());
+  }, []);
+
+  const handleToggleShortLinkCheck = useCallback(async (enabled: boolean) => {
+    setShortLinkCheck({ enabled });
+    const result = await setShortLinkCheckSettings({ enabled });
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Could not save the setting.');
+    }
+    setShortLinkCheck(getShortLinkCheckSettings());
+  }, []);
+
+  const handleSaveEndpoint = useCallback(async () => {
+    if (endpointInput === null) return;
+    const result = await setDnsCheckSettings({ endpoint: endpointInput });
+    if (!result.success) {
+      Alert.alert('Invalid resolver', result.error || 'Could not save the setting.');
+      return;
+    }
+    setDnsCheck(getDnsCheckSettings());
+    setEndpointInput(null);
+  }, [endpointInput]);
+
   return (
     <ThemedView style={styles.container}>
       <ScrollView
@@ -199,6 +272,64 @@ const handleClearCookies = useCallback(() => {
         ]}
         showsVerticalScrollIndicator={false}
       >
+        <SettingsSection title="Blocked categories">
+          {BLOCKLIST_CATEGORIES.map((category, index) => (
+            <React.Fragment key={category.id}>
+              {index > 0 ? <SettingsDivider /> : null}
+              <SettingsRow
+                icon="slash"
+                title={`Block ${category.name.toLowerCase()}`}
+                subtitle={category.description}
+                rightElement={
+                  <Switch
+                    value={enabledCategories.includes(category.id)}
+                    onValueChange={(value) => handleToggleCategory(category.id, value)}
+                    trackColor={{ true: theme.primary, false: theme.backgroundTertiary }}
+                  />
+                }
+              />
+            </React.Fragment>
+          ))}
+        </SettingsSection>
+
+        <SettingsSection title="DNS check">
+          <SettingsRow
+            icon="git-merge"
+            title="Block aliases of blocked sites"
+            subtitle="Look up each site over DNS-over-HTTPS and block it if it points to a blocked domain"
+            rightElement={
+              <Switch
+                value={dnsCheck.enabled}
+                onValueChange={handleToggleDnsCheck}
+                trackColor={{ true: theme.primary, false: theme.backgroundTertiary }}
+              />
+            }
+          />
+          <SettingsDivider />
+          <SettingsRow
+            icon="server"
+            title="Resolver"
+            subtitle={dnsCheck.endpoint}
+            onPress={() => setEndpointInput(dnsCheck.endpoint)}
+            showChevron
+          />
+        </SettingsSection>
+
+        <SettingsSection title="Short links">
+          <SettingsRow
+            icon="link"
+            title="Check where short links lead"
+            subtitle="Ask link shorteners (t.co, bit.ly...) for the target before opening a link, and block it if the target is blocked"
+            rightElement={
+              <Switch
+                value={shortLinkCheck.enabled}
+                onValueChange={handleToggleShortLinkCheck}
+                trackColor={{ true: theme.primary, false: theme.backgroundTertiary }}
+              />
+            }
+          />
+        </SettingsSection>
+
         <SettingsSection title="Privacy">
           <SettingsRow
             icon="clock"
@@ -241,6 +372,43 @@ const handleClearCookies = useCallback(() => {
           </ThemedText>
         </View>
       </ScrollView>
+
+      <Modal
+        visible={endpointInput !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setEndpointInput(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.surface }]}>
+            <ThemedText style={styles.modalTitle}>DNS-over-HTTPS resolver</ThemedText>
+            <TextInput
+              style={[styles.modalInput, { borderColor: theme.border, color: theme.text }]}
+              placeholder="https://cloudflare-dns.com/dns-query"
+              placeholderTextColor={theme.textSecondary}
+              value={endpointInput ?? ''}
+              onChangeText={setEndpointInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => setEndpointInput(null)}
+                style={[styles.modalButton, { borderColor: theme.border }]}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: theme.textSecondary }]}>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleSaveEndpoint}
+                style={[styles.modalButton, styles.modalPrimaryButton, { backgroundColor: theme.primary }]}
+              >
+                <ThemedText style={[styles.modalButtonText, { color: theme.buttonText }]}>Save</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </ThemedView>
   );
 }
@@ -316,4 +484,51 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     fontSize: 11,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing.lg,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.lg,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: Spacing.md,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.sm,
+    fontSize: 16,
+    marginBottom: Spacing.md,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  modalPrimaryButton: {
+    borderWidth: 0,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
 });
@@ -14,4 +14,7 @@ const config = getDefaultConfig(projectRoot);
 // path hardcoded as the @/ alias target, causing "Unable to resolve module" errors.
 config.cacheVersion = projectRoot;
 
+// The compiled embedded blocklist (assets/blocklists/embedded.bin) is bundled as an asset
+config.resolver.assetExts.push('bin');
+
 module.exports = config;
\ No newline at end of file
@@ -0,0 +1,482 @@
+/**
+ * Expo Config Plugin: withWebViewRequestBlocking
+ *
+ * Adds native sub-resource request blocking to react-native-webview on
+ * Android. Every request a page makes (scripts, images, frames, XHR, fonts,
+ * including the ones in the initial HTML that page scripts cannot patch)
+ * passes through WebViewClient.shouldInterceptRequest, where it is checked
+ * against the blocklists and answered with an empty response if blocked.
+ *
+ * The rules come from a file the app writes to its files directory
+ * (client/lib/Blocklist/native-rules.ts describes the format); the
+ * interceptor reloads it whenever it changes. Each blocked request is
+ * reported to the app as a 'nativeResourceBlocked' WebView message, for the
+ * per-page blocked count.
+ *
+ * The plugin works by:
+ * 1. Writing SafeBrowseRequestBlocker.java next to react-native-webview's sources
+ * 2. Adding a shouldInterceptRequest override to RNCWebViewClient.java that calls it
+ * 3. This runs during `expo prebuild`
+ */
+
+const { withDangerousMod } = require('@expo/config-plugins');
+const fs = require('fs');
+const path = require('path');
+
+const PATCH_MARKER = 'SafeBrowseRequestBlocking_PATCHED';
+
+// Keep RULES_FILENAME in sync with NATIVE_REQUEST_RULES_FILENAME and the
+// tokenization/matching with client/lib/Blocklist/network.ts
+const BLOCKER_SOURCE = `package com.reactnativecommunity.webview;
+
+// Generated by plugins/withWebViewRequestBlocking.js, do not edit
+
+import android.content.Context;
+import android.net.Uri;
+import android.util.Log;
+import android.webkit.WebResourceRequest;
+import android.webkit.WebResourceResponse;
+import android.webkit.WebView;
+
+import org.json.JSONObject;
+
+import java.io.BufferedReader;
+import java.io.ByteArrayInputStream;
+import java.io.File;
+import java.io.FileReader;
+import java.net.InetAddress;
+import java.util.ArrayList;
+import java.util.HashMap;
+import java.util.HashSet;
+import java.util.List;
+import java.util.Locale;
+import java.util.Map;
+import java.util.regex.Pattern;
+import java.util.regex.PatternSyntaxException;
+
+public final class SafeBrowseRequestBlocker {
+    private static final String TAG = "SafeBrowseBlocker";
+    private static final String RULES_FILENAME = "safebrowse-request-rules.tsv";
+    private static final long RELOAD_CHECK_INTERVAL_MS = 2000;
+
+    // Same order as RESOURCE_TYPES in network.ts
+    private static final int TYPE_SCRIPT = 0;
+    private static final int TYPE_IMAGE = 1;
+    private static final int TYPE_STYLESHEET = 2;
+    private static final int TYPE_XMLHTTPREQUEST = 3;
+    private static final int TYPE_SUBDOCUMENT = 4;
+    private static final int TYPE_MEDIA = 5;
+    private static final int TYPE_FONT = 6;
+    private static final int TYPE_OTHER = 9;
+
+    private static final class Filter {
+        final Pattern pattern;
+        final int typeMask;
+        final int party;
+
+        Filter(Pattern pattern, int typeMask, int party) {
+            this.pattern = pattern;
+            this.typeMask = typeMask;
+            this.party = party;
+        }
+
+        boolean matches(String url, int typeBit, boolean thirdParty) {
+            if (typeMask != 0 && (typeMask & typeBit) == 0) return false;
+            if (party == 1 && !thirdParty) return false;
+            if (party == 2 && thirdParty) return false;
+            return pattern.matcher(url).find();
+        }
+    }
+
+    private static final class Bucket {
+        final Map<String, List<Filter>> byToken = new HashMap<>();
+        final List<Filter> untokenized = new ArrayList<>();
+
+        void add(String token, Filter filter) {
+            if (token.isEmpty()) {
+                untokenized.add(filter);
+                return;
+            }
+            List<Filter> list = byToken.get(token);
+            if (list == null) {
+                list = new ArrayList<>();
+                byToken.put(token, list);
+            }
+            list.add(filter);
+        }
+
+        boolean find(String url, List<String> tokens, int typeBit, boolean thirdParty) {
+            for (String token : tokens) {
+                List<Filter> list = byToken.get(token);
+                if (list == null) continue;
+                for (Filter filter : list) {
+                    if (filter.matches(url, typeBit, thirdParty)) return true;
+                }
+            }
+            for (Filter filter : untokenized) {
+                if (filter.matches(url, typeBit, thirdParty)) return true;
+            }
+            return false;
+        }
+    }
+
+    private static final class IpRange {
+        final byte[] bytes;
+        final int prefix;
+
+        IpRange(byte[] bytes, int prefix) {
+            this.bytes = bytes;
+            this.prefix = prefix;
+        }
+
+        boolean contains(byte[] address) {
+            if (address.length != bytes.length) return false;
+            int full = prefix / 8;
+            for (int i = 0; i < full; i++) {
+                if (address[i] != bytes[i]) return false;
+            }
+            int rest = prefix % 8;
+            if (rest == 0) return true;
+            int mask = (0xff << (8 - rest)) & 0xff;
+            return (address[full] & mask) == (bytes[full] & mask);
+        }
+    }
+
+    private static final class Rules {
+        final HashSet<String> blockedHosts = new HashSet<>();
+        final List<Pattern> hostPatterns = new ArrayList<>();
+        final List<IpRange> ipRanges = new ArrayList<>();
+        final HashSet<String> allowlist = new HashSet<>();
+        final Bucket important = new Bucket();
+        final Bucket blocks = new Bucket();
+        final Bucket exceptions = new Bucket();
+    }
+
+    private static volatile Rules rules = null;
+    private static long rulesModifiedAt = 0;
+    private static long lastCheckAt = 0;
+
+    private SafeBrowseRequestBlocker() {}
+
+    /**
+     * Return an empty response for a blocked sub-resource request, or null to let it load
+     */
+    public static WebResourceResponse intercept(WebView view, WebResourceRequest request) {
+        try {
+            // Top-level navigation goes through the app's own filter
+            if (request.isForMainFrame()) return null;
+
+            Uri uri = request.getUrl();
+            String scheme = uri.getScheme();
+            if (scheme == null || !(scheme.equals("http") || scheme.equals("https") || scheme.equals("ws") || scheme.equals("wss"))) {
+                return null;
+            }
+
+            Rules current = getRules(view.getContext());
+            if (current == null) return null;
+
+            String url = uri.toString();
+            String host = uri.getHost() == null ? "" : uri.getHost().toLowerCase(Locale.ROOT);
+            String pageHost = getPageHost(request);
+            if (!isBlocked(current, url, host, pageHost, getResourceType(request, uri))) return null;
+
+            report(view, url);
+            return new WebResourceResponse("text/plain", "utf-8", 403, "Blocked", new HashMap<String, String>(), new ByteArrayInputStream(new byte[0]));
+        } catch (Exception e) {
+            Log.w(TAG, "Request check failed", e);
+            return null;
+        }
+    }
+
+    private static boolean isBlocked(Rules current, String url, String host, String pageHost, int type) {
+        String[] labels = host.split("\\\\.");
+
+        for (int i = 0; i < labels.length; i++) {
+            if (current.allowlist.contains(join(labels, i))) return false;
+        }
+        // List exceptions were applied when the file was written
+        for (int i = 0; i < labels.length; i++) {
+            if (current.blockedHosts.contains(join(labels, i))) return true;
+        }
+        // Wildcard and regex host rules come after the exact entries
+        for (Pattern pattern : current.hostPatterns) {
+            if (pattern.matcher(host).find()) return true;
+        }
+        byte[] address = current.ipRanges.isEmpty() ? null : parseIpLiteral(host);
+        if (address != null) {
+            for (IpRange range : current.ipRanges) {
+                if (range.contains(address)) return true;
+            }
+        }
+
+        List<String> tokens = tokenize(url);
+        int typeBit = 1 << type;
+        // Unknown page: treat the request as third-party, as most are
+        boolean thirdParty = pageHost == null || !getSiteKey(host).equals(getSiteKey(pageHost));
+
+        if (current.important.find(url, tokens, typeBit, thirdParty)) return true;
+        return current.blocks.find(url, tokens, typeBit, thirdParty) && !current.exceptions.find(url, tokens, typeBit, thirdParty);
+    }
+
+    /**
+     * Bytes of an IP address literal (IPv4-mapped IPv6 comes back as IPv4), or null for a host name
+     */
+    private static byte[] parseIpLiteral(String host) {
+        String literal = host.startsWith("[") && host.endsWith("]") ? host.substring(1, host.length() - 1) : host;
+        // Only literals: InetAddress would resolve a host name over DNS
+        if (!literal.matches("[0-9.]+") && !literal.matches("[0-9a-f:.]*:[0-9a-f:.]*")) return null;
+        try {
+            return InetAddress.getByName(literal).getAddress();
+        } catch (Exception e) {
+            return null;
+        }
+    }
+
+    private static IpRange parseIpRange(String value) {
+        int slash = value.indexOf('/');
+        byte[] bytes = parseIpLiteral(slash == -1 ? value : value.substring(0, slash));
+        if (bytes == null) return null;
+        try {
+            return new IpRange(bytes, slash == -1 ? bytes.length * 8 : Integer.parseInt(value.substring(slash + 1)));
+        } catch (NumberFormatException e) {
+            return null;
+        }
+    }
+
+    private static String join(String[] labels, int start) {
+        StringBuilder builder = new StringBuilder();
+        for (int i = start; i < labels.length; i++) {
+            if (i > start) builder.append('.');
+            builder.append(labels[i]);
+        }
+        return builder.toString();
+    }
+
+    private static List<String> tokenize(String url) {
+        List<String> tokens = new ArrayList<>();
+        String lower = url.toLowerCase(Locale.ROOT);
+        int start = -1;
+        for (int i = 0; i <= lower.length(); i++) {
+            char c = i < lower.length() ? lower.charAt(i) : ' ';
+            boolean tokenChar = (c >= 'a' && c <= 'z') || (c >= '0' && c <= '9') || c == '%';
+            if (tokenChar && start == -1) {
+                start = i;
+            } else if (!tokenChar && start != -1) {
+                tokens.add(lower.substring(start, i));
+                start = -1;
+            }
+        }
+        return tokens;
+    }
+
+    private static String getSiteKey(String host) {
+        String[] labels = host.split("\\\\.");
+        if (labels.length <= 2) return host;
+        int count = labels[labels.length - 1].length() == 2 && labels[labels.length - 2].length() <= 3 ? 3 : 2;
+        return join(labels, labels.length - count);
+    }
+
+    private static String getPageHost(WebResourceRequest request) {
+        Map<String, String> headers = request.getRequestHeaders();
+        String referer = headers == null ? null : headers.get("Referer");
+        if (referer == null) return null;
+        String host = Uri.parse(referer).getHost();
+        return host == null ? null : host.toLowerCase(Locale.ROOT);
+    }
+
+    /**
+     * WebView does not say what a request is for; guess from the Accept header and the extension
+     */
+    private static int getResourceType(WebResourceRequest request, Uri uri) {
+        Map<String, String> headers = request.getRequestHeaders();
+        String accept = headers == null || headers.get("Accept") == null ? "" : headers.get("Accept");
+        String path = uri.getPath() == null ? "" : uri.getPath().toLowerCase(Locale.ROOT);
+
+        if (accept.startsWith("text/html")) return TYPE_SUBDOCUMENT;
+        if (accept.startsWith("text/css") || path.endsWith(".css")) return TYPE_STYLESHEET;
+        if (accept.startsWith("image/") || path.matches(".*\\\\.(png|jpe?g|gif|webp|svg|ico|avif)$")) return TYPE_IMAGE;
+        if (path.endsWith(".js") || path.endsWith(".mjs")) return TYPE_SCRIPT;
+        if (path.matches(".*\\\\.(woff2?|ttf|otf|eot)$")) return TYPE_FONT;
+        if (path.matches(".*\\\\.(mp4|webm|m3u8|mpd|mp3|ogg|m4a|ts)$")) return TYPE_MEDIA;
+        if (accept.contains("application/json") || headers != null && headers.containsKey("X-Requested-With")) return TYPE_XMLHTTPREQUEST;
+        return TYPE_OTHER;
+    }
+
+    private static void report(final WebView view, String url) {
+        if (!(view instanceof RNCWebView)) return;
+        try {
+            JSONObject message = new JSONObject();
+            message.put("type", "nativeResourceBlocked");
+            message.put("url", url);
+            ((RNCWebView) view).onMessage(message.toString(), url);
+        } catch (Exception e) {
+            Log.w(TAG, "Failed to report blocked request", e);
+        }
+    }
+
+    private static Rules getRules(Context context) {
+        long now = System.currentTimeMillis();
+        if (rules != null && now - lastCheckAt < RELOAD_CHECK_INTERVAL_MS) return rules;
+
+        synchronized (SafeBrowseRequestBlocker.class) {
+            if (rules != null && now - lastCheckAt < RELOAD_CHECK_INTERVAL_MS) return rules;
+            lastCheckAt = now;
+
+            File file = new File(context.getFilesDir(), RULES_FILENAME);
+            if (!file.exists()) return rules;
+            if (rules != null && file.lastModified() == rulesModifiedAt) return rules;
+
+            Rules loaded = load(file);
+            if (loaded != null) {
+                rules = loaded;
+                rulesModifiedAt = file.lastModified();
+            }
+            return rules;
+        }
+    }
+
+    private static Rules load(File file) {
+        Rules loaded = new Rules();
+        try (BufferedReader reader = new BufferedReader(new FileReader(file))) {
+            String line;
+            while ((line = reader.readLine()) != null) {
+                if (line.length() < 3 || line.charAt(1) != '\\t') continue;
+                String value = line.substring(2);
+
+                switch (line.charAt(0)) {
+                    case 'b':
+                        loaded.blockedHosts.add(value);
+                        break;
+                    case 'p':
+                        try {
+                            loaded.hostPatterns.add(Pattern.compile(value, Pattern.CASE_INSENSITIVE));
+                        } catch (PatternSyntaxException e) {
+                            Log.w(TAG, "Skipping host pattern: " + value);
+                        }
+                        break;
+                    case 'i':
+                        IpRange range = parseIpRange(value);
+                        if (range != null) {
+                            loaded.ipRanges.add(range);
+                        } else {
+                            Log.w(TAG, "Skipping IP range: " + value);
+                        }
+                        break;
+                    case 'a':
+                        loaded.allowlist.add(value);
+                        break;
+                    case 'f':
+                        addFilter(loaded, value);
+                        break;
+                    default:
+                        break;
+                }
+            }
+            Log.i(TAG, "Loaded " + loaded.blockedHosts.size() + " blocked hosts");
+            return loaded;
+        } catch (Exception e) {
+            Log.w(TAG, "Failed to load request rules", e);
+            return null;
+        }
+    }
+
+    private static void addFilter(Rules loaded, String value) {
+        // kind, token, typeMask, party, regex
+        String[] parts = value.split("\\t", 5);
+        if (parts.length != 5) return;
+
+        Pattern pattern;
+        try {
+            pattern = Pattern.compile(parts[4], Pattern.CASE_INSENSITIVE);
+        } catch (PatternSyntaxException e) {
+            return;
+        }
+
+        Filter filter = new Filter(pattern, Integer.parseInt(parts[2]), Integer.parseInt(parts[3]));
+        switch (parts[0]) {
+            case "i":
+                loaded.important.add(parts[1], filter);
+                break;
+            case "b":
+                loaded.blocks.add(parts[1], filter);
+                break;
+            case "e":
+                loaded.exceptions.add(parts[1], filter);
+                break;
+            default:
+                break;
+        }
+    }
+}
+`;
+
+const INTERCEPT_METHOD = `    // ${PATCH_MARKER}
+    @Override
+    public WebResourceResponse shouldInterceptRequest(WebView view, WebResourceRequest request) {
+        WebResourceResponse blocked = SafeBrowseRequestBlocker.intercept(view, request);
+        return blocked != null ? blocked : super.shouldInterceptRequest(view, request);
+    }
+
+`;
+
+const withWebViewRequestBlocking = (config) => {
+  return withDangerousMod(config, [
+    'android',
+    async (config) => {
+      const projectRoot = config.modRequest.projectRoot;
+
+      // Path to react-native-webview's Android source
+      const webviewPath = path.join(
+        projectRoot,
+        'node_modules',
+        'react-native-webview',
+        'android',
+        'src',
+        'main',
+        'java',
+        'com',
+        'reactnativecommunity',
+        'webview'
+      );
+
+      const clientPath = path.join(webviewPath, 'RNCWebViewClient.java');
+      const blockerPath = path.join(webviewPath, 'SafeBrowseRequestBlocker.java');
+
+      if (!fs.existsSync(clientPath)) {
+        console.warn('[withWebViewRequestBlocking] WARNING: RNCWebViewClient.java not found');
+        console.log('[withWebViewRequestBlocking] Make sure react-native-webview is installed');
+        return config;
+      }
+
+      // Always rewrite the blocker so changes to it reach existing installs
+      fs.writeFileSync(blockerPath, BLOCKER_SOURCE);
+      console.log('[withWebViewRequestBlocking] ✓ Wrote SafeBrowseRequestBlocker.java');
+
+      let content = fs.readFileSync(clientPath, 'utf-8');
+      if (content.includes(PATCH_MARKER)) {
+        console.log('[withWebViewRequestBlocking] Already patched, skipping');
+        return config;
+      }
+
+      if (/public WebResourceResponse shouldInterceptRequest\(/.test(content)) {
+        console.warn('[withWebViewRequestBlocking] WARNING: RNCWebViewClient already overrides shouldInterceptRequest, not patching');
+        return config;
+      }
+
+      // Add the override before onPageFinished, the first method of the class
+      const anchor = /    @Override\s+public void onPageFinished\(/;
+      if (!anchor.test(content)) {
+        console.warn('[withWebViewRequestBlocking] WARNING: Could not find where to add shouldInterceptRequest');
+        return config;
+      }
+
+      content = content.replace(anchor, (match) => INTERCEPT_METHOD + match);
+      fs.writeFileSync(clientPath, content);
+      console.log('[withWebViewRequestBlocking] ✓ Patched RNCWebViewClient.java: sub-resource requests are now checked against the blocklists');
+
+      return config;
+    },
+  ]);
+};
+
+module.exports = withWebViewRequestBlocking;
@@ -0,0 +1,153 @@
+/**
+ * Benchmark the embedded blocklist
+ *
+ * Measures what loading the embedded blocklist costs at startup, so a
+ * parser or matcher change cannot quietly make the app slower to open:
+ * - Parsing the curated list (assets/blocklists/embedded.txt)
+ * - Decoding the asset the app loads (assets/blocklists/embedded.bin)
+ * - Building the DomainMatcher over every category, and the memory it keeps
+ * - Looking hosts up in it
+ *
+ * Each step runs several times and the median is reported. The run fails
+ * if a median exceeds its budget below; raise a budget only together with
+ * the change that needs it.
+ *
+ * Run: npm run blocklist:bench
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { BLOCKLIST_CATEGORIES } from '../client/lib/Blocklist/categories';
+import { decodeDomainSections, DomainSections, IP_SECTION_SUFFIX, PATTERN_SECTION_SUFFIX } from '../client/lib/Blocklist/embedded-codec';
+import { BlocklistSource, DomainMatcher } from '../client/lib/Blocklist/matcher';
+import { parseDomainsRules } from '../client/lib/Blocklist/parser';
+
+const projectRoot = path.resolve(__dirname, '..');
+const SOURCE_PATH = path.join(projectRoot, 'assets', 'blocklists', 'embedded.txt');
+const ASSET_PATH = path.join(projectRoot, 'assets', 'blocklists', 'embedded.bin');
+
+const LOG_PREFIX = '[benchmark-blocklist]';
+const RUNS = 7;
+const LOOKUP_ITERATIONS = 200000;
+
+/**
+ * Budgets, about three times what a single-core build machine measured
+ * (parse 640 ms, decode 270 ms, build 620 ms, 5 MB, 3.6 µs per lookup)
+ */
+const BUDGETS = {
+  parseMs: 2000,
+  decodeMs: 800,
+  buildMs: 2000,
+  matcherMemoryMb: 15,
+  lookupNs: 12000,
+};
+
+/**
+ * Hosts looked up in a loop: blocked, subdomains of blocked, not blocked,
+ * pattern and IP hosts
+ */
+const LOOKUP_HOSTS = [
+  'pornhub.com',
+  'a.b.c.pornhub.com',
+  'm.tiktok.com',
+  'ad.doubleclick.net',
+  'www.google.com',
+  'en.wikipedia.org',
+  'cdn.jsdelivr.net',
+  'zphimsex123.pro',
+  '5.61.55.143',
+  'images.example.org',
+];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function measure<T>(run: () => T): { ms: number; result: T } {
+  const times: number[] = [];
+  let result!: T;
+  for (let i = 0; i < RUNS; i++) {
+    const start = process.hrtime.bigint();
+    result = run();
+    times.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  return { ms: median(times), result };
+}
+
+/**
+ * Memory held by JavaScript objects, including typed array buffers
+ */
+function usedMemory(): number {
+  const { heapUsed, arrayBuffers } = process.memoryUsage();
+  return heapUsed + arrayBuffers;
+}
+
+function collectGarbage(): void {
+  if (global.gc) {
+    global.gc();
+    global.gc();
+  }
+}
+
+function toSources(sections: DomainSections): BlocklistSource[] {
+  return BLOCKLIST_CATEGORIES.filter(category => sections[category.id]).map(category => ({
+    id: `embedded:${category.id}`,
+    domains: sections[category.id],
+    patterns: sections[category.id + PATTERN_SECTION_SUFFIX],
+    ipRanges: sections[category.id + IP_SECTION_SUFFIX],
+  }));
+}
+
+function main(): void {
+  if (!global.gc) {
+    console.warn(`${LOG_PREFIX} Run with --expose-gc for an accurate memory figure (npm run blocklist:bench does)`);
+  }
+
+  const source = fs.readFileSync(SOURCE_PATH, 'utf-8');
+  const asset = new Uint8Array(fs.readFileSync(ASSET_PATH));
+
+  const parse = measure(() => parseDomainsRules(source));
+  const decode = measure(() => decodeDomainSections(asset));
+  const sources = toSources(decode.result);
+  const build = measure(() => DomainMatcher.build(sources));
+
+  // Memory kept by one matcher, with the decoded sections already in memory
+  collectGarbage();
+  const memoryBefore = usedMemory();
+  let matcher: DomainMatcher | null = DomainMatcher.build(sources);
+  collectGarbage();
+  const matcherMemoryMb = (usedMemory() - memoryBefore) / 1024 / 1024;
+
+  let blocked = 0;
+  const lookupStart = process.hrtime.bigint();
+  for (let i = 0; i < LOOKUP_ITERATIONS; i++) {
+    if (matcher.isBlocked(LOOKUP_HOSTS[i % LOOKUP_HOSTS.length])) blocked++;
+  }
+  const lookupNs = Number(process.hrtime.bigint() - lookupStart) / LOOKUP_ITERATIONS;
+  const size = matcher.size;
+  matcher = null;
+
+  const results: { name: string; value: number; budget: number; unit: string }[] = [
+    { name: `Parse embedded.txt (${parse.result.domains.length} domains)`, value: parse.ms, budget: BUDGETS.parseMs, unit: 'ms' },
+    { name: `Decode embedded.bin (${asset.length} bytes)`, value: decode.ms, budget: BUDGETS.decodeMs, unit: 'ms' },
+    { name: `Build matcher (${size} domains)`, value: build.ms, budget: BUDGETS.buildMs, unit: 'ms' },
+    { name: 'Matcher memory', value: matcherMemoryMb, budget: BUDGETS.matcherMemoryMb, unit: 'MB' },
+    { name: `Lookup (${blocked}/${LOOKUP_ITERATIONS} blocked)`, value: lookupNs, budget: BUDGETS.lookupNs, unit: 'ns/op' },
+  ];
+
+  let failed = false;
+  for (const { name, value, budget, unit } of results) {
+    const ok = value <= budget;
+    failed = failed || !ok;
+    console.log(`${LOG_PREFIX} ${ok ? '✓' : '✗'} ${name}: ${value.toFixed(1)} ${unit} (budget ${budget} ${unit})`);
+  }
+
+  if (failed) {
+    console.error(`${LOG_PREFIX} Over budget; see the comment above BUDGETS in scripts/benchmark-blocklist.ts`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,168 @@
+/**
+ * Compile the embedded blocklist
+ *
+ * Reads the curated plain-text list (assets/blocklists/embedded.txt) and
+ * writes the compact asset the app loads (assets/blocklists/embedded.bin)
+ * plus a manifest with its domain counts and checksum
+ * (client/lib/Blocklist/embedded-manifest.ts).
+ *
+ * Domains are grouped by the `# @category <id>` line above them; every
+ * domain must belong to a category known to client/lib/Blocklist/categories.ts.
+ * Wildcard and regex host rules (`zphimsex*.pro`, `/^ads\d+\.example\.com$/`)
+ * are stored in a section of their own per category, and so are IP address
+ * and CIDR rules (`5.61.55.143`, `5.61.55.0/24`, `2001:db8::/32`).
+ *
+ * Run after editing the list:  npm run blocklist:build
+ * Verify the asset is current: npm run blocklist:check
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+  encodeDomainSections,
+  readDomainListHeader,
+  formatChecksum,
+  DomainSections,
+  EMBEDDED_BLOCKLIST_FORMAT_VERSION,
+  IP_SECTION_SUFFIX,
+  PATTERN_SECTION_SUFFIX,
+} from '../client/lib/Blocklist/embedded-codec';
+import { BLOCKLIST_CATEGORIES, isBlocklistCategory } from '../client/lib/Blocklist/categories';
+import { isHostGlobRule, isHostRegexRule, toHostPattern } from '../client/lib/Blocklist/host-patterns';
+import { formatIpRange, toIpRange } from '../client/lib/Blocklist/ip-ranges';
+import { toBlockableHost } from '../client/lib/Blocklist/parser';
+
+const projectRoot = path.resolve(__dirname, '..');
+const SOURCE_PATH = path.join(projectRoot, 'assets', 'blocklists', 'embedded.txt');
+const ASSET_PATH = path.join(projectRoot, 'assets', 'blocklists', 'embedded.bin');
+const MANIFEST_PATH = path.join(projectRoot, 'client', 'lib', 'Blocklist', 'embedded-manifest.ts');
+
+const LOG_PREFIX = '[compile-embedded-blocklist]';
+const MAX_REPORTED_LINES = 20;
+
+const CATEGORY_DIRECTIVE = /^#\s*@category\s+(\S+)\s*$/;
+
+function fail(message: string): never {
+  console.error(`${LOG_PREFIX} ${message}`);
+  process.exit(1);
+}
+
+function readSourceSections(): DomainSections {
+  const lines = fs.readFileSync(SOURCE_PATH, 'utf-8').split(/\r?\n/);
+  const sections: DomainSections = {};
+  let domains: string[] | null = null;
+  let patterns: string[] | null = null;
+  let ips: string[] | null = null;
+  const invalid: string[] = [];
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    const directive = CATEGORY_DIRECTIVE.exec(line);
+    if (directive) {
+      const category = directive[1];
+      if (!isBlocklistCategory(category)) {
+        fail(`Unknown category "${category}" on line ${index + 1}, expected one of: ${BLOCKLIST_CATEGORIES.map(c => c.id).join(', ')}`);
+      }
+      domains = sections[category] || (sections[category] = []);
+      patterns = sections[category + PATTERN_SECTION_SUFFIX] || (sections[category + PATTERN_SECTION_SUFFIX] = []);
+      ips = sections[category + IP_SECTION_SUFFIX] || (sections[category + IP_SECTION_SUFFIX] = []);
+      return;
+    }
+    if (!line || line.startsWith('#')) return;
+
+    if (!domains || !patterns || !ips) {
+      fail(`Line ${index + 1} (${line}) comes before the first \`# @category\` line`);
+    }
+
+    const range = toIpRange(line);
+    if (range) {
+      ips.push(formatIpRange(range));
+      return;
+    }
+
+    if (isHostGlobRule(line) || isHostRegexRule(line)) {
+      const pattern = toHostPattern(line);
+      if (pattern) {
+        patterns.push(pattern);
+      } else {
+        invalid.push(`  line ${index + 1}: ${line}`);
+      }
+      return;
+    }
+
+    const result = toBlockableHost(line);
+    if ('reason' in result) {
+      invalid.push(`  line ${index + 1}: ${line}`);
+      return;
+    }
+    domains.push(result.host);
+  });
+
+  if (invalid.length > 0) {
+    console.warn(`${LOG_PREFIX} Skipped ${invalid.length} lines that are not domains, IP addresses or host patterns:`);
+    console.warn(invalid.slice(0, MAX_REPORTED_LINES).join('\n'));
+    if (invalid.length > MAX_REPORTED_LINES) {
+      console.warn(`  ... and ${invalid.length - MAX_REPORTED_LINES} more`);
+    }
+  }
+  // Categories without patterns or IP rules need no section for them
+  for (const name of Object.keys(sections)) {
+    if (sections[name].length === 0) delete sections[name];
+  }
+  return sections;
+}
+
+function isCategorySection(name: string): boolean {
+  return !name.endsWith(PATTERN_SECTION_SUFFIX) && !name.endsWith(IP_SECTION_SUFFIX);
+}
+
+function renderManifest(sections: DomainSections, count: number, checksum: number, byteLength: number): string {
+  const size = (name: string) => new Set(sections[name] || []).size;
+  const categories = Object.keys(sections)
+    .filter(isCategorySection)
+    .map(category => `    '${category}': { domains: ${size(category)}, patterns: ${size(category + PATTERN_SECTION_SUFFIX)}, ips: ${size(category + IP_SECTION_SUFFIX)} },`)
+    .join('\n');
+
+  return `// Generated by scripts/compile-embedded-blocklist.ts from assets/blocklists/embedded.txt
+// Do not edit: run \`npm run blocklist:build\` after changing the list
+
+export const EMBEDDED_BLOCKLIST_MANIFEST = {
+  formatVersion: ${EMBEDDED_BLOCKLIST_FORMAT_VERSION},
+  count: ${count},
+  checksum: '${formatChecksum(checksum)}',
+  byteLength: ${byteLength},
+  categories: {
+${categories}
+  },
+} as const;
+`;
+}
+
+function main(): void {
+  const check = process.argv.includes('--check');
+
+  const sections = readSourceSections();
+  const bytes = encodeDomainSections(sections);
+  const { count, checksum } = readDomainListHeader(bytes);
+  const manifest = renderManifest(sections, count, checksum, bytes.length);
+
+  if (check) {
+    const assetCurrent = fs.existsSync(ASSET_PATH) && Buffer.from(bytes).equals(fs.readFileSync(ASSET_PATH));
+    const manifestCurrent = fs.existsSync(MANIFEST_PATH) && fs.readFileSync(MANIFEST_PATH, 'utf-8') === manifest;
+    if (!assetCurrent || !manifestCurrent) {
+      console.error(`${LOG_PREFIX} The embedded blocklist asset is out of date, run \`npm run blocklist:build\``);
+      process.exit(1);
+    }
+    console.log(`${LOG_PREFIX} ✓ Asset is up to date (${count} domains)`);
+    return;
+  }
+
+  fs.writeFileSync(ASSET_PATH, bytes);
+  fs.writeFileSync(MANIFEST_PATH, manifest);
+
+  const sourceSize = fs.statSync(SOURCE_PATH).size;
+  console.log(`${LOG_PREFIX} ✓ Wrote ${count} domains in ${Object.keys(sections).filter(isCategorySection).length} categories: ${bytes.length} bytes (source ${sourceSize} bytes), checksum ${formatChecksum(checksum)}`);
+}
+
+main();